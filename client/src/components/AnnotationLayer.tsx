@@ -0,0 +1,231 @@
+/**
+ * AnnotationLayer Component - 会場注釈（壁・通路・非常口・柱・キャプション）の描画と編集
+ * Blueprint Technical Design System
+ *
+ * 注釈モードの選択ツールでのみクリック・ドラッグを受け付ける（それ以外は表示のみ）
+ * - ライン・多角形: 選択中は頂点ハンドルをドラッグして形状を編集
+ * - 矩形・テキスト・アイコン: 選択中は Transformer で拡大縮小・回転（倍率は寸法に反映して 1 に戻す）
+ */
+
+import { Layer, Group, Line, Rect, Text, Circle, Transformer } from 'react-konva';
+import { useEffect, useRef, useState } from 'react';
+import type Konva from 'konva';
+import type { Annotation, PathAnnotation } from '@/types/venue';
+import { ANNOTATION_ICONS, getAnnotationFill } from '@/lib/annotations';
+
+interface AnnotationLayerProps {
+  annotations: Annotation[];
+  selectedId: string | null;
+  editable: boolean;
+  scale: number; // ハンドルを画面上で一定の大きさにするためのズーム倍率
+  onSelect: (annotationId: string) => void;
+  onChange: (annotationId: string, changes: Partial<Annotation>) => void;
+  children?: React.ReactNode; // 作図中のプレビュー
+}
+
+const SELECTED_COLOR = '#00d4ff';
+
+export function AnnotationLayer({ annotations, selectedId, editable, scale, onSelect, onChange, children }: AnnotationLayerProps) {
+  const nodes = useRef(new Map<string, Konva.Group>());
+  const transformerRef = useRef<Konva.Transformer>(null);
+  // 頂点ドラッグ中の点列（確定までは履歴に積まない）
+  const [editingPoints, setEditingPoints] = useState<{ id: string; points: number[] } | null>(null);
+
+  const selected = editable ? annotations.find(a => a.id === selectedId) : undefined;
+  const usesTransformer = !!selected && selected.kind !== 'polyline' && selected.kind !== 'polygon';
+
+  useEffect(() => {
+    const transformer = transformerRef.current;
+    if (!transformer) return;
+    const node = selected ? nodes.current.get(selected.id) : undefined;
+    transformer.nodes(usesTransformer && node ? [node] : []);
+    transformer.getLayer()?.batchDraw();
+  }, [selected, usesTransformer]);
+
+  const handleTransformEnd = (annotation: Annotation, node: Konva.Group) => {
+    const scaleX = node.scaleX();
+    const scaleY = node.scaleY();
+    node.scale({ x: 1, y: 1 });
+    const base = { x: node.x(), y: node.y(), rotation: node.rotation() };
+    if (annotation.kind === 'rect') {
+      onChange(annotation.id, {
+        ...base,
+        width: Math.max(1, annotation.width * scaleX),
+        height: Math.max(1, annotation.height * scaleY),
+      });
+    } else if (annotation.kind === 'text') {
+      onChange(annotation.id, { ...base, fontSize: Math.max(4, Math.round(annotation.fontSize * scaleY)) });
+    } else if (annotation.kind === 'icon') {
+      onChange(annotation.id, { ...base, size: Math.max(8, Math.round(annotation.size * scaleX)) });
+    }
+  };
+
+  const renderShape = (annotation: Annotation, isSelected: boolean) => {
+    switch (annotation.kind) {
+      case 'polyline':
+      case 'polygon': {
+        const points = editingPoints?.id === annotation.id ? editingPoints.points : annotation.points;
+        return (
+          <Line
+            points={points}
+            closed={annotation.kind === 'polygon'}
+            stroke={annotation.color}
+            strokeWidth={annotation.strokeWidth}
+            fill={annotation.kind === 'polygon' && annotation.filled ? getAnnotationFill(annotation.color) : undefined}
+            dash={annotation.dashed ? [annotation.strokeWidth * 3, annotation.strokeWidth * 2] : undefined}
+            lineCap="round"
+            lineJoin="round"
+            hitStrokeWidth={Math.max(12, annotation.strokeWidth)}
+            shadowColor={SELECTED_COLOR}
+            shadowBlur={isSelected ? 10 : 0}
+            perfectDrawEnabled={false}
+          />
+        );
+      }
+      case 'rect':
+        return (
+          <Rect
+            width={annotation.width}
+            height={annotation.height}
+            stroke={annotation.color}
+            strokeWidth={annotation.strokeWidth}
+            fill={annotation.filled ? getAnnotationFill(annotation.color) : undefined}
+            dash={annotation.dashed ? [annotation.strokeWidth * 3, annotation.strokeWidth * 2] : undefined}
+            hitStrokeWidth={Math.max(12, annotation.strokeWidth)}
+            perfectDrawEnabled={false}
+          />
+        );
+      case 'text':
+        return (
+          <Text
+            text={annotation.text}
+            fontSize={annotation.fontSize}
+            fontStyle="bold"
+            fill={annotation.color}
+          />
+        );
+      case 'icon': {
+        const icon = ANNOTATION_ICONS[annotation.icon];
+        const half = annotation.size / 2;
+        return (
+          <>
+            <Rect
+              x={-half}
+              y={-half}
+              width={annotation.size}
+              height={annotation.size}
+              cornerRadius={annotation.size * 0.15}
+              fill={annotation.color}
+              stroke="#ffffff"
+              strokeWidth={1.5}
+            />
+            <Text
+              x={-half}
+              y={-half}
+              width={annotation.size}
+              height={annotation.size}
+              text={icon.short}
+              fontSize={annotation.size * 0.3}
+              fontStyle="bold"
+              fill="#ffffff"
+              align="center"
+              verticalAlign="middle"
+            />
+          </>
+        );
+      }
+    }
+  };
+
+  // 選択中のライン・多角形の頂点ハンドル（Group 内の相対座標）
+  const renderHandles = (annotation: PathAnnotation) => {
+    const points = editingPoints?.id === annotation.id ? editingPoints.points : annotation.points;
+    const handles: React.ReactNode[] = [];
+    for (let i = 0; i < points.length; i += 2) {
+      handles.push(
+        <Circle
+          key={i}
+          x={points[i]}
+          y={points[i + 1]}
+          radius={6 / scale}
+          fill="#ffffff"
+          stroke={SELECTED_COLOR}
+          strokeWidth={1.5 / scale}
+          draggable
+          onDragStart={(e) => {
+            e.cancelBubble = true;
+          }}
+          onDragMove={(e) => {
+            e.cancelBubble = true;
+            const next = [...points];
+            next[i] = e.target.x();
+            next[i + 1] = e.target.y();
+            setEditingPoints({ id: annotation.id, points: next });
+          }}
+          onDragEnd={(e) => {
+            e.cancelBubble = true;
+            const next = [...points];
+            next[i] = e.target.x();
+            next[i + 1] = e.target.y();
+            setEditingPoints(null);
+            onChange(annotation.id, { points: next });
+          }}
+        />,
+      );
+    }
+    return handles;
+  };
+
+  return (
+    <Layer listening={editable}>
+      {annotations.map((annotation) => {
+        const isSelected = annotation.id === selected?.id;
+        return (
+          <Group
+            key={annotation.id}
+            ref={(node) => {
+              if (node) nodes.current.set(annotation.id, node);
+              else nodes.current.delete(annotation.id);
+            }}
+            x={annotation.x}
+            y={annotation.y}
+            rotation={annotation.rotation ?? 0}
+            draggable={editable}
+            onClick={(e) => {
+              e.cancelBubble = true;
+              onSelect(annotation.id);
+            }}
+            onTap={(e) => {
+              e.cancelBubble = true;
+              onSelect(annotation.id);
+            }}
+            onDragStart={() => onSelect(annotation.id)}
+            onDragEnd={(e) => {
+              if (e.target !== e.currentTarget) return;
+              onChange(annotation.id, { x: e.target.x(), y: e.target.y() });
+            }}
+            onTransformEnd={(e) => handleTransformEnd(annotation, e.target as Konva.Group)}
+          >
+            {renderShape(annotation, isSelected)}
+            {isSelected && (annotation.kind === 'polyline' || annotation.kind === 'polygon') && renderHandles(annotation)}
+          </Group>
+        );
+      })}
+
+      {editable && (
+        <Transformer
+          ref={transformerRef}
+          rotateEnabled={true}
+          keepRatio={selected?.kind !== 'rect'}
+          enabledAnchors={selected?.kind === 'rect'
+            ? ['top-left', 'top-center', 'top-right', 'middle-left', 'middle-right', 'bottom-left', 'bottom-center', 'bottom-right']
+            : ['top-left', 'top-right', 'bottom-left', 'bottom-right']}
+          borderStroke={SELECTED_COLOR}
+          anchorStroke={SELECTED_COLOR}
+        />
+      )}
+
+      {children}
+    </Layer>
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * AnnotationToolbar Component - 注釈モードの作図ツール・スタイル編集バー
+ * Blueprint Technical Design System
+ *
+ * 注釈モードでキャンバス上部中央に表示。色は選択中の注釈と次に描く注釈の両方に適用する
+ */
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { MousePointer2, Spline, Pentagon, Square, Type, MapPin, PaintBucket, Minus, Trash2 } from 'lucide-react';
+import { ANNOTATION_COLORS, ANNOTATION_ICONS } from '@/lib/annotations';
+import type { Annotation, AnnotationIcon, AnnotationTool } from '@/types/venue';
+
+interface AnnotationToolbarProps {
+  tool: AnnotationTool;
+  onToolChange: (tool: AnnotationTool) => void;
+  icon: AnnotationIcon;
+  onIconChange: (icon: AnnotationIcon) => void;
+  color: string;
+  onColorChange: (color: string) => void;
+  selected?: Annotation;
+  onUpdate: (changes: Partial<Annotation>) => void;
+  onDelete: () => void;
+}
+
+const tools: { id: AnnotationTool; label: string; icon: React.ReactNode }[] = [
+  { id: 'select', label: '選択・移動', icon: <MousePointer2 className="w-3.5 h-3.5" /> },
+  { id: 'polyline', label: 'ライン（壁・通路）', icon: <Spline className="w-3.5 h-3.5" /> },
+  { id: 'polygon', label: '多角形（柱・エリア）', icon: <Pentagon className="w-3.5 h-3.5" /> },
+  { id: 'rect', label: '矩形', icon: <Square className="w-3.5 h-3.5" /> },
+  { id: 'text', label: 'テキスト', icon: <Type className="w-3.5 h-3.5" /> },
+  { id: 'icon', label: 'アイコン（非常口・トイレ・カメラ台）', icon: <MapPin className="w-3.5 h-3.5" /> },
+];
+
+const hints: Record<AnnotationTool, string> = {
+  select: 'クリックで選択 / ドラッグで移動 / 頂点ハンドルで形状を編集 / Delete で削除',
+  polyline: 'クリックで点を追加 / ダブルクリック・Enter で確定 / Esc で取消',
+  polygon: 'クリックで頂点を追加 / ダブルクリック・Enter で閉じて確定 / Esc で取消',
+  rect: 'ドラッグで矩形を描画',
+  text: 'クリックした位置にテキストを配置（内容は上のバーで編集）',
+  icon: 'クリックした位置にアイコンを配置',
+};
+
+export function AnnotationToolbar({
+  tool,
+  onToolChange,
+  icon,
+  onIconChange,
+  color,
+  onColorChange,
+  selected,
+  onUpdate,
+  onDelete,
+}: AnnotationToolbarProps) {
+  const toggleClass = (active: boolean) =>
+    `h-7 w-7 ${active ? 'bg-primary/15 text-primary hover:bg-primary/20' : 'text-muted-foreground hover:text-foreground'}`;
+  const hasStroke = selected && (selected.kind === 'polyline' || selected.kind === 'polygon' || selected.kind === 'rect');
+  const canFill = selected && (selected.kind === 'polygon' || selected.kind === 'rect');
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50">
+      <div className="bg-card/90 backdrop-blur-md border border-border rounded-full shadow-lg px-4 py-1.5 flex items-center gap-3">
+        <div className="flex items-center gap-0.5">
+          {tools.map((t) => (
+            <Button
+              key={t.id}
+              variant="ghost"
+              size="icon"
+              className={toggleClass(tool === t.id)}
+              onClick={() => onToolChange(t.id)}
+              title={t.label}
+            >
+              {t.icon}
+            </Button>
+          ))}
+        </div>
+
+        {tool === 'icon' && (
+          <>
+            <div className="h-5 w-px bg-border" />
+            <div className="flex items-center gap-0.5">
+              {(Object.keys(ANNOTATION_ICONS) as AnnotationIcon[]).map((id) => (
+                <Button
+                  key={id}
+                  variant="ghost"
+                  size="sm"
+                  className={`h-7 px-2 text-[10px] ${icon === id ? 'bg-primary/15 text-primary hover:bg-primary/20' : 'text-muted-foreground hover:text-foreground'}`}
+                  onClick={() => onIconChange(id)}
+                >
+                  {ANNOTATION_ICONS[id].label}
+                </Button>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="h-5 w-px bg-border" />
+
+        <div className="flex items-center gap-1">
+          {ANNOTATION_COLORS.map((c) => (
+            <button
+              key={c}
+              type="button"
+              className={`w-4 h-4 rounded-full border ${color === c ? 'ring-2 ring-primary ring-offset-1 ring-offset-card' : 'border-border'}`}
+              style={{ backgroundColor: c }}
+              onClick={() => onColorChange(c)}
+              title={c}
+            />
+          ))}
+        </div>
+
+        {selected && (
+          <>
+            <div className="h-5 w-px bg-border" />
+            <div className="flex items-center gap-1">
+              {selected.kind === 'text' && (
+                <>
+                  <Input
+                    key={selected.id}
+                    className="h-7 w-36 text-xs"
+                    defaultValue={selected.text}
+                    onChange={(e) => onUpdate({ text: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min={4}
+                    max={200}
+                    className="h-7 w-14 text-xs mono"
+                    value={selected.fontSize}
+                    onChange={(e) => onUpdate({ fontSize: Math.min(200, Math.max(4, parseInt(e.target.value) || 4)) })}
+                    title="文字サイズ"
+                  />
+                </>
+              )}
+              {hasStroke && (
+                <>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={40}
+                    className="h-7 w-12 text-xs mono"
+                    value={selected.strokeWidth}
+                    onChange={(e) => onUpdate({ strokeWidth: Math.min(40, Math.max(1, parseInt(e.target.value) || 1)) })}
+                    title="線の太さ"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className={toggleClass(!!selected.dashed)}
+                    onClick={() => onUpdate({ dashed: !selected.dashed })}
+                    title="破線"
+                  >
+                    <Minus className="w-3.5 h-3.5" />
+                  </Button>
+                </>
+              )}
+              {canFill && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={toggleClass(!!selected.filled)}
+                  onClick={() => onUpdate({ filled: !selected.filled })}
+                  title="塗りつぶし"
+                >
+                  <PaintBucket className="w-3.5 h-3.5" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                onClick={onDelete}
+                title="注釈を削除（Delete）"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+
+      <p className="text-[10px] text-muted-foreground/70 text-center mt-1">
+        {hints[tool]}
+      </p>
+    </div>
+  );
+}
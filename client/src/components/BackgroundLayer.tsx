@@ -0,0 +1,88 @@
+/**
+ * BackgroundLayer Component - 背景図面の描画と配置（移動・拡大縮小・回転）
+ * Blueprint Technical Design System
+ *
+ * 通常モードでロックされていない背景のみクリックで選択でき、選択中はドラッグで移動・ハンドルで拡大縮小/回転。
+ * 未選択の背景上のドラッグはキャンバスのパンになる（誤って掴まないよう、選択してから動かす）
+ */
+
+import { Layer, Image as KonvaImage, Transformer } from 'react-konva';
+import { useEffect, useRef } from 'react';
+import type Konva from 'konva';
+import type { BackgroundImage, BackgroundTransform } from '@/types/venue';
+import { clampBackgroundScale, getBackgroundTransform } from '@/lib/background';
+
+interface BackgroundLayerProps {
+  image: CanvasImageSource; // SVG・PDF は原寸 × 解像度で描画済み（表示は原寸に合わせる）
+  background: BackgroundImage;
+  editable: boolean;
+  selected: boolean;
+  rotationSnaps?: number[];
+  onSelect: () => void;
+  onChange: (transform: BackgroundTransform) => void;
+}
+
+const SELECTED_COLOR = '#00d4ff';
+
+/** 背景ノードの名前（キャンバス側で「空白」として扱う判定に使う） */
+export const BACKGROUND_NODE_NAME = 'venue-background';
+
+export function BackgroundLayer({ image, background, editable, selected, rotationSnaps, onSelect, onChange }: BackgroundLayerProps) {
+  const imageRef = useRef<Konva.Image>(null);
+  const transformerRef = useRef<Konva.Transformer>(null);
+  const { x, y, scale, rotation } = getBackgroundTransform(background);
+
+  useEffect(() => {
+    const transformer = transformerRef.current;
+    if (!transformer) return;
+    transformer.nodes(selected && imageRef.current ? [imageRef.current] : []);
+    transformer.getLayer()?.batchDraw();
+  }, [selected]);
+
+  const commit = (node: Konva.Node) => {
+    // 縦横同率なので横方向の倍率を採用
+    const nextScale = clampBackgroundScale(Math.abs(node.scaleX()));
+    node.scale({ x: nextScale, y: nextScale });
+    onChange({ x: node.x(), y: node.y(), scale: nextScale, rotation: node.rotation() });
+  };
+
+  return (
+    <Layer listening={editable}>
+      <KonvaImage
+        ref={imageRef}
+        name={BACKGROUND_NODE_NAME}
+        image={image}
+        width={background.width}
+        height={background.height}
+        opacity={background.opacity}
+        x={x}
+        y={y}
+        scaleX={scale}
+        scaleY={scale}
+        rotation={rotation}
+        draggable={editable && selected}
+        onClick={(e) => {
+          e.cancelBubble = true;
+          onSelect();
+        }}
+        onTap={(e) => {
+          e.cancelBubble = true;
+          onSelect();
+        }}
+        onDragEnd={(e) => commit(e.target)}
+        onTransformEnd={(e) => commit(e.target)}
+      />
+      {editable && (
+        <Transformer
+          ref={transformerRef}
+          rotateEnabled={true}
+          keepRatio={true}
+          enabledAnchors={['top-left', 'top-right', 'bottom-left', 'bottom-right']}
+          rotationSnaps={rotationSnaps}
+          borderStroke={SELECTED_COLOR}
+          anchorStroke={SELECTED_COLOR}
+        />
+      )}
+    </Layer>
+  );
+}
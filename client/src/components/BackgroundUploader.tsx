@@ -1,57 +1,128 @@
 /**
  * BackgroundUploader Component - Upload and configure background image
  * Blueprint Technical Design System
+ *
+ * 配置（位置・拡大率・回転）は数値入力のほか、通常モードでキャンバス上の背景を選択してハンドルで調整できる
+ * SVG・PDF の図面はベクターのまま保持し、キャンバスではズームに合わせた解像度で描画する（PDF はページを選べる）
  */
 
-import { useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
-import { Image, Upload, X } from 'lucide-react';
-import type { BackgroundImage } from '@/types/venue';
+import { Input } from '@/components/ui/input';
+import { Image, Upload, X, Lock, LockOpen, RotateCcw, FileText, ChevronLeft, ChevronRight } from 'lucide-react';
+import type { BackgroundImage, BackgroundTransform } from '@/types/venue';
+import {
+  DEFAULT_BACKGROUND_TRANSFORM,
+  clampBackgroundScale,
+  getBackgroundTransform,
+  getSvgSize,
+  loadImageElement,
+  readFileAsDataUrl,
+} from '@/lib/background';
+import { getPdfPageSizes, renderPdfPage } from '@/lib/pdf';
 
 interface BackgroundUploaderProps {
   backgroundImage: BackgroundImage | null;
   onSetBackground: (image: BackgroundImage | null) => void;
   onUpdateOpacity: (opacity: number) => void;
+  onUpdateTransform?: (changes: Partial<BackgroundTransform>) => void;
+  onSetLocked?: (locked: boolean) => void;
 }
 
 export function BackgroundUploader({
   backgroundImage,
   onSetBackground,
   onUpdateOpacity,
+  onUpdateTransform,
+  onSetLocked,
 }: BackgroundUploaderProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  // PDF: 各ページの原寸とプレビュー用のサムネイル
+  const [pdfPageSizes, setPdfPageSizes] = useState<{ width: number; height: number }[]>([]);
+  const [pdfThumbnail, setPdfThumbnail] = useState<string | null>(null);
+
+  const pdfSrc = backgroundImage?.kind === 'pdf' ? backgroundImage.src : null;
+  const pdfPage = backgroundImage?.pdfPage ?? 1;
+
+  useEffect(() => {
+    if (!pdfSrc) {
+      setPdfPageSizes([]);
+      return;
+    }
+    let cancelled = false;
+    getPdfPageSizes(pdfSrc)
+      .then((sizes) => {
+        if (!cancelled) setPdfPageSizes(sizes);
+      })
+      .catch((error) => console.error('PDF の読み込みに失敗しました:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfSrc]);
+
+  useEffect(() => {
+    setPdfThumbnail(null);
+    if (!pdfSrc) return;
+    let cancelled = false;
+    renderPdfPage(pdfSrc, pdfPage, 0.5)
+      .then((canvas) => {
+        if (!cancelled) setPdfThumbnail(canvas.toDataURL('image/png'));
+      })
+      .catch((error) => console.error('PDF の描画に失敗しました:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfSrc, pdfPage]);
+
+  const loadBackground = async (file: File): Promise<BackgroundImage> => {
+    const src = await readFileAsDataUrl(file);
+    if (file.type === 'application/pdf') {
+      const sizes = await getPdfPageSizes(src);
+      if (sizes.length === 0) throw new Error('ページがありません');
+      return { src, kind: 'pdf', pdfPage: 1, width: sizes[0].width, height: sizes[0].height, opacity: 0.5 };
+    }
+    if (file.type === 'image/svg+xml') {
+      const size = getSvgSize(await file.text()) ?? await loadImageElement(src);
+      return { src, kind: 'svg', width: size.width, height: size.height, opacity: 0.5 };
+    }
+    const img = await loadImageElement(src);
+    return { src, width: img.width, height: img.height, opacity: 0.5 };
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (!file.type.startsWith('image/')) {
-      alert('画像ファイルを選択してください');
+    if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+      alert('画像・SVG・PDF ファイルを選択してください');
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const img = new window.Image();
-      img.onload = () => {
-        onSetBackground({
-          src: event.target?.result as string,
-          width: img.width,
-          height: img.height,
-          opacity: 0.5,
-        });
-      };
-      img.src = event.target?.result as string;
-    };
-    reader.readAsDataURL(file);
+    setIsLoading(true);
+    loadBackground(file)
+      .then(onSetBackground)
+      .catch((error) => {
+        console.error('背景の読み込みに失敗しました:', error);
+        alert('ファイルを読み込めませんでした');
+      })
+      .finally(() => setIsLoading(false));
 
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
   };
 
+  // PDF のページ切り替え（配置・不透明度はそのまま、原寸はページに合わせる）
+  const handleSelectPdfPage = (page: number) => {
+    if (!backgroundImage) return;
+    const size = pdfPageSizes[page - 1];
+    if (!size) return;
+    onSetBackground({ ...backgroundImage, pdfPage: page, width: size.width, height: size.height });
+  };
+
   return (
     <div className="rounded-xl border border-border bg-card p-4">
       <div className="flex items-center gap-2.5 mb-4">
@@ -64,7 +135,7 @@ export function BackgroundUploader({
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/jpeg,image/png,image/webp"
+        accept="image/jpeg,image/png,image/webp,image/svg+xml,application/pdf"
         onChange={handleFileChange}
         className="hidden"
       />
@@ -73,20 +144,36 @@ export function BackgroundUploader({
         <button
           className="w-full border-2 border-dashed border-border rounded-lg p-6 hover:border-primary/50 hover:bg-primary/5 transition-all group"
           onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
         >
           <Upload className="w-5 h-5 text-muted-foreground group-hover:text-primary mx-auto mb-2 transition-colors" />
-          <p className="text-xs text-muted-foreground group-hover:text-foreground transition-colors">画像をアップロード</p>
-          <p className="text-[10px] text-muted-foreground/50 mt-1">JPG / PNG / WebP</p>
+          <p className="text-xs text-muted-foreground group-hover:text-foreground transition-colors">
+            {isLoading ? '読み込み中...' : '画像・図面をアップロード'}
+          </p>
+          <p className="text-[10px] text-muted-foreground/50 mt-1">JPG / PNG / WebP / SVG / PDF</p>
         </button>
       ) : (
         <div className="space-y-3">
           <div className="relative aspect-video bg-muted/30 rounded-lg overflow-hidden border border-border">
-            <img
-              src={backgroundImage.src}
-              alt="Background preview"
-              className="w-full h-full object-contain"
-              style={{ opacity: backgroundImage.opacity }}
-            />
+            {backgroundImage.kind !== 'pdf' ? (
+              <img
+                src={backgroundImage.src}
+                alt="Background preview"
+                className="w-full h-full object-contain"
+                style={{ opacity: backgroundImage.opacity }}
+              />
+            ) : pdfThumbnail ? (
+              <img
+                src={pdfThumbnail}
+                alt="Background preview"
+                className="w-full h-full object-contain bg-white"
+                style={{ opacity: backgroundImage.opacity }}
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center">
+                <FileText className="w-6 h-6 text-muted-foreground/50" />
+              </div>
+            )}
             <Button
               variant="destructive"
               size="icon"
@@ -97,6 +184,43 @@ export function BackgroundUploader({
             </Button>
           </div>
 
+          {backgroundImage.kind === 'pdf' && pdfPageSizes.length > 1 && (
+            <div className="flex items-center gap-1">
+              <Label className="text-xs font-medium text-muted-foreground">ページ</Label>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="ml-auto h-6 w-6"
+                disabled={pdfPage <= 1}
+                onClick={() => handleSelectPdfPage(pdfPage - 1)}
+                title="前のページ"
+              >
+                <ChevronLeft className="w-3 h-3" />
+              </Button>
+              <select
+                value={pdfPage}
+                onChange={(e) => handleSelectPdfPage(Number(e.target.value))}
+                className="h-6 rounded-md border border-input bg-transparent px-1 text-xs mono"
+              >
+                {pdfPageSizes.map((_, index) => (
+                  <option key={index} value={index + 1}>
+                    {index + 1} / {pdfPageSizes.length}
+                  </option>
+                ))}
+              </select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={pdfPage >= pdfPageSizes.length}
+                onClick={() => handleSelectPdfPage(pdfPage + 1)}
+                title="次のページ"
+              >
+                <ChevronRight className="w-3 h-3" />
+              </Button>
+            </div>
+          )}
+
           <div>
             <div className="flex items-center justify-between mb-2">
               <Label className="text-xs font-medium text-muted-foreground">不透明度</Label>
@@ -114,15 +238,92 @@ export function BackgroundUploader({
             />
           </div>
 
+          {onUpdateTransform && onSetLocked && (() => {
+            const transform = getBackgroundTransform(backgroundImage);
+            const locked = !!backgroundImage.locked;
+            return (
+              <div>
+                <div className="flex items-center gap-1 mb-2">
+                  <Label className="text-xs font-medium text-muted-foreground">配置</Label>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="ml-auto h-6 w-6 text-muted-foreground hover:text-foreground"
+                    disabled={locked}
+                    onClick={() => onUpdateTransform(DEFAULT_BACKGROUND_TRANSFORM)}
+                    title="原点・原寸に戻す"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className={`h-6 w-6 ${locked ? 'text-primary bg-primary/10 hover:bg-primary/20' : 'text-muted-foreground hover:text-foreground'}`}
+                    onClick={() => onSetLocked(!locked)}
+                    title={locked ? 'ロックを解除' : 'ロック（キャンバス上で動かないようにする）'}
+                  >
+                    {locked ? <Lock className="w-3 h-3" /> : <LockOpen className="w-3 h-3" />}
+                  </Button>
+                </div>
+                <div className="grid grid-cols-4 gap-1 text-[10px] text-muted-foreground mb-1 px-0.5">
+                  <span>X</span>
+                  <span>Y</span>
+                  <span>倍率%</span>
+                  <span>回転°</span>
+                </div>
+                <div className="grid grid-cols-4 gap-1">
+                  <Input
+                    type="number"
+                    value={Math.round(transform.x)}
+                    disabled={locked}
+                    onChange={(e) => onUpdateTransform({ x: parseFloat(e.target.value) || 0 })}
+                    className="h-6 text-xs px-1 mono text-center"
+                  />
+                  <Input
+                    type="number"
+                    value={Math.round(transform.y)}
+                    disabled={locked}
+                    onChange={(e) => onUpdateTransform({ y: parseFloat(e.target.value) || 0 })}
+                    className="h-6 text-xs px-1 mono text-center"
+                  />
+                  <Input
+                    type="number"
+                    min={5}
+                    step={5}
+                    value={Math.round(transform.scale * 1000) / 10}
+                    disabled={locked}
+                    onChange={(e) => onUpdateTransform({ scale: clampBackgroundScale((parseFloat(e.target.value) || 100) / 100) })}
+                    className="h-6 text-xs px-1 mono text-center"
+                  />
+                  <Input
+                    type="number"
+                    step={1}
+                    value={Math.round(transform.rotation * 10) / 10}
+                    disabled={locked}
+                    onChange={(e) => onUpdateTransform({ rotation: parseFloat(e.target.value) || 0 })}
+                    className="h-6 text-xs px-1 mono text-center"
+                  />
+                </div>
+                {!locked && (
+                  <p className="text-[10px] text-muted-foreground/70 mt-1">
+                    通常モードで背景をクリックすると、ドラッグで移動・ハンドルで拡大縮小と回転ができます
+                  </p>
+                )}
+              </div>
+            );
+          })()}
+
           <div className="flex items-center justify-between">
             <span className="text-[10px] text-muted-foreground mono">
-              {backgroundImage.width} x {backgroundImage.height}
+              {backgroundImage.kind === 'svg' ? 'SVG ' : backgroundImage.kind === 'pdf' ? 'PDF ' : ''}
+              {Math.round(backgroundImage.width)} x {Math.round(backgroundImage.height)}
             </span>
             <Button
               variant="ghost"
               size="sm"
               className="h-7 text-xs"
               onClick={() => fileInputRef.current?.click()}
+              disabled={isLoading}
             >
               <Upload className="w-3 h-3 mr-1" />
               変更
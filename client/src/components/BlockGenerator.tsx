@@ -1,6 +1,8 @@
 /**
  * BlockGenerator Component - Form for creating new seat blocks
  * Blueprint Technical Design System
+ *
+ * 縮尺を設定済みなら座席ピッチ・列の前後間隔を実寸（cm）で指定する
  */
 
 import { useState } from 'react';
@@ -9,12 +11,15 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Plus, Grid3X3 } from 'lucide-react';
 import type { BlockGeneratorForm } from '@/types/venue';
+import { buildTaperedRowLayout } from '@/lib/venueUtils';
+import { DEFAULT_SEAT_PITCH_CM, DEFAULT_ROW_DEPTH_CM, getMetricSeatLayout } from '@/lib/calibration';
 
 interface BlockGeneratorProps {
   onAddBlock: (form: BlockGeneratorForm) => void;
+  pixelsPerMeter?: number | null;
 }
 
-export function BlockGenerator({ onAddBlock }: BlockGeneratorProps) {
+export function BlockGenerator({ onAddBlock, pixelsPerMeter }: BlockGeneratorProps) {
   const [form, setForm] = useState<BlockGeneratorForm>({
     name: '',
     rows: 5,
@@ -24,12 +29,20 @@ export function BlockGenerator({ onAddBlock }: BlockGeneratorProps) {
     skewX: 0, // 生成時は0固定、生成後にBlockListから調整
     staggerX: 0,
     curveRadius: 0,
+    taper: 0,
   });
+  const [pitchCm, setPitchCm] = useState(DEFAULT_SEAT_PITCH_CM);
+  const [rowDepthCm, setRowDepthCm] = useState(DEFAULT_ROW_DEPTH_CM);
+  const metricLayout = pixelsPerMeter ? getMetricSeatLayout(pitchCm, rowDepthCm, pixelsPerMeter) : null;
+
+  const seatCount = form.taper
+    ? buildTaperedRowLayout(form.rows, form.cols, form.taper).reduce((sum, r) => sum + r.seats, 0)
+    : form.rows * form.cols;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (form.rows > 0 && form.cols > 0) {
-      onAddBlock(form);
+      onAddBlock(metricLayout ? { ...form, ...metricLayout } : form);
       setForm(prev => ({ ...prev, name: '' }));
     }
   };
@@ -89,40 +102,109 @@ export function BlockGenerator({ onAddBlock }: BlockGeneratorProps) {
           </div>
         </div>
 
-        <div className="grid grid-cols-2 gap-2">
+        {metricLayout ? (
           <div>
-            <Label htmlFor="seatSize" className="text-xs font-medium text-muted-foreground">
-              座席サイズ
-            </Label>
-            <Input
-              id="seatSize"
-              type="number"
-              min={10}
-              max={50}
-              value={form.seatSize}
-              onChange={(e) => setForm(prev => ({ ...prev, seatSize: parseInt(e.target.value) || 20 }))}
-              className="mt-1 mono text-center"
-            />
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="seatPitch" className="text-xs font-medium text-muted-foreground">
+                  座席ピッチ（cm）
+                </Label>
+                <Input
+                  id="seatPitch"
+                  type="number"
+                  min={20}
+                  max={200}
+                  value={pitchCm}
+                  onChange={(e) => setPitchCm(Math.max(1, parseInt(e.target.value) || DEFAULT_SEAT_PITCH_CM))}
+                  className="mt-1 mono text-center"
+                />
+              </div>
+              <div>
+                <Label htmlFor="rowDepth" className="text-xs font-medium text-muted-foreground">
+                  列の前後間隔（cm）
+                </Label>
+                <Input
+                  id="rowDepth"
+                  type="number"
+                  min={30}
+                  max={300}
+                  value={rowDepthCm}
+                  onChange={(e) => setRowDepthCm(Math.max(1, parseInt(e.target.value) || DEFAULT_ROW_DEPTH_CM))}
+                  className="mt-1 mono text-center"
+                />
+              </div>
+            </div>
+            <p className="text-[10px] text-muted-foreground/70 mt-1 mono">
+              座席 {metricLayout.seatSize}px / 間隔 {metricLayout.seatGap}px / 行間 {metricLayout.rowGap}px
+            </p>
           </div>
-          <div>
-            <Label htmlFor="seatGap" className="text-xs font-medium text-muted-foreground">
-              間隔
-            </Label>
-            <Input
-              id="seatGap"
-              type="number"
-              min={0}
-              max={20}
-              value={form.seatGap}
-              onChange={(e) => setForm(prev => ({ ...prev, seatGap: parseInt(e.target.value) || 0 }))}
-              className="mt-1 mono text-center"
-            />
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="seatSize" className="text-xs font-medium text-muted-foreground">
+                座席サイズ
+              </Label>
+              <Input
+                id="seatSize"
+                type="number"
+                min={10}
+                max={50}
+                value={form.seatSize}
+                onChange={(e) => setForm(prev => ({ ...prev, seatSize: parseInt(e.target.value) || 20 }))}
+                className="mt-1 mono text-center"
+              />
+            </div>
+            <div>
+              <Label htmlFor="seatGap" className="text-xs font-medium text-muted-foreground">
+                間隔
+              </Label>
+              <Input
+                id="seatGap"
+                type="number"
+                min={0}
+                max={20}
+                value={form.seatGap}
+                onChange={(e) => setForm(prev => ({ ...prev, seatGap: parseInt(e.target.value) || 0 }))}
+                className="mt-1 mono text-center"
+              />
+            </div>
           </div>
+        )}
+
+        <div>
+          <Label htmlFor="curveRadius" className="text-xs font-medium text-muted-foreground">
+            扇形半径（0=直線）
+          </Label>
+          <Input
+            id="curveRadius"
+            type="number"
+            min={0}
+            max={5000}
+            step={10}
+            value={form.curveRadius}
+            onChange={(e) => setForm(prev => ({ ...prev, curveRadius: Math.max(0, parseInt(e.target.value) || 0) }))}
+            className="mt-1 mono text-center"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="taper" className="text-xs font-medium text-muted-foreground">
+            台形（行ごとの席数増減、0=長方形）
+          </Label>
+          <Input
+            id="taper"
+            type="number"
+            min={-10}
+            max={10}
+            value={form.taper}
+            onChange={(e) => setForm(prev => ({ ...prev, taper: parseInt(e.target.value) || 0 }))}
+            className="mt-1 mono text-center"
+          />
         </div>
 
         <div className="flex items-center justify-between pt-1 pb-1">
           <span className="text-xs text-muted-foreground">生成座席数</span>
-          <span className="text-sm font-bold text-primary mono">{form.rows * form.cols} 席</span>
+          <span className="text-sm font-bold text-primary mono">{seatCount} 席</span>
         </div>
 
         <Button type="submit" className="w-full shadow-sm hover:shadow-md transition-shadow" size="sm">
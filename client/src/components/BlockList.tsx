@@ -8,30 +8,119 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
-import { Layers, Trash2, RotateCw, Pencil, Check, FlipHorizontal2, AlignHorizontalSpaceAround } from 'lucide-react';
-import type { SeatBlock } from '@/types/venue';
+import { Layers, Trash2, RotateCw, Pencil, Check, FlipHorizontal2, AlignHorizontalSpaceAround, Spline, Rows3, Plus, Minus, AlignCenter, Square, Columns3, Hash, Grid3x3, Building2 } from 'lucide-react';
+import type { SeatBlock, RowLayout, BlockAisles, SeatNumbering, BlockGridChanges, VenueLevel } from '@/types/venue';
+import { centerRowLayout } from '@/lib/venueUtils';
+import { getBlockNumbering, getSeatLabel } from '@/lib/seatNumbering';
+import { resolveLevelId } from '@/lib/levels';
+import { pxToCm } from '@/lib/calibration';
+
+const DEFAULT_AISLE_WIDTH = 24;
+
+/** "3, 8" のような1始まりの番号リストを 0始まり・昇順・範囲内に正規化 */
+function parseAisleList(text: string, max: number): number[] {
+  const values = text
+    .split(/[,\s、]+/)
+    .map(v => parseInt(v, 10) - 1)
+    .filter(v => Number.isFinite(v) && v >= 0 && v < max - 1);
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
+
+function formatAisleList(values: number[] | undefined): string {
+  return (values ?? []).map(v => v + 1).join(', ');
+}
+
+/** 座席番号設定の選択肢ボタン（選択中は塗りつぶし） */
+function OptionButton({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <Button
+      variant={active ? 'default' : 'ghost'}
+      size="sm"
+      className="h-5 px-1.5 text-[10px] flex-1"
+      onClick={onClick}
+    >
+      {children}
+    </Button>
+  );
+}
+
+/** 入力中はテキストのまま保持し、確定時（Enter/フォーカス外れ）に反映する */
+function AisleListInput({
+  value,
+  max,
+  placeholder,
+  onCommit,
+}: {
+  value: number[] | undefined;
+  max: number;
+  placeholder: string;
+  onCommit: (values: number[]) => void;
+}) {
+  const [text, setText] = useState(formatAisleList(value));
+
+  useEffect(() => {
+    setText(formatAisleList(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseAisleList(text, max);
+    setText(formatAisleList(parsed));
+    onCommit(parsed);
+  };
+
+  return (
+    <Input
+      value={text}
+      placeholder={placeholder}
+      onChange={(e) => setText(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+      }}
+      onBlur={commit}
+      className="h-6 text-xs px-1.5 mono"
+    />
+  );
+}
 
 interface BlockListProps {
   blocks: SeatBlock[];
-  selectedBlockId: string | null;
-  onSelectBlock: (blockId: string) => void;
+  selectedBlockId: string | null; // 詳細設定を表示するブロック（最後に選択したもの）
+  selectedBlockIds: string[];
+  onSelectBlock: (blockId: string, additive?: boolean) => void;
   onDeleteBlock: (blockId: string) => void;
   onRotateBlock: (blockId: string, rotation: number) => void;
   onRenameBlock: (blockId: string, name: string) => void;
+  onGridBlock: (blockId: string, changes: BlockGridChanges) => void;
   onSkewBlock: (blockId: string, skewX: number) => void;
   onStaggerBlock: (blockId: string, staggerX: number) => void;
+  onCurveBlock: (blockId: string, curveRadius: number) => void;
+  onRowLayoutBlock: (blockId: string, rowLayout: RowLayout[] | undefined) => void;
+  onAislesBlock: (blockId: string, aisles: BlockAisles | undefined) => void;
+  onNumberingBlock: (blockId: string, numbering: SeatNumbering) => void;
+  levels?: VenueLevel[];
+  onMoveBlockToLevel?: (blockId: string, levelId: string) => void;
+  pixelsPerMeter?: number | null; // 縮尺設定時は座席間隔を実寸でも表示
   onSaveSnapshot?: () => void;
 }
 
 export function BlockList({
   blocks,
   selectedBlockId,
+  selectedBlockIds,
   onSelectBlock,
   onDeleteBlock,
   onRotateBlock,
   onRenameBlock,
+  onGridBlock,
   onSkewBlock,
   onStaggerBlock,
+  onCurveBlock,
+  onRowLayoutBlock,
+  onAislesBlock,
+  onNumberingBlock,
+  levels = [],
+  onMoveBlockToLevel,
+  pixelsPerMeter,
   onSaveSnapshot,
 }: BlockListProps) {
   const selectedBlock = blocks.find(b => b.id === selectedBlockId);
@@ -87,8 +176,8 @@ export function BlockList({
         <div className="space-y-1.5 max-h-48 overflow-y-auto">
           {blocks.map((block) => {
             const activeSeats = block.seats.filter(s => !s.isDisabled).length;
-            const premiumSeats = block.seats.filter(s => !s.isDisabled && s.isPremium).length;
-            const isSelected = block.id === selectedBlockId;
+            const categorizedSeats = block.seats.filter(s => !s.isDisabled && s.categoryId).length;
+            const isSelected = selectedBlockIds.includes(block.id);
             const isEditing = editingBlockId === block.id;
             const displayName = block.name || `Block ${block.id.slice(0, 4)}`;
 
@@ -102,7 +191,7 @@ export function BlockList({
                     : 'border-transparent bg-muted/30 hover:bg-muted/50'
                   }
                 `}
-                onClick={() => onSelectBlock(block.id)}
+                onClick={(e) => onSelectBlock(block.id, e.shiftKey)}
               >
                 <div className="flex items-center justify-between">
                   <div className="flex-1 min-w-0">
@@ -148,14 +237,14 @@ export function BlockList({
                     )}
                     <div className="flex items-center gap-2 mt-0.5">
                       <span className="text-[10px] text-muted-foreground mono">
-                        {block.rows}x{block.cols}
+                        {block.kind === 'loose' ? 'ばら席' : block.rowLayout ? `${block.rows}行 可変` : `${block.rows}x${block.cols}`}
                       </span>
                       <span className="text-[10px] text-muted-foreground">
                         {activeSeats}席
                       </span>
-                      {premiumSeats > 0 && (
-                        <span className="text-[10px] text-amber-500 font-medium">
-                          {premiumSeats}
+                      {categorizedSeats > 0 && (
+                        <span className="text-[10px] text-amber-500 font-medium" title="カテゴリ設定済み">
+                          {categorizedSeats}
                         </span>
                       )}
                     </div>
@@ -178,6 +267,98 @@ export function BlockList({
         </div>
       )}
 
+      {/* Level (階の移動) - 移したブロックは表示中の階から消える */}
+      {selectedBlock && levels.length > 1 && onMoveBlockToLevel && (
+        <div className="mt-3 pt-3 border-t border-border">
+          <div className="flex items-center gap-2 mb-2">
+            <Building2 className="w-3.5 h-3.5 text-muted-foreground" />
+            <Label className="text-xs font-medium text-muted-foreground">階</Label>
+          </div>
+          <div className="flex gap-1">
+            {levels.map((level) => (
+              <OptionButton
+                key={level.id}
+                active={resolveLevelId(selectedBlock.levelId, levels) === level.id}
+                onClick={() => onMoveBlockToLevel(selectedBlock.id, level.id)}
+              >
+                {level.name}
+              </OptionButton>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Size control (行数・列数・座席サイズ・間隔) - 既存座席のIDとフラグは (行, 列) ごとに保持（ばら席は対象外） */}
+      {selectedBlock && selectedBlock.kind !== 'loose' && (
+        <div className="mt-3 pt-3 border-t border-border">
+          <div className="flex items-center gap-2 mb-2">
+            <Grid3x3 className="w-3.5 h-3.5 text-muted-foreground" />
+            <Label className="text-xs font-medium text-muted-foreground">サイズ</Label>
+            <span className="ml-auto mono text-xs font-bold text-primary">
+              {selectedBlock.rows}×{selectedBlock.cols}
+            </span>
+          </div>
+          <div className="grid grid-cols-5 gap-1 text-[10px] text-muted-foreground mb-1 px-0.5">
+            <span>行数</span>
+            <span>列数</span>
+            <span>座席</span>
+            <span>間隔</span>
+            <span>行間</span>
+          </div>
+          <div className="grid grid-cols-5 gap-1">
+            <Input
+              type="number"
+              min={1}
+              max={50}
+              value={selectedBlock.rows}
+              onChange={(e) => onGridBlock(selectedBlock.id, { rows: Math.min(50, Math.max(1, parseInt(e.target.value) || 1)) })}
+              className="h-6 text-xs px-1 mono text-center"
+            />
+            <Input
+              type="number"
+              min={1}
+              max={100}
+              value={selectedBlock.cols}
+              disabled={!!selectedBlock.rowLayout}
+              title={selectedBlock.rowLayout ? '行レイアウトの席数で編集' : undefined}
+              onChange={(e) => onGridBlock(selectedBlock.id, { cols: Math.min(100, Math.max(1, parseInt(e.target.value) || 1)) })}
+              className="h-6 text-xs px-1 mono text-center"
+            />
+            <Input
+              type="number"
+              min={10}
+              max={50}
+              value={selectedBlock.seatSize}
+              onChange={(e) => onGridBlock(selectedBlock.id, { seatSize: Math.min(50, Math.max(10, parseInt(e.target.value) || 10)) })}
+              className="h-6 text-xs px-1 mono text-center"
+            />
+            <Input
+              type="number"
+              min={0}
+              max={20}
+              value={selectedBlock.seatGap}
+              onChange={(e) => onGridBlock(selectedBlock.id, { seatGap: Math.min(20, Math.max(0, parseInt(e.target.value) || 0)) })}
+              className="h-6 text-xs px-1 mono text-center"
+            />
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={selectedBlock.rowGap ?? selectedBlock.seatGap}
+              onChange={(e) => onGridBlock(selectedBlock.id, { rowGap: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })}
+              className="h-6 text-xs px-1 mono text-center"
+              title="行の前後の間隔"
+            />
+          </div>
+          {pixelsPerMeter && (
+            <p className="text-[10px] text-muted-foreground/70 mt-1 mono">
+              ピッチ {Math.round(pxToCm(selectedBlock.seatSize + selectedBlock.seatGap, pixelsPerMeter))}cm
+              {' / '}前後 {Math.round(pxToCm(selectedBlock.seatSize + (selectedBlock.rowGap ?? selectedBlock.seatGap), pixelsPerMeter))}cm
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Rotation control for selected block */}
       {selectedBlock && (
         <div className="mt-3 pt-3 border-t border-border">
@@ -225,6 +406,8 @@ export function BlockList({
             ))}
           </div>
 
+          {/* 傾き〜通路はグリッド配置のみ（ばら席は座席を直接配置する） */}
+          {selectedBlock.kind !== 'loose' && (<>
           {/* Skew control */}
           <div className="mt-3 pt-3 border-t border-border">
             <div className="flex items-center gap-2 mb-2">
@@ -327,7 +510,334 @@ export function BlockList({
             })()}
           </div>
 
-          {/* 扇形配置は一旦削除。再設計後に追加予定 */}
+          {/* Curve control (扇形配置) - 0=直線、値が小さいほど強いカーブ */}
+          <div className="mt-3 pt-3 border-t border-border">
+            <div className="flex items-center gap-2 mb-2">
+              <Spline className="w-3.5 h-3.5 text-muted-foreground" />
+              <Label className="text-xs font-medium text-muted-foreground">扇形</Label>
+              <span className="ml-auto mono text-xs font-bold text-primary">
+                {(selectedBlock.curveRadius ?? 0) === 0 ? 'OFF' : `R${selectedBlock.curveRadius}px`}
+              </span>
+            </div>
+            <Slider
+              value={[selectedBlock.curveRadius ?? 0]}
+              min={0}
+              max={2000}
+              step={10}
+              onValueChange={([value]) => {
+                if (!sliderSnapshotSaved.current) {
+                  sliderSnapshotSaved.current = true;
+                  onSaveSnapshot?.();
+                }
+                onCurveBlock(selectedBlock.id, value);
+              }}
+              onValueCommit={() => {
+                sliderSnapshotSaved.current = false;
+              }}
+              onPointerUp={() => {
+                sliderSnapshotSaved.current = false;
+              }}
+              className="w-full"
+            />
+            <div className="flex justify-between mt-1.5">
+              {[0, 300, 600, 1000, 1500].map((radius) => (
+                <Button
+                  key={radius}
+                  variant="ghost"
+                  size="sm"
+                  className="h-5 px-1.5 text-[10px] mono text-muted-foreground hover:text-foreground"
+                  onClick={() => {
+                    onSaveSnapshot?.();
+                    onCurveBlock(selectedBlock.id, radius);
+                  }}
+                >
+                  {radius === 0 ? 'OFF' : radius}
+                </Button>
+              ))}
+            </div>
+          </div>
+          {/* Row layout (行ごとの席数・左オフセット) */}
+          <div className="mt-3 pt-3 border-t border-border">
+            <div className="flex items-center gap-2 mb-2">
+              <Rows3 className="w-3.5 h-3.5 text-muted-foreground" />
+              <Label className="text-xs font-medium text-muted-foreground">行レイアウト</Label>
+              <span className="ml-auto mono text-xs font-bold text-primary">
+                {selectedBlock.rowLayout ? '可変' : '長方形'}
+              </span>
+            </div>
+            {!selectedBlock.rowLayout ? (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full h-7 text-xs"
+                onClick={() => {
+                  onSaveSnapshot?.();
+                  onRowLayoutBlock(
+                    selectedBlock.id,
+                    Array.from({ length: selectedBlock.rows }, () => ({ seats: selectedBlock.cols, offset: 0 })),
+                  );
+                }}
+              >
+                行ごとに編集
+              </Button>
+            ) : (() => {
+              const rowLayout = selectedBlock.rowLayout;
+              const updateRow = (index: number, changes: Partial<RowLayout>) => {
+                onRowLayoutBlock(
+                  selectedBlock.id,
+                  rowLayout.map((r, i) => (i === index ? { ...r, ...changes } : r)),
+                );
+              };
+              return (
+                <>
+                  <div className="grid grid-cols-[2rem_1fr_1fr] gap-1 text-[10px] text-muted-foreground mb-1 px-0.5">
+                    <span>行</span>
+                    <span>席数</span>
+                    <span>左オフセット</span>
+                  </div>
+                  <div className="space-y-1 max-h-40 overflow-y-auto">
+                    {rowLayout.map((r, index) => (
+                      <div key={index} className="grid grid-cols-[2rem_1fr_1fr] gap-1 items-center">
+                        <span className="text-[10px] mono text-muted-foreground text-center">{index + 1}</span>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={200}
+                          value={r.seats}
+                          onChange={(e) => updateRow(index, { seats: Math.max(1, parseInt(e.target.value) || 1) })}
+                          className="h-6 text-xs px-1.5 mono text-center"
+                        />
+                        <Input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={r.offset}
+                          onChange={(e) => updateRow(index, { offset: Math.max(0, parseFloat(e.target.value) || 0) })}
+                          className="h-6 text-xs px-1.5 mono text-center"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-between mt-1.5">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-5 px-1.5 text-[10px] text-muted-foreground hover:text-foreground"
+                      onClick={() => {
+                        onSaveSnapshot?.();
+                        const last = rowLayout[rowLayout.length - 1];
+                        onRowLayoutBlock(selectedBlock.id, [...rowLayout, { ...last }]);
+                      }}
+                    >
+                      <Plus className="w-3 h-3 mr-0.5" />行
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-5 px-1.5 text-[10px] text-muted-foreground hover:text-foreground"
+                      disabled={rowLayout.length <= 1}
+                      onClick={() => {
+                        onSaveSnapshot?.();
+                        onRowLayoutBlock(selectedBlock.id, rowLayout.slice(0, -1));
+                      }}
+                    >
+                      <Minus className="w-3 h-3 mr-0.5" />行
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-5 px-1.5 text-[10px] text-muted-foreground hover:text-foreground"
+                      onClick={() => {
+                        onSaveSnapshot?.();
+                        onRowLayoutBlock(selectedBlock.id, centerRowLayout(rowLayout));
+                      }}
+                    >
+                      <AlignCenter className="w-3 h-3 mr-0.5" />中央
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-5 px-1.5 text-[10px] text-muted-foreground hover:text-foreground"
+                      onClick={() => {
+                        onSaveSnapshot?.();
+                        onRowLayoutBlock(selectedBlock.id, undefined);
+                      }}
+                    >
+                      <Square className="w-3 h-3 mr-0.5" />長方形
+                    </Button>
+                  </div>
+                </>
+              );
+            })()}
+          </div>
+
+          {/* Aisles (ブロック内通路) - 番号は通路をまたいで連番 */}
+          <div className="mt-3 pt-3 border-t border-border">
+            <div className="flex items-center gap-2 mb-2">
+              <Columns3 className="w-3.5 h-3.5 text-muted-foreground" />
+              <Label className="text-xs font-medium text-muted-foreground">通路</Label>
+              <span className="ml-auto mono text-xs font-bold text-primary">
+                {selectedBlock.aisles
+                  ? `${selectedBlock.aisles.afterCols.length + selectedBlock.aisles.afterRows.length}本`
+                  : 'なし'}
+              </span>
+            </div>
+            {(() => {
+              const aisles = selectedBlock.aisles;
+              const updateAisles = (changes: Partial<BlockAisles>) => {
+                const next: BlockAisles = {
+                  afterCols: aisles?.afterCols ?? [],
+                  afterRows: aisles?.afterRows ?? [],
+                  width: aisles?.width ?? DEFAULT_AISLE_WIDTH,
+                  ...changes,
+                };
+                const unchanged =
+                  next.width === (aisles?.width ?? DEFAULT_AISLE_WIDTH) &&
+                  formatAisleList(next.afterCols) === formatAisleList(aisles?.afterCols) &&
+                  formatAisleList(next.afterRows) === formatAisleList(aisles?.afterRows);
+                if (unchanged) return;
+                onAislesBlock(selectedBlock.id, next);
+              };
+              return (
+                <div className="space-y-1.5">
+                  <div className="grid grid-cols-[4.5rem_1fr] gap-1.5 items-center">
+                    <span className="text-[10px] text-muted-foreground">列の後ろ</span>
+                    <AisleListInput
+                      value={aisles?.afterCols}
+                      max={selectedBlock.cols}
+                      placeholder="例: 5, 10"
+                      onCommit={(afterCols) => {
+                        onSaveSnapshot?.();
+                        updateAisles({ afterCols });
+                      }}
+                    />
+                  </div>
+                  <div className="grid grid-cols-[4.5rem_1fr] gap-1.5 items-center">
+                    <span className="text-[10px] text-muted-foreground">行の後ろ</span>
+                    <AisleListInput
+                      value={aisles?.afterRows}
+                      max={selectedBlock.rows}
+                      placeholder="例: 8"
+                      onCommit={(afterRows) => {
+                        onSaveSnapshot?.();
+                        updateAisles({ afterRows });
+                      }}
+                    />
+                  </div>
+                  <div className="grid grid-cols-[4.5rem_1fr] gap-1.5 items-center">
+                    <span className="text-[10px] text-muted-foreground">幅 (px)</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={200}
+                      value={aisles?.width ?? DEFAULT_AISLE_WIDTH}
+                      disabled={!aisles}
+                      onChange={(e) => updateAisles({ width: Math.max(1, parseInt(e.target.value) || 1) })}
+                      className="h-6 text-xs px-1.5 mono"
+                    />
+                  </div>
+                </div>
+              );
+            })()}
+          </div>
+          </>)}
+
+          {/* Seat numbering (座席番号の振り方) - ばら席は席ごとの番号、未指定なら配置順の連番 */}
+          <div className="mt-3 pt-3 border-t border-border">
+            <div className="flex items-center gap-2 mb-2">
+              <Hash className="w-3.5 h-3.5 text-muted-foreground" />
+              <Label className="text-xs font-medium text-muted-foreground">座席番号</Label>
+              {selectedBlock.seats.length > 0 && (
+                <span className="ml-auto mono text-xs font-bold text-primary truncate">
+                  {getSeatLabel(selectedBlock, selectedBlock.seats[0], levels)}
+                </span>
+              )}
+            </div>
+            {(() => {
+              const numbering = getBlockNumbering(selectedBlock);
+              const updateNumbering = (changes: Partial<SeatNumbering>) => {
+                onNumberingBlock(selectedBlock.id, { ...numbering, ...changes });
+              };
+              const selectOption = (changes: Partial<SeatNumbering>) => {
+                onSaveSnapshot?.();
+                updateNumbering(changes);
+              };
+              return (
+                <div className="space-y-1.5">
+                  {selectedBlock.kind !== 'loose' && (<>
+                  <div className="grid grid-cols-[4.5rem_1fr] gap-1.5 items-center">
+                    <span className="text-[10px] text-muted-foreground">行記号</span>
+                    <div className="flex gap-0.5">
+                      <OptionButton active={numbering.rowLabel === 'number'} onClick={() => selectOption({ rowLabel: 'number' })}>
+                        1, 2, 3
+                      </OptionButton>
+                      <OptionButton active={numbering.rowLabel === 'letter'} onClick={() => selectOption({ rowLabel: 'letter' })}>
+                        A, B, C
+                      </OptionButton>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-[4.5rem_1fr] gap-1.5 items-center">
+                    <span className="text-[10px] text-muted-foreground">番号の向き</span>
+                    <div className="flex gap-0.5">
+                      <OptionButton active={numbering.colDirection === 'ltr'} onClick={() => selectOption({ colDirection: 'ltr' })}>
+                        左から
+                      </OptionButton>
+                      <OptionButton active={numbering.colDirection === 'rtl'} onClick={() => selectOption({ colDirection: 'rtl' })}>
+                        右から
+                      </OptionButton>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-[4.5rem_1fr] gap-1.5 items-center">
+                    <span className="text-[10px] text-muted-foreground">奇数・偶数</span>
+                    <div className="flex gap-0.5">
+                      <OptionButton active={numbering.oddEven === 'all'} onClick={() => selectOption({ oddEven: 'all' })}>
+                        連番
+                      </OptionButton>
+                      <OptionButton active={numbering.oddEven === 'odd'} onClick={() => selectOption({ oddEven: 'odd' })}>
+                        奇数
+                      </OptionButton>
+                      <OptionButton active={numbering.oddEven === 'even'} onClick={() => selectOption({ oddEven: 'even' })}>
+                        偶数
+                      </OptionButton>
+                    </div>
+                  </div>
+                  </>)}
+                  <div className={`grid ${selectedBlock.kind === 'loose' ? 'grid-cols-[4.5rem_1fr]' : 'grid-cols-[4.5rem_1fr_1fr]'} gap-1.5 items-center`}>
+                    <span className="text-[10px] text-muted-foreground">{selectedBlock.kind === 'loose' ? '開始番号' : '開始 (行/席)'}</span>
+                    {selectedBlock.kind !== 'loose' && (
+                      <Input
+                        type="number"
+                        min={1}
+                        value={numbering.rowStart}
+                        onChange={(e) => updateNumbering({ rowStart: Math.max(1, parseInt(e.target.value) || 1) })}
+                        className="h-6 text-xs px-1.5 mono text-center"
+                      />
+                    )}
+                    <Input
+                      type="number"
+                      min={0}
+                      value={numbering.colStart}
+                      onChange={(e) => updateNumbering({ colStart: Math.max(0, parseInt(e.target.value) || 0) })}
+                      className="h-6 text-xs px-1.5 mono text-center"
+                    />
+                  </div>
+                  <div className="grid grid-cols-[4.5rem_1fr] gap-1.5 items-center">
+                    <span className="text-[10px] text-muted-foreground">接頭辞</span>
+                    <Input
+                      value={numbering.prefix ?? selectedBlock.name}
+                      placeholder="なし"
+                      onChange={(e) => {
+                        // ブロック名と同じなら未指定に戻し、名前変更に追従させる
+                        const prefix = e.target.value === selectedBlock.name ? undefined : e.target.value;
+                        onNumberingBlock(selectedBlock.id, { ...numbering, prefix });
+                      }}
+                      className="h-6 text-xs px-1.5 mono"
+                    />
+                  </div>
+                </div>
+              );
+            })()}
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,177 @@
+/**
+ * BlockSelectionBar Component - 選択したブロックの複製・反転・整列・等間隔配置バー
+ * Blueprint Technical Design System
+ *
+ * 通常モードでブロックを選択したときに表示（各操作は1回の元に戻す単位）
+ * 整列は2つ以上、等間隔配置は3つ以上の選択で有効
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  CopyPlus,
+  ClipboardCopy,
+  FlipHorizontal2,
+  FlipVertical2,
+  X,
+  Boxes,
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalDistributeCenter,
+  AlignVerticalDistributeCenter,
+} from 'lucide-react';
+import type { BlockAlignment, BlockDistribution, MirrorAxis, MirrorPivot } from '@/types/venue';
+
+interface BlockSelectionBarProps {
+  count: number;
+  onAlign: (alignment: BlockAlignment) => void;
+  onDistribute: (direction: BlockDistribution) => void;
+  onDuplicate: () => void;
+  onCopy: () => void;
+  onMirror: (axis: MirrorAxis, pivot: MirrorPivot) => void;
+  onClear: () => void;
+}
+
+const alignButtons: { id: BlockAlignment; label: string; icon: React.ReactNode }[] = [
+  { id: 'left', label: '左揃え', icon: <AlignStartVertical className="w-3.5 h-3.5" /> },
+  { id: 'center', label: '左右中央揃え', icon: <AlignCenterVertical className="w-3.5 h-3.5" /> },
+  { id: 'right', label: '右揃え', icon: <AlignEndVertical className="w-3.5 h-3.5" /> },
+  { id: 'top', label: '上揃え', icon: <AlignStartHorizontal className="w-3.5 h-3.5" /> },
+  { id: 'middle', label: '上下中央揃え', icon: <AlignCenterHorizontal className="w-3.5 h-3.5" /> },
+  { id: 'bottom', label: '下揃え', icon: <AlignEndHorizontal className="w-3.5 h-3.5" /> },
+];
+
+export function BlockSelectionBar({ count, onAlign, onDistribute, onDuplicate, onCopy, onMirror, onClear }: BlockSelectionBarProps) {
+  const [mirrorPivot, setMirrorPivot] = useState<MirrorPivot>('block');
+  const canAlign = count >= 2;
+  const canDistribute = count >= 3;
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50">
+      <div className="bg-card/90 backdrop-blur-md border border-border rounded-full shadow-lg px-4 py-1.5 flex items-center gap-3">
+        <div className="flex items-center gap-1.5 text-xs whitespace-nowrap">
+          <Boxes className="w-4 h-4 text-primary" />
+          <span className="mono font-bold text-foreground">{count}</span>
+          <span className="text-muted-foreground">ブロック選択中</span>
+        </div>
+
+        <div className="h-5 w-px bg-border" />
+
+        <div className="flex items-center gap-0.5">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={onDuplicate}
+            title="複製（Ctrl+D）"
+          >
+            <CopyPlus className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={onCopy}
+            title="クリップボードにコピー（Ctrl+C、別タブで Ctrl+V）"
+          >
+            <ClipboardCopy className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+
+        <div className="h-5 w-px bg-border" />
+
+        <div className="flex items-center gap-0.5">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => onMirror('horizontal', mirrorPivot)}
+            title="左右反転"
+          >
+            <FlipHorizontal2 className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => onMirror('vertical', mirrorPivot)}
+            title="上下反転"
+          >
+            <FlipVertical2 className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-[10px] text-muted-foreground hover:text-foreground"
+            onClick={() => setMirrorPivot(mirrorPivot === 'block' ? 'stage' : 'block')}
+            title="反転の基準（クリックで切替）"
+          >
+            {mirrorPivot === 'block' ? 'ブロック中心' : 'ステージ軸'}
+          </Button>
+        </div>
+
+        <div className="h-5 w-px bg-border" />
+
+        <div className="flex items-center gap-0.5">
+          {alignButtons.map((a) => (
+            <Button
+              key={a.id}
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              disabled={!canAlign}
+              onClick={() => onAlign(a.id)}
+              title={a.label}
+            >
+              {a.icon}
+            </Button>
+          ))}
+        </div>
+
+        <div className="h-5 w-px bg-border" />
+
+        <div className="flex items-center gap-0.5">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={!canDistribute}
+            onClick={() => onDistribute('horizontal')}
+            title="左右に等間隔（3つ以上）"
+          >
+            <AlignHorizontalDistributeCenter className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={!canDistribute}
+            onClick={() => onDistribute('vertical')}
+            title="上下に等間隔（3つ以上）"
+          >
+            <AlignVerticalDistributeCenter className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+
+        <div className="h-5 w-px bg-border" />
+
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-muted-foreground hover:text-foreground"
+          onClick={onClear}
+        >
+          <X className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      <p className="text-[10px] text-muted-foreground/70 text-center mt-1">
+        Shift+クリック / Shift+ドラッグで追加選択 / Ctrl+V で貼り付け
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+/**
+ * CategoryPanel Component - 座席カテゴリ（価格帯）の管理
+ * Blueprint Technical Design System
+ *
+ * カテゴリ設定モードでは、ここで選択中のカテゴリを座席に塗る
+ */
+
+import { Tags, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { PREMIUM_CATEGORY_ID } from '@/lib/seatCategories';
+import type { SeatCategory } from '@/types/venue';
+
+interface CategoryPanelProps {
+  categories: SeatCategory[];
+  activeCategoryId: string;
+  counts: Record<string, number>; // カテゴリID → 有効席数
+  onSelect: (categoryId: string) => void;
+  onAdd: () => void;
+  onUpdate: (categoryId: string, changes: Partial<Omit<SeatCategory, 'id'>>) => void;
+  onDelete: (categoryId: string) => void;
+}
+
+export function CategoryPanel({ categories, activeCategoryId, counts, onSelect, onAdd, onUpdate, onDelete }: CategoryPanelProps) {
+  const totalSales = categories.reduce((sum, c) => sum + c.price * (counts[c.id] ?? 0), 0);
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-4">
+      <div className="flex items-center gap-2.5 mb-3">
+        <div className="w-7 h-7 rounded-lg bg-primary/10 flex items-center justify-center">
+          <Tags className="w-4 h-4 text-primary" />
+        </div>
+        <h3 className="font-bold text-sm text-foreground">座席カテゴリ</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="ml-auto h-6 w-6"
+          onClick={onAdd}
+          title="カテゴリを追加"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-[1.25rem_1fr_4rem_3.5rem_1.5rem] gap-1 text-[10px] text-muted-foreground mb-1 px-0.5">
+        <span />
+        <span>名前</span>
+        <span>価格</span>
+        <span>加点</span>
+        <span />
+      </div>
+
+      <div className="space-y-1">
+        {categories.map((category) => {
+          const isActive = category.id === activeCategoryId;
+          return (
+            <div
+              key={category.id}
+              className={`grid grid-cols-[1.25rem_1fr_4rem_3.5rem_1.5rem] gap-1 items-center rounded-md p-0.5 cursor-pointer transition-colors ${
+                isActive ? 'bg-primary/10 ring-1 ring-primary/40' : 'hover:bg-muted/50'
+              }`}
+              onClick={() => onSelect(category.id)}
+            >
+              <input
+                type="color"
+                value={category.color}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => onUpdate(category.id, { color: e.target.value })}
+                className="w-5 h-5 rounded cursor-pointer border-0 bg-transparent p-0"
+                title="色"
+              />
+              <Input
+                value={category.name}
+                onChange={(e) => onUpdate(category.id, { name: e.target.value })}
+                className="h-6 text-xs px-1.5"
+              />
+              <Input
+                type="number"
+                min={0}
+                step={500}
+                value={category.price}
+                onChange={(e) => onUpdate(category.id, { price: Math.max(0, parseInt(e.target.value) || 0) })}
+                className="h-6 text-xs px-1 mono text-right"
+                title="価格（円）"
+              />
+              <Input
+                type="number"
+                step={100}
+                value={category.weight}
+                onChange={(e) => onUpdate(category.id, { weight: parseInt(e.target.value) || 0 })}
+                className="h-6 text-xs px-1 mono text-right"
+                title="抽選時の座席スコア加点"
+              />
+              {category.id === PREMIUM_CATEGORY_ID ? (
+                <span />
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(category.id);
+                  }}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-3 pt-3 border-t border-border space-y-0.5">
+        {categories.map((category) => (
+          <div key={category.id} className="flex items-center gap-2 text-[11px]">
+            <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: category.color }} />
+            <span className="truncate text-muted-foreground">{category.name}</span>
+            <span className="ml-auto mono font-medium">{counts[category.id] ?? 0}席</span>
+          </div>
+        ))}
+        <div className="flex items-center gap-2 text-[11px] pt-1">
+          <span className="text-muted-foreground">売上見込み</span>
+          <span className="ml-auto mono font-bold text-primary">¥{totalSales.toLocaleString()}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,18 @@
 /**
  * DataPanel Component - Save/Load venue data
  * Blueprint Technical Design System
+ *
+ * 会場（全階のブロック・背景・ステージ・注釈・縮尺・設定）と抽選設定を1つのプロジェクトファイルに保存する。
+ * JSON は背景を埋め込んだ1ファイル、ZIP は背景画像を別ファイルとして格納する。
+ * 読み込んだファイルは検証結果を確認してから反映する。編集中の会場はブラウザの会場ライブラリに自動保存される。
+ * 座席CSVはチケット販売システム向けの1行1席の一覧で、戻ってきた表の使用不可・プレミアムを一括で反映できる
  */
 
 import { useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Download, Upload, FileJson, Trash2 } from 'lucide-react';
+import { Download, Upload, FileJson, FileSpreadsheet, Trash2, Library, Printer } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,22 +24,54 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
-import { loadVenueData } from '@/lib/venueUtils';
-import type { SeatBlock } from '@/types/venue';
+import { ImportReportDialog } from '@/components/ImportReportDialog';
+import type { AutosaveStatus } from '@/hooks/useVenueLibrary';
+import { loadProjectFile } from '@/lib/projectFile';
+import type { ProjectFileFormat, VenueData, VenueImportResult } from '@/types/venue';
 
 interface DataPanelProps {
-  onExport: (name: string) => void;
-  onImport: (blocks: SeatBlock[]) => void;
+  venueName: string;
+  onVenueNameChange: (name: string) => void;
+  onExport: (name: string, format: ProjectFileFormat) => void;
+  onImport: (data: VenueData) => void; // 読み込んだ会場はライブラリの新しい会場になる
   onClear: () => void;
+  onOpenLibrary: () => void;
+  onOpenSeatMapExport: () => void;
+  onExportSeatInventory: () => void;
+  onImportSeatInventory: (text: string) => void;
+  autosaveStatus: AutosaveStatus;
+  lastSavedAt: string | null;
   hasData: boolean;
 }
 
-export function DataPanel({ onExport, onImport, onClear, hasData }: DataPanelProps) {
-  const [venueName, setVenueName] = useState('');
+const AUTOSAVE_LABELS: Record<AutosaveStatus, string> = {
+  idle: '未保存（編集を始めると自動保存）',
+  saving: '自動保存中...',
+  saved: '自動保存済み',
+  error: '自動保存に失敗しました',
+};
+
+export function DataPanel({
+  venueName,
+  onVenueNameChange,
+  onExport,
+  onImport,
+  onClear,
+  onOpenLibrary,
+  onOpenSeatMapExport,
+  onExportSeatInventory,
+  onImportSeatInventory,
+  autosaveStatus,
+  lastSavedAt,
+  hasData,
+}: DataPanelProps) {
+  const [format, setFormat] = useState<ProjectFileFormat>('json');
+  const [pendingImport, setPendingImport] = useState<VenueImportResult | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const seatCsvInputRef = useRef<HTMLInputElement>(null);
 
   const handleExport = () => {
-    onExport(venueName || 'venue-data');
+    onExport(venueName || 'venue-data', format);
   };
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -42,11 +79,10 @@ export function DataPanel({ onExport, onImport, onClear, hasData }: DataPanelPro
     if (!file) return;
 
     try {
-      const data = await loadVenueData(file);
-      onImport(data.blocks);
-      setVenueName(data.name);
+      setPendingImport(await loadProjectFile(file));
     } catch (error) {
-      alert('JSONファイルの読み込みに失敗しました');
+      console.error('会場データの読み込みに失敗しました:', error);
+      alert(`会場データの読み込みに失敗しました\n${error instanceof Error ? error.message : ''}`);
     }
 
     // Reset input
@@ -55,6 +91,19 @@ export function DataPanel({ onExport, onImport, onClear, hasData }: DataPanelPro
     }
   };
 
+  const handleSeatCsvChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    onImportSeatInventory(await file.text());
+  };
+
+  const handleConfirmImport = () => {
+    if (!pendingImport) return;
+    onImport(pendingImport.data);
+    setPendingImport(null);
+  };
+
   return (
     <div className="rounded-xl border border-border bg-card p-4">
       <div className="flex items-center gap-2.5 mb-4">
@@ -74,11 +123,31 @@ export function DataPanel({ onExport, onImport, onClear, hasData }: DataPanelPro
             type="text"
             placeholder="例: 東京ドーム"
             value={venueName}
-            onChange={(e) => setVenueName(e.target.value)}
+            onChange={(e) => onVenueNameChange(e.target.value)}
             className="mt-1"
           />
         </div>
 
+        <div>
+          <Label className="text-xs font-medium text-muted-foreground">保存形式</Label>
+          <div className="grid grid-cols-2 gap-1 mt-1">
+            {([
+              ['json', 'JSON'],
+              ['zip', 'ZIP（画像を分離）'],
+            ] as const).map(([value, label]) => (
+              <Button
+                key={value}
+                variant="ghost"
+                size="sm"
+                className={`h-7 text-xs ${format === value ? 'bg-primary/10 text-primary hover:bg-primary/15' : 'text-muted-foreground'}`}
+                onClick={() => setFormat(value)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
         <div className="grid grid-cols-2 gap-2">
           <Button
             variant="default"
@@ -94,7 +163,7 @@ export function DataPanel({ onExport, onImport, onClear, hasData }: DataPanelPro
           <input
             ref={fileInputRef}
             type="file"
-            accept=".json"
+            accept=".json,.zip"
             onChange={handleFileChange}
             className="hidden"
           />
@@ -108,6 +177,53 @@ export function DataPanel({ onExport, onImport, onClear, hasData }: DataPanelPro
           </Button>
         </div>
 
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" size="sm" onClick={onOpenLibrary}>
+            <Library className="w-3.5 h-3.5 mr-1.5" />
+            ライブラリ
+          </Button>
+          <Button variant="outline" size="sm" onClick={onOpenSeatMapExport} disabled={!hasData}>
+            <Printer className="w-3.5 h-3.5 mr-1.5" />
+            座席図・印刷
+          </Button>
+        </div>
+
+        <p className={`text-[10px] ${autosaveStatus === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {AUTOSAVE_LABELS[autosaveStatus]}
+          {autosaveStatus === 'saved' && lastSavedAt && (
+            <span className="mono ml-1">
+              {new Date(lastSavedAt).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+            </span>
+          )}
+        </p>
+
+        <div>
+          <Label className="text-xs font-medium text-muted-foreground">座席CSV（1行1席）</Label>
+          <div className="grid grid-cols-2 gap-2 mt-1">
+            <Button variant="outline" size="sm" onClick={onExportSeatInventory} disabled={!hasData}>
+              <FileSpreadsheet className="w-3.5 h-3.5 mr-1.5" />
+              書き出し
+            </Button>
+            <input
+              ref={seatCsvInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleSeatCsvChange}
+              className="hidden"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => seatCsvInputRef.current?.click()}
+              disabled={!hasData}
+              title="ラベル（または座席ID）で照合し、使用不可・プレミアムを反映します"
+            >
+              <Upload className="w-3.5 h-3.5 mr-1.5" />
+              フラグ反映
+            </Button>
+          </div>
+        </div>
+
         <AlertDialog>
           <AlertDialogTrigger asChild>
             <Button
@@ -139,6 +255,12 @@ export function DataPanel({ onExport, onImport, onClear, hasData }: DataPanelPro
           </AlertDialogContent>
         </AlertDialog>
       </div>
+
+      <ImportReportDialog
+        result={pendingImport}
+        onConfirm={handleConfirmImport}
+        onCancel={() => setPendingImport(null)}
+      />
     </div>
   );
 }
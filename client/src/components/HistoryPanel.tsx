@@ -0,0 +1,105 @@
+/**
+ * HistoryPanel Component - 編集履歴の一覧と任意位置へのジャンプ
+ * Blueprint Technical Design System
+ */
+
+import { useEffect, useRef } from 'react';
+import { History, Undo2, Redo2, CircleDot } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { HistoryEntry } from '@/lib/history';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  index: number; // 適用済みエントリ数（0=初期状態）
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+function formatTime(timestamp: number): string {
+  const d = new Date(timestamp);
+  return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}:${String(d.getSeconds()).padStart(2, '0')}`;
+}
+
+export function HistoryPanel({ entries, index, canUndo, canRedo, onUndo, onRedo, onJump }: HistoryPanelProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // 最新エントリが見えるようにスクロール
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [entries.length]);
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-4">
+      <div className="flex items-center gap-2.5 mb-3">
+        <div className="w-7 h-7 rounded-lg bg-primary/10 flex items-center justify-center">
+          <History className="w-4 h-4 text-primary" />
+        </div>
+        <h3 className="font-bold text-sm text-foreground">編集履歴</h3>
+        <div className="ml-auto flex items-center gap-0.5">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 disabled:opacity-30"
+            disabled={!canUndo}
+            onClick={onUndo}
+            title="元に戻す (Ctrl+Z)"
+          >
+            <Undo2 className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 disabled:opacity-30"
+            disabled={!canRedo}
+            onClick={onRedo}
+            title="やり直す (Ctrl+Shift+Z / Ctrl+Y)"
+          >
+            <Redo2 className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div ref={listRef} className="space-y-0.5 max-h-40 overflow-y-auto">
+        {/* 初期状態 */}
+        <button
+          className={`w-full flex items-center gap-2 px-2 py-1 rounded-md text-left text-[11px] transition-colors ${
+            index === 0 ? 'bg-primary/10 text-foreground font-medium' : 'text-muted-foreground hover:bg-muted/50'
+          }`}
+          onClick={() => onJump(0)}
+        >
+          <CircleDot className="w-3 h-3 shrink-0" />
+          <span className="truncate">開始時点</span>
+        </button>
+
+        {entries.map((entry, i) => {
+          const position = i + 1;
+          const isCurrent = position === index;
+          const isFuture = position > index;
+
+          return (
+            <button
+              key={entry.id}
+              className={`w-full flex items-center gap-2 px-2 py-1 rounded-md text-left text-[11px] transition-colors ${
+                isCurrent
+                  ? 'bg-primary/10 text-foreground font-medium'
+                  : isFuture
+                    ? 'text-muted-foreground/40 hover:bg-muted/30'
+                    : 'text-muted-foreground hover:bg-muted/50'
+              }`}
+              onClick={() => onJump(position)}
+            >
+              <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${isCurrent ? 'bg-primary' : 'bg-muted-foreground/30'}`} />
+              <span className="truncate flex-1">{entry.label}</span>
+              <span className="mono text-[9px] text-muted-foreground/60 shrink-0">{formatTime(entry.timestamp)}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * ImportReportDialog Component - 会場データ読込前の確認
+ * Blueprint Technical Design System
+ *
+ * 読み込んだファイルのバージョン移行・補完した項目・除外した座席・重複していた座席IDを一覧し、
+ * 「読み込む」を押すまで現在の会場には何も反映しない
+ */
+
+import type { ComponentType, ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Check, CircleArrowUp, CopyX, FileCheck, Trash2, Wrench } from 'lucide-react';
+import type { VenueImportResult } from '@/types/venue';
+
+interface ImportReportDialogProps {
+  result: VenueImportResult | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+interface ReportSectionProps {
+  icon: ComponentType<{ className?: string }>;
+  title: string;
+  items: string[];
+  tone?: 'default' | 'warning';
+}
+
+function ReportSection({ icon: Icon, title, items, tone = 'default' }: ReportSectionProps) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <div className={`flex items-center gap-1.5 text-xs font-bold mb-1.5 ${tone === 'warning' ? 'text-amber-600' : 'text-foreground'}`}>
+        <Icon className="w-3.5 h-3.5" />
+        {title}
+        <span className="mono font-normal text-muted-foreground">({items.length})</span>
+      </div>
+      <ul className="rounded-lg border border-border bg-muted/30 px-3 py-2 space-y-0.5 max-h-32 overflow-y-auto">
+        {items.map((item, i) => (
+          <li key={i} className="text-[11px] text-muted-foreground break-all">{item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function Stat({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="rounded-lg border border-border px-3 py-2">
+      <div className="text-[10px] text-muted-foreground">{label}</div>
+      <div className="mono text-sm font-bold text-foreground">{children}</div>
+    </div>
+  );
+}
+
+export function ImportReportDialog({ result, onConfirm, onCancel }: ImportReportDialogProps) {
+  const report = result?.report;
+  const isClean = !!report
+    && report.migrations.length === 0
+    && report.repairedFields.length === 0
+    && report.droppedItems.length === 0
+    && report.duplicateSeatIds.length === 0;
+
+  return (
+    <Dialog open={!!result} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-lg max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2.5">
+            <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
+              <FileCheck className="w-4 h-4 text-primary" />
+            </div>
+            会場データの読み込み
+          </DialogTitle>
+        </DialogHeader>
+
+        {result && report && (
+          <div className="flex-1 overflow-y-auto space-y-4 py-2">
+            <div className="grid grid-cols-3 gap-2">
+              <Stat label="会場名">{result.data.name || '（未設定）'}</Stat>
+              <Stat label="ブロック">{report.blockCount}</Stat>
+              <Stat label="座席">{report.seatCount}</Stat>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              ファイルのバージョン <span className="mono text-foreground">{report.sourceVersion}</span>
+              {isClean && ' — 問題は見つかりませんでした'}
+            </p>
+
+            <ReportSection icon={CircleArrowUp} title="バージョン移行" items={report.migrations} />
+            <ReportSection icon={Wrench} title="補完・修正した項目" items={report.repairedFields} />
+            <ReportSection icon={Trash2} title="除外した項目" items={report.droppedItems} tone="warning" />
+            <ReportSection
+              icon={CopyX}
+              title="重複していた座席ID（新しいIDに振り直し）"
+              items={report.duplicateSeatIds}
+              tone="warning"
+            />
+
+            <p className="text-[10px] text-muted-foreground/70">
+              読み込むと現在の会場を置き換えます（元に戻すで取り消せます）
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="border-t pt-4">
+          <Button variant="outline" onClick={onCancel}>キャンセル</Button>
+          <Button onClick={onConfirm} className="shadow-md">
+            <Check className="w-4 h-4 mr-1.5" />
+            読み込む
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * LevelPanel Component - 会場の階（フロア）の切り替えと管理
+ * Blueprint Technical Design System
+ *
+ * キャンバスには選択中の階のブロック・注釈・背景だけを表示する。
+ * 加点は抽選時にその階の全座席のスコアに加算される
+ */
+
+import { Layers, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { VenueLevel } from '@/types/venue';
+
+interface LevelPanelProps {
+  levels: VenueLevel[];
+  activeLevelId: string;
+  blockCounts: Record<string, number>; // 階ID → ブロック数
+  onSelect: (levelId: string) => void;
+  onAdd: () => void;
+  onUpdate: (levelId: string, changes: Partial<Omit<VenueLevel, 'id' | 'backgroundImage'>>) => void;
+  onDelete: (levelId: string) => void;
+}
+
+export function LevelPanel({ levels, activeLevelId, blockCounts, onSelect, onAdd, onUpdate, onDelete }: LevelPanelProps) {
+  const handleDelete = (level: VenueLevel) => {
+    const count = blockCounts[level.id] ?? 0;
+    if (count > 0 && !confirm(`「${level.name}」と、この階の${count}ブロック・注釈を削除しますか？`)) return;
+    onDelete(level.id);
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-4">
+      <div className="flex items-center gap-2.5 mb-3">
+        <div className="w-7 h-7 rounded-lg bg-primary/10 flex items-center justify-center">
+          <Layers className="w-4 h-4 text-primary" />
+        </div>
+        <h3 className="font-bold text-sm text-foreground">階</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="ml-auto h-6 w-6"
+          onClick={onAdd}
+          title="階を追加"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-[1fr_3.5rem_2.5rem_1.5rem] gap-1 text-[10px] text-muted-foreground mb-1 px-0.5">
+        <span>名前</span>
+        <span>加点</span>
+        <span className="text-right">ブロック</span>
+        <span />
+      </div>
+
+      <div className="space-y-1">
+        {levels.map((level) => {
+          const isActive = level.id === activeLevelId;
+          return (
+            <div
+              key={level.id}
+              className={`grid grid-cols-[1fr_3.5rem_2.5rem_1.5rem] gap-1 items-center rounded-md p-0.5 cursor-pointer transition-colors ${
+                isActive ? 'bg-primary/10 ring-1 ring-primary/40' : 'hover:bg-muted/50'
+              }`}
+              onClick={() => onSelect(level.id)}
+            >
+              <Input
+                value={level.name}
+                onChange={(e) => onUpdate(level.id, { name: e.target.value })}
+                className="h-6 text-xs px-1.5"
+              />
+              <Input
+                type="number"
+                step={100}
+                value={level.weight}
+                onChange={(e) => onUpdate(level.id, { weight: parseInt(e.target.value) || 0 })}
+                className="h-6 text-xs px-1 mono text-right"
+                title="抽選時の座席スコア加点"
+              />
+              <span className="text-[11px] mono text-muted-foreground text-right">{blockCounts[level.id] ?? 0}</span>
+              {levels.length > 1 ? (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(level);
+                  }}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              ) : (
+                <span />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {levels.length > 1 && (
+        <p className="text-[10px] text-muted-foreground/70 mt-2">
+          座席ラベルの先頭に階名が付きます（例: {levels[0].name} A-1）
+        </p>
+      )}
+    </div>
+  );
+}
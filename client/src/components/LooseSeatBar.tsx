@@ -0,0 +1,100 @@
+/**
+ * LooseSeatBar Component - ばら席ペンの編集バー
+ * Blueprint Technical Design System
+ *
+ * ばら席ペンモードで表示。選択中のばら席ブロックに座席を追加し、
+ * 選択中の座席の番号変更・削除と、距離からの隣接の自動設定を行う
+ */
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { PenTool, Link, Trash2, Plus } from 'lucide-react';
+import { getSeatNumberText } from '@/lib/seatNumbering';
+import type { SeatBlock, Seat } from '@/types/venue';
+
+interface LooseSeatBarProps {
+  block?: SeatBlock; // 座席を追加するばら席ブロック（未選択なら次のクリックで新規作成）
+  seat?: Seat; // ペンで選択中の座席
+  onUpdateNumber: (number: string) => void;
+  onDeleteSeat: () => void;
+  onAutoLink: () => void;
+  onNewBlock: () => void;
+}
+
+export function LooseSeatBar({ block, seat, onUpdateNumber, onDeleteSeat, onAutoLink, onNewBlock }: LooseSeatBarProps) {
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50">
+      <div className="bg-card/90 backdrop-blur-md border border-border rounded-full shadow-lg px-4 py-1.5 flex items-center gap-3">
+        <div className="flex items-center gap-1.5 text-xs whitespace-nowrap">
+          <PenTool className="w-4 h-4 text-primary" />
+          {block ? (
+            <>
+              <span className="font-medium text-foreground">{block.name}</span>
+              <span className="mono font-bold text-foreground">{block.seats.length}</span>
+              <span className="text-muted-foreground">席</span>
+            </>
+          ) : (
+            <span className="text-muted-foreground">新しいばら席ブロック</span>
+          )}
+        </div>
+
+        {block && seat && (
+          <>
+            <div className="h-5 w-px bg-border" />
+            <div className="flex items-center gap-1.5 text-xs">
+              <span className="text-muted-foreground whitespace-nowrap">席番号</span>
+              <Input
+                key={seat.id}
+                className="h-7 w-16 text-xs mono"
+                defaultValue={seat.number ?? ''}
+                placeholder={getSeatNumberText(block, { ...seat, number: undefined })}
+                onChange={(e) => onUpdateNumber(e.target.value)}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                onClick={onDeleteSeat}
+                title="座席を削除（Delete）"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          </>
+        )}
+
+        {block && (
+          <>
+            <div className="h-5 w-px bg-border" />
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2.5 text-xs gap-1"
+                onClick={onAutoLink}
+                title="近い座席どうしを隣接に設定（手動の設定は置き換え）"
+              >
+                <Link className="w-3.5 h-3.5" />
+                隣接を自動設定
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2.5 text-xs gap-1"
+                onClick={onNewBlock}
+                title="次のクリックで新しいばら席ブロックを作成"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                新規ブロック
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+
+      <p className="text-[10px] text-muted-foreground/70 text-center mt-1">
+        空白クリックで座席を追加 / ドラッグで移動 / Shift+クリックで隣接の設定・解除 / Delete で削除
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * MeasureToolbar Component - 計測モードの距離計測・縮尺設定バー
+ * Blueprint Technical Design System
+ *
+ * 縮尺: 背景図面の既知の寸法（壁の長さ・通路幅など）に基準線を引き、その実寸を m で入力する
+ */
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Ruler, Scaling, Check, X } from 'lucide-react';
+import { formatDistance } from '@/lib/calibration';
+import type { MeasureTool } from '@/types/venue';
+
+interface MeasureToolbarProps {
+  tool: MeasureTool;
+  onToolChange: (tool: MeasureTool) => void;
+  pixelsPerMeter: number | null;
+  measuredLength: number | null; // 直近に測った線の長さ（px）
+  pendingLength: number | null; // 縮尺ツールで引いた基準線の長さ（px、実寸の入力待ち）
+  onApplyCalibration: (meters: number) => void;
+  onClearCalibration: () => void;
+}
+
+const hints: Record<MeasureTool, string> = {
+  measure: 'ドラッグで2点間の距離を計測（縮尺未設定の間は px で表示）',
+  calibrate: '図面上の長さが分かっている箇所をドラッグでなぞり、実寸を m で入力',
+};
+
+export function MeasureToolbar({
+  tool,
+  onToolChange,
+  pixelsPerMeter,
+  measuredLength,
+  pendingLength,
+  onApplyCalibration,
+  onClearCalibration,
+}: MeasureToolbarProps) {
+  const [meters, setMeters] = useState('');
+  const toggleClass = (active: boolean) =>
+    `h-7 px-2 gap-1 text-[11px] ${active ? 'bg-primary/15 text-primary hover:bg-primary/20' : 'text-muted-foreground hover:text-foreground'}`;
+
+  // 基準線を引き直したら入力をやり直す
+  useEffect(() => {
+    setMeters('');
+  }, [pendingLength]);
+
+  const parsedMeters = parseFloat(meters);
+  const canApply = pendingLength !== null && parsedMeters > 0;
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50">
+      <div className="bg-card/90 backdrop-blur-md border border-border rounded-full shadow-lg px-4 py-1.5 flex items-center gap-3">
+        <div className="flex items-center gap-0.5">
+          <Button variant="ghost" size="sm" className={toggleClass(tool === 'measure')} onClick={() => onToolChange('measure')}>
+            <Ruler className="w-3.5 h-3.5" />
+            距離を測る
+          </Button>
+          <Button variant="ghost" size="sm" className={toggleClass(tool === 'calibrate')} onClick={() => onToolChange('calibrate')}>
+            <Scaling className="w-3.5 h-3.5" />
+            縮尺を合わせる
+          </Button>
+        </div>
+
+        <div className="h-5 w-px bg-border" />
+
+        {tool === 'calibrate' && pendingLength !== null ? (
+          <form
+            className="flex items-center gap-1.5 text-[11px] text-muted-foreground"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (canApply) onApplyCalibration(parsedMeters);
+            }}
+          >
+            <span className="mono">基準線 {Math.round(pendingLength)} px =</span>
+            <Input
+              autoFocus
+              type="number"
+              min={0}
+              step={0.01}
+              placeholder="実寸"
+              value={meters}
+              onChange={(e) => setMeters(e.target.value)}
+              className="h-7 w-20 text-xs mono"
+            />
+            <span>m</span>
+            <Button type="submit" variant="ghost" size="icon" className="h-7 w-7" disabled={!canApply} title="縮尺を設定">
+              <Check className="w-3.5 h-3.5" />
+            </Button>
+          </form>
+        ) : (
+          <div className="flex items-center gap-1.5 text-[11px]">
+            {pixelsPerMeter ? (
+              <>
+                <span className="text-muted-foreground">縮尺</span>
+                <span className="mono font-medium">1 m = {pixelsPerMeter.toFixed(1)} px</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 text-muted-foreground hover:text-destructive"
+                  onClick={onClearCalibration}
+                  title="縮尺を解除"
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </>
+            ) : (
+              <span className="text-muted-foreground">縮尺未設定</span>
+            )}
+            {tool === 'measure' && measuredLength !== null && (
+              <>
+                <div className="h-5 w-px bg-border mx-1" />
+                <span className="text-muted-foreground">距離</span>
+                <span className="mono font-bold text-primary">{formatDistance(measuredLength, pixelsPerMeter)}</span>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      <p className="text-[10px] text-muted-foreground/70 text-center mt-1">
+        {hints[tool]}
+      </p>
+    </div>
+  );
+}
@@ -7,13 +7,13 @@
  */
 
 import { Button } from '@/components/ui/button';
-import { MousePointer2, Star, Ban, HelpCircle, Dices, Undo2 } from 'lucide-react';
+import { MousePointer2, PenTool, Shapes, Ruler, Star, Tags, Ban, HelpCircle, Dices, Undo2, Redo2 } from 'lucide-react';
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
-import type { EditorMode } from '@/types/venue';
+import type { EditorMode, SeatCategory } from '@/types/venue';
 
 interface ModeToolbarProps {
   mode: EditorMode;
@@ -22,11 +22,14 @@ interface ModeToolbarProps {
     total: number;
     active: number;
     disabled: number;
-    premium: number;
     normal: number;
+    byCategory: Record<string, number>;
   };
+  categories: SeatCategory[];
   onUndo: () => void;
   canUndo: boolean;
+  onRedo: () => void;
+  canRedo: boolean;
 }
 
 const modes: { id: EditorMode; label: string; icon: React.ReactNode; description: string }[] = [
@@ -34,29 +37,53 @@ const modes: { id: EditorMode; label: string; icon: React.ReactNode; description
     id: 'normal',
     label: '通常モード',
     icon: <MousePointer2 className="w-5 h-5" />,
-    description: 'ブロックの移動・回転ができます',
+    description: 'ブロックの移動・回転ができます。Shift+クリック / Shift+ドラッグで複数選択して整列',
+  },
+  {
+    id: 'seatPen',
+    label: 'ばら席ペン',
+    icon: <PenTool className="w-5 h-5" />,
+    description: 'クリックで1席ずつ自由に配置（桟敷・テーブル席など）。ドラッグで移動、Shift+クリックで隣り合う席をつなぐ',
   },
   {
     id: 'premium',
     label: 'プレミアム設定',
     icon: <Star className="w-5 h-5" />,
-    description: 'クリックでプレミアム席を設定/解除',
+    description: 'クリックでプレミアム席を設定/解除。空白からドラッグで範囲選択して一括設定',
+  },
+  {
+    id: 'category',
+    label: 'カテゴリ設定',
+    icon: <Tags className="w-5 h-5" />,
+    description: '左パネルで選んだ座席カテゴリ（S席・A席など）をクリックで設定/解除。ドラッグで範囲選択して一括設定',
   },
   {
     id: 'disable',
     label: '無効化モード',
     icon: <Ban className="w-5 h-5" />,
-    description: '座席をクリックして無効化/有効化（通路など）。もう一度クリックで復活',
+    description: '座席をクリックして無効化/有効化（通路など）。もう一度クリックで復活。ドラッグで範囲選択して一括設定',
+  },
+  {
+    id: 'annotate',
+    label: '注釈',
+    icon: <Shapes className="w-5 h-5" />,
+    description: '壁・通路・柱・非常口・トイレ・案内テキストなどを描き込みます。印刷・書き出しにも反映されます',
+  },
+  {
+    id: 'measure',
+    label: '計測',
+    icon: <Ruler className="w-5 h-5" />,
+    description: '背景図面の既知の寸法に線を引いて縮尺（m）を設定し、ドラッグで実寸の距離を測ります',
   },
   {
     id: 'lottery',
     label: '抽選モード',
     icon: <Dices className="w-5 h-5" />,
-    description: 'ステージ位置を設定して座席抽選を実行',
+    description: 'ステージの形を設定して座席抽選を実行（距離は最も近いステージの縁から測ります）',
   },
 ];
 
-export function ModeToolbar({ mode, onModeChange, stats, onUndo, canUndo }: ModeToolbarProps) {
+export function ModeToolbar({ mode, onModeChange, stats, categories, onUndo, canUndo, onRedo, canRedo }: ModeToolbarProps) {
   return (
     // Changed fixed -> absolute to stay inside main canvas container
     <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-auto max-w-[90%] z-50">
@@ -77,14 +104,30 @@ export function ModeToolbar({ mode, onModeChange, stats, onUndo, canUndo }: Mode
                         ? 'shadow-md' 
                         : 'text-muted-foreground hover:text-foreground'
                       }
+                      ${m.id === 'seatPen' && mode === m.id
+                        ? 'bg-sky-600 hover:bg-sky-700 ring-2 ring-sky-600/20'
+                        : ''
+                      }
                       ${m.id === 'premium' && mode === m.id
                         ? 'bg-[#d69e2e] hover:bg-[#b7791f] text-black ring-2 ring-[#d69e2e]/20'
                         : ''
                       }
+                      ${m.id === 'category' && mode === m.id
+                        ? 'bg-violet-600 hover:bg-violet-700 ring-2 ring-violet-600/20'
+                        : ''
+                      }
                       ${m.id === 'disable' && mode === m.id
                         ? 'bg-orange-600 hover:bg-orange-700 ring-2 ring-orange-600/20'
                         : ''
                       }
+                      ${m.id === 'annotate' && mode === m.id
+                        ? 'bg-slate-600 hover:bg-slate-700 ring-2 ring-slate-600/20'
+                        : ''
+                      }
+                      ${m.id === 'measure' && mode === m.id
+                        ? 'bg-teal-600 hover:bg-teal-700 ring-2 ring-teal-600/20'
+                        : ''
+                      }
                       ${m.id === 'lottery' && mode === m.id
                         ? 'bg-emerald-600 hover:bg-emerald-700 ring-2 ring-emerald-600/20'
                         : ''
@@ -132,15 +175,43 @@ export function ModeToolbar({ mode, onModeChange, stats, onUndo, canUndo }: Mode
             </TooltipContent>
           </Tooltip>
 
+          {/* Redo button */}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="rounded-full px-3 h-9 gap-2 text-muted-foreground hover:text-foreground disabled:opacity-30 -ml-4"
+                disabled={!canRedo}
+                onClick={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  onRedo();
+                }}
+              >
+                <Redo2 className="w-5 h-5" />
+                <span className="hidden sm:inline text-xs">やり直す</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="top" className="mb-2">
+              <p className="font-medium">やり直す</p>
+              <p className="text-xs text-muted-foreground mt-1">Ctrl+Shift+Z / Ctrl+Y</p>
+            </TooltipContent>
+          </Tooltip>
+
           {/* Divider */}
           <div className="h-6 w-px bg-border" />
 
           {/* Minimal Stats */}
           <div className="flex items-center gap-3 text-xs whitespace-nowrap">
-            <div className="flex items-center gap-1.5">
-              <div className="w-2 h-2 rounded-full bg-[#d69e2e]" />
-              <span className="mono font-medium">{stats.premium}</span>
-            </div>
+            {categories
+              .filter((c) => (stats.byCategory[c.id] ?? 0) > 0)
+              .map((c) => (
+                <div key={c.id} className="flex items-center gap-1.5" title={c.name}>
+                  <div className="w-2 h-2 rounded-full" style={{ backgroundColor: c.color }} />
+                  <span className="mono font-medium">{stats.byCategory[c.id]}</span>
+                </div>
+              ))}
             <div className="flex items-center gap-1.5">
               <span className="text-muted-foreground">計:</span>
               <span className="mono font-medium text-foreground">{stats.active}</span>
@@ -2,18 +2,20 @@
  * SeatBlock Component - Konva Group for seat block rendering
  * Blueprint Technical Design System
  * 
- * リサイズロジック: Konva標準方式
- * - onTransformEndでscaleX, scaleYをそのまま保存
+ * リサイズ・回転: Transformer は VenueCanvas が選択中の全ブロックで共有する
+ * - Group ノードを onNodeRef で登録し、変形結果（scaleX, scaleY など）をそのまま保存
  * - width/heightは変更しない
  * 
  * 無効化席: listening={false} でクリック透過
- * ブロック背景: listening={isSelected} で未選択時はクリック貫通
+ * ブロック背景: listening={isSelected} で未選択時はクリック貫通（ばら席ペンでは常に貫通し、空白クリックで座席を追加）
  */
 
-import { Group, Circle, Rect, Transformer, Line } from 'react-konva';
-import { useRef, useEffect, useCallback, useState } from 'react';
-import type { SeatBlock as SeatBlockType, EditorMode, LotteryAssignment } from '@/types/venue';
+import { Group, Circle, Rect, Line, Text } from 'react-konva';
+import { useCallback, useState, useMemo } from 'react';
+import type { SeatBlock as SeatBlockType, Seat, SeatCategory, EditorMode, LotteryAssignment } from '@/types/venue';
 import type Konva from 'konva';
+import { getBlockBounds, getCurvedBlockOutline, getAisleOffsetX, getAisleOffsetY } from '@/lib/venueUtils';
+import { getRowLabel, getSeatNumberText } from '@/lib/seatNumbering';
 
 interface SeatBlockProps {
   block: SeatBlockType;
@@ -21,12 +23,15 @@ interface SeatBlockProps {
   mode: EditorMode;
   isLocking?: boolean;  // 関係者ロック配置中かどうか
   lockedSeatIds?: Set<string>;  // ロック済み座席IDセット
-  onSelect: () => void;
+  selectedSeatIds?: Set<string>;  // 矩形選択中の座席IDセット
+  categoryMap?: Map<string, SeatCategory>;  // 座席カテゴリ（ID → 色など）
+  onSelect: (additive: boolean) => void;  // additive: Shift+クリック
+  onNodeRef?: (node: Konva.Group | null) => void;  // 共有 Transformer 用の Group 登録
   onDragStart?: () => void;
+  dragBoundFunc?: (pos: Konva.Vector2d) => Konva.Vector2d;  // ドラッグ中の吸着（絶対座標）
   onDragEnd: (x: number, y: number) => void;
-  onRotate: (rotation: number) => void;
-  onScale: (scaleX: number, scaleY: number) => void;
-  onSeatClick: (seatId: string) => void;
+  onSeatClick: (seatId: string, additive: boolean) => void;  // additive: Shift+クリック
+  onSeatMove?: (seatId: string, localX: number, localY: number) => void;  // ばら席ペン: 座席のドラッグ移動
   seatAssignmentMap?: Map<string, LotteryAssignment>;
   onSeatHover?: (seatId: string | null, assignment: LotteryAssignment | null, x: number, y: number) => void;
 }
@@ -34,96 +39,122 @@ interface SeatBlockProps {
 // Blueprint Technical color palette
 const COLORS = {
   seatNormal: '#4a5568',
-  seatPremium: '#d69e2e',
   seatDisabled: '#4a5568',
   seatHover: '#718096',
   seatStroke: '#2d3748',
-  premiumStroke: '#b7791f',
   disabledStroke: '#1a202c',
   blockBorder: '#00d4ff',
   blockBorderInactive: '#4a5568',
+  seatSelected: '#00d4ff',
   xMark: '#e53e3e',
+  label: '#a0aec0',
+  seatNumber: '#e2e8f0',
+  neighborLink: '#38bdf8',
 };
 
+// 選択ブロックの席番号はこのサイズ以上の座席でのみ描画（小さすぎると読めない）
+const MIN_SEAT_SIZE_FOR_NUMBERS = 12;
+
 export function SeatBlock({
   block,
   isSelected,
   mode,
   isLocking,
   lockedSeatIds,
+  selectedSeatIds,
+  categoryMap,
   onSelect,
+  onNodeRef,
   onDragStart,
+  dragBoundFunc,
   onDragEnd,
-  onRotate,
-  onScale,
   onSeatClick,
+  onSeatMove,
   seatAssignmentMap,
   onSeatHover,
 }: SeatBlockProps) {
-  const groupRef = useRef<Konva.Group>(null);
-  const transformerRef = useRef<Konva.Transformer>(null);
   const [hoveredSeatId, setHoveredSeatId] = useState<string | null>(null);
 
-  // Attach transformer when selected
-  useEffect(() => {
-    if (isSelected && transformerRef.current && groupRef.current) {
-      transformerRef.current.nodes([groupRef.current]);
-      transformerRef.current.getLayer()?.batchDraw();
-    }
-  }, [isSelected]);
-
-  const spacing = block.seatSize + block.seatGap;
   const skewX = block.skewX ?? 0;
   const staggerX = block.staggerX ?? 0;
+  const curveRadius = block.curveRadius ?? 0;
   const totalSkew = (block.rows - 1) * skewX;
-  const hasNonLinear = staggerX !== 0;
+  const isCurved = curveRadius > 0;
+  const hasNonLinear = staggerX !== 0 || isCurved || !!block.rowLayout;
+  const isLoose = block.kind === 'loose';
+  const isLoosePen = isLoose && mode === 'seatPen';
 
   // Bounding box from actual seat positions
-  let minSeatX = 0, maxSeatX = 0, minSeatY = 0, maxSeatY = 0;
-  if (block.seats.length > 0) {
-    minSeatX = Infinity; maxSeatX = -Infinity; minSeatY = Infinity; maxSeatY = -Infinity;
-    for (const s of block.seats) {
-      minSeatX = Math.min(minSeatX, s.localX);
-      maxSeatX = Math.max(maxSeatX, s.localX + block.seatSize);
-      minSeatY = Math.min(minSeatY, s.localY);
-      maxSeatY = Math.max(maxSeatY, s.localY + block.seatSize);
+  const {
+    minX: minSeatX,
+    minY: minSeatY,
+    width: blockWidth,
+    height: blockHeight,
+  } = getBlockBounds(block);
+  // 傾き配置の平行四辺形はスキュー前のグリッド寸法を基準にする
+  const spacing = block.seatSize + block.seatGap;
+  const gridWidth = block.cols * spacing - block.seatGap + getAisleOffsetX(block.aisles, block.cols - 1);
+  const rowGap = block.rowGap ?? block.seatGap;
+  const gridHeight = block.rows * (block.seatSize + rowGap) - rowGap + getAisleOffsetY(block.aisles, block.rows - 1);
+
+  // 行ラベル: 各行の左端の席の左隣に表示（ばら席は行なし）
+  const rowLabels = useMemo(() => {
+    if (block.kind === 'loose') return [];
+    const firstSeats = new Map<number, Seat>();
+    for (const seat of block.seats) {
+      const current = firstSeats.get(seat.row);
+      if (!current || seat.localX < current.localX) firstSeats.set(seat.row, seat);
+    }
+    return Array.from(firstSeats.values()).map(seat => ({
+      row: seat.row,
+      text: getRowLabel(block, seat.row),
+      x: seat.localX - block.seatSize * 1.6,
+      y: seat.localY,
+    }));
+  }, [block]);
+  const showSeatNumbers = isSelected && block.seatSize >= MIN_SEAT_SIZE_FOR_NUMBERS;
+
+  // ばら席の隣接リンク: 座席中心どうしを結ぶ（各組1本）
+  const neighborLinks = useMemo(() => {
+    if (block.kind !== 'loose') return [];
+    const half = block.seatSize / 2;
+    const seatMap = new Map(block.seats.map(seat => [seat.id, seat]));
+    const links: { key: string; points: number[] }[] = [];
+    for (const seat of block.seats) {
+      for (const neighborId of seat.neighbors ?? []) {
+        const neighbor = seatMap.get(neighborId);
+        if (!neighbor || neighborId < seat.id) continue;
+        links.push({
+          key: `${seat.id}-${neighborId}`,
+          points: [seat.localX + half, seat.localY + half, neighbor.localX + half, neighbor.localY + half],
+        });
+      }
     }
-  }
-  const blockWidth = hasNonLinear ? (maxSeatX - minSeatX) : block.cols * spacing - block.seatGap;
-  const blockHeight = hasNonLinear ? (maxSeatY - minSeatY) : block.rows * spacing - block.seatGap;
+    return links;
+  }, [block]);
 
   const handleDragEnd = useCallback((e: Konva.KonvaEventObject<DragEvent>) => {
     onDragEnd(e.target.x(), e.target.y());
   }, [onDragEnd]);
 
-  // シンプルなTransformEnd: スケールをそのまま保存
-  const handleTransformEnd = useCallback(() => {
-    const node = groupRef.current;
-    if (!node) return;
-    
-    // スケールと回転をそのまま保存（width/heightは変更しない）
-    onScale(node.scaleX(), node.scaleY());
-    onRotate(node.rotation());
-    onDragEnd(node.x(), node.y());
-  }, [onScale, onRotate, onDragEnd]);
-
   const getCursor = useCallback(() => {
     if (mode === 'disable') return 'crosshair';
-    if (mode === 'premium') return 'pointer';
+    if (mode === 'premium' || mode === 'category') return 'pointer';
+    if (mode === 'seatPen') return isLoose ? 'move' : 'default';
     if (mode === 'lottery') return isLocking ? 'pointer' : 'default';
     return 'move';
-  }, [mode, isLocking]);
+  }, [mode, isLocking, isLoose]);
 
-  // ブロッククリック: 常にonSelectを呼ぶ
+  // ブロッククリック: 常にonSelectを呼ぶ（Shift で複数選択）
   const handleGroupClick = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
     e.cancelBubble = true;
-    onSelect();
+    onSelect(e.evt.shiftKey);
   }, [onSelect]);
 
   return (
     <>
       <Group
-        ref={groupRef}
+        ref={onNodeRef}
         x={block.x}
         y={block.y}
         rotation={block.rotation}
@@ -133,31 +164,30 @@ export function SeatBlock({
         onClick={handleGroupClick}
         onTap={(e) => {
           e.cancelBubble = true;
-          onSelect();
+          onSelect(false);
         }}
         onDragStart={() => onDragStart?.()}
+        dragBoundFunc={dragBoundFunc}
         onDragEnd={handleDragEnd}
       >
         {/* Block background/border */}
-        {skewX === 0 && !hasNonLinear ? (
-          <Rect
-            x={minSeatX - 8}
-            y={minSeatY - 8}
-            width={blockWidth + 16}
-            height={blockHeight + 16}
+        {isCurved ? (
+          /* 扇形配置: 環状扇形の外形 */
+          <Line
+            points={getCurvedBlockOutline(block, 8)}
+            closed
             fill="transparent"
             stroke={isSelected ? COLORS.blockBorder : COLORS.blockBorderInactive}
             strokeWidth={isSelected ? 2 : 1}
             dash={isSelected ? undefined : [5, 5]}
-            cornerRadius={4}
             shadowColor={isSelected ? COLORS.blockBorder : 'transparent'}
             shadowBlur={isSelected ? 15 : 0}
             shadowOpacity={0.5}
-            listening={isSelected}
+            listening={isSelected && mode !== 'seatPen'}
             hitStrokeWidth={isSelected ? 20 : 0}
           />
-        ) : hasNonLinear ? (
-          /* 非線形配置（千鳥・扇形）: バウンディングボックスで表示 */
+        ) : skewX === 0 || hasNonLinear ? (
+          /* 直線配置・千鳥配置・行ごとレイアウト: バウンディングボックスで表示 */
           <Rect
             x={minSeatX - 8}
             y={minSeatY - 8}
@@ -171,7 +201,7 @@ export function SeatBlock({
             shadowColor={isSelected ? COLORS.blockBorder : 'transparent'}
             shadowBlur={isSelected ? 15 : 0}
             shadowOpacity={0.5}
-            listening={isSelected}
+            listening={isSelected && mode !== 'seatPen'}
             hitStrokeWidth={isSelected ? 20 : 0}
           />
         ) : (
@@ -180,9 +210,9 @@ export function SeatBlock({
               const pad = 8;
               return [
                 -pad, -pad,
-                blockWidth + pad, -pad,
-                blockWidth + pad + totalSkew, blockHeight + pad,
-                totalSkew - pad, blockHeight + pad,
+                gridWidth + pad, -pad,
+                gridWidth + pad + totalSkew, gridHeight + pad,
+                totalSkew - pad, gridHeight + pad,
               ];
             })()}
             closed
@@ -193,20 +223,53 @@ export function SeatBlock({
             shadowColor={isSelected ? COLORS.blockBorder : 'transparent'}
             shadowBlur={isSelected ? 15 : 0}
             shadowOpacity={0.5}
-            listening={isSelected}
+            listening={isSelected && mode !== 'seatPen'}
             hitStrokeWidth={isSelected ? 20 : 0}
           />
         )}
 
+        {/* Row labels */}
+        {rowLabels.map(label => (
+          <Text
+            key={`row-${label.row}`}
+            x={label.x}
+            y={label.y}
+            width={block.seatSize * 1.4}
+            height={block.seatSize}
+            text={label.text}
+            fontSize={block.seatSize * 0.6}
+            fontFamily="monospace"
+            fill={COLORS.label}
+            align="right"
+            verticalAlign="middle"
+            listening={false}
+          />
+        ))}
+
+        {/* Neighbor links of loose seats */}
+        {(isSelected || isLoosePen) && neighborLinks.map(link => (
+          <Line
+            key={link.key}
+            points={link.points}
+            stroke={COLORS.neighborLink}
+            strokeWidth={1.5}
+            dash={[3, 3]}
+            opacity={0.8}
+            listening={false}
+          />
+        ))}
+
         {/* Render seats */}
         {block.seats.map((seat) => {
           const isDisabled = seat.isDisabled;
           const isHovered = hoveredSeatId === seat.id;
           const assignment = seatAssignmentMap?.get(seat.id);
           const isLockedSeat = lockedSeatIds?.has(seat.id) ?? false;
+          const isSeatSelected = selectedSeatIds?.has(seat.id) ?? false;
 
-          let baseFillColor = seat.isPremium ? COLORS.seatPremium : COLORS.seatNormal;
-          let strokeColor = seat.isPremium ? COLORS.premiumStroke : COLORS.seatStroke;
+          const category = seat.categoryId ? categoryMap?.get(seat.categoryId) : undefined;
+          let baseFillColor = category ? category.color : COLORS.seatNormal;
+          let strokeColor = category ? category.color : COLORS.seatStroke;
 
           // ロック済み座席は紫色で表示
           if (isLockedSeat) {
@@ -221,6 +284,11 @@ export function SeatBlock({
             strokeColor = COLORS.disabledStroke;
           }
 
+          // 矩形選択中の座席は枠線を強調
+          if (isSeatSelected) {
+            strokeColor = COLORS.seatSelected;
+          }
+
           const fillColor = isHovered && mode !== 'normal' && !isLockedSeat ? COLORS.seatHover : baseFillColor;
           const opacity = isDisabled ? 0.2 : 1;
           
@@ -233,17 +301,35 @@ export function SeatBlock({
           const shouldListen = !isDisabled || mode === 'disable';
 
           return (
-            <Group key={seat.id} listening={shouldListen}>
+            <Group
+              key={seat.id}
+              listening={shouldListen}
+              draggable={isLoosePen}
+              onDragStart={(e) => {
+                e.cancelBubble = true;
+              }}
+              onDragMove={(e) => {
+                e.cancelBubble = true;
+              }}
+              onDragEnd={(e) => {
+                // 座席 Group のずれ（ブロックのローカル座標）を座標に反映して位置を戻す
+                e.cancelBubble = true;
+                const dx = e.target.x();
+                const dy = e.target.y();
+                e.target.position({ x: 0, y: 0 });
+                onSeatMove?.(seat.id, seat.localX + dx, seat.localY + dy);
+              }}
+            >
               <Circle
                 x={centerX}
                 y={centerY}
                 radius={block.seatSize / 2}
                 fill={fillColor}
                 stroke={strokeColor}
-                strokeWidth={1.5}
-                opacity={opacity}
-                shadowColor={isLockedSeat ? '#a855f7' : seat.isPremium && !isDisabled ? COLORS.seatPremium : 'transparent'}
-                shadowBlur={isLockedSeat ? 10 : seat.isPremium && !isDisabled ? 8 : 0}
+                strokeWidth={isSeatSelected ? 3 : 1.5}
+                opacity={isSeatSelected ? Math.max(opacity, 0.6) : opacity}
+                shadowColor={isLockedSeat ? '#a855f7' : category && !isDisabled ? category.color : 'transparent'}
+                shadowBlur={isLockedSeat ? 10 : category && !isDisabled ? 8 : 0}
                 shadowOpacity={isLockedSeat ? 0.8 : 0.6}
                 hitStrokeWidth={10}
                 listening={shouldListen}
@@ -252,14 +338,14 @@ export function SeatBlock({
                   // Normalモードなら何もしない（親のGroupにイベントを渡す＝ブロック選択させる）
                   if (mode === 'normal') return;
 
-                  // それ以外のモード（premium, disable, lottery）は座席クリック処理
+                  // それ以外のモード（premium, category, disable, lottery）は座席クリック処理
                   e.cancelBubble = true;
-                  onSeatClick(seat.id);
+                  onSeatClick(seat.id, e.evt.shiftKey);
                 }}
                 onTap={(e) => {
                   if (mode === 'normal') return;
                   e.cancelBubble = true;
-                  onSeatClick(seat.id);
+                  onSeatClick(seat.id, false);
                 }}
                 onMouseEnter={(e) => {
                   const stage = e.target.getStage();
@@ -332,29 +418,28 @@ export function SeatBlock({
                   />
                 </>
               )}
+
+              {/* Seat number (selected block only) */}
+              {showSeatNumbers && !isDisabled && (
+                <Text
+                  x={seat.localX}
+                  y={seat.localY}
+                  width={block.seatSize}
+                  height={block.seatSize}
+                  text={getSeatNumberText(block, seat)}
+                  fontSize={block.seatSize * 0.45}
+                  fontFamily="monospace"
+                  fill={COLORS.seatNumber}
+                  align="center"
+                  verticalAlign="middle"
+                  listening={false}
+                  perfectDrawEnabled={false}
+                />
+              )}
             </Group>
           );
         })}
       </Group>
-
-      {/* Transformer for rotation and resize */}
-      {isSelected && mode === 'normal' && (
-        <Transformer
-          ref={transformerRef}
-          rotateEnabled={true}
-          resizeEnabled={true}
-          keepRatio={false}
-          enabledAnchors={['top-left', 'top-center', 'top-right', 'middle-left', 'middle-right', 'bottom-left', 'bottom-center', 'bottom-right']}
-          borderStroke={COLORS.blockBorder}
-          borderStrokeWidth={2}
-          anchorStroke={COLORS.blockBorder}
-          anchorFill="#1a1f36"
-          anchorSize={10}
-          anchorCornerRadius={2}
-          onTransformStart={() => onDragStart?.()}
-          onTransformEnd={handleTransformEnd}
-        />
-      )}
     </>
   );
 }
@@ -0,0 +1,127 @@
+/**
+ * SeatDetectionPanel Component - 背景の座席表からの座席検出
+ * Blueprint Technical Design System
+ *
+ * 背景画像の中の座席らしい印を行にまとめ、ブロック候補としてキャンバスに表示する（解析はブラウザ内のみ）。
+ * 拾いすぎ・拾い漏れがあるときは、しきい値や印の大きさを変えて検出し直す
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScanSearch } from 'lucide-react';
+import type { BackgroundImage, SeatBlock, SeatDetectionOptions } from '@/types/venue';
+import { DEFAULT_SEAT_DETECTION_OPTIONS, detectSeatSuggestions } from '@/lib/seatDetection';
+
+interface SeatDetectionPanelProps {
+  backgroundImage: BackgroundImage;
+  suggestionCount: number;
+  onDetected: (suggestions: SeatBlock[]) => void;
+}
+
+export function SeatDetectionPanel({ backgroundImage, suggestionCount, onDetected }: SeatDetectionPanelProps) {
+  const [options, setOptions] = useState<SeatDetectionOptions>(DEFAULT_SEAT_DETECTION_OPTIONS);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const update = (changes: Partial<SeatDetectionOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const handleDetect = () => {
+    setIsDetecting(true);
+    setMessage(null);
+    // 解析中の表示を描画してから重い処理に入る
+    window.setTimeout(() => {
+      detectSeatSuggestions(backgroundImage, options)
+        .then(({ suggestions, markCount }) => {
+          onDetected(suggestions);
+          setMessage(
+            suggestions.length > 0
+              ? `${markCount}個の印から${suggestions.length}件の候補を作成しました`
+              : '座席らしい印が見つかりませんでした',
+          );
+        })
+        .catch((error) => {
+          console.error('座席の検出に失敗しました:', error);
+          setMessage('背景を解析できませんでした');
+        })
+        .finally(() => setIsDetecting(false));
+    }, 0);
+  };
+
+  const isAutoThreshold = options.threshold === null;
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-4">
+      <div className="flex items-center gap-2.5 mb-4">
+        <div className="w-7 h-7 rounded-lg bg-primary/10 flex items-center justify-center">
+          <ScanSearch className="w-4 h-4 text-primary" />
+        </div>
+        <h3 className="font-bold text-sm text-foreground">座席の検出</h3>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <Label className="text-xs font-medium text-muted-foreground">しきい値</Label>
+            <label className="flex items-center gap-1.5 text-[11px] text-muted-foreground cursor-pointer">
+              <Checkbox
+                checked={isAutoThreshold}
+                onCheckedChange={(checked) => update({ threshold: checked ? null : 128 })}
+              />
+              自動
+            </label>
+          </div>
+          {!isAutoThreshold && (
+            <div className="flex items-center gap-2">
+              <Slider
+                value={[options.threshold ?? 128]}
+                min={1}
+                max={254}
+                step={1}
+                onValueChange={([value]) => update({ threshold: value })}
+                className="flex-1"
+              />
+              <span className="mono text-xs font-bold text-primary w-8 text-right">{options.threshold}</span>
+            </div>
+          )}
+        </div>
+
+        <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer">
+          <Checkbox checked={options.invert} onCheckedChange={(checked) => update({ invert: checked === true })} />
+          暗い地に明るい印（明暗を反転）
+        </label>
+
+        <div>
+          <Label className="text-xs font-medium text-muted-foreground">印の大きさ（背景の px）</Label>
+          <div className="flex items-center gap-1.5 mt-1.5">
+            <Input
+              type="number"
+              min={1}
+              value={options.minSize}
+              onChange={(e) => update({ minSize: Math.max(1, parseFloat(e.target.value) || 1) })}
+              className="h-7 text-xs mono text-center"
+            />
+            <span className="text-xs text-muted-foreground">〜</span>
+            <Input
+              type="number"
+              min={1}
+              value={options.maxSize}
+              onChange={(e) => update({ maxSize: Math.max(1, parseFloat(e.target.value) || 1) })}
+              className="h-7 text-xs mono text-center"
+            />
+          </div>
+        </div>
+
+        <Button className="w-full h-8 text-xs gap-1.5" onClick={handleDetect} disabled={isDetecting}>
+          <ScanSearch className="w-3.5 h-3.5" />
+          {isDetecting ? '解析中...' : suggestionCount > 0 ? '検出し直す' : '座席を検出'}
+        </Button>
+
+        {message && <p className="text-[10px] text-muted-foreground">{message}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,388 @@
+/**
+ * SeatMapExportDialog Component - 座席図の書き出し・印刷
+ * Blueprint Technical Design System
+ *
+ * 座席図を SVG / 高解像度 PNG / PDF で書き出す。会場全体か選択中のブロックの範囲を、
+ * 編集画面と同じ色・当選結果（割り当ての色）・白紙の座席表・販売状態で出力できる。
+ * PDF は A4 / A3 に縮尺を合わせ、大きな会場はのりしろ付きで複数ページに分割する
+ */
+
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Download, Printer } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Annotation, SeatBlock, SeatCategory, StageShape, VenueLevel } from '@/types/venue';
+import {
+  DEFAULT_SVG_EXPORT_OPTIONS,
+  createVenueSvg,
+  downloadSvg,
+  getVenueSvgFrame,
+  type SvgColorMode,
+  type SvgExportOptions,
+  type SvgRegion,
+} from '@/lib/svgExport';
+import {
+  DEFAULT_PDF_LAYOUT_OPTIONS,
+  createSeatMapPdf,
+  createSeatMapPng,
+  getPdfLayout,
+  getPngSize,
+  withRenderedBackgrounds,
+  type PaperOrientation,
+  type PaperSize,
+  type PdfLayoutOptions,
+} from '@/lib/printExport';
+import { downloadBlob, getBlockCanvasBounds } from '@/lib/venueUtils';
+
+interface SeatMapExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  venueName: string;
+  blocks: SeatBlock[];
+  categories: SeatCategory[];
+  stages: StageShape[];
+  levels: VenueLevel[];
+  annotations: Annotation[];
+  selectedBlockIds: string[];
+  seatColors: Map<string, string>; // 座席ID → 当選グループの色
+  pixelsPerMeter: number | null;
+}
+
+type ExportFormat = 'svg' | 'png' | 'pdf';
+type ExportRange = 'all' | 'selection';
+
+const FORMATS: [ExportFormat, string][] = [
+  ['svg', 'SVG'],
+  ['png', 'PNG'],
+  ['pdf', 'PDF'],
+];
+
+const COLOR_MODES: [SvgColorMode, string][] = [
+  ['category', '編集画面'],
+  ['assignment', '当選結果'],
+  ['blank', '白紙'],
+  ['state', '販売状態'],
+];
+
+const DPI_OPTIONS = [150, 300, 600];
+
+const PAPERS: [PaperSize, string][] = [
+  ['a4', 'A4'],
+  ['a3', 'A3'],
+];
+
+const ORIENTATIONS: [PaperOrientation, string][] = [
+  ['landscape', '横'],
+  ['portrait', '縦'],
+];
+
+const TOGGLES: [keyof Pick<SvgExportOptions, 'rowLabels' | 'seatNumbers' | 'blockNames' | 'stage' | 'legend'>, string][] = [
+  ['rowLabels', '行ラベル'],
+  ['seatNumbers', '席番号'],
+  ['blockNames', 'ブロック名'],
+  ['stage', 'ステージ'],
+  ['legend', '凡例'],
+];
+
+// 選択範囲の周りに空ける余白（キャンバス座標）
+const SELECTION_PADDING = 30;
+// キャンバス座標 1（CSS の 1px）の印刷上の長さ
+const MM_PER_CSS_PX = 25.4 / 96;
+// SVG に埋め込む PDF 背景の解像度（キャンバス座標 1 あたりの px）
+const SVG_BACKGROUND_PIXELS_PER_UNIT = 2;
+
+const selectClass = 'mt-1 w-full h-8 rounded-md border border-input bg-background px-2 text-xs';
+
+function getSelectionRegion(blocks: SeatBlock[], selectedBlockIds: string[]): SvgRegion | null {
+  const selected = blocks.filter(block => selectedBlockIds.includes(block.id));
+  if (selected.length === 0) return null;
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const block of selected) {
+    const bounds = getBlockCanvasBounds(block);
+    minX = Math.min(minX, bounds.minX);
+    minY = Math.min(minY, bounds.minY);
+    maxX = Math.max(maxX, bounds.maxX);
+    maxY = Math.max(maxY, bounds.maxY);
+  }
+  return {
+    x: minX - SELECTION_PADDING,
+    y: minY - SELECTION_PADDING,
+    width: maxX - minX + SELECTION_PADDING * 2,
+    height: maxY - minY + SELECTION_PADDING * 2,
+  };
+}
+
+export function SeatMapExportDialog({
+  open,
+  onOpenChange,
+  venueName,
+  blocks,
+  categories,
+  stages,
+  levels,
+  annotations,
+  selectedBlockIds,
+  seatColors,
+  pixelsPerMeter,
+}: SeatMapExportDialogProps) {
+  const [options, setOptions] = useState<SvgExportOptions>(DEFAULT_SVG_EXPORT_OPTIONS);
+  const [format, setFormat] = useState<ExportFormat>('svg');
+  const [range, setRange] = useState<ExportRange>('all');
+  const [dpi, setDpi] = useState(300);
+  const [layoutOptions, setLayoutOptions] = useState<PdfLayoutOptions>(DEFAULT_PDF_LAYOUT_OPTIONS);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const update = (changes: Partial<SvgExportOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+  const updateLayout = (changes: Partial<PdfLayoutOptions>) => setLayoutOptions(prev => ({ ...prev, ...changes }));
+
+  // 削除された階が選ばれたままなら、すべての階を書き出す
+  const levelId = options.levelId && levels.some(level => level.id === options.levelId) ? options.levelId : null;
+  const hasAssignments = seatColors.size > 0;
+  // 当選結果がなくなったら編集画面の色に戻す
+  const colorBy = options.colorBy === 'assignment' && !hasAssignments ? 'category' : options.colorBy;
+  const selectionRegion = useMemo(() => getSelectionRegion(blocks, selectedBlockIds), [blocks, selectedBlockIds]);
+  const region = range === 'selection' ? selectionRegion : null;
+
+  const input = useMemo(
+    () => ({ blocks, categories, stages, levels, annotations, seatColors }),
+    [blocks, categories, stages, levels, annotations, seatColors],
+  );
+  const exportOptions: SvgExportOptions = { ...options, levelId, colorBy, region };
+  const frame = blocks.length > 0 ? getVenueSvgFrame(input, exportOptions) : null;
+
+  const pngSize = frame && format === 'png' ? getPngSize(frame, dpi) : null;
+  const pdfLayout = frame && format === 'pdf' ? getPdfLayout(frame, layoutOptions) : null;
+  // 縮尺（用紙上の mm と実際の長さの比）。PNG は指定の DPI で印刷したときの縮尺
+  const mmPerUnit = pdfLayout ? pdfLayout.mmPerUnit : format === 'png' ? MM_PER_CSS_PX : null;
+  const scale = pixelsPerMeter && mmPerUnit ? Math.round(1000 / pixelsPerMeter / mmPerUnit) : null;
+
+  const getFilename = (extension: string) => {
+    const levelName = levelId ? levels.find(level => level.id === levelId)?.name : undefined;
+    return `${venueName || 'venue'}${levelName ? `-${levelName}` : ''}-seatmap.${extension}`;
+  };
+
+  const handleExport = async () => {
+    try {
+      if (format === 'svg') {
+        downloadSvg(createVenueSvg(await withRenderedBackgrounds(input, exportOptions, SVG_BACKGROUND_PIXELS_PER_UNIT), exportOptions), getFilename('svg'));
+      } else if (format === 'png') {
+        setProgress('画像を作成中...');
+        downloadBlob(await createSeatMapPng(input, exportOptions, dpi), getFilename('png'));
+      } else {
+        setProgress('PDF を作成中...');
+        const pdf = await createSeatMapPdf(input, exportOptions, layoutOptions, dpi, (done, total) => {
+          setProgress(`PDF を作成中... ${done}/${total} ページ`);
+        });
+        downloadBlob(pdf, getFilename('pdf'));
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '書き出しに失敗しました');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const choiceClass = (active: boolean) =>
+    `h-7 text-xs ${active ? 'bg-primary/10 text-primary hover:bg-primary/15' : 'text-muted-foreground'}`;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !progress && onOpenChange(next)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2.5">
+            <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
+              <Printer className="w-4 h-4 text-primary" />
+            </div>
+            座席図の書き出し・印刷
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label className="text-xs font-medium text-muted-foreground">形式</Label>
+              <div className="grid grid-cols-3 gap-1 mt-1">
+                {FORMATS.map(([value, label]) => (
+                  <Button key={value} variant="ghost" size="sm" className={choiceClass(format === value)} onClick={() => setFormat(value)}>
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <Label className="text-xs font-medium text-muted-foreground">範囲</Label>
+              <div className="grid grid-cols-2 gap-1 mt-1">
+                <Button variant="ghost" size="sm" className={choiceClass(range === 'all')} onClick={() => setRange('all')}>
+                  全体
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className={choiceClass(range === 'selection' && !!selectionRegion)}
+                  onClick={() => setRange('selection')}
+                  disabled={!selectionRegion}
+                  title={selectionRegion ? undefined : 'ブロックを選択すると、その範囲だけを書き出せます'}
+                >
+                  選択範囲
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {levels.length > 1 && (
+            <div>
+              <Label className="text-xs font-medium text-muted-foreground">階</Label>
+              <select value={levelId ?? ''} onChange={(e) => update({ levelId: e.target.value || null })} className={selectClass}>
+                <option value="">すべての階</option>
+                {levels.map(level => (
+                  <option key={level.id} value={level.id}>{level.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <Label className="text-xs font-medium text-muted-foreground">座席の色分け</Label>
+            <div className="grid grid-cols-4 gap-1 mt-1">
+              {COLOR_MODES.map(([value, label]) => (
+                <Button
+                  key={value}
+                  variant="ghost"
+                  size="sm"
+                  className={choiceClass(colorBy === value)}
+                  onClick={() => update({ colorBy: value })}
+                  disabled={value === 'assignment' && !hasAssignments}
+                  title={value === 'assignment' && !hasAssignments ? '抽選を実行すると選べます' : undefined}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label className="text-xs font-medium text-muted-foreground">表示する項目</Label>
+            <div className="grid grid-cols-3 gap-2 mt-1.5">
+              {TOGGLES.map(([key, label]) => (
+                <label key={key} className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer">
+                  <Checkbox checked={options[key]} onCheckedChange={(checked) => update({ [key]: checked === true })} />
+                  {label}
+                </label>
+              ))}
+              <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer">
+                <Checkbox
+                  checked={options.background === null}
+                  onCheckedChange={(checked) => update({ background: checked === true ? null : DEFAULT_SVG_EXPORT_OPTIONS.background })}
+                />
+                背景を透明に
+              </label>
+            </div>
+          </div>
+
+          {format !== 'svg' && (
+            <div className="grid grid-cols-3 gap-3 border-t pt-3">
+              <div>
+                <Label className="text-xs font-medium text-muted-foreground">解像度</Label>
+                <select value={dpi} onChange={(e) => setDpi(Number(e.target.value))} className={selectClass}>
+                  {DPI_OPTIONS.map(value => (
+                    <option key={value} value={value}>{value} dpi</option>
+                  ))}
+                </select>
+              </div>
+              {format === 'pdf' && (
+                <>
+                  <div>
+                    <Label className="text-xs font-medium text-muted-foreground">用紙</Label>
+                    <select
+                      value={`${layoutOptions.paper}-${layoutOptions.orientation}`}
+                      onChange={(e) => {
+                        const [paper, orientation] = e.target.value.split('-') as [PaperSize, PaperOrientation];
+                        updateLayout({ paper, orientation });
+                      }}
+                      className={selectClass}
+                    >
+                      {PAPERS.flatMap(([paper, paperLabel]) =>
+                        ORIENTATIONS.map(([orientation, orientationLabel]) => (
+                          <option key={`${paper}-${orientation}`} value={`${paper}-${orientation}`}>
+                            {paperLabel} {orientationLabel}
+                          </option>
+                        )),
+                      )}
+                    </select>
+                  </div>
+                  <div>
+                    <Label className="text-xs font-medium text-muted-foreground">横の枚数</Label>
+                    <select
+                      value={layoutOptions.pagesWide}
+                      onChange={(e) => updateLayout({ pagesWide: Number(e.target.value) })}
+                      className={selectClass}
+                    >
+                      {[1, 2, 3, 4, 5, 6, 7, 8].map(value => (
+                        <option key={value} value={value}>{value} 枚</option>
+                      ))}
+                    </select>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {format === 'pdf' && layoutOptions.pagesWide > 1 && (
+            <div>
+              <Label className="text-xs font-medium text-muted-foreground">のりしろ（隣のページと重ねる幅）</Label>
+              <select
+                value={layoutOptions.overlapMm}
+                onChange={(e) => updateLayout({ overlapMm: Number(e.target.value) })}
+                className={selectClass}
+              >
+                {[0, 5, 10, 15, 20].map(value => (
+                  <option key={value} value={value}>{value} mm</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {(pngSize || pdfLayout) && (
+            <p className="text-[10px] text-muted-foreground">
+              {pngSize && (
+                <>出力サイズ <span className="mono">{pngSize.width} × {pngSize.height}</span> px</>
+              )}
+              {pdfLayout && (
+                <>
+                  <span className="mono">{pdfLayout.tiles.length}</span> ページ
+                  {pdfLayout.tiles.length > 1 && (
+                    <>（横 <span className="mono">{pdfLayout.columns}</span> × 縦 <span className="mono">{pdfLayout.rows}</span>）</>
+                  )}
+                </>
+              )}
+              {scale && (
+                <>・縮尺 約 <span className="mono">1:{scale}</span></>
+              )}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="border-t pt-4">
+          {progress && <p className="mr-auto self-center text-xs text-muted-foreground">{progress}</p>}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={!!progress}>閉じる</Button>
+          <Button onClick={handleExport} disabled={blocks.length === 0 || !!progress} className="shadow-md">
+            <Download className="w-4 h-4 mr-1.5" />
+            {FORMATS.find(([value]) => value === format)?.[1]} を書き出す
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
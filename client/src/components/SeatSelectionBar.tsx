@@ -0,0 +1,82 @@
+/**
+ * SeatSelectionBar Component - 矩形選択した座席への一括操作バー
+ * Blueprint Technical Design System
+ *
+ * プレミアム設定 / カテゴリ設定 / 無効化モードでドラッグ選択した座席に対して
+ * 設定・解除・反転を一括適用する（1回の元に戻す単位）
+ */
+
+import { Button } from '@/components/ui/button';
+import { Check, X, Repeat, SquareDashedMousePointer } from 'lucide-react';
+import type { EditorMode, SeatPaintAction } from '@/types/venue';
+
+interface SeatSelectionBarProps {
+  mode: EditorMode;
+  categoryName?: string; // カテゴリ設定モードで塗るカテゴリ名
+  count: number;
+  onPaint: (action: SeatPaintAction) => void;
+  onClear: () => void;
+}
+
+export function SeatSelectionBar({ mode, categoryName, count, onPaint, onClear }: SeatSelectionBarProps) {
+  const flagLabel = mode === 'disable' ? '無効化' : mode === 'category' ? (categoryName ?? 'カテゴリ') : 'プレミアム';
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50">
+      <div className="bg-card/90 backdrop-blur-md border border-border rounded-full shadow-lg px-4 py-1.5 flex items-center gap-3">
+        <div className="flex items-center gap-1.5 text-xs whitespace-nowrap">
+          <SquareDashedMousePointer className="w-4 h-4 text-primary" />
+          <span className="mono font-bold text-foreground">{count}</span>
+          <span className="text-muted-foreground">席選択中</span>
+        </div>
+
+        <div className="h-5 w-px bg-border" />
+
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2.5 text-xs gap-1"
+            onClick={() => onPaint('set')}
+          >
+            <Check className="w-3.5 h-3.5" />
+            {flagLabel}に設定
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2.5 text-xs gap-1"
+            onClick={() => onPaint('clear')}
+          >
+            <X className="w-3.5 h-3.5" />
+            解除
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2.5 text-xs gap-1"
+            onClick={() => onPaint('toggle')}
+          >
+            <Repeat className="w-3.5 h-3.5" />
+            反転
+          </Button>
+        </div>
+
+        <div className="h-5 w-px bg-border" />
+
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-muted-foreground hover:text-foreground"
+          onClick={onClear}
+        >
+          <X className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      <p className="text-[10px] text-muted-foreground/70 text-center mt-1">
+        Shift+ドラッグで追加 / Alt+ドラッグで除外 / Esc で選択解除
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * SeatSuggestionBar Component - 検出した座席ブロック候補の採用バー
+ * Blueprint Technical Design System
+ *
+ * 選択中の候補、またはすべての候補をブロックとして追加・破棄する。
+ * 追加したブロックは通常のブロックと同じく行数・間隔などを調整できる
+ */
+
+import { Button } from '@/components/ui/button';
+import { Check, CheckCheck, Trash2, X, ScanSearch } from 'lucide-react';
+import type { SeatBlock } from '@/types/venue';
+
+interface SeatSuggestionBarProps {
+  count: number;
+  selected?: SeatBlock;
+  onAccept: () => void; // 選択中の候補を追加
+  onDiscard: () => void; // 選択中の候補を破棄
+  onAcceptAll: () => void;
+  onDiscardAll: () => void;
+}
+
+function describe(suggestion: SeatBlock): string {
+  if (suggestion.kind === 'loose') return `ばら席 ${suggestion.seats.length}席`;
+  return `${suggestion.rows}行 × ${suggestion.cols}列（${suggestion.seats.length}席）`;
+}
+
+export function SeatSuggestionBar({ count, selected, onAccept, onDiscard, onAcceptAll, onDiscardAll }: SeatSuggestionBarProps) {
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50">
+      <div className="bg-card/90 backdrop-blur-md border border-border rounded-full shadow-lg px-4 py-1.5 flex items-center gap-3">
+        <div className="flex items-center gap-1.5 text-xs whitespace-nowrap">
+          <ScanSearch className="w-4 h-4 text-primary" />
+          <span className="text-muted-foreground">検出候補</span>
+          <span className="mono font-bold text-foreground">{count}</span>
+          <span className="text-muted-foreground">件</span>
+        </div>
+
+        {selected && (
+          <>
+            <div className="h-5 w-px bg-border" />
+            <div className="flex items-center gap-1 text-xs">
+              <span className="mono text-foreground whitespace-nowrap mr-1">{describe(selected)}</span>
+              <Button variant="ghost" size="sm" className="h-7 px-2.5 text-xs gap-1" onClick={onAccept}>
+                <Check className="w-3.5 h-3.5" />
+                追加
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                onClick={onDiscard}
+                title="この候補を破棄"
+              >
+                <X className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          </>
+        )}
+
+        <div className="h-5 w-px bg-border" />
+
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" className="h-7 px-2.5 text-xs gap-1" onClick={onAcceptAll}>
+            <CheckCheck className="w-3.5 h-3.5" />
+            すべて追加
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2.5 text-xs gap-1 text-muted-foreground hover:text-destructive"
+            onClick={onDiscardAll}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            すべて破棄
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-[10px] text-muted-foreground/70 text-center mt-1">
+        候補をクリックで選択・ドラッグで位置を調整 / 追加後は通常のブロックとして編集できます
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * SeatSuggestionLayer Component - 背景から検出した座席ブロック候補のプレビュー
+ * Blueprint Technical Design System
+ *
+ * 候補は破線の枠と半透明の座席で表示。クリックで選択し、選択中はドラッグで位置を微調整できる
+ */
+
+import { Layer, Group, Rect, Circle } from 'react-konva';
+import type { SeatBlock } from '@/types/venue';
+import { getBlockBounds } from '@/lib/venueUtils';
+
+interface SeatSuggestionLayerProps {
+  suggestions: SeatBlock[];
+  selectedId: string | null;
+  editable: boolean;
+  scale: number; // 枠線を画面上で一定の太さにするためのズーム倍率
+  onSelect: (suggestionId: string) => void;
+  onMove: (suggestionId: string, x: number, y: number) => void;
+}
+
+const SUGGESTION_COLOR = '#f59e0b';
+const SELECTED_COLOR = '#00d4ff';
+
+export function SeatSuggestionLayer({ suggestions, selectedId, editable, scale, onSelect, onMove }: SeatSuggestionLayerProps) {
+  return (
+    <Layer listening={editable}>
+      {suggestions.map((suggestion) => {
+        const selected = suggestion.id === selectedId;
+        const color = selected ? SELECTED_COLOR : SUGGESTION_COLOR;
+        const bounds = getBlockBounds(suggestion);
+        const pad = suggestion.seatGap / 2 + 2 / scale;
+        const radius = suggestion.seatSize / 2;
+        return (
+          <Group
+            key={suggestion.id}
+            x={suggestion.x}
+            y={suggestion.y}
+            rotation={suggestion.rotation}
+            draggable={editable && selected}
+            onClick={(e) => {
+              e.cancelBubble = true;
+              onSelect(suggestion.id);
+            }}
+            onTap={(e) => {
+              e.cancelBubble = true;
+              onSelect(suggestion.id);
+            }}
+            onDragEnd={(e) => onMove(suggestion.id, e.target.x(), e.target.y())}
+          >
+            <Rect
+              x={bounds.minX - pad}
+              y={bounds.minY - pad}
+              width={bounds.width + pad * 2}
+              height={bounds.height + pad * 2}
+              fill={selected ? 'rgba(0, 212, 255, 0.06)' : 'rgba(245, 158, 11, 0.06)'}
+              stroke={color}
+              strokeWidth={(selected ? 2 : 1) / scale}
+              dash={[6 / scale, 4 / scale]}
+            />
+            {suggestion.seats.map((seat) => (
+              <Circle
+                key={seat.id}
+                x={seat.localX + radius}
+                y={seat.localY + radius}
+                radius={radius}
+                fill={color}
+                opacity={0.45}
+                listening={false}
+              />
+            ))}
+          </Group>
+        );
+      })}
+    </Layer>
+  );
+}
@@ -12,6 +12,7 @@ import type { LotteryAssignment, SeatQuality } from '@/types/venue';
 
 interface SeatTooltipProps {
   assignment: LotteryAssignment;
+  seatLabel?: string;
   x: number;
   y: number;
 }
@@ -31,7 +32,7 @@ const QUALITY_LABELS: Record<SeatQuality, { label: string; color: string }> = {
   far: { label: '最後方', color: 'text-red-400' },
 };
 
-export function SeatTooltip({ assignment, x, y }: SeatTooltipProps) {
+export function SeatTooltip({ assignment, seatLabel, x, y }: SeatTooltipProps) {
   const tierInfo = TIER_LABELS[assignment.tier] ?? TIER_LABELS[3];
   const displayName = assignment.name || assignment.applicationId;
 
@@ -62,6 +63,14 @@ export function SeatTooltip({ assignment, x, y }: SeatTooltipProps) {
           </div>
         )}
 
+        {/* 座席番号 */}
+        {seatLabel && (
+          <div className="flex justify-between items-center mb-1">
+            <span className="text-gray-400">座席番号:</span>
+            <span className="font-mono text-gray-300">{seatLabel}</span>
+          </div>
+        )}
+
         {/* Tier */}
         <div className="flex justify-between items-center mb-1">
           <span className="text-gray-400">Tier:</span>
@@ -0,0 +1,87 @@
+/**
+ * SnapControls Component - ブロックのドラッグ・回転の吸着設定
+ * Blueprint Technical Design System
+ *
+ * 通常モードでキャンバス右上に表示。設定は会場データと一緒に保存される
+ */
+
+import { Button } from '@/components/ui/button';
+import { Grid3x3, Magnet, RotateCw } from 'lucide-react';
+import type { SnapSettings } from '@/types/venue';
+
+interface SnapControlsProps {
+  settings: SnapSettings;
+  onChange: (changes: Partial<SnapSettings>) => void;
+}
+
+// クリックで順に切り替える候補値
+const GRID_SIZES = [10, 25, 50, 100];
+const ROTATION_STEPS = [5, 15, 45, 90];
+
+function nextValue(values: number[], current: number): number {
+  const index = values.indexOf(current);
+  return values[(index + 1) % values.length];
+}
+
+export function SnapControls({ settings, onChange }: SnapControlsProps) {
+  const toggleClass = (active: boolean) =>
+    `h-7 w-7 ${active ? 'bg-primary/15 text-primary hover:bg-primary/20' : 'text-muted-foreground hover:text-foreground'}`;
+
+  return (
+    <div className="absolute top-4 right-4 z-40">
+      <div className="bg-card/80 backdrop-blur-sm border border-border rounded-lg shadow-sm px-1.5 py-1 flex items-center gap-0.5">
+        <Button
+          variant="ghost"
+          size="icon"
+          className={toggleClass(settings.grid)}
+          onClick={() => onChange({ grid: !settings.grid })}
+          title="グリッドに吸着"
+        >
+          <Grid3x3 className="w-3.5 h-3.5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-1.5 text-[10px] mono text-muted-foreground hover:text-foreground"
+          onClick={() => onChange({ gridSize: nextValue(GRID_SIZES, settings.gridSize) })}
+          title="グリッド間隔（クリックで切替）"
+        >
+          {settings.gridSize}px
+        </Button>
+
+        <div className="h-5 w-px bg-border mx-0.5" />
+
+        <Button
+          variant="ghost"
+          size="icon"
+          className={toggleClass(settings.objects)}
+          onClick={() => onChange({ objects: !settings.objects })}
+          title="他ブロックの端・中心に吸着"
+        >
+          <Magnet className="w-3.5 h-3.5" />
+        </Button>
+
+        <div className="h-5 w-px bg-border mx-0.5" />
+
+        <Button
+          variant="ghost"
+          size="icon"
+          className={toggleClass(settings.rotation)}
+          onClick={() => onChange({ rotation: !settings.rotation })}
+          title="回転を刻み角・他ブロックの角度に吸着"
+        >
+          <RotateCw className="w-3.5 h-3.5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-1.5 text-[10px] mono text-muted-foreground hover:text-foreground"
+          onClick={() => onChange({ rotationStep: nextValue(ROTATION_STEPS, settings.rotationStep) })}
+          title="回転の刻み（クリックで切替）"
+        >
+          {settings.rotationStep}°
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * StageControls Component - ステージ外形の追加・削除
+ * Blueprint Technical Design System
+ *
+ * 抽選モードでキャンバス右上に表示。座席スコアは最も近いステージの縁までの距離で決まる
+ */
+
+import { Button } from '@/components/ui/button';
+import { Theater, Trash2 } from 'lucide-react';
+import { STAGE_PRESET_LABELS } from '@/lib/stage';
+import type { StagePreset } from '@/types/venue';
+
+interface StageControlsProps {
+  count: number;
+  selectedName?: string;
+  onAdd: (preset: StagePreset) => void;
+  onDelete: () => void;
+}
+
+export function StageControls({ count, selectedName, onAdd, onDelete }: StageControlsProps) {
+  return (
+    <div className="absolute top-4 right-4 z-40 flex flex-col items-end">
+      <div className="bg-card/80 backdrop-blur-sm border border-border rounded-lg shadow-sm px-1.5 py-1 flex items-center gap-0.5">
+        <div className="flex items-center gap-1 px-1.5 text-[10px] text-muted-foreground whitespace-nowrap">
+          <Theater className="w-3.5 h-3.5" />
+          ステージ追加
+        </div>
+        {(Object.keys(STAGE_PRESET_LABELS) as StagePreset[]).map((preset) => (
+          <Button
+            key={preset}
+            variant="ghost"
+            size="sm"
+            className="h-7 px-1.5 text-[10px] text-muted-foreground hover:text-foreground"
+            onClick={() => onAdd(preset)}
+          >
+            {STAGE_PRESET_LABELS[preset]}
+          </Button>
+        ))}
+
+        <div className="h-5 w-px bg-border mx-0.5" />
+
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-muted-foreground hover:text-destructive"
+          disabled={!selectedName || count <= 1}
+          onClick={onDelete}
+          title={selectedName ? `「${selectedName}」を削除（最低1つは必要）` : 'ステージを選択して削除'}
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+      <p className="text-[10px] text-muted-foreground/70 mt-1">
+        ドラッグで移動 / 頂点をドラッグで変形 / 辺の中点をドラッグで頂点追加 / Alt+クリックで頂点削除
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * StageShapes - 編集可能なステージ外形（多角形・複数可）
+ * Blueprint Technical Design
+ *
+ * 常に表示し、抽選モードでのみ編集できる
+ * - ドラッグでステージ全体を移動
+ * - 選択中は頂点ハンドルで形状を編集、辺の中点ハンドルをドラッグで頂点を追加、Alt+クリックで頂点を削除
+ */
+
+import { useState } from 'react';
+import { Group, Line, Text, Circle } from 'react-konva';
+import type Konva from 'konva';
+import type { StageShape } from '@/types/venue';
+import { getOutlineCenter, translatePoints } from '@/lib/stage';
+
+interface StageShapesProps {
+  stages: StageShape[];
+  editable: boolean;
+  selectedId: string | null;
+  scale: number; // ハンドルを画面上で一定の大きさにするためのズーム倍率
+  onSelect: (stageId: string) => void;
+  onChange: (stageId: string, points: number[]) => void;
+}
+
+const STAGE_COLOR = '#00d4aa';
+const STAGE_FILL = '#1a1a2e';
+const MIN_VERTICES = 3;
+
+export default function StageShapes({ stages, editable, selectedId, scale, onSelect, onChange }: StageShapesProps) {
+  // 頂点ドラッグ中の外形（確定までは履歴に積まない）
+  const [editing, setEditing] = useState<{ id: string; points: number[] } | null>(null);
+
+  const renderHandles = (stage: StageShape, points: number[]) => {
+    const n = points.length / 2;
+    const radius = 6 / scale;
+    const handles: React.ReactNode[] = [];
+
+    const updatePoint = (next: number[], e: Konva.KonvaEventObject<DragEvent>, commit: boolean) => {
+      e.cancelBubble = true;
+      if (commit) {
+        setEditing(null);
+        onChange(stage.id, next);
+      } else {
+        setEditing({ id: stage.id, points: next });
+      }
+    };
+
+    for (let i = 0; i < n; i++) {
+      const movePoint = (e: Konva.KonvaEventObject<DragEvent>) => {
+        const next = [...points];
+        next[i * 2] = e.target.x();
+        next[i * 2 + 1] = e.target.y();
+        return next;
+      };
+      handles.push(
+        <Circle
+          key={`v-${i}`}
+          x={points[i * 2]}
+          y={points[i * 2 + 1]}
+          radius={radius}
+          fill="#ffffff"
+          stroke={STAGE_COLOR}
+          strokeWidth={1.5 / scale}
+          draggable
+          onDragStart={(e) => {
+            e.cancelBubble = true;
+          }}
+          onDragMove={(e) => updatePoint(movePoint(e), e, false)}
+          onDragEnd={(e) => updatePoint(movePoint(e), e, true)}
+          onClick={(e) => {
+            e.cancelBubble = true;
+            if (!e.evt.altKey || n <= MIN_VERTICES) return;
+            onChange(stage.id, points.filter((_, index) => Math.floor(index / 2) !== i));
+          }}
+        />,
+      );
+
+      // 辺の中点: ドラッグで頂点を挿入
+      const j = (i + 1) % n;
+      const insertPoint = (e: Konva.KonvaEventObject<DragEvent>) => [
+        ...points.slice(0, (i + 1) * 2),
+        e.target.x(),
+        e.target.y(),
+        ...points.slice((i + 1) * 2),
+      ];
+      handles.push(
+        <Circle
+          key={`m-${i}`}
+          x={(points[i * 2] + points[j * 2]) / 2}
+          y={(points[i * 2 + 1] + points[j * 2 + 1]) / 2}
+          radius={radius * 0.7}
+          fill={STAGE_COLOR}
+          opacity={0.6}
+          draggable
+          onDragStart={(e) => {
+            e.cancelBubble = true;
+          }}
+          onDragMove={(e) => updatePoint(insertPoint(e), e, false)}
+          onDragEnd={(e) => updatePoint(insertPoint(e), e, true)}
+        />,
+      );
+    }
+    return handles;
+  };
+
+  return (
+    <>
+      {stages.map((stage) => {
+        const isSelected = editable && stage.id === selectedId;
+        const points = editing?.id === stage.id ? editing.points : stage.points;
+        const center = getOutlineCenter(points);
+        return (
+          <Group key={stage.id}>
+            <Group
+              draggable={editable}
+              onMouseDown={() => editable && onSelect(stage.id)}
+              onTap={() => editable && onSelect(stage.id)}
+              onClick={(e) => {
+                if (editable) e.cancelBubble = true;
+              }}
+              onDragEnd={(e) => {
+                // 全体の移動量を頂点に反映して Group の位置を戻す
+                const node = e.target;
+                if (node !== e.currentTarget) return;
+                const dx = node.x();
+                const dy = node.y();
+                node.position({ x: 0, y: 0 });
+                onChange(stage.id, translatePoints(stage.points, dx, dy));
+              }}
+            >
+              <Line
+                points={points}
+                closed
+                fill={STAGE_FILL}
+                stroke={STAGE_COLOR}
+                strokeWidth={2}
+                shadowColor={STAGE_COLOR}
+                shadowBlur={isSelected ? 20 : 10}
+                shadowOpacity={0.5}
+                opacity={editable ? 1 : 0.85}
+              />
+              <Text
+                text={stage.name || 'STAGE'}
+                x={center.x - 100}
+                y={center.y - 10}
+                width={200}
+                height={20}
+                align="center"
+                verticalAlign="middle"
+                fontSize={16}
+                fontFamily="JetBrains Mono, monospace"
+                fontStyle="bold"
+                fill={STAGE_COLOR}
+                listening={false}
+              />
+            </Group>
+            {isSelected && renderHandles(stage, points)}
+          </Group>
+        );
+      })}
+    </>
+  );
+}
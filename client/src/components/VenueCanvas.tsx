@@ -9,30 +9,92 @@
  * ツールチップ座標: pointerPosをそのまま使用（containerRectは加算しない）
  */
 
-import { Stage, Layer, Line, Image as KonvaImage } from 'react-konva';
+import { Stage, Layer, Line, Rect, Text, Transformer } from 'react-konva';
 import { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import type Konva from 'konva';
-import type { SeatBlock as SeatBlockType, EditorMode, BackgroundImage, StagePosition, LotteryAssignment } from '@/types/venue';
+import type { SeatBlock as SeatBlockType, EditorMode, BackgroundImage, StageShape, StagePreset, LotteryAssignment, SelectionRect, SeatSelectionOp, SeatPaintAction, BlockTransform, SeatCategory, BlockAlignment, BlockDistribution, MirrorAxis, MirrorPivot, SnapSettings, Annotation, AnnotationIcon, AnnotationTool, VenueLevel, ScaleCalibration, MeasureTool, BackgroundTransform } from '@/types/venue';
 import { SeatBlock } from './SeatBlock';
-import StageMarker from './StageMarker';
+import StageShapes from './StageShapes';
 import { SeatTooltip } from './SeatTooltip';
+import { SeatSelectionBar } from './SeatSelectionBar';
+import { BlockSelectionBar } from './BlockSelectionBar';
+import { SnapControls } from './SnapControls';
+import { LooseSeatBar } from './LooseSeatBar';
+import { StageControls } from './StageControls';
+import { AnnotationLayer } from './AnnotationLayer';
+import { AnnotationToolbar } from './AnnotationToolbar';
+import { MeasureToolbar } from './MeasureToolbar';
+import { BackgroundLayer, BACKGROUND_NODE_NAME } from './BackgroundLayer';
+import { SeatSuggestionLayer } from './SeatSuggestionLayer';
+import { SeatSuggestionBar } from './SeatSuggestionBar';
+import { useBackgroundBitmap } from '@/hooks/useBackgroundBitmap';
+import { findSeatLabel } from '@/lib/seatNumbering';
+import { getBlockCanvasBounds } from '@/lib/venueUtils';
+import { getNextBlockName } from '@/lib/blockOperations';
+import { createStageShape } from '@/lib/stage';
+import { ANNOTATION_COLORS, createPathAnnotation, createRectAnnotation, createTextAnnotation, createIconAnnotation, dedupePoints } from '@/lib/annotations';
+import { formatDistance, getLineLength } from '@/lib/calibration';
+import { GRID_SIZE, SNAP_THRESHOLD, ROTATION_SNAP_TOLERANCE, snapBounds, getRotationSnaps, type SnapBounds, type SnapGuide } from '@/lib/snapping';
 
 interface VenueCanvasProps {
-  blocks: SeatBlockType[];
-  selectedBlockId: string | null;
+  blocks: SeatBlockType[]; // 表示中の階のブロック
+  levels?: VenueLevel[]; // 座席ラベルの階名用
+  selectedBlockIds: string[];
   mode: EditorMode;
   backgroundImage: BackgroundImage | null;
+  onUpdateBackgroundTransform?: (transform: BackgroundTransform) => void;
+  seatSuggestions?: SeatBlockType[]; // 背景から検出したブロック候補（追加・破棄するまで表示）
+  onMoveSeatSuggestion?: (suggestionId: string, x: number, y: number) => void;
+  onAcceptSeatSuggestions?: (suggestionIds?: string[]) => void;
+  onDiscardSeatSuggestions?: (suggestionIds?: string[]) => void;
   scale: number;
-  onSelectBlock: (blockId: string | null) => void;
+  onSelectBlock: (blockId: string | null, additive?: boolean) => void;
+  onSelectBlocksInRect?: (rect: SelectionRect, additive: boolean) => void;
   onUpdateBlockPosition: (blockId: string, x: number, y: number) => void;
-  onUpdateBlockRotation: (blockId: string, rotation: number) => void;
-  onUpdateBlockScale: (blockId: string, scaleX: number, scaleY: number) => void;
-  onSeatClick: (blockId: string, seatId: string) => void;
+  onUpdateBlockTransforms: (transforms: Record<string, BlockTransform>) => void;
+  onAlignBlocks?: (alignment: BlockAlignment) => void;
+  onDistributeBlocks?: (direction: BlockDistribution) => void;
+  onDuplicateBlocks?: () => void;
+  onCopyBlocks?: () => void;
+  onMirrorBlocks?: (axis: MirrorAxis, pivot: MirrorPivot) => void;
+  onSeatClick: (blockId: string, seatId: string, additive?: boolean) => void;
   onScaleChange: (scale: number) => void;
   onSaveSnapshot?: () => void;
+  // Snapping (normal mode block drag / rotate)
+  snapSettings?: SnapSettings;
+  onSnapSettingsChange?: (changes: Partial<SnapSettings>) => void;
+  // Seat categories (fill colors) and the category painted in premium / category modes
+  categories?: SeatCategory[];
+  paintCategory?: SeatCategory;
+  // Drag selection props (premium / category / disable modes)
+  selectedSeatIds?: Set<string>;
+  onSelectSeatsInRect?: (rect: SelectionRect, op: SeatSelectionOp) => void;
+  onClearSeatSelection?: () => void;
+  onPaintSelectedSeats?: (action: SeatPaintAction) => void;
+  // Seat pen props (loose seats)
+  activeSeatId?: string | null;
+  onAddLooseSeat?: (x: number, y: number) => void;
+  onMoveLooseSeat?: (blockId: string, seatId: string, localX: number, localY: number) => void;
+  onDeleteLooseSeat?: (blockId: string, seatId: string) => void;
+  onAutoLinkLooseSeats?: (blockId: string) => void;
+  onUpdateLooseSeatNumber?: (blockId: string, seatId: string, number: string) => void;
+  // Annotation props (annotate mode)
+  annotations?: Annotation[];
+  selectedAnnotationId?: string | null;
+  onSelectAnnotation?: (annotationId: string | null) => void;
+  onAddAnnotation?: (annotation: Annotation) => void;
+  onUpdateAnnotation?: (annotationId: string, changes: Partial<Annotation>) => void;
+  onDeleteAnnotation?: (annotationId: string) => void;
+  // Scale calibration (measure mode)
+  calibration?: ScaleCalibration | null;
+  pixelsPerMeter?: number | null;
+  onSetCalibration?: (calibration: ScaleCalibration | null) => void;
+  // Stage shapes (always shown, edited in lottery mode)
+  stages?: StageShape[];
+  onAddStage?: (stage: StageShape) => void;
+  onUpdateStagePoints?: (stageId: string, points: number[]) => void;
+  onDeleteStage?: (stageId: string) => void;
   // Lottery props
-  stagePosition?: StagePosition;
-  onStagePositionChange?: (position: StagePosition) => void;
   seatAssignmentMap?: Map<string, LotteryAssignment>;
   isLocking?: boolean;
   lockedSeatIds?: Set<string>;
@@ -41,49 +103,137 @@ interface VenueCanvasProps {
 // Grid settings
 const GRID_COLOR_DARK = 'rgba(0, 212, 255, 0.1)';
 const GRID_COLOR_LIGHT = 'rgba(0, 140, 130, 0.12)';
-const GRID_SIZE = 50;
+
+// スナップのガイド線
+const SNAP_GUIDE_COLOR = '#ff00ff';
+
+// 矩形選択: これ未満のドラッグはクリック扱い（スクリーンpx）
+const MIN_SELECTION_DRAG = 4;
+
+// 計測モードの線の色（計測線 / 縮尺の基準線）
+const MEASURE_COLOR = '#f59e0b';
+const MEASURE_CALIBRATION_COLOR = '#14b8a6';
 
 // ツールチップの状態
 interface TooltipState {
   visible: boolean;
   assignment: LotteryAssignment | null;
+  seatLabel: string | null;
   x: number;
   y: number;
 }
 
 export function VenueCanvas({
   blocks,
-  selectedBlockId,
+  selectedBlockIds,
   mode,
   backgroundImage,
+  onUpdateBackgroundTransform,
+  seatSuggestions,
+  onMoveSeatSuggestion,
+  onAcceptSeatSuggestions,
+  onDiscardSeatSuggestions,
   scale,
   onSelectBlock,
+  onSelectBlocksInRect,
   onUpdateBlockPosition,
-  onUpdateBlockRotation,
-  onUpdateBlockScale,
+  onUpdateBlockTransforms,
+  onAlignBlocks,
+  onDistributeBlocks,
+  onDuplicateBlocks,
+  onCopyBlocks,
+  onMirrorBlocks,
   onSeatClick,
   onScaleChange,
   onSaveSnapshot,
-  stagePosition,
-  onStagePositionChange,
+  snapSettings,
+  onSnapSettingsChange,
+  categories,
+  paintCategory,
+  selectedSeatIds,
+  onSelectSeatsInRect,
+  onClearSeatSelection,
+  onPaintSelectedSeats,
+  activeSeatId,
+  onAddLooseSeat,
+  onMoveLooseSeat,
+  onDeleteLooseSeat,
+  onAutoLinkLooseSeats,
+  onUpdateLooseSeatNumber,
+  annotations,
+  selectedAnnotationId,
+  onSelectAnnotation,
+  onAddAnnotation,
+  onUpdateAnnotation,
+  onDeleteAnnotation,
+  stages,
+  onAddStage,
+  onUpdateStagePoints,
+  onDeleteStage,
+  calibration,
+  pixelsPerMeter = null,
+  onSetCalibration,
   seatAssignmentMap,
   isLocking,
   lockedSeatIds,
+  levels,
 }: VenueCanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const stageRef = useRef<Konva.Stage>(null);
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
   const [stagePos, setStagePos] = useState({ x: 0, y: 0 });
-  const [bgImage, setBgImage] = useState<HTMLImageElement | null>(null);
+  const [isBackgroundSelected, setBackgroundSelected] = useState(false);
+  const [selectedSuggestionId, setSelectedSuggestionId] = useState<string | null>(null);
   const [isDark, setIsDark] = useState(() => document.documentElement.classList.contains('dark'));
   const isPanning = useRef(false);
   const panStart = useRef({ x: 0, y: 0 });
   const stagePosStart = useRef({ x: 0, y: 0 });
+  const isSpacePressed = useRef(false);
+
+  // 矩形選択（キャンバス座標）: 座席（塗りモード）またはブロック（通常モードで Shift+ドラッグ）
+  const [selectionRect, setSelectionRect] = useState<SelectionRect | null>(null);
+  const selectionStart = useRef<{
+    x: number; y: number; screenX: number; screenY: number; op: SeatSelectionOp; target: 'seats' | 'blocks';
+  } | null>(null);
+
+  // 複数ブロック共有の Transformer
+  const transformerRef = useRef<Konva.Transformer>(null);
+  const blockNodes = useRef(new Map<string, Konva.Group>());
+
+  // ドラッグ中の吸着: 開始時の位置と、動かすブロック群・吸着先の外接矩形
+  const dragSnap = useRef<{ startX: number; startY: number; bounds: SnapBounds; targets: SnapBounds[] } | null>(null);
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
+  const snapGuidesKey = useRef('');
+  const isPaintMode = mode === 'premium' || mode === 'category' || mode === 'disable';
+
+  // 注釈モード: 作図ツールと、作図中の点列（キャンバス座標）・矩形
+  const [annotationTool, setAnnotationTool] = useState<AnnotationTool>('select');
+  const [annotationIcon, setAnnotationIcon] = useState<AnnotationIcon>('exit');
+  const [annotationColor, setAnnotationColor] = useState(ANNOTATION_COLORS[0]);
+  const [draftPoints, setDraftPoints] = useState<number[]>([]);
+  const [draftPointer, setDraftPointer] = useState<{ x: number; y: number } | null>(null);
+  const [draftRect, setDraftRect] = useState<SelectionRect | null>(null);
+  const isAnnotating = mode === 'annotate';
+
+  // 計測モード: 計測中・直近の線と、縮尺ツールで引いた実寸入力待ちの基準線（キャンバス座標 [x1, y1, x2, y2]）
+  const [measureTool, setMeasureTool] = useState<MeasureTool>('measure');
+  const [measureLine, setMeasureLine] = useState<number[] | null>(null);
+  const [pendingCalibration, setPendingCalibration] = useState<number[] | null>(null);
+  const isMeasuringLine = useRef(false);
+  const isMeasureMode = mode === 'measure';
+  const isBackgroundEditable = mode === 'normal' && !!backgroundImage && !backgroundImage.locked && !!onUpdateBackgroundTransform;
+
+  // 抽選モードで編集中のステージ
+  const [selectedStageId, setSelectedStageId] = useState<string | null>(null);
+  const selectedStage = mode === 'lottery' ? stages?.find(s => s.id === selectedStageId) : undefined;
+  const isDrawingTool = isAnnotating && annotationTool !== 'select';
+  const categoryMap = useMemo(() => new Map((categories ?? []).map(c => [c.id, c])), [categories]);
 
   // ツールチップの状態
   const [tooltip, setTooltip] = useState<TooltipState>({
     visible: false,
     assignment: null,
+    seatLabel: null,
     x: 0,
     y: 0,
   });
@@ -97,6 +247,192 @@ export function VenueCanvas({
     return () => observer.disconnect();
   }, []);
 
+  // Space押下中は左ドラッグでパン / Escで座席選択を解除
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+      if (e.code === 'Space') isSpacePressed.current = true;
+      if (e.key === 'Escape') onClearSeatSelection?.();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') isSpacePressed.current = false;
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [onClearSeatSelection]);
+
+  // 作図中のライン・多角形を確定（点が足りなければ破棄）
+  const finishDraft = useCallback(() => {
+    const kind = annotationTool;
+    const points = dedupePoints(draftPoints, 2 / scale);
+    setDraftPoints([]);
+    setDraftPointer(null);
+    if (kind !== 'polyline' && kind !== 'polygon') return;
+    if (points.length < (kind === 'polygon' ? 6 : 4)) return;
+    onAddAnnotation?.(createPathAnnotation(kind, points, annotationColor));
+  }, [annotationTool, draftPoints, scale, annotationColor, onAddAnnotation]);
+
+  // 作図中: Enter で確定 / Esc で取消
+  useEffect(() => {
+    if (draftPoints.length === 0) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') finishDraft();
+      if (e.key === 'Escape') {
+        setDraftPoints([]);
+        setDraftPointer(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [draftPoints.length, finishDraft]);
+
+  // モード・ツールを切り替えたら作図途中のものは破棄
+  useEffect(() => {
+    setDraftPoints([]);
+    setDraftPointer(null);
+    setDraftRect(null);
+  }, [mode, annotationTool]);
+
+  useEffect(() => {
+    isMeasuringLine.current = false;
+    setMeasureLine(null);
+    setPendingCalibration(null);
+  }, [mode, measureTool]);
+
+  const handleApplyCalibration = useCallback((meters: number) => {
+    if (!pendingCalibration || !onSetCalibration) return;
+    onSetCalibration({ points: pendingCalibration, meters });
+    setMeasureTool('measure');
+  }, [pendingCalibration, onSetCalibration]);
+
+  const handleAnnotationToolChange = useCallback((tool: AnnotationTool) => {
+    setAnnotationTool(tool);
+    if (tool !== 'select') onSelectAnnotation?.(null);
+  }, [onSelectAnnotation]);
+
+  const handleAnnotationColorChange = useCallback((color: string) => {
+    setAnnotationColor(color);
+    if (selectedAnnotationId) onUpdateAnnotation?.(selectedAnnotationId, { color });
+  }, [selectedAnnotationId, onUpdateAnnotation]);
+
+  // 表示中の範囲の中央にプリセットのステージを追加
+  const handleAddStage = useCallback((preset: StagePreset) => {
+    if (!stages || !onAddStage) return;
+    const names = stages.map(s => s.name);
+    const name = names.includes('ステージ') ? getNextBlockName('ステージ', names) : 'ステージ';
+    const centerX = (dimensions.width / 2 - stagePos.x) / scale;
+    const centerY = (dimensions.height / 2 - stagePos.y) / scale;
+    const stage = createStageShape(preset, name, centerX, centerY);
+    onAddStage(stage);
+    setSelectedStageId(stage.id);
+  }, [stages, onAddStage, dimensions, stagePos, scale]);
+
+  const registerBlockNode = useCallback((blockId: string, node: Konva.Group | null) => {
+    if (node) blockNodes.current.set(blockId, node);
+    else blockNodes.current.delete(blockId);
+  }, []);
+
+  // 選択中の全ブロックを Transformer に割り当て
+  useEffect(() => {
+    const transformer = transformerRef.current;
+    if (!transformer) return;
+    const nodes = selectedBlockIds
+      .map(id => blockNodes.current.get(id))
+      .filter((node): node is Konva.Group => node !== undefined);
+    transformer.nodes(nodes);
+    transformer.getLayer()?.batchDraw();
+  }, [selectedBlockIds, blocks, mode]);
+
+  // 選択中ブロックの現在の変形（Konvaノードの値）をまとめて保存 = 1回の元に戻す単位
+  const commitSelectedTransforms = useCallback(() => {
+    const transforms: Record<string, BlockTransform> = {};
+    for (const id of selectedBlockIds) {
+      const node = blockNodes.current.get(id);
+      if (!node) continue;
+      transforms[id] = {
+        x: node.x(),
+        y: node.y(),
+        rotation: node.rotation(),
+        scaleX: node.scaleX(),
+        scaleY: node.scaleY(),
+      };
+    }
+    onUpdateBlockTransforms(transforms);
+  }, [selectedBlockIds, onUpdateBlockTransforms]);
+
+  const updateSnapGuides = useCallback((guides: SnapGuide[]) => {
+    const key = JSON.stringify(guides);
+    if (key === snapGuidesKey.current) return;
+    snapGuidesKey.current = key;
+    setSnapGuides(guides);
+  }, []);
+
+  // ドラッグ開始: 一緒に動くブロック群（複数選択中ならその全体）の外接矩形を記録
+  const handleBlockDragStart = useCallback((blockId: string) => {
+    onSaveSnapshot?.();
+    const block = blocks.find(b => b.id === blockId);
+    if (!block) return;
+    const movingIds = selectedBlockIds.includes(blockId) ? selectedBlockIds : [blockId];
+    const moving = blocks.filter(b => movingIds.includes(b.id)).map(getBlockCanvasBounds);
+    dragSnap.current = {
+      startX: block.x,
+      startY: block.y,
+      bounds: {
+        minX: Math.min(...moving.map(b => b.minX)),
+        minY: Math.min(...moving.map(b => b.minY)),
+        maxX: Math.max(...moving.map(b => b.maxX)),
+        maxY: Math.max(...moving.map(b => b.maxY)),
+      },
+      targets: blocks.filter(b => !movingIds.includes(b.id)).map(getBlockCanvasBounds),
+    };
+  }, [blocks, selectedBlockIds, onSaveSnapshot]);
+
+  // ドラッグ中の位置を吸着させる（Konva の dragBoundFunc: 絶対座標 ⇔ キャンバス座標を変換）
+  const snapDragPosition = useCallback((pos: Konva.Vector2d): Konva.Vector2d => {
+    const start = dragSnap.current;
+    if (!start || !snapSettings || (!snapSettings.grid && !snapSettings.objects)) return pos;
+    const x = (pos.x - stagePos.x) / scale;
+    const y = (pos.y - stagePos.y) / scale;
+    const moveX = x - start.startX;
+    const moveY = y - start.startY;
+    const { dx, dy, guides } = snapBounds(
+      {
+        minX: start.bounds.minX + moveX,
+        minY: start.bounds.minY + moveY,
+        maxX: start.bounds.maxX + moveX,
+        maxY: start.bounds.maxY + moveY,
+      },
+      start.targets,
+      snapSettings,
+      SNAP_THRESHOLD / scale,
+    );
+    updateSnapGuides(guides);
+    return { x: (x + dx) * scale + stagePos.x, y: (y + dy) * scale + stagePos.y };
+  }, [snapSettings, stagePos, scale, updateSnapGuides]);
+
+  // Transformer の回転吸着（刻み角 + 選択外ブロックの角度）
+  const rotationSnaps = useMemo(() => (
+    snapSettings
+      ? getRotationSnaps(snapSettings, blocks.filter(b => !selectedBlockIds.includes(b.id)).map(b => b.rotation))
+      : []
+  ), [snapSettings, blocks, selectedBlockIds]);
+
+  // 複数選択中のブロックをドラッグすると Transformer が他のブロックも一緒に動かす
+  const handleBlockDragEnd = useCallback((blockId: string, x: number, y: number) => {
+    dragSnap.current = null;
+    updateSnapGuides([]);
+    if (selectedBlockIds.length > 1 && selectedBlockIds.includes(blockId)) {
+      commitSelectedTransforms();
+    } else {
+      onUpdateBlockPosition(blockId, x, y);
+    }
+  }, [selectedBlockIds, commitSelectedTransforms, onUpdateBlockPosition, updateSnapGuides]);
+
   // Update dimensions on resize
   useEffect(() => {
     const updateDimensions = () => {
@@ -113,16 +449,11 @@ export function VenueCanvas({
     return () => window.removeEventListener('resize', updateDimensions);
   }, []);
 
-  // Load background image
-  useEffect(() => {
-    if (backgroundImage?.src) {
-      const img = new window.Image();
-      img.src = backgroundImage.src;
-      img.onload = () => setBgImage(img);
-    } else {
-      setBgImage(null);
-    }
-  }, [backgroundImage?.src]);
+  // Load background image (SVG・PDF は画面上の表示倍率に合わせた解像度で描画)
+  const bgImage = useBackgroundBitmap(
+    backgroundImage,
+    scale * (backgroundImage?.scale ?? 1) * (window.devicePixelRatio || 1),
+  );
 
   // Wheel zoom handler
   const handleWheel = useCallback((e: Konva.KonvaEventObject<WheelEvent>) => {
@@ -154,16 +485,47 @@ export function VenueCanvas({
   }, [scale, stagePos, onScaleChange]);
 
   // Stage click handler (deselect) - only when clicking on stage itself
+  // ばら席ペン: 空白クリックで座席を追加（パンのドラッグ後は追加しない）
   const handleStageClick = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
     const clickedOnEmpty = e.target === e.target.getStage();
-    if (clickedOnEmpty) {
-      onSelectBlock(null);
+    if (!clickedOnEmpty) return;
+    if (mode === 'annotate') {
+      const pos = stageRef.current?.getPointerPosition();
+      if (!pos || e.evt.button !== 0 || isSpacePressed.current) return;
+      if (Math.hypot(pos.x - panStart.current.x, pos.y - panStart.current.y) >= MIN_SELECTION_DRAG) return;
+      const worldX = (pos.x - stagePos.x) / scale;
+      const worldY = (pos.y - stagePos.y) / scale;
+      if (annotationTool === 'select') {
+        onSelectAnnotation?.(null);
+      } else if (annotationTool === 'polyline' || annotationTool === 'polygon') {
+        setDraftPoints(prev => [...prev, worldX, worldY]);
+      } else if (annotationTool === 'text') {
+        onAddAnnotation?.(createTextAnnotation(worldX, worldY, annotationColor));
+        setAnnotationTool('select'); // 続けて内容を編集できるよう選択ツールに戻す
+      } else if (annotationTool === 'icon') {
+        onAddAnnotation?.(createIconAnnotation(worldX, worldY, annotationIcon));
+      }
+      return;
     }
-  }, [onSelectBlock]);
+    if (mode === 'seatPen') {
+      const pos = stageRef.current?.getPointerPosition();
+      if (!pos || e.evt.button !== 0 || isSpacePressed.current || !onAddLooseSeat) return;
+      if (Math.hypot(pos.x - panStart.current.x, pos.y - panStart.current.y) >= MIN_SELECTION_DRAG) return;
+      onAddLooseSeat((pos.x - stagePos.x) / scale, (pos.y - stagePos.y) / scale);
+      return;
+    }
+    onSelectBlock(null, e.evt.shiftKey);
+    setSelectedStageId(null);
+    setBackgroundSelected(false);
+    setSelectedSuggestionId(null);
+  }, [mode, stagePos, scale, onSelectBlock, onAddLooseSeat, annotationTool, annotationColor, annotationIcon, onSelectAnnotation, onAddAnnotation]);
 
-  // Panning for all non-normal modes (premium, disable, lottery)
+  // Non-normal modes: panning on empty background
+  // premium / category / disable モードでは左ドラッグが矩形選択、中ボタン or Space+ドラッグがパン
   const handleMouseDown = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
-    const clickedOnEmpty = e.target === e.target.getStage();
+    // 選択されていない背景は空白と同じ扱い（矩形選択・パンを妨げない）
+    const clickedOnEmpty = e.target === e.target.getStage()
+      || (e.target.name() === BACKGROUND_NODE_NAME && !e.target.draggable());
     if (!clickedOnEmpty) return;
 
     const stage = stageRef.current;
@@ -171,13 +533,50 @@ export function VenueCanvas({
     const pos = stage.getPointerPosition();
     if (!pos) return;
 
-    // Non-normal modes: start panning on empty background
-    if (mode !== 'normal') {
-      isPanning.current = true;
+    // 通常モード: Shift+ドラッグでブロックの矩形選択（それ以外はステージのドラッグでパン）
+    if (mode === 'normal') {
+      if (e.evt.button !== 0 || !e.evt.shiftKey || !onSelectBlocksInRect) return;
+      const worldX = (pos.x - stagePos.x) / scale;
+      const worldY = (pos.y - stagePos.y) / scale;
+      selectionStart.current = { x: worldX, y: worldY, screenX: pos.x, screenY: pos.y, op: 'add', target: 'blocks' };
+      setSelectionRect({ x: worldX, y: worldY, width: 0, height: 0 });
+      return;
+    }
+
+    const wantsPan = mode === 'lottery' || e.evt.button === 1 || isSpacePressed.current;
+    if (isMeasureMode && !wantsPan) {
+      if (e.evt.button !== 0) return;
+      const worldX = (pos.x - stagePos.x) / scale;
+      const worldY = (pos.y - stagePos.y) / scale;
+      isMeasuringLine.current = true;
+      setMeasureLine([worldX, worldY, worldX, worldY]);
+      setPendingCalibration(null);
+      return;
+    }
+    // 注釈の作図ツールでは左ボタンを作図に使う（クリック位置は panStart で判定するため記録だけする）
+    if (isDrawingTool && !wantsPan) {
       panStart.current = { x: pos.x, y: pos.y };
-      stagePosStart.current = { x: stagePos.x, y: stagePos.y };
+      if (e.evt.button !== 0 || annotationTool !== 'rect') return;
+      const worldX = (pos.x - stagePos.x) / scale;
+      const worldY = (pos.y - stagePos.y) / scale;
+      setDraftRect({ x: worldX, y: worldY, width: 0, height: 0 });
+      return;
+    }
+    if (isPaintMode && !wantsPan) {
+      if (e.evt.button !== 0) return;
+      const op: SeatSelectionOp = e.evt.shiftKey ? 'add' : e.evt.altKey ? 'subtract' : 'replace';
+      const worldX = (pos.x - stagePos.x) / scale;
+      const worldY = (pos.y - stagePos.y) / scale;
+      selectionStart.current = { x: worldX, y: worldY, screenX: pos.x, screenY: pos.y, op, target: 'seats' };
+      setSelectionRect({ x: worldX, y: worldY, width: 0, height: 0 });
+      return;
     }
-  }, [mode, stagePos]);
+
+    if (e.evt.button === 1) e.evt.preventDefault();
+    isPanning.current = true;
+    panStart.current = { x: pos.x, y: pos.y };
+    stagePosStart.current = { x: stagePos.x, y: stagePos.y };
+  }, [mode, isPaintMode, isDrawingTool, isMeasureMode, annotationTool, stagePos, scale, onSelectBlocksInRect]);
 
   const handleMouseMove = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
     const stage = stageRef.current;
@@ -185,6 +584,31 @@ export function VenueCanvas({
     const pos = stage.getPointerPosition();
     if (!pos) return;
 
+    // 作図中のプレビュー
+    if (isDrawingTool) {
+      const worldX = (pos.x - stagePos.x) / scale;
+      const worldY = (pos.y - stagePos.y) / scale;
+      if (draftPoints.length > 0) setDraftPointer({ x: worldX, y: worldY });
+      if (draftRect) setDraftRect({ ...draftRect, width: worldX - draftRect.x, height: worldY - draftRect.y });
+    }
+
+    // 計測中の線
+    if (isMeasuringLine.current) {
+      const worldX = (pos.x - stagePos.x) / scale;
+      const worldY = (pos.y - stagePos.y) / scale;
+      setMeasureLine(prev => (prev ? [prev[0], prev[1], worldX, worldY] : prev));
+      return;
+    }
+
+    // 矩形選択の更新
+    const start = selectionStart.current;
+    if (start) {
+      const worldX = (pos.x - stagePos.x) / scale;
+      const worldY = (pos.y - stagePos.y) / scale;
+      setSelectionRect({ x: start.x, y: start.y, width: worldX - start.x, height: worldY - start.y });
+      return;
+    }
+
     // Panning in non-normal modes
     if (isPanning.current) {
       const dx = pos.x - panStart.current.x;
@@ -194,11 +618,49 @@ export function VenueCanvas({
         y: stagePosStart.current.y + dy,
       });
     }
-  }, []);
+  }, [stagePos, scale, isDrawingTool, draftPoints.length, draftRect]);
 
   const handleMouseUp = useCallback(() => {
     isPanning.current = false;
-  }, []);
+
+    if (isMeasuringLine.current) {
+      isMeasuringLine.current = false;
+      // 短すぎる線（ただのクリック）は破棄
+      if (!measureLine || getLineLength(measureLine) * scale < MIN_SELECTION_DRAG) {
+        setMeasureLine(null);
+      } else if (measureTool === 'calibrate') {
+        setPendingCalibration(measureLine);
+        setMeasureLine(null);
+      }
+      return;
+    }
+
+    if (draftRect) {
+      setDraftRect(null);
+      if (Math.abs(draftRect.width) * scale >= MIN_SELECTION_DRAG && Math.abs(draftRect.height) * scale >= MIN_SELECTION_DRAG) {
+        onAddAnnotation?.(createRectAnnotation(draftRect.x, draftRect.y, draftRect.width, draftRect.height, annotationColor));
+      }
+      return;
+    }
+
+    const start = selectionStart.current;
+    if (!start) return;
+    selectionStart.current = null;
+
+    const pos = stageRef.current?.getPointerPosition();
+    const dragDistance = pos ? Math.hypot(pos.x - start.screenX, pos.y - start.screenY) : 0;
+    if (start.target === 'blocks') {
+      if (dragDistance >= MIN_SELECTION_DRAG && selectionRect) {
+        onSelectBlocksInRect?.(selectionRect, true);
+      }
+    } else if (dragDistance < MIN_SELECTION_DRAG) {
+      // 空白クリック: 追加/除外でなければ選択解除
+      if (start.op === 'replace') onClearSeatSelection?.();
+    } else if (selectionRect) {
+      onSelectSeatsInRect?.(selectionRect, start.op);
+    }
+    setSelectionRect(null);
+  }, [selectionRect, onSelectSeatsInRect, onClearSeatSelection, onSelectBlocksInRect, draftRect, scale, annotationColor, onAddAnnotation, measureLine, measureTool]);
 
   // Generate grid lines (memoized, theme-aware)
   const gridWidth = 5000;
@@ -227,10 +689,20 @@ export function VenueCanvas({
   }, [gridColor]);
 
   // Handle seat click wrapper
-  const handleSeatClickWrapper = useCallback((blockId: string, seatId: string) => {
-    onSeatClick(blockId, seatId);
+  const handleSeatClickWrapper = useCallback((blockId: string, seatId: string, additive: boolean) => {
+    onSeatClick(blockId, seatId, additive);
   }, [onSeatClick]);
 
+  // ばら席ペン: 選択中の座席を枠線で強調し、選択中のばら席ブロックを編集バーの対象にする
+  const activeSeatIds = useMemo(
+    () => (mode === 'seatPen' && activeSeatId ? new Set([activeSeatId]) : undefined),
+    [mode, activeSeatId],
+  );
+  const penBlock = mode === 'seatPen' && selectedBlockIds.length === 1
+    ? blocks.find(b => b.id === selectedBlockIds[0] && b.kind === 'loose')
+    : undefined;
+  const penSeat = penBlock && activeSeatId ? penBlock.seats.find(s => s.id === activeSeatId) : undefined;
+
   // 座席ホバー時のツールチップ表示コールバック
   // pointerPosをそのまま使用（containerRectは加算しない）
   const handleSeatHover = useCallback((
@@ -243,6 +715,7 @@ export function VenueCanvas({
       setTooltip({
         visible: true,
         assignment,
+        seatLabel: findSeatLabel(blocks, seatId, levels),
         x,
         y,
       });
@@ -250,11 +723,42 @@ export function VenueCanvas({
       setTooltip({
         visible: false,
         assignment: null,
+        seatLabel: null,
         x: 0,
         y: 0,
       });
     }
-  }, []);
+  }, [blocks, levels]);
+
+  // 計測線: 両端の目盛りと中点の寸法ラベル（線幅・文字は画面上で一定の大きさ）
+  const renderMeasureLine = (points: number[], color: string, label: string, dashed = false) => {
+    const [x1, y1, x2, y2] = points;
+    const angle = Math.atan2(y2 - y1, x2 - x1);
+    const tick = 6 / scale;
+    const tx = Math.sin(angle) * tick;
+    const ty = -Math.cos(angle) * tick;
+    return (
+      <>
+        <Line
+          points={points}
+          stroke={color}
+          strokeWidth={2 / scale}
+          dash={dashed ? [8 / scale, 4 / scale] : undefined}
+        />
+        <Line points={[x1 - tx, y1 - ty, x1 + tx, y1 + ty]} stroke={color} strokeWidth={2 / scale} />
+        <Line points={[x2 - tx, y2 - ty, x2 + tx, y2 + ty]} stroke={color} strokeWidth={2 / scale} />
+        <Text
+          x={(x1 + x2) / 2 + tx * 1.5}
+          y={(y1 + y2) / 2 + ty * 1.5}
+          text={label}
+          fontSize={12 / scale}
+          fontStyle="bold"
+          fill={color}
+          offsetY={6 / scale}
+        />
+      </>
+    );
+  };
 
   // 抽選結果があるかどうか
   const hasLotteryResults = seatAssignmentMap && seatAssignmentMap.size > 0;
@@ -263,7 +767,7 @@ export function VenueCanvas({
     <div
       ref={containerRef}
       className="relative w-full h-full bg-background overflow-hidden"
-      style={{ cursor: mode !== 'normal' ? 'grab' : 'default' }}
+      style={{ cursor: isPaintMode || isDrawingTool || isMeasureMode || mode === 'seatPen' ? 'crosshair' : mode !== 'normal' ? 'grab' : 'default' }}
     >
       {/* Konva Stage */}
       <Stage
@@ -277,6 +781,9 @@ export function VenueCanvas({
         draggable={mode === 'normal'}
         onWheel={handleWheel}
         onClick={handleStageClick}
+        onDblClick={(e) => {
+          if (isDrawingTool && e.target === e.target.getStage()) finishDraft();
+        }}
         onTap={(e) => {
           if (e.target === e.target.getStage()) {
             onSelectBlock(null);
@@ -286,6 +793,12 @@ export function VenueCanvas({
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseUp}
+        onDragStart={(e) => {
+          // ブロックの矩形選択中はステージのパンを止める
+          if (e.target === stageRef.current && selectionStart.current) {
+            e.target.stopDrag();
+          }
+        }}
         onDragEnd={(e) => {
           if (e.target === stageRef.current) {
             setStagePos({ x: e.target.x(), y: e.target.y() });
@@ -297,50 +810,282 @@ export function VenueCanvas({
           {gridLines}
         </Layer>
 
-        {/* Background image layer */}
+        {/* Background image layer (通常モードでロックされていなければクリックで選択して配置を調整) */}
         {bgImage && backgroundImage && (
-          <Layer listening={false}>
-            <KonvaImage
-              image={bgImage}
-              opacity={backgroundImage.opacity}
-              x={0}
-              y={0}
+          <BackgroundLayer
+            image={bgImage}
+            background={backgroundImage}
+            editable={isBackgroundEditable}
+            selected={isBackgroundEditable && isBackgroundSelected && selectedBlockIds.length === 0}
+            rotationSnaps={rotationSnaps}
+            onSelect={() => {
+              setBackgroundSelected(true);
+              onSelectBlock(null);
+            }}
+            onChange={(transform) => onUpdateBackgroundTransform?.(transform)}
+          />
+        )}
+
+        {/* Annotations (walls, aisles, exits, pillars, captions) */}
+        {annotations && onSelectAnnotation && onUpdateAnnotation && (
+          <AnnotationLayer
+            annotations={annotations}
+            selectedId={isAnnotating ? selectedAnnotationId ?? null : null}
+            editable={isAnnotating && annotationTool === 'select'}
+            scale={scale}
+            onSelect={onSelectAnnotation}
+            onChange={onUpdateAnnotation}
+          >
+            {isAnnotating && draftPoints.length > 0 && (
+              <>
+                <Line
+                  points={draftPointer ? [...draftPoints, draftPointer.x, draftPointer.y] : draftPoints}
+                  closed={annotationTool === 'polygon'}
+                  stroke={annotationColor}
+                  strokeWidth={2 / scale}
+                  dash={[6 / scale, 4 / scale]}
+                  listening={false}
+                />
+                {Array.from({ length: draftPoints.length / 2 }, (_, i) => (
+                  <Rect
+                    key={i}
+                    x={draftPoints[i * 2] - 3 / scale}
+                    y={draftPoints[i * 2 + 1] - 3 / scale}
+                    width={6 / scale}
+                    height={6 / scale}
+                    fill={annotationColor}
+                    listening={false}
+                  />
+                ))}
+              </>
+            )}
+            {isAnnotating && draftRect && (
+              <Rect
+                x={draftRect.x}
+                y={draftRect.y}
+                width={draftRect.width}
+                height={draftRect.height}
+                stroke={annotationColor}
+                strokeWidth={2 / scale}
+                dash={[6 / scale, 4 / scale]}
+                listening={false}
+              />
+            )}
+          </AnnotationLayer>
+        )}
+
+        {/* Stage shapes (抽選モードで編集) */}
+        {stages && onUpdateStagePoints && (
+          <Layer listening={mode === 'lottery'}>
+            <StageShapes
+              stages={stages}
+              editable={mode === 'lottery'}
+              selectedId={selectedStageId}
+              scale={scale}
+              onSelect={setSelectedStageId}
+              onChange={onUpdateStagePoints}
             />
           </Layer>
         )}
 
-        {/* Seat blocks layer */}
-        <Layer listening={true}>
+        {/* Seat blocks layer (注釈モードでは注釈の編集を、計測モードでは線の描画を優先してクリックを透過) */}
+        <Layer listening={!isAnnotating && !isMeasureMode}>
           {blocks.map((block) => (
             <SeatBlock
               key={block.id}
               block={block}
-              isSelected={block.id === selectedBlockId}
+              isSelected={selectedBlockIds.includes(block.id)}
               mode={mode}
               isLocking={isLocking}
               lockedSeatIds={lockedSeatIds}
-              onSelect={() => onSelectBlock(block.id)}
-              onDragStart={onSaveSnapshot}
-              onDragEnd={(x, y) => onUpdateBlockPosition(block.id, x, y)}
-              onRotate={(rotation) => onUpdateBlockRotation(block.id, rotation)}
-              onScale={(scaleX, scaleY) => onUpdateBlockScale(block.id, scaleX, scaleY)}
-              onSeatClick={(seatId) => handleSeatClickWrapper(block.id, seatId)}
+              selectedSeatIds={isPaintMode ? selectedSeatIds : activeSeatIds}
+              categoryMap={categoryMap}
+              onSelect={(additive) => onSelectBlock(block.id, additive)}
+              onNodeRef={(node) => registerBlockNode(block.id, node)}
+              onDragStart={() => handleBlockDragStart(block.id)}
+              dragBoundFunc={snapDragPosition}
+              onDragEnd={(x, y) => handleBlockDragEnd(block.id, x, y)}
+              onSeatClick={(seatId, additive) => handleSeatClickWrapper(block.id, seatId, additive)}
+              onSeatMove={onMoveLooseSeat ? (seatId, localX, localY) => onMoveLooseSeat(block.id, seatId, localX, localY) : undefined}
               seatAssignmentMap={seatAssignmentMap}
               onSeatHover={mode === 'lottery' && hasLotteryResults ? handleSeatHover : undefined}
             />
           ))}
 
-          {/* Stage marker for lottery mode */}
-          {mode === 'lottery' && stagePosition && onStagePositionChange && (
-            <StageMarker
-              position={stagePosition}
-              onDragEnd={onStagePositionChange}
+          {/* Shared transformer for the selected blocks (rotates / scales the set around a common pivot) */}
+          {mode === 'normal' && selectedBlockIds.length > 0 && (
+            <Transformer
+              ref={transformerRef}
+              rotateEnabled={true}
+              resizeEnabled={true}
+              keepRatio={false}
+              enabledAnchors={['top-left', 'top-center', 'top-right', 'middle-left', 'middle-right', 'bottom-left', 'bottom-center', 'bottom-right']}
+              borderStroke="#00d4ff"
+              borderStrokeWidth={2}
+              anchorStroke="#00d4ff"
+              anchorFill="#1a1f36"
+              anchorSize={10}
+              anchorCornerRadius={2}
+              rotationSnaps={rotationSnaps}
+              rotationSnapTolerance={ROTATION_SNAP_TOLERANCE}
+              onTransformStart={() => onSaveSnapshot?.()}
+              onTransformEnd={commitSelectedTransforms}
             />
           )}
 
         </Layer>
+
+        {/* Seat detection suggestions (通常モードでクリックして選択・ドラッグで位置を調整) */}
+        {seatSuggestions && seatSuggestions.length > 0 && onMoveSeatSuggestion && (
+          <SeatSuggestionLayer
+            suggestions={seatSuggestions}
+            selectedId={selectedSuggestionId}
+            editable={mode === 'normal'}
+            scale={scale}
+            onSelect={(suggestionId) => {
+              setSelectedSuggestionId(suggestionId);
+              setBackgroundSelected(false);
+              onSelectBlock(null);
+            }}
+            onMove={onMoveSeatSuggestion}
+          />
+        )}
+
+        {/* Snap guides while dragging blocks */}
+        {snapGuides.length > 0 && (
+          <Layer listening={false}>
+            {snapGuides.map((guide, i) => (
+              <Line
+                key={i}
+                points={guide.orientation === 'vertical'
+                  ? [guide.position, guide.start - 20 / scale, guide.position, guide.end + 20 / scale]
+                  : [guide.start - 20 / scale, guide.position, guide.end + 20 / scale, guide.position]}
+                stroke={SNAP_GUIDE_COLOR}
+                strokeWidth={1 / scale}
+                dash={[4 / scale, 3 / scale]}
+              />
+            ))}
+          </Layer>
+        )}
+
+        {/* Measure mode: calibration reference line, measured line and pending calibration line */}
+        {isMeasureMode && (
+          <Layer listening={false}>
+            {calibration && renderMeasureLine(calibration.points, MEASURE_CALIBRATION_COLOR, `基準 ${calibration.meters} m`, true)}
+            {measureLine && renderMeasureLine(measureLine, MEASURE_COLOR, formatDistance(getLineLength(measureLine), pixelsPerMeter))}
+            {pendingCalibration && renderMeasureLine(pendingCalibration, MEASURE_CALIBRATION_COLOR, `${Math.round(getLineLength(pendingCalibration))} px`)}
+          </Layer>
+        )}
+
+        {/* Drag selection rectangle */}
+        {selectionRect && (
+          <Layer listening={false}>
+            <Rect
+              x={selectionRect.x}
+              y={selectionRect.y}
+              width={selectionRect.width}
+              height={selectionRect.height}
+              fill="rgba(0, 212, 255, 0.08)"
+              stroke="#00d4ff"
+              strokeWidth={1 / scale}
+              dash={[6 / scale, 4 / scale]}
+            />
+          </Layer>
+        )}
       </Stage>
 
+      {/* Duplicate / mirror / align bar for the selected blocks */}
+      {mode === 'normal' && selectedBlockIds.length > 0 && onAlignBlocks && onDistributeBlocks
+        && onDuplicateBlocks && onCopyBlocks && onMirrorBlocks && (
+        <BlockSelectionBar
+          count={selectedBlockIds.length}
+          onAlign={onAlignBlocks}
+          onDistribute={onDistributeBlocks}
+          onDuplicate={onDuplicateBlocks}
+          onCopy={onCopyBlocks}
+          onMirror={onMirrorBlocks}
+          onClear={() => onSelectBlock(null)}
+        />
+      )}
+
+      {/* Accept / discard bar for the detected seat blocks */}
+      {mode === 'normal' && selectedBlockIds.length === 0 && seatSuggestions && seatSuggestions.length > 0
+        && onAcceptSeatSuggestions && onDiscardSeatSuggestions && (
+        <SeatSuggestionBar
+          count={seatSuggestions.length}
+          selected={seatSuggestions.find(s => s.id === selectedSuggestionId)}
+          onAccept={() => selectedSuggestionId && onAcceptSeatSuggestions([selectedSuggestionId])}
+          onDiscard={() => selectedSuggestionId && onDiscardSeatSuggestions([selectedSuggestionId])}
+          onAcceptAll={() => onAcceptSeatSuggestions()}
+          onDiscardAll={() => onDiscardSeatSuggestions()}
+        />
+      )}
+
+      {/* Bulk paint bar for the drag selection */}
+      {isPaintMode && selectedSeatIds && selectedSeatIds.size > 0 && onPaintSelectedSeats && onClearSeatSelection && (
+        <SeatSelectionBar
+          mode={mode}
+          categoryName={paintCategory?.name}
+          count={selectedSeatIds.size}
+          onPaint={onPaintSelectedSeats}
+          onClear={onClearSeatSelection}
+        />
+      )}
+
+      {/* Loose seat editing bar (seat pen mode) */}
+      {mode === 'seatPen' && onDeleteLooseSeat && onAutoLinkLooseSeats && onUpdateLooseSeatNumber && (
+        <LooseSeatBar
+          block={penBlock}
+          seat={penSeat}
+          onUpdateNumber={(number) => penBlock && penSeat && onUpdateLooseSeatNumber(penBlock.id, penSeat.id, number)}
+          onDeleteSeat={() => penBlock && penSeat && onDeleteLooseSeat(penBlock.id, penSeat.id)}
+          onAutoLink={() => penBlock && onAutoLinkLooseSeats(penBlock.id)}
+          onNewBlock={() => onClearSeatSelection?.()}
+        />
+      )}
+
+      {/* Annotation tools (annotate mode) */}
+      {isAnnotating && annotations && onUpdateAnnotation && onDeleteAnnotation && (
+        <AnnotationToolbar
+          tool={annotationTool}
+          onToolChange={handleAnnotationToolChange}
+          icon={annotationIcon}
+          onIconChange={setAnnotationIcon}
+          color={annotationColor}
+          onColorChange={handleAnnotationColorChange}
+          selected={annotations.find(a => a.id === selectedAnnotationId)}
+          onUpdate={(changes) => selectedAnnotationId && onUpdateAnnotation(selectedAnnotationId, changes)}
+          onDelete={() => selectedAnnotationId && onDeleteAnnotation(selectedAnnotationId)}
+        />
+      )}
+
+      {/* Distance / scale tools (measure mode) */}
+      {isMeasureMode && onSetCalibration && (
+        <MeasureToolbar
+          tool={measureTool}
+          onToolChange={setMeasureTool}
+          pixelsPerMeter={pixelsPerMeter}
+          measuredLength={measureLine ? getLineLength(measureLine) : null}
+          pendingLength={pendingCalibration ? getLineLength(pendingCalibration) : null}
+          onApplyCalibration={handleApplyCalibration}
+          onClearCalibration={() => onSetCalibration(null)}
+        />
+      )}
+
+      {/* Stage shape tools (lottery mode) */}
+      {mode === 'lottery' && stages && onAddStage && onDeleteStage && (
+        <StageControls
+          count={stages.length}
+          selectedName={selectedStage?.name}
+          onAdd={handleAddStage}
+          onDelete={() => selectedStage && onDeleteStage(selectedStage.id)}
+        />
+      )}
+
+      {/* Snap toggles (normal mode) */}
+      {mode === 'normal' && snapSettings && onSnapSettingsChange && (
+        <SnapControls settings={snapSettings} onChange={onSnapSettingsChange} />
+      )}
 
       {/* Scale indicator */}
       <div className="absolute bottom-4 right-4 bg-card/80 backdrop-blur-sm px-3 py-1.5 rounded-lg border border-border text-xs font-mono text-muted-foreground">
@@ -351,6 +1096,7 @@ export function VenueCanvas({
       {mode === 'lottery' && tooltip.visible && tooltip.assignment && (
         <SeatTooltip
           assignment={tooltip.assignment}
+          seatLabel={tooltip.seatLabel ?? undefined}
           x={tooltip.x}
           y={tooltip.y}
         />
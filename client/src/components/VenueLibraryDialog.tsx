@@ -0,0 +1,212 @@
+/**
+ * VenueLibraryDialog Component - ブラウザに保存した会場の一覧
+ * Blueprint Technical Design System
+ *
+ * 自動保存された会場をサムネイル付きで一覧し、開く・名前の変更・複製・削除を行う。
+ * 会場はこのブラウザの IndexedDB にだけ保存されるので、他の端末へはファイルに保存して渡す
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Copy, FilePlus, FolderOpen, Library, Pencil, Trash2 } from 'lucide-react';
+import type { SavedVenueSummary } from '@/types/venue';
+
+interface VenueLibraryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  venues: SavedVenueSummary[];
+  loading: boolean;
+  currentVenueId: string | null;
+  onOpenVenue: (id: string) => void;
+  onNewVenue: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function formatSavedAt(dateStr: string): string {
+  return new Date(dateStr).toLocaleString('ja-JP', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function VenueLibraryDialog({
+  open,
+  onOpenChange,
+  venues,
+  loading,
+  currentVenueId,
+  onOpenVenue,
+  onNewVenue,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: VenueLibraryDialogProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [deleteTarget, setDeleteTarget] = useState<SavedVenueSummary | null>(null);
+
+  const startRename = (venue: SavedVenueSummary) => {
+    setEditingId(venue.id);
+    setEditingName(venue.name);
+  };
+
+  const commitRename = () => {
+    const name = editingName.trim();
+    const venue = venues.find(v => v.id === editingId);
+    if (venue && name && name !== venue.name) onRename(venue.id, name);
+    setEditingId(null);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl max-h-[80vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2.5">
+              <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                <Library className="w-4 h-4 text-primary" />
+              </div>
+              会場ライブラリ
+              <Button variant="outline" size="sm" className="ml-auto mr-6 h-8 text-xs gap-1.5" onClick={onNewVenue}>
+                <FilePlus className="w-3.5 h-3.5" />
+                新しい会場
+              </Button>
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="flex-1 overflow-y-auto py-2">
+            {loading ? (
+              <p className="text-sm text-muted-foreground text-center py-12">読み込み中...</p>
+            ) : venues.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-12">
+                保存された会場はありません。編集を始めると自動で保存されます
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {venues.map((venue) => {
+                  const isCurrent = venue.id === currentVenueId;
+                  return (
+                    <div
+                      key={venue.id}
+                      className={`rounded-xl border bg-card overflow-hidden ${isCurrent ? 'border-primary' : 'border-border'}`}
+                    >
+                      <button
+                        type="button"
+                        className="relative block w-full aspect-[8/5] bg-muted"
+                        onClick={() => onOpenVenue(venue.id)}
+                        title="開く"
+                      >
+                        {venue.thumbnail && (
+                          <img src={venue.thumbnail} alt={venue.name} className="w-full h-full object-cover" />
+                        )}
+                        {isCurrent && (
+                          <span className="absolute top-1.5 left-1.5 px-2 py-0.5 rounded-full text-[10px] font-bold bg-primary text-primary-foreground">
+                            編集中
+                          </span>
+                        )}
+                      </button>
+
+                      <div className="p-2.5 space-y-1.5">
+                        {editingId === venue.id ? (
+                          <Input
+                            autoFocus
+                            value={editingName}
+                            onChange={(e) => setEditingName(e.target.value)}
+                            onBlur={commitRename}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') commitRename();
+                              if (e.key === 'Escape') setEditingId(null);
+                            }}
+                            className="h-7 text-xs"
+                          />
+                        ) : (
+                          <p className="text-sm font-bold text-foreground truncate" title={venue.name}>{venue.name}</p>
+                        )}
+                        <p className="text-[10px] text-muted-foreground">
+                          <span className="mono">{venue.blockCount}</span> ブロック・<span className="mono">{venue.seatCount}</span> 席
+                          <br />
+                          更新 <span className="mono">{formatSavedAt(venue.updatedAt)}</span>
+                        </p>
+
+                        <div className="flex items-center gap-1">
+                          <Button size="sm" className="h-7 px-2.5 text-xs gap-1 flex-1" onClick={() => onOpenVenue(venue.id)}>
+                            <FolderOpen className="w-3.5 h-3.5" />
+                            開く
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startRename(venue)} title="名前を変更">
+                            <Pencil className="w-3.5 h-3.5" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onDuplicate(venue.id)} title="複製">
+                            <Copy className="w-3.5 h-3.5" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                            onClick={() => setDeleteTarget(venue)}
+                            title="削除"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <p className="text-[10px] text-muted-foreground/70 border-t pt-3">
+            会場はこのブラウザにだけ保存されます。他の端末で使うときは「保存」でファイルに書き出してください
+          </p>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>「{deleteTarget?.name}」を削除しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              ライブラリから削除します。この操作は取り消せません。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleteTarget) onDelete(deleteTarget.id);
+                setDeleteTarget(null);
+              }}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              削除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
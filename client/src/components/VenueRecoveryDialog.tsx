@@ -0,0 +1,59 @@
+/**
+ * VenueRecoveryDialog Component - 前回の編集内容の復元
+ * Blueprint Technical Design System
+ *
+ * 起動時、前回編集していた会場が自動保存されていれば復元するか確認する。
+ * 復元しない場合も会場はライブラリに残る
+ */
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { formatSavedAt } from '@/components/VenueLibraryDialog';
+import type { SavedVenueSummary } from '@/types/venue';
+
+interface VenueRecoveryDialogProps {
+  venue: SavedVenueSummary | null;
+  onRecover: () => void;
+  onDismiss: () => void;
+}
+
+export function VenueRecoveryDialog({ venue, onRecover, onDismiss }: VenueRecoveryDialogProps) {
+  return (
+    <AlertDialog open={!!venue}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>前回の編集内容を復元しますか？</AlertDialogTitle>
+          <AlertDialogDescription>
+            「{venue?.name}」が自動保存されています。復元しない場合も会場ライブラリから開けます。
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {venue && (
+          <div className="flex items-center gap-3 rounded-lg border border-border p-2.5">
+            {venue.thumbnail && (
+              <img src={venue.thumbnail} alt={venue.name} className="w-28 aspect-[8/5] rounded object-cover" />
+            )}
+            <p className="text-xs text-muted-foreground">
+              <span className="mono">{venue.blockCount}</span> ブロック・<span className="mono">{venue.seatCount}</span> 席
+              <br />
+              自動保存 <span className="mono">{formatSavedAt(venue.updatedAt)}</span>
+            </p>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onDismiss}>新しく始める</AlertDialogCancel>
+          <AlertDialogAction onClick={onRecover}>復元する</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
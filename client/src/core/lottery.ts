@@ -19,11 +19,14 @@ export interface Seat {
   id: string;
   x: number;
   y: number;
-  isPremium: boolean;
+  categoryWeight: number; // 座席カテゴリの加点（カテゴリなし=0）
+  levelWeight?: number; // 階ごとの加点（未指定=0）
   isDisabled: boolean;
   row?: number;
   col?: number;
   blockId?: string;
+  segment?: number; // ブロック内通路で区切られた区画番号（区画が違う席は隣接しない）
+  neighbors?: string[]; // ばら席: 明示的な隣接席ID（指定された席は row/col ではなくこれで連席を判定）
 }
 
 export interface Application {
@@ -39,21 +42,26 @@ export interface Application {
   tags?: string[];
 }
 
+/** ステージの外形: 閉じた多角形の頂点 [x0, y0, x1, y1, …]（張り出し・花道・センターステージなど複数可） */
+export type StageOutline = number[];
+
 export interface LotteryConfig {
-  stagePosition: { x: number; y: number };
+  stages: StageOutline[];
+  pixelsPerMeter?: number; // 会場の縮尺（指定時は距離をメートルで扱う。未指定=座標の px）
   skillWeight?: number;   // Tier 3 の実力の重み（デフォルト 0.70）
   randomFn?: () => number; // テスト用: 乱数関数の注入
 }
 
 export interface SeatWithScore extends Seat {
   score: number;
-  distanceFromStage: number;
+  distanceFromStage: number; // ステージの縁までの距離（LotteryConfig.pixelsPerMeter 指定時は m）
 }
 
 export interface Assignment {
   applicationId: string;
   seatIds: string[];
   totalScore: number;
+  distanceFromStage: number; // 座席の平均距離（SeatWithScore と同じ単位）
   tier: 1 | 2 | 3;
   seatQuality?: SeatQuality;
 }
@@ -91,31 +99,77 @@ function calculateDistance(x1: number, y1: number, x2: number, y2: number): numb
   return Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2);
 }
 
-/** 座席スコアの計算: ステージに近いほど高スコア + プレミアム席ボーナス */
+/** 点から線分までの距離 */
+function distanceToSegment(x: number, y: number, x1: number, y1: number, x2: number, y2: number): number {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / lengthSq));
+  return calculateDistance(x, y, x1 + t * dx, y1 + t * dy);
+}
+
+/** 点が多角形の内側にあるか（偶奇規則） */
+function isInsideOutline(x: number, y: number, outline: StageOutline): boolean {
+  let inside = false;
+  const n = outline.length / 2;
+  for (let i = 0, j = n - 1; i < n; j = i++) {
+    const xi = outline[i * 2], yi = outline[i * 2 + 1];
+    const xj = outline[j * 2], yj = outline[j * 2 + 1];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * 最も近いステージの縁までの距離（ステージの内側は 0）
+ * 頂点が1つだけの外形は点として扱う
+ */
+export function distanceToStages(x: number, y: number, stages: StageOutline[]): number {
+  let best = Infinity;
+  for (const outline of stages) {
+    const n = outline.length / 2;
+    if (n === 0) continue;
+    if (n >= 3 && isInsideOutline(x, y, outline)) return 0;
+    for (let i = 0; i < n; i++) {
+      const j = (i + 1) % n;
+      best = Math.min(best, distanceToSegment(x, y, outline[i * 2], outline[i * 2 + 1], outline[j * 2], outline[j * 2 + 1]));
+    }
+  }
+  return best === Infinity ? 0 : best;
+}
+
+/**
+ * 座席スコアの計算: ステージの縁に近いほど高スコア + 座席カテゴリ・階の加点
+ * unit: 1単位あたりの座標（縮尺があれば 1m の px。maxDistance も同じ単位）
+ */
 export function calculateSeatScore(
   seat: Seat,
-  stagePosition: { x: number; y: number },
+  stages: StageOutline[],
   maxDistance: number,
+  unit: number = 1,
 ): SeatWithScore {
-  const distance = calculateDistance(seat.x, seat.y, stagePosition.x, stagePosition.y);
+  const distance = distanceToStages(seat.x, seat.y, stages) / unit;
   const distanceScore = Math.max(0, 100 - (distance / maxDistance) * 100);
-  const premiumBonus = seat.isPremium ? 1000 : 0;
 
   return {
     ...seat,
-    score: distanceScore + premiumBonus,
+    score: distanceScore + seat.categoryWeight + (seat.levelWeight ?? 0),
     distanceFromStage: distance,
   };
 }
 
 /**
  * 全座席から「同一ブロック・同一行で列番号が連続する座席のチャンク」を構築
+ * ブロック内通路を挟む席（segment が異なる席）は連続とみなさない
  */
 function buildAllChunks(seats: SeatWithScore[]): SeatChunk[] {
   const chunks: SeatChunk[] = [];
 
   const grouped = new Map<string, SeatWithScore[]>();
   for (const seat of seats) {
+    if (seat.neighbors) continue; // ばら席は buildNeighborChunks で扱う
     const key = `${seat.blockId ?? 'default'}_${seat.row ?? 0}`;
     if (!grouped.has(key)) grouped.set(key, []);
     grouped.get(key)!.push(seat);
@@ -130,7 +184,10 @@ function buildAllChunks(seats: SeatWithScore[]): SeatChunk[] {
     let chunkStart = 0;
     for (let i = 1; i <= rowSeats.length; i++) {
       const isEnd = i === rowSeats.length;
-      const isBreak = !isEnd && (rowSeats[i].col ?? 0) !== (rowSeats[i - 1].col ?? 0) + 1;
+      const isBreak = !isEnd && (
+        (rowSeats[i].col ?? 0) !== (rowSeats[i - 1].col ?? 0) + 1 ||
+        (rowSeats[i].segment ?? 0) !== (rowSeats[i - 1].segment ?? 0)
+      );
 
       if (isEnd || isBreak) {
         const chunkSeats = rowSeats.slice(chunkStart, i);
@@ -145,6 +202,48 @@ function buildAllChunks(seats: SeatWithScore[]): SeatChunk[] {
   return chunks;
 }
 
+/**
+ * ばら席（隣接リストを持つ席）から指定人数の連席候補を構築
+ * 各席を起点に、隣接する空席のうちスコアの高い席を順に加えて size 席の連結した組を作る
+ */
+function buildNeighborChunks(seats: SeatWithScore[], size: number): SeatChunk[] {
+  const byId = new Map<string, SeatWithScore>();
+  for (const seat of seats) {
+    if (seat.neighbors) byId.set(seat.id, seat);
+  }
+
+  const chunks: SeatChunk[] = [];
+  const seen = new Set<string>();
+  for (const start of Array.from(byId.values())) {
+    const group = [start];
+    const ids = new Set([start.id]);
+    while (group.length < size) {
+      let best: SeatWithScore | null = null;
+      for (const seat of group) {
+        for (const neighborId of seat.neighbors ?? []) {
+          const neighbor = byId.get(neighborId);
+          if (neighbor && !ids.has(neighbor.id) && (!best || neighbor.score > best.score)) {
+            best = neighbor;
+          }
+        }
+      }
+      if (!best) break;
+      group.push(best);
+      ids.add(best.id);
+    }
+    if (group.length < size) continue;
+
+    const key = Array.from(ids).sort().join(',');
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const avgScore = group.reduce((sum, s) => sum + s.score, 0) / group.length;
+    chunks.push({ seats: group, avgScore, blockId: start.blockId ?? 'default', row: start.row ?? 0, startCol: start.col ?? 0 });
+  }
+
+  return chunks;
+}
+
 /**
  * チャンクから指定サイズの連続部分を全パターン抽出
  */
@@ -192,6 +291,7 @@ function findAndAllocateSeats(
   for (const chunk of allChunks) {
     candidateChunks.push(...getSubChunks(chunk, groupSize));
   }
+  candidateChunks.push(...buildNeighborChunks(available, groupSize));
 
   if (candidateChunks.length === 0) return null;
 
@@ -213,12 +313,20 @@ function findAndAllocateSeats(
     const soloAdjacentIds = new Set<string>();
     for (const soloId of Array.from(soloSeatIds)) {
       const seat = seatMap.get(soloId);
+      // ばら席は隣接リストの席を隣とみなす
+      if (seat?.neighbors) {
+        for (const nId of seat.neighbors) {
+          if (!assignedSeatIds.has(nId)) soloAdjacentIds.add(nId);
+        }
+        continue;
+      }
       if (!seat || seat.blockId === undefined || seat.row === undefined || seat.col === undefined) continue;
       for (let dr = -1; dr <= 1; dr++) {
         for (let dc = -1; dc <= 1; dc++) {
           if (dr === 0 && dc === 0) continue;
           const nId = gridMap.get(`${seat.blockId}_${seat.row + dr}_${seat.col + dc}`);
-          if (nId && !assignedSeatIds.has(nId)) {
+          // 通路を挟んだ席は隣とみなさない
+          if (nId && !assignedSeatIds.has(nId) && (seatMap.get(nId)?.segment ?? 0) === (seat.segment ?? 0)) {
             soloAdjacentIds.add(nId);
           }
         }
@@ -318,7 +426,8 @@ export function assignSeats(
   applications: Application[],
   config: LotteryConfig,
 ): LotteryResult {
-  const { stagePosition, skillWeight = 0.70 } = config;
+  const { stages, skillWeight = 0.70 } = config;
+  const unit = config.pixelsPerMeter && config.pixelsPerMeter > 0 ? config.pixelsPerMeter : 1;
   const randomFn = config.randomFn ?? Math.random;
 
   // Step 1: 無効化された席を除外
@@ -342,14 +451,14 @@ export function assignSeats(
     };
   }
 
-  // Step 2: 最大距離を計算
+  // Step 2: 最大距離を計算（ステージの縁まで）
   const maxDistance = Math.max(
-    ...availableSeats.map((s) => calculateDistance(s.x, s.y, stagePosition.x, stagePosition.y)),
+    ...availableSeats.map((s) => distanceToStages(s.x, s.y, stages) / unit),
   ) || 1;
 
   // Step 3: 各座席のスコアを計算
   const scoredSeats = availableSeats.map((seat) =>
-    calculateSeatScore(seat, stagePosition, maxDistance),
+    calculateSeatScore(seat, stages, maxDistance, unit),
   );
 
   // Step 4: Tier分類
@@ -397,6 +506,7 @@ export function assignSeats(
         applicationId: app.id,
         seatIds: allocated.map((s) => s.id),
         totalScore: allocated.reduce((sum, s) => sum + s.score, 0) / allocated.length,
+        distanceFromStage: allocated.reduce((sum, s) => sum + s.distanceFromStage, 0) / allocated.length,
         tier,
       });
       return true;
@@ -0,0 +1,58 @@
+/**
+ * Background Bitmap Hook
+ * 背景をキャンバスに描くための画像を用意する。SVG・PDF はズームに応じた解像度で描き直し、
+ * 描き直しが終わるまでは直前の画像を表示し続ける
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { BackgroundImage } from '@/types/venue';
+import { getBackgroundResolution, renderBackgroundBitmap } from '@/lib/background';
+
+// ズーム操作中に何度も描き直さないよう、倍率が落ち着いてから描画する
+const RERENDER_DELAY_MS = 200;
+
+export function useBackgroundBitmap(image: BackgroundImage | null, pixelScale: number): CanvasImageSource | null {
+  const [bitmap, setBitmap] = useState<CanvasImageSource | null>(null);
+  // 配置・不透明度の変更では描き直さないので、画像そのものは ref で最新を参照する
+  const imageRef = useRef(image);
+  const hasBitmapRef = useRef(false);
+
+  useEffect(() => {
+    imageRef.current = image;
+  });
+
+  const isVector = image?.kind === 'svg' || image?.kind === 'pdf';
+  const resolution = image && isVector ? getBackgroundResolution(image, pixelScale) : 1;
+  const src = image?.src;
+  const page = image?.pdfPage;
+  const width = image?.width;
+  const height = image?.height;
+  const kind = image?.kind;
+
+  useEffect(() => {
+    const current = imageRef.current;
+    if (!current) {
+      hasBitmapRef.current = false;
+      setBitmap(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      renderBackgroundBitmap(current, resolution)
+        .then((next) => {
+          if (cancelled) return;
+          hasBitmapRef.current = true;
+          setBitmap(next);
+        })
+        .catch((error) => {
+          console.error('背景の描画に失敗しました:', error);
+        });
+    }, hasBitmapRef.current && isVector ? RERENDER_DELAY_MS : 0);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [src, page, width, height, kind, isVector, resolution]);
+
+  return bitmap;
+}
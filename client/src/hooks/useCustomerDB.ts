@@ -4,35 +4,10 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
+import { CUSTOMER_STORE, openDB } from '@/lib/database';
 import type { Customer, CustomerInput, CustomerUpdate } from '@/types/customer';
 
-const DB_NAME = 'VenueMapEditorDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'customers';
-
-function openDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onerror = () => {
-      reject(new Error('Failed to open database'));
-    };
-
-    request.onsuccess = () => {
-      resolve(request.result);
-    };
-
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-        store.createIndex('memberId', 'memberId', { unique: true });
-        store.createIndex('name', 'name', { unique: false });
-        store.createIndex('totalScore', 'totalScore', { unique: false });
-      }
-    };
-  });
-}
+const STORE_NAME = CUSTOMER_STORE;
 
 function generateUUID(): string {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
@@ -4,10 +4,13 @@
  */
 
 import { useState, useCallback } from 'react';
-import type { SeatBlock, LotteryApplication, LotteryAssignment, StagePosition, WinnerInfo, LockedSeat, SeatQuality } from '@/types/venue';
+import type { SeatBlock, SeatCategory, LotteryApplication, LotteryAssignment, StageShape, VenueLevel, WinnerInfo, LockedSeat, LotterySettings, SeatQuality } from '@/types/venue';
 import type { Customer, CustomerTag } from '@/types/customer';
 import type { Seat as LotterySeat, Application, LotteryConfig, LotteryResult, ScoreUpdate } from '@/core/lottery';
 import { assignSeats, calculateScoreUpdates } from '@/core/lottery';
+import { getSeatAisleSegment, localToCanvasCoords } from '@/lib/venueUtils';
+import { findSeatLabel } from '@/lib/seatNumbering';
+import { getBlockLevel } from '@/lib/levels';
 
 // 色パレット
 const GROUP_COLORS = [
@@ -132,7 +135,6 @@ interface LockingState {
 interface UseLotteryReturn {
   applications: LotteryApplication[];
   assignments: LotteryAssignment[];
-  stagePosition: StagePosition;
   skillWeight: number;
   seatAssignmentMap: Map<string, LotteryAssignment>;
   lockedSeats: LockedSeat[];
@@ -140,22 +142,28 @@ interface UseLotteryReturn {
   scoreUpdates: ScoreUpdate[];
   lockingState: LockingState | null;
 
-  setStagePosition: (position: StagePosition) => void;
   setSkillWeight: (weight: number) => void;
+  restoreSettings: (settings: LotterySettings) => void; // プロジェクトファイルから重み・関係者の固定席を復元
   generateMockData: () => void;
   loadFromCustomers: (customers: Customer[], groupSizes?: Map<string, number>) => void;
   setApplications: (apps: LotteryApplication[]) => void;
-  runLottery: (blocks: SeatBlock[]) => LotteryResult | null;
+  runLottery: (
+    blocks: SeatBlock[],
+    stages: StageShape[],
+    categories: SeatCategory[],
+    levels?: VenueLevel[],
+    pixelsPerMeter?: number | null, // 縮尺（設定時はステージ距離を m で算出）
+  ) => LotteryResult | null;
   reset: () => void;
   getAssignmentForSeat: (seatId: string) => LotteryAssignment | undefined;
-  getWinnersList: (blocks: SeatBlock[]) => WinnerInfo[];
+  getWinnersList: (blocks: SeatBlock[], levels?: VenueLevel[]) => WinnerInfo[];
 
   startLocking: (customer: Customer) => void;
   cancelLocking: () => void;
   handleLockSeatClick: (seatId: string) => void;
   unlockCustomer: (customerId: string) => void;
 
-  exportWinnersCSV: (blocks: SeatBlock[], eventName?: string) => void;
+  exportWinnersCSV: (blocks: SeatBlock[], levels?: VenueLevel[], eventName?: string) => void;
   exportLosersCSV: (eventName?: string) => void;
   exportNextEventCSV: (eventName?: string) => void;
 }
@@ -163,13 +171,13 @@ interface UseLotteryReturn {
 export function useLottery(): UseLotteryReturn {
   const [applications, setApplications] = useState<LotteryApplication[]>([]);
   const [assignments, setAssignments] = useState<LotteryAssignment[]>([]);
-  const [stagePosition, setStagePosition] = useState<StagePosition>({ x: 500, y: 50 });
   const [skillWeight, setSkillWeight] = useState(0.70);
   const [seatAssignmentMap, setSeatAssignmentMap] = useState<Map<string, LotteryAssignment>>(new Map());
   const [lockedSeats, setLockedSeats] = useState<LockedSeat[]>([]);
   const [lockingState, setLockingState] = useState<LockingState | null>(null);
   const [lastResult, setLastResult] = useState<LotteryResult | null>(null);
   const [scoreUpdates, setScoreUpdates] = useState<ScoreUpdate[]>([]);
+  const [distanceUnit, setDistanceUnit] = useState<'m' | 'px'>('px'); // 直近の抽選のステージ距離の単位
 
   const generateMockData = useCallback(() => {
     const mockApplications: LotteryApplication[] = [];
@@ -241,27 +249,34 @@ export function useLottery(): UseLotteryReturn {
     setScoreUpdates([]);
   }, [lockedSeats]);
 
-  const runLottery = useCallback((blocks: SeatBlock[]): LotteryResult | null => {
+  const runLottery = useCallback((
+    blocks: SeatBlock[],
+    stages: StageShape[],
+    categories: SeatCategory[],
+    levels: VenueLevel[] = [],
+    pixelsPerMeter: number | null = null,
+  ): LotteryResult | null => {
     if (applications.length === 0 || blocks.length === 0) return null;
 
+    const categoryWeights = new Map(categories.map((c) => [c.id, c.weight]));
     const lotterySeats: LotterySeat[] = [];
     for (const block of blocks) {
+      const levelWeight = getBlockLevel(block, levels)?.weight ?? 0;
       for (const seat of block.seats) {
-        const rad = (block.rotation * Math.PI) / 180;
-        const scaledX = seat.localX * block.scaleX;
-        const scaledY = seat.localY * block.scaleY;
-        const rotatedX = scaledX * Math.cos(rad) - scaledY * Math.sin(rad);
-        const rotatedY = scaledX * Math.sin(rad) + scaledY * Math.cos(rad);
+        const { x, y } = localToCanvasCoords(seat.localX, seat.localY, block);
 
         lotterySeats.push({
           id: seat.id,
-          x: block.x + rotatedX,
-          y: block.y + rotatedY,
-          isPremium: seat.isPremium,
+          x,
+          y,
+          categoryWeight: seat.categoryId ? categoryWeights.get(seat.categoryId) ?? 0 : 0,
+          levelWeight,
           isDisabled: seat.isDisabled,
           row: seat.row,
           col: seat.col,
           blockId: block.id,
+          segment: getSeatAisleSegment(block, seat),
+          ...(block.kind === 'loose' ? { neighbors: seat.neighbors ?? [] } : {}),
         });
       }
     }
@@ -274,7 +289,11 @@ export function useLottery(): UseLotteryReturn {
       }
     }
 
-    const config: LotteryConfig = { stagePosition, skillWeight };
+    const config: LotteryConfig = {
+      stages: stages.map(stage => stage.points),
+      ...(pixelsPerMeter ? { pixelsPerMeter } : {}),
+      skillWeight,
+    };
 
     const lotteryApplications: Application[] = applications.map((app) => ({
       id: app.id,
@@ -291,6 +310,7 @@ export function useLottery(): UseLotteryReturn {
 
     const result = assignSeats(lotterySeats, lotteryApplications, config);
     setLastResult(result);
+    setDistanceUnit(pixelsPerMeter ? 'm' : 'px');
 
     const updates = calculateScoreUpdates(result.assignments, result.unassigned, lotteryApplications);
     setScoreUpdates(updates);
@@ -308,6 +328,7 @@ export function useLottery(): UseLotteryReturn {
         applicationId: assignment.applicationId,
         seatIds: assignment.seatIds,
         totalScore: assignment.totalScore,
+        distanceFromStage: assignment.distanceFromStage,
         color,
         isInvitation: app?.isInvitation ?? false,
         isRelation: app?.isRelation ?? false,
@@ -351,7 +372,7 @@ export function useLottery(): UseLotteryReturn {
     setSeatAssignmentMap(newMap);
 
     return result;
-  }, [applications, stagePosition, skillWeight, lockedSeats]);
+  }, [applications, skillWeight, lockedSeats]);
 
   const reset = useCallback(() => {
     setApplications([]);
@@ -363,21 +384,28 @@ export function useLottery(): UseLotteryReturn {
     setScoreUpdates([]);
   }, []);
 
+  // 読み込んだ会場の設定に置き換える（前の会場の抽選結果・配置途中の固定席は破棄）
+  const restoreSettings = useCallback((settings: LotterySettings) => {
+    setSkillWeight(settings.skillWeight);
+    setLockedSeats(settings.lockedSeats);
+    setLockingState(null);
+    setAssignments([]);
+    setSeatAssignmentMap(new Map());
+    setLastResult(null);
+    setScoreUpdates([]);
+  }, []);
+
   const getAssignmentForSeat = useCallback((seatId: string): LotteryAssignment | undefined => {
     return seatAssignmentMap.get(seatId);
   }, [seatAssignmentMap]);
 
-  const getSeatLabel = useCallback((seatId: string, blocks: SeatBlock[]): string => {
-    for (const block of blocks) {
-      const seat = block.seats.find((s) => s.id === seatId);
-      if (seat) return `${block.name}-${seat.row + 1}-${seat.col + 1}`;
-    }
-    return seatId;
+  const getSeatLabel = useCallback((seatId: string, blocks: SeatBlock[], levels: VenueLevel[]): string => {
+    return findSeatLabel(blocks, seatId, levels);
   }, []);
 
-  const getWinnersList = useCallback((blocks: SeatBlock[]): WinnerInfo[] => {
+  const getWinnersList = useCallback((blocks: SeatBlock[], levels: VenueLevel[] = []): WinnerInfo[] => {
     return assignments.map((assignment) => {
-      const seatLabels = assignment.seatIds.map((seatId) => getSeatLabel(seatId, blocks));
+      const seatLabels = assignment.seatIds.map((seatId) => getSeatLabel(seatId, blocks, levels));
 
       let attribute: string;
       if (assignment.tier === 0) attribute = '関係者';
@@ -394,6 +422,7 @@ export function useLottery(): UseLotteryReturn {
         seatLabel: seatLabels.join(', '),
         attribute,
         score: assignment.totalScore,
+        distanceFromStage: assignment.distanceFromStage,
         tier: assignment.tier,
         seatQuality: assignment.seatQuality,
         pastScore: assignment.pastScore,
@@ -467,19 +496,21 @@ export function useLottery(): UseLotteryReturn {
 
   // ---- 3種CSV出力 ----
 
-  const exportWinnersCSV = useCallback((blocks: SeatBlock[], eventName?: string) => {
-    const winners = getWinnersList(blocks);
+  const exportWinnersCSV = useCallback((blocks: SeatBlock[], levels: VenueLevel[] = [], eventName?: string) => {
+    const winners = getWinnersList(blocks, levels);
     const date = new Date().toISOString().slice(0, 10);
     const name = eventName || 'イベント';
 
-    const headers = ['会員番号', '氏名', '人数', '当選座席', '属性', 'Tier', '座席品質', 'スコア', '住所'];
+    const headers = ['会員番号', '氏名', '人数', '当選座席', '属性', 'Tier', '座席品質', 'スコア', `ステージ距離(${distanceUnit})`, '住所'];
     const rows = winners.map((w) => [
       w.memberId, w.name, String(w.groupSize), w.seatLabel, w.attribute,
-      getTierLabel(w.tier), getQualityLabel(w.seatQuality), w.score.toFixed(1), w.address,
+      getTierLabel(w.tier), getQualityLabel(w.seatQuality), w.score.toFixed(1),
+      w.distanceFromStage === undefined ? '' : w.distanceFromStage.toFixed(distanceUnit === 'm' ? 2 : 0),
+      w.address,
     ]);
 
     downloadCSV(`発送用_当選者_${name}_${date}.csv`, headers, rows);
-  }, [getWinnersList]);
+  }, [getWinnersList, distanceUnit]);
 
   const exportLosersCSV = useCallback((eventName?: string) => {
     if (!lastResult) return;
@@ -517,9 +548,9 @@ export function useLottery(): UseLotteryReturn {
   }, [scoreUpdates, applications]);
 
   return {
-    applications, assignments, stagePosition, skillWeight, seatAssignmentMap,
+    applications, assignments, skillWeight, seatAssignmentMap,
     lockedSeats, lockingState, lastResult, scoreUpdates,
-    setStagePosition, setSkillWeight, generateMockData, loadFromCustomers,
+    setSkillWeight, restoreSettings, generateMockData, loadFromCustomers,
     setApplications, runLottery, reset, getAssignmentForSeat, getWinnersList,
     startLocking, cancelLocking, handleLockSeatClick, unlockCustomer,
     exportWinnersCSV, exportLosersCSV, exportNextEventCSV,
@@ -1,22 +1,51 @@
 /**
  * Venue Editor Custom Hook
  * Blueprint Technical Design System
+ *
+ * 編集対象（ブロック・座席カテゴリ・注釈・階と階ごとの背景・ステージ形状）は VenueDocument として一元管理し、
+ * すべての変更をラベル付きコマンドとして差分履歴に記録する（lib/history.ts）。
  */
 
-import { useState, useCallback, useRef, useEffect } from 'react';
-import type { SeatBlock, EditorMode, BackgroundImage, BlockGeneratorForm } from '@/types/venue';
-import { createSeatBlock, exportVenueData, downloadJson, getSeatStats, calcSeatPosition } from '@/lib/venueUtils';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import type { Seat, SeatBlock, EditorMode, BackgroundImage, BlockGeneratorForm, SelectionRect, SeatSelectionOp, SeatPaintAction, StageShape, VenueDocument, BlockTransform, RowLayout, BlockAisles, SeatNumbering, SeatCategory, VenueData, BlockAlignment, BlockDistribution, MirrorAxis, MirrorPivot, SnapSettings, BlockGridChanges, Annotation, VenueLevel, ScaleCalibration, BackgroundTransform, LotterySettings, ProjectFileFormat, SeatFlagUpdate } from '@/types/venue';
+import { createSeatBlock, createLooseBlock, createLooseSeat, buildLooseNeighbors, canvasToLocalCoords, exportVenueData, downloadJson, getSeatStats, getSeatIdsInSelection, getBlockIdsInSelection, getBlockCanvasBounds, regenerateSeats, getRowLayoutCols, getContentCanvasSize } from '@/lib/venueUtils';
+import { downloadProjectZip } from '@/lib/projectFile';
+import { stripSeatLabels } from '@/lib/seatNumbering';
+import { DEFAULT_SEAT_CATEGORIES, PREMIUM_CATEGORY_ID, createSeatCategory, migrateSeatCategories } from '@/lib/seatCategories';
+import { cloneBlocks, mirrorBlock, serializeBlocks, parseBlocks, getNextBlockName } from '@/lib/blockOperations';
+import { DEFAULT_SNAP_SETTINGS, normalizeSnapSettings } from '@/lib/snapping';
+import { getAnnotationLabel } from '@/lib/annotations';
+import { createDefaultStages, getStagesCenter, normalizeStages } from '@/lib/stage';
+import { createDefaultLevels, createLevel, resolveLevelId, isOnLevel, normalizeLevels } from '@/lib/levels';
+import { getPixelsPerMeter, normalizeCalibration } from '@/lib/calibration';
+import { diffDocuments, applyHistoryEntry, type HistoryEntry } from '@/lib/history';
 
-const MAX_UNDO_HISTORY = 50;
+const MAX_UNDO_HISTORY = 200;
+
+// 同じ操作（スライダー・連続入力）をまとめる時間窓
+const COALESCE_WINDOW_MS = 1500;
 
 interface UseVenueEditorReturn {
   // State
-  blocks: SeatBlock[];
-  selectedBlockId: string | null;
+  blocks: SeatBlock[]; // 全階のブロック（抽選・集計・書き出し用）
+  levelBlocks: SeatBlock[]; // 表示中の階のブロック（キャンバス・ブロック一覧用）
+  selectedBlockId: string | null; // 詳細パネルで編集するブロック（複数選択時は最後に選んだもの）
+  selectedBlockIds: string[];
   mode: EditorMode;
-  backgroundImage: BackgroundImage | null;
+  backgroundImage: BackgroundImage | null; // 表示中の階の背景
+  stages: StageShape[];
+  levels: VenueLevel[];
+  activeLevelId: string;
+  calibration: ScaleCalibration | null;
+  pixelsPerMeter: number | null; // 縮尺未設定なら null
   scale: number;
-  
+  categories: SeatCategory[];
+  activeCategoryId: string;
+  snapSettings: SnapSettings;
+  annotations: Annotation[]; // 表示中の階の注釈
+  venueAnnotations: Annotation[]; // 全階の注釈（書き出し用）
+  selectedAnnotationId: string | null;
+
   // Actions
   setMode: (mode: EditorMode) => void;
   addBlock: (form: BlockGeneratorForm) => void;
@@ -24,276 +53,1407 @@ interface UseVenueEditorReturn {
   updateBlockPosition: (blockId: string, x: number, y: number) => void;
   updateBlockRotation: (blockId: string, rotation: number) => void;
   updateBlockScale: (blockId: string, scaleX: number, scaleY: number) => void;
+  updateBlockTransforms: (transforms: Record<string, BlockTransform>) => void;
   updateBlockName: (blockId: string, name: string) => void;
+  updateBlockGrid: (blockId: string, changes: BlockGridChanges) => void;
   updateBlockSkewX: (blockId: string, skewX: number) => void;
   updateBlockStaggerX: (blockId: string, staggerX: number) => void;
   updateBlockCurveRadius: (blockId: string, curveRadius: number) => void;
-  selectBlock: (blockId: string | null) => void;
-  
+  updateBlockRowLayout: (blockId: string, rowLayout: RowLayout[] | undefined) => void;
+  updateBlockAisles: (blockId: string, aisles: BlockAisles | undefined) => void;
+  updateBlockNumbering: (blockId: string, numbering: SeatNumbering) => void;
+  selectBlock: (blockId: string | null, additive?: boolean) => void;
+  selectBlocksInRect: (rect: SelectionRect, additive: boolean) => void;
+  alignBlocks: (alignment: BlockAlignment) => void;
+  distributeBlocks: (direction: BlockDistribution) => void;
+  duplicateBlocks: () => void;
+  copyBlocks: () => string | null; // クリップボード用 JSON（選択なしは null）
+  pasteBlocks: (text: string) => number; // 貼り付けたブロック数（このエディタのデータでなければ 0）
+  mirrorBlocks: (axis: MirrorAxis, pivot: MirrorPivot) => void;
+  moveBlockToLevel: (blockId: string, levelId: string) => void;
+
   // Seat actions
-  handleSeatClick: (blockId: string, seatId: string) => void;
+  handleSeatClick: (blockId: string, seatId: string, additive?: boolean) => void; // additive: Shift+クリック
+
+  // Loose seats (seat pen mode)
+  activeSeatId: string | null; // ペンで選択中のばら席
+  addLooseSeat: (x: number, y: number) => void; // キャンバス座標（座席の中心）
+  moveLooseSeat: (blockId: string, seatId: string, localX: number, localY: number) => void;
+  deleteLooseSeat: (blockId: string, seatId: string) => void;
+  autoLinkLooseSeats: (blockId: string) => void;
+  updateLooseSeatNumber: (blockId: string, seatId: string, number: string) => void;
+
+  // Annotations (annotate mode)
+  selectAnnotation: (annotationId: string | null) => void;
+  addAnnotation: (annotation: Annotation) => void;
+  updateAnnotation: (annotationId: string, changes: Partial<Annotation>) => void;
+  deleteAnnotation: (annotationId: string) => void;
+
+  // Seat selection (drag rectangle)
+  selectedSeatIds: Set<string>;
+  selectSeatsInRect: (rect: SelectionRect, op: SeatSelectionOp) => void;
+  clearSeatSelection: () => void;
+  paintSelectedSeats: (action: SeatPaintAction) => void;
+  applySeatFlags: (updates: SeatFlagUpdate[]) => number; // 座席CSVの読み込み（1回で元に戻せる）。変更した席数を返す
+
+  // Seat categories
+  setActiveCategoryId: (categoryId: string) => void;
+  addCategory: () => void;
+  updateCategory: (categoryId: string, changes: Partial<Omit<SeatCategory, 'id'>>) => void;
+  deleteCategory: (categoryId: string) => void;
 
-  // Background
+  // Levels (floors)
+  setActiveLevelId: (levelId: string) => void;
+  addLevel: () => void;
+  updateLevel: (levelId: string, changes: Partial<Omit<VenueLevel, 'id' | 'backgroundImage'>>) => void;
+  deleteLevel: (levelId: string) => void; // 階のブロック・注釈も削除（最後の1階は削除不可）
+
+  // Snapping (editor setting: not part of undo history, saved with the venue)
+  updateSnapSettings: (changes: Partial<SnapSettings>) => void;
+
+  // Scale calibration (実寸の縮尺)
+  setCalibration: (calibration: ScaleCalibration | null) => void;
+
+  // Background (表示中の階)
   setBackgroundImage: (image: BackgroundImage | null) => void;
   updateBackgroundOpacity: (opacity: number) => void;
-  
+  updateBackgroundTransform: (changes: Partial<BackgroundTransform>) => void;
+  setBackgroundLocked: (locked: boolean) => void;
+
+  // Seat detection suggestions (背景の座席表から検出した候補。追加するまで履歴・保存データには含めない)
+  seatSuggestions: SeatBlock[];
+  setSeatSuggestions: (suggestions: SeatBlock[]) => void;
+  moveSeatSuggestion: (suggestionId: string, x: number, y: number) => void;
+  acceptSeatSuggestions: (suggestionIds?: string[]) => void; // 未指定=すべて
+  discardSeatSuggestions: (suggestionIds?: string[]) => void; // 未指定=すべて
+
+  // Stage shapes (抽選の距離計算の基準。複数可・最低1つ)
+  addStage: (stage: StageShape) => void;
+  updateStagePoints: (stageId: string, points: number[]) => void;
+  deleteStage: (stageId: string) => void;
+
   // Scale
   setScale: (scale: number) => void;
-  
+
   // Export/Import
-  exportData: (name?: string) => void;
-  importData: (blocks: SeatBlock[]) => void;
+  getVenueData: (name?: string, lottery?: LotterySettings) => VenueData; // 保存・自動保存する会場データ
+  exportData: (name?: string, format?: ProjectFileFormat, lottery?: LotterySettings) => void; // lottery: 一緒に保存する抽選設定
+  loadDocument: (data?: VenueData) => void; // 会場を開く・読み込む・新規作成する（未指定=空の会場）。元に戻す履歴はリセット
   clearAll: () => void;
 
-  // Undo
+  // History
   undo: () => void;
+  redo: () => void;
+  jumpToHistory: (index: number) => void;
   canUndo: boolean;
+  canRedo: boolean;
+  historyEntries: HistoryEntry[];
+  historyIndex: number; // 適用済みエントリ数（0=初期状態）
   saveSnapshot: () => void;
 
   // Stats
   stats: ReturnType<typeof getSeatStats>;
 }
 
+/** 履歴ラベル用のブロック表示名 */
+function blockLabel(doc: VenueDocument, blockId: string): string {
+  const block = doc.blocks.find(b => b.id === blockId);
+  return `「${block?.name || blockId.slice(0, 4)}」`;
+}
+
+/** ブロック1件を更新するレシピ */
+function mapBlock(blockId: string, fn: (block: SeatBlock) => SeatBlock) {
+  return (doc: VenueDocument): VenueDocument => ({
+    ...doc,
+    blocks: doc.blocks.map(block => (block.id === blockId ? fn(block) : block)),
+  });
+}
+
+/** 選択中カテゴリが（元に戻す等で）消えていればプレミアムにフォールバック */
+function resolveCategoryId(doc: VenueDocument, categoryId: string): string {
+  return doc.categories.some(c => c.id === categoryId) ? categoryId : PREMIUM_CATEGORY_ID;
+}
+
+/** 塗りモードで対象となるカテゴリ（プレミアム設定モードは常にプレミアムカテゴリ） */
+function paintCategoryId(mode: EditorMode, doc: VenueDocument, activeCategoryId: string): string | null {
+  if (mode === 'premium') return PREMIUM_CATEGORY_ID;
+  if (mode === 'category') return resolveCategoryId(doc, activeCategoryId);
+  return null;
+}
+
+function categoryLabel(doc: VenueDocument, categoryId: string): string {
+  const category = doc.categories.find(c => c.id === categoryId);
+  return `「${category?.name ?? categoryId}」`;
+}
+
+// 配置パラメータを変更して座席を再生成するヘルパー（座席ID・フラグは (row, col) ごとに引き継ぐ）
+function withLayout(block: SeatBlock, changes: Partial<SeatBlock>): SeatBlock {
+  const next = { ...block, ...changes };
+  return { ...next, seats: regenerateSeats(next) };
+}
+
+/** 新しい会場のドキュメント */
+function createEmptyDocument(): VenueDocument {
+  return {
+    blocks: [],
+    categories: DEFAULT_SEAT_CATEGORIES,
+    annotations: [],
+    levels: createDefaultLevels(),
+    stages: createDefaultStages(),
+    calibration: null,
+  };
+}
+
+/** 保存データからドキュメントを作る（旧形式の isPremium はカテゴリに移行） */
+function documentFromVenueData(data: VenueData): VenueDocument {
+  const { blocks, categories } = migrateSeatCategories(data.blocks, data.categories);
+  return {
+    blocks: stripSeatLabels(blocks),
+    categories,
+    annotations: Array.isArray(data.annotations) ? data.annotations : [],
+    stages: normalizeStages(data.stages) ?? createDefaultStages(), // ステージ未保存の旧形式は既定のステージ
+    levels: normalizeLevels(data.levels) ?? createDefaultLevels(), // 階なしの旧形式は1階のみ
+    calibration: normalizeCalibration(data.calibration),
+  };
+}
+
 export function useVenueEditor(): UseVenueEditorReturn {
-  const [blocks, setBlocks] = useState<SeatBlock[]>([]);
-  const [selectedBlockId, setSelectedBlockId] = useState<string | null>(null);
+  const [doc, setDoc] = useState<VenueDocument>(createEmptyDocument);
+  const [selectedBlockIds, setSelectedBlockIds] = useState<string[]>([]);
+  const selectedBlockIdsRef = useRef<string[]>([]);
   const [mode, setModeState] = useState<EditorMode>('normal');
-  const [backgroundImage, setBackgroundImage] = useState<BackgroundImage | null>(null);
   const [scale, setScale] = useState(1);
+  const [selectedSeatIds, setSelectedSeatIds] = useState<Set<string>>(() => new Set());
+
+  const [activeCategoryId, setActiveCategoryIdState] = useState(PREMIUM_CATEGORY_ID);
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
+  const [activeSeatId, setActiveSeatIdState] = useState<string | null>(null);
+  const activeSeatIdRef = useRef<string | null>(null);
+  const [selectedAnnotationId, setSelectedAnnotationIdState] = useState<string | null>(null);
+  const selectedAnnotationIdRef = useRef<string | null>(null);
+  const [activeLevelId, setActiveLevelIdState] = useState<string>(() => doc.levels[0].id);
+  const activeLevelIdRef = useRef(activeLevelId);
+  const [seatSuggestions, setSeatSuggestionsState] = useState<SeatBlock[]>([]);
+  const seatSuggestionsRef = useRef<SeatBlock[]>([]);
 
   const modeRef = useRef<EditorMode>('normal');
+  const activeCategoryIdRef = useRef(PREMIUM_CATEGORY_ID);
 
-  // Undo history
-  const undoHistoryRef = useRef<SeatBlock[][]>([]);
-  const blocksRef = useRef<SeatBlock[]>(blocks);
-  blocksRef.current = blocks;
+  // 同一ティック内の連続コマンドでも最新状態から計算できるよう ref で保持
+  const docRef = useRef<VenueDocument>(doc);
+
+  // History
+  const historyRef = useRef<HistoryEntry[]>([]);
+  const historyIndexRef = useRef(0);
+  const nextEntryIdRef = useRef(1);
+  // 連続操作のまとめ: 直前エントリと同じ key・時間窓内なら base から差分を取り直す
+  const coalesceRef = useRef<{ key: string; base: VenueDocument; time: number } | null>(null);
+  const [historyState, setHistoryState] = useState({ entries: [] as HistoryEntry[], index: 0 });
+
+  const syncHistoryState = useCallback(() => {
+    setHistoryState({ entries: historyRef.current, index: historyIndexRef.current });
+  }, []);
 
-  const pushHistory = useCallback(() => {
-    undoHistoryRef.current = [
-      ...undoHistoryRef.current.slice(-(MAX_UNDO_HISTORY - 1)),
-      blocksRef.current.map(b => ({ ...b, seats: b.seats.map(s => ({ ...s })) })),
-    ];
+  const setBlockSelection = useCallback((ids: string[]) => {
+    selectedBlockIdsRef.current = ids;
+    setSelectedBlockIds(ids);
   }, []);
 
-  const [canUndo, setCanUndo] = useState(false);
-  const updateCanUndo = useCallback(() => {
-    setCanUndo(undoHistoryRef.current.length > 0);
+  const setActiveSeatId = useCallback((seatId: string | null) => {
+    activeSeatIdRef.current = seatId;
+    setActiveSeatIdState(seatId);
   }, []);
 
+  const selectAnnotation = useCallback((annotationId: string | null) => {
+    selectedAnnotationIdRef.current = annotationId;
+    setSelectedAnnotationIdState(annotationId);
+  }, []);
+
+  /** 表示中の階（削除・読込で無くなっていれば最初の階） */
+  const currentLevelId = useCallback(
+    () => resolveLevelId(activeLevelIdRef.current, docRef.current.levels),
+    [],
+  );
+
+  const commitDoc = useCallback((next: VenueDocument) => {
+    docRef.current = next;
+    setDoc(next);
+  }, []);
+
+  /**
+   * コマンド実行: ドキュメントを更新し、差分を履歴に記録する
+   * coalesceKey が直前の操作と同じなら1つのエントリにまとめる
+   */
+  const execute = useCallback((
+    label: string,
+    recipe: (doc: VenueDocument) => VenueDocument,
+    coalesceKey?: string,
+  ) => {
+    const before = docRef.current;
+    const after = recipe(before);
+    if (after === before) return;
+
+    const now = Date.now();
+    const coalesce = coalesceRef.current;
+    const index = historyIndexRef.current;
+    const canMerge =
+      coalesceKey !== undefined &&
+      coalesce !== null &&
+      coalesce.key === coalesceKey &&
+      now - coalesce.time < COALESCE_WINDOW_MS &&
+      index > 0 &&
+      index === historyRef.current.length;
+
+    if (canMerge) {
+      const top = historyRef.current[index - 1];
+      const merged = diffDocuments(coalesce.base, after, label, top.id);
+      historyRef.current = merged
+        ? [...historyRef.current.slice(0, index - 1), merged]
+        : historyRef.current.slice(0, index - 1);
+      historyIndexRef.current = historyRef.current.length;
+      coalesce.time = now;
+      if (!merged) coalesceRef.current = null;
+    } else {
+      const entry = diffDocuments(before, after, label, nextEntryIdRef.current++);
+      if (entry) {
+        const kept = historyRef.current.slice(0, index);
+        historyRef.current = [...kept, entry].slice(-MAX_UNDO_HISTORY);
+        historyIndexRef.current = historyRef.current.length;
+      }
+      // 何も変わらなかった操作ではまとめ先のエントリがないので、次の操作をまとめない
+      coalesceRef.current = entry && coalesceKey !== undefined ? { key: coalesceKey, base: before, time: now } : null;
+    }
+
+    commitDoc(after);
+    syncHistoryState();
+  }, [commitDoc, syncHistoryState]);
+
   const undo = useCallback(() => {
-    const history = undoHistoryRef.current;
-    if (history.length === 0) return;
-    const previous = history[history.length - 1];
-    undoHistoryRef.current = history.slice(0, -1);
-    setBlocks(previous);
-    updateCanUndo();
-  }, [updateCanUndo]);
+    const index = historyIndexRef.current;
+    if (index === 0) return;
+    coalesceRef.current = null;
+    const entry = historyRef.current[index - 1];
+    historyIndexRef.current = index - 1;
+    commitDoc(applyHistoryEntry(docRef.current, entry, 'undo'));
+    syncHistoryState();
+  }, [commitDoc, syncHistoryState]);
+
+  const redo = useCallback(() => {
+    const index = historyIndexRef.current;
+    if (index >= historyRef.current.length) return;
+    coalesceRef.current = null;
+    const entry = historyRef.current[index];
+    historyIndexRef.current = index + 1;
+    commitDoc(applyHistoryEntry(docRef.current, entry, 'redo'));
+    syncHistoryState();
+  }, [commitDoc, syncHistoryState]);
+
+  // 任意の履歴位置へジャンプ（index = 適用済みエントリ数）
+  const jumpToHistory = useCallback((target: number) => {
+    const clamped = Math.max(0, Math.min(historyRef.current.length, target));
+    coalesceRef.current = null;
+    let next = docRef.current;
+    let index = historyIndexRef.current;
+    while (index > clamped) {
+      index--;
+      next = applyHistoryEntry(next, historyRef.current[index], 'undo');
+    }
+    while (index < clamped) {
+      next = applyHistoryEntry(next, historyRef.current[index], 'redo');
+      index++;
+    }
+    historyIndexRef.current = index;
+    commitDoc(next);
+    syncHistoryState();
+  }, [commitDoc, syncHistoryState]);
+
+  // 連続操作（ドラッグ・スライダー）の開始時に呼ぶ: 直前の操作とのまとめを打ち切る
+  const saveSnapshot = useCallback(() => {
+    coalesceRef.current = null;
+  }, []);
 
   // Set mode with debug logging
   const setMode = useCallback((newMode: EditorMode) => {
     console.log('setMode called:', newMode, 'current:', modeRef.current);
     modeRef.current = newMode;
     setModeState(newMode);
-  }, []);
+    setSelectedSeatIds(new Set());
+    setActiveSeatId(null);
+    selectAnnotation(null);
+  }, [setActiveSeatId, selectAnnotation]);
 
   // Add a new block
   const addBlock = useCallback((form: BlockGeneratorForm) => {
-    pushHistory();
-    const newBlock = createSeatBlock(form, 200, 200);
-    setBlocks(prev => [...prev, newBlock]);
-    setSelectedBlockId(newBlock.id);
-    updateCanUndo();
-  }, [pushHistory, updateCanUndo]);
+    const newBlock = { ...createSeatBlock(form, 200, 200), levelId: currentLevelId() };
+    execute(`ブロック「${newBlock.name}」を追加`, d => ({ ...d, blocks: [...d.blocks, newBlock] }));
+    setBlockSelection([newBlock.id]);
+  }, [execute, setBlockSelection, currentLevelId]);
 
   // Delete a block
   const deleteBlock = useCallback((blockId: string) => {
-    pushHistory();
-    setBlocks(prev => prev.filter(b => b.id !== blockId));
-    if (selectedBlockId === blockId) {
-      setSelectedBlockId(null);
+    execute(`ブロック${blockLabel(docRef.current, blockId)}を削除`, d => ({
+      ...d,
+      blocks: d.blocks.filter(b => b.id !== blockId),
+    }));
+    if (selectedBlockIdsRef.current.includes(blockId)) {
+      setBlockSelection(selectedBlockIdsRef.current.filter(id => id !== blockId));
     }
-    updateCanUndo();
-  }, [selectedBlockId, pushHistory, updateCanUndo]);
-
-  // Save a snapshot for undo (call before starting continuous operations like drag/rotate/scale)
-  const saveSnapshot = useCallback(() => {
-    pushHistory();
-    updateCanUndo();
-  }, [pushHistory, updateCanUndo]);
+  }, [execute, setBlockSelection]);
 
   // Update block position
   const updateBlockPosition = useCallback((blockId: string, x: number, y: number) => {
-    setBlocks(prev => prev.map(block =>
-      block.id === blockId ? { ...block, x, y } : block
-    ));
-  }, []);
+    execute(
+      `ブロック${blockLabel(docRef.current, blockId)}を移動`,
+      mapBlock(blockId, block => ({ ...block, x, y })),
+      `move:${blockId}`,
+    );
+  }, [execute]);
 
   // Update block rotation (saveSnapshot should be called before slider/drag starts)
   const updateBlockRotation = useCallback((blockId: string, rotation: number) => {
-    setBlocks(prev => prev.map(block =>
-      block.id === blockId ? { ...block, rotation } : block
-    ));
-  }, []);
+    execute(
+      `ブロック${blockLabel(docRef.current, blockId)}を回転`,
+      mapBlock(blockId, block => ({ ...block, rotation })),
+      `rotate:${blockId}`,
+    );
+  }, [execute]);
 
   // Update block scale - store scale values directly (Konva standard behavior)
   const updateBlockScale = useCallback((blockId: string, scaleX: number, scaleY: number) => {
-    setBlocks(prev => prev.map(block =>
-      block.id === blockId ? { ...block, scaleX, scaleY } : block
-    ));
-  }, []);
+    execute(
+      `ブロック${blockLabel(docRef.current, blockId)}を拡大縮小`,
+      mapBlock(blockId, block => ({ ...block, scaleX, scaleY })),
+      `scale:${blockId}`,
+    );
+  }, [execute]);
+
+  // Transformer 操作の結果（位置・回転・スケール）を1エントリで記録（複数ブロックもまとめて1ステップ）
+  const updateBlockTransforms = useCallback((transforms: Record<string, BlockTransform>) => {
+    const ids = Object.keys(transforms);
+    if (ids.length === 0) return;
+    const current = docRef.current;
+    const moved = ids.every(id => {
+      const block = current.blocks.find(b => b.id === id);
+      const t = transforms[id];
+      return !block || (block.rotation === t.rotation && block.scaleX === t.scaleX && block.scaleY === t.scaleY);
+    });
+    const target = ids.length === 1 ? `ブロック${blockLabel(current, ids[0])}` : `${ids.length}ブロック`;
+    execute(`${target}を${moved ? '移動' : '変形'}`, d => {
+      let changed = false;
+      const blocks = d.blocks.map(block => {
+        const t = transforms[block.id];
+        if (!t) return block;
+        if (block.x === t.x && block.y === t.y && block.rotation === t.rotation && block.scaleX === t.scaleX && block.scaleY === t.scaleY) {
+          return block;
+        }
+        changed = true;
+        return { ...block, ...t };
+      });
+      return changed ? { ...d, blocks } : d;
+    });
+  }, [execute]);
 
   // Update block name
   const updateBlockName = useCallback((blockId: string, name: string) => {
-    pushHistory();
-    setBlocks(prev => prev.map(block =>
-      block.id === blockId ? { ...block, name } : block
-    ));
-    updateCanUndo();
-  }, [pushHistory, updateCanUndo]);
-
-  // 座席位置を再計算するヘルパー
-  const recalcSeats = (block: SeatBlock, overrides: Partial<Pick<SeatBlock, 'skewX' | 'staggerX' | 'curveRadius'>>) => {
-    const spacing = block.seatSize + block.seatGap;
-    const skew = overrides.skewX ?? block.skewX ?? 0;
-    const stagger = overrides.staggerX ?? block.staggerX ?? 0;
-    const curve = overrides.curveRadius ?? block.curveRadius ?? 0;
-    return block.seats.map(seat => {
-      const { localX, localY } = calcSeatPosition(seat.row, seat.col, block.cols, spacing, skew, stagger, curve);
-      return { ...seat, localX, localY };
-    });
-  };
+    execute(
+      `ブロック名を「${name}」に変更`,
+      mapBlock(blockId, block => (block.name === name ? block : { ...block, name })),
+    );
+  }, [execute]);
+
+  // Update rows / cols / seat size / gap - regenerate seats, keeping ids and flags for every (row, col) that still exists
+  const updateBlockGrid = useCallback((blockId: string, changes: BlockGridChanges) => {
+    execute(
+      `ブロック${blockLabel(docRef.current, blockId)}のサイズを変更`,
+      mapBlock(blockId, block => {
+        const rows = changes.rows ?? block.rows;
+        let rowLayout = block.rowLayout;
+        // 行レイアウトは末尾の行を複製して伸ばす / 末尾から削る
+        if (rowLayout && rows !== rowLayout.length) {
+          const last = rowLayout[rowLayout.length - 1];
+          rowLayout = rows > rowLayout.length
+            ? [...rowLayout, ...Array.from({ length: rows - rowLayout.length }, () => ({ ...last }))]
+            : rowLayout.slice(0, rows);
+        }
+        const cols = rowLayout ? getRowLayoutCols(rowLayout) : (changes.cols ?? block.cols);
+        return withLayout(block, { ...changes, rows, cols, ...(rowLayout ? { rowLayout } : {}) });
+      }),
+      `grid:${blockId}`,
+    );
+  }, [execute]);
 
   // Update block skewX - recalculate seat positions
   const updateBlockSkewX = useCallback((blockId: string, skewX: number) => {
-    setBlocks(prev => prev.map(block => {
-      if (block.id !== blockId) return block;
-      return { ...block, skewX, seats: recalcSeats(block, { skewX }) };
-    }));
-  }, []);
+    execute(
+      `ブロック${blockLabel(docRef.current, blockId)}の傾きを変更`,
+      mapBlock(blockId, block => withLayout(block, { skewX })),
+      `skew:${blockId}`,
+    );
+  }, [execute]);
 
   // Update block staggerX - recalculate seat positions
   const updateBlockStaggerX = useCallback((blockId: string, staggerX: number) => {
-    setBlocks(prev => prev.map(block => {
-      if (block.id !== blockId) return block;
-      return { ...block, staggerX, seats: recalcSeats(block, { staggerX }) };
-    }));
-  }, []);
+    execute(
+      `ブロック${blockLabel(docRef.current, blockId)}の千鳥を変更`,
+      mapBlock(blockId, block => withLayout(block, { staggerX })),
+      `stagger:${blockId}`,
+    );
+  }, [execute]);
 
   // Update block curveRadius - recalculate seat positions
   const updateBlockCurveRadius = useCallback((blockId: string, curveRadius: number) => {
-    setBlocks(prev => prev.map(block => {
-      if (block.id !== blockId) return block;
-      return { ...block, curveRadius, seats: recalcSeats(block, { curveRadius }) };
-    }));
-  }, []);
+    execute(
+      `ブロック${blockLabel(docRef.current, blockId)}の扇形を変更`,
+      mapBlock(blockId, block => withLayout(block, { curveRadius })),
+      `curve:${blockId}`,
+    );
+  }, [execute]);
+
+  // Update per-row layout (undefined = back to rectangular grid) - regenerate seats keeping flags
+  const updateBlockRowLayout = useCallback((blockId: string, rowLayout: RowLayout[] | undefined) => {
+    execute(
+      `ブロック${blockLabel(docRef.current, blockId)}の行レイアウトを変更`,
+      mapBlock(blockId, block => {
+        if (!rowLayout || rowLayout.length === 0) {
+          const { rowLayout: _removed, ...rest } = block;
+          const cols = block.rowLayout ? Math.max(1, ...block.rowLayout.map(r => r.seats)) : block.cols;
+          return withLayout(rest, { cols });
+        }
+        return withLayout(block, { rowLayout, rows: rowLayout.length, cols: getRowLayoutCols(rowLayout) });
+      }),
+      `rowLayout:${blockId}`,
+    );
+  }, [execute]);
+
+  // Update block aisles (通路で区切っても座席番号は連番のまま)
+  const updateBlockAisles = useCallback((blockId: string, aisles: BlockAisles | undefined) => {
+    execute(
+      `ブロック${blockLabel(docRef.current, blockId)}の通路を変更`,
+      mapBlock(blockId, block => {
+        const hasAisles = aisles && (aisles.afterCols.length > 0 || aisles.afterRows.length > 0);
+        if (!hasAisles) {
+          const { aisles: _removed, ...rest } = block;
+          return withLayout(rest, {});
+        }
+        return withLayout(block, { aisles });
+      }),
+      `aisles:${blockId}`,
+    );
+  }, [execute]);
+
+  // Update seat numbering scheme (座席配置は変わらない)
+  const updateBlockNumbering = useCallback((blockId: string, numbering: SeatNumbering) => {
+    execute(
+      `ブロック${blockLabel(docRef.current, blockId)}の座席番号を変更`,
+      mapBlock(blockId, block => ({ ...block, numbering })),
+      `numbering:${blockId}`,
+    );
+  }, [execute]);
+
+  // Select a block (additive=true: Shift+クリックで選択に追加/除外)
+  const selectBlock = useCallback((blockId: string | null, additive = false) => {
+    const current = selectedBlockIdsRef.current;
+    if (blockId === null) {
+      if (!additive) setBlockSelection([]);
+      return;
+    }
+    if (!additive) {
+      setBlockSelection([blockId]);
+    } else if (current.includes(blockId)) {
+      setBlockSelection(current.filter(id => id !== blockId));
+    } else {
+      setBlockSelection([...current, blockId]);
+    }
+  }, [setBlockSelection]);
+
+  // Select blocks whose bounds intersect a marquee rectangle (canvas coordinates)
+  const selectBlocksInRect = useCallback((rect: SelectionRect, additive: boolean) => {
+    const { blocks, levels } = docRef.current;
+    const levelId = currentLevelId();
+    const hitIds = getBlockIdsInSelection(blocks.filter(b => isOnLevel(b, levelId, levels)), rect);
+    if (!additive) {
+      setBlockSelection(hitIds);
+      return;
+    }
+    const current = selectedBlockIdsRef.current;
+    setBlockSelection([...current, ...hitIds.filter(id => !current.includes(id))]);
+  }, [setBlockSelection, currentLevelId]);
+
+  // 選択ブロックを x/y だけ平行移動するレシピ（offsets: ブロックID → 移動量）
+  const translateBlocks = useCallback((label: string, offsets: Map<string, { dx: number; dy: number }>) => {
+    execute(label, d => {
+      let changed = false;
+      const blocks = d.blocks.map(block => {
+        const offset = offsets.get(block.id);
+        if (!offset || (Math.abs(offset.dx) < 1e-6 && Math.abs(offset.dy) < 1e-6)) return block;
+        changed = true;
+        return { ...block, x: block.x + offset.dx, y: block.y + offset.dy };
+      });
+      return changed ? { ...d, blocks } : d;
+    });
+  }, [execute]);
+
+  // Align selected blocks by their canvas bounding boxes (one undo step)
+  const alignBlocks = useCallback((alignment: BlockAlignment) => {
+    const ids = selectedBlockIdsRef.current;
+    const targets = docRef.current.blocks.filter(b => ids.includes(b.id));
+    if (targets.length < 2) return;
+
+    const bounds = new Map(targets.map(b => [b.id, getBlockCanvasBounds(b)]));
+    const all = Array.from(bounds.values());
+    const minX = Math.min(...all.map(b => b.minX));
+    const maxX = Math.max(...all.map(b => b.maxX));
+    const minY = Math.min(...all.map(b => b.minY));
+    const maxY = Math.max(...all.map(b => b.maxY));
+
+    const offsets = new Map<string, { dx: number; dy: number }>();
+    for (const [id, b] of Array.from(bounds.entries())) {
+      switch (alignment) {
+        case 'left': offsets.set(id, { dx: minX - b.minX, dy: 0 }); break;
+        case 'center': offsets.set(id, { dx: (minX + maxX) / 2 - (b.minX + b.maxX) / 2, dy: 0 }); break;
+        case 'right': offsets.set(id, { dx: maxX - b.maxX, dy: 0 }); break;
+        case 'top': offsets.set(id, { dx: 0, dy: minY - b.minY }); break;
+        case 'middle': offsets.set(id, { dx: 0, dy: (minY + maxY) / 2 - (b.minY + b.maxY) / 2 }); break;
+        case 'bottom': offsets.set(id, { dx: 0, dy: maxY - b.maxY }); break;
+      }
+    }
+
+    const alignLabels: Record<BlockAlignment, string> = {
+      left: '左揃え', center: '左右中央揃え', right: '右揃え',
+      top: '上揃え', middle: '上下中央揃え', bottom: '下揃え',
+    };
+    translateBlocks(`${targets.length}ブロックを${alignLabels[alignment]}`, offsets);
+  }, [translateBlocks]);
+
+  // Distribute selected blocks so the gaps between their bounding boxes are equal (one undo step)
+  const distributeBlocks = useCallback((direction: BlockDistribution) => {
+    const ids = selectedBlockIdsRef.current;
+    const targets = docRef.current.blocks.filter(b => ids.includes(b.id));
+    if (targets.length < 3) return;
+
+    const horizontal = direction === 'horizontal';
+    const items = targets
+      .map(b => {
+        const bounds = getBlockCanvasBounds(b);
+        return {
+          id: b.id,
+          start: horizontal ? bounds.minX : bounds.minY,
+          size: horizontal ? bounds.maxX - bounds.minX : bounds.maxY - bounds.minY,
+        };
+      })
+      .sort((a, b) => a.start - b.start);
+
+    const first = items[0];
+    const last = items[items.length - 1];
+    const totalSize = items.reduce((sum, item) => sum + item.size, 0);
+    const gap = (last.start + last.size - first.start - totalSize) / (items.length - 1);
+
+    const offsets = new Map<string, { dx: number; dy: number }>();
+    let cursor = first.start;
+    for (const item of items) {
+      const delta = cursor - item.start;
+      offsets.set(item.id, horizontal ? { dx: delta, dy: 0 } : { dx: 0, dy: delta });
+      cursor += item.size + gap;
+    }
 
-  // Select a block
-  const selectBlock = useCallback((blockId: string | null) => {
-    setSelectedBlockId(blockId);
+    translateBlocks(`${targets.length}ブロックを${horizontal ? '左右' : '上下'}に等間隔配置`, offsets);
+  }, [translateBlocks]);
+
+  // 複製したブロックを表示中の階に追加して選択する（座席カテゴリが貼り付け先に無ければ一緒に追加）
+  const insertBlocks = useCallback((label: string, source: SeatBlock[], sourceCategories: SeatCategory[] = []) => {
+    const levelId = currentLevelId();
+    const clones = cloneBlocks(source, docRef.current.blocks).map(block => ({ ...block, levelId }));
+    if (clones.length === 0) return 0;
+    execute(label, d => {
+      const known = new Set(d.categories.map(c => c.id));
+      const missing = sourceCategories.filter(c => !known.has(c.id));
+      missing.forEach(c => known.add(c.id));
+      const blocks = clones.map(block => ({
+        ...block,
+        seats: block.seats.map(seat => (
+          seat.categoryId && !known.has(seat.categoryId) ? { ...seat, categoryId: undefined } : seat
+        )),
+      }));
+      return { ...d, blocks: [...d.blocks, ...blocks], categories: [...d.categories, ...missing] };
+    });
+    setBlockSelection(clones.map(b => b.id));
+    return clones.length;
+  }, [execute, setBlockSelection, currentLevelId]);
+
+  const getSelectedBlocks = useCallback(() => {
+    const ids = selectedBlockIdsRef.current;
+    return docRef.current.blocks.filter(b => ids.includes(b.id));
   }, []);
 
+  // Duplicate the selected blocks (Ctrl+D)
+  const duplicateBlocks = useCallback(() => {
+    const targets = getSelectedBlocks();
+    if (targets.length === 0) return;
+    const label = targets.length === 1
+      ? `ブロック${blockLabel(docRef.current, targets[0].id)}を複製`
+      : `${targets.length}ブロックを複製`;
+    insertBlocks(label, targets);
+  }, [getSelectedBlocks, insertBlocks]);
+
+  // Serialize the selected blocks for the system clipboard (pasteable in another tab)
+  const copyBlocks = useCallback(() => {
+    const targets = getSelectedBlocks();
+    if (targets.length === 0) return null;
+    return serializeBlocks(targets, docRef.current.categories);
+  }, [getSelectedBlocks]);
+
+  // Paste blocks copied from this or another editor tab
+  const pasteBlocks = useCallback((text: string) => {
+    const parsed = parseBlocks(text);
+    if (!parsed) return 0;
+    const label = parsed.blocks.length === 1
+      ? `ブロック「${parsed.blocks[0].name}」を貼り付け`
+      : `${parsed.blocks.length}ブロックを貼り付け`;
+    return insertBlocks(label, parsed.blocks, parsed.categories);
+  }, [insertBlocks]);
+
+  // Mirror the selected blocks around their own centers or the stage axis (one undo step)
+  const mirrorBlocks = useCallback((axis: MirrorAxis, pivot: MirrorPivot) => {
+    const ids = selectedBlockIdsRef.current;
+    if (ids.length === 0) return;
+    const stageCenter = getStagesCenter(docRef.current.stages);
+    const axisPosition = pivot === 'stage'
+      ? (axis === 'horizontal' ? stageCenter.x : stageCenter.y)
+      : undefined;
+    const target = ids.length === 1 ? `ブロック${blockLabel(docRef.current, ids[0])}` : `${ids.length}ブロック`;
+    execute(`${target}を${axis === 'horizontal' ? '左右' : '上下'}反転`, d => ({
+      ...d,
+      blocks: d.blocks.map(block => (ids.includes(block.id) ? mirrorBlock(block, axis, axisPosition) : block)),
+    }));
+  }, [execute]);
+
   // Handle seat click based on current mode
-  const handleSeatClick = useCallback((blockId: string, seatId: string) => {
+  const handleSeatClick = useCallback((blockId: string, seatId: string, additive = false) => {
     const currentMode = modeRef.current;
     console.log('handleSeatClick called:', blockId, seatId, 'mode:', currentMode);
 
-    if (currentMode !== 'disable' && currentMode !== 'premium') {
-      console.log('Mode is not disable or premium, ignoring click');
+    // ばら席ペン: クリックで座席を選択、Shift+クリックで選択中の席との隣接を設定/解除
+    if (currentMode === 'seatPen') {
+      const block = docRef.current.blocks.find(b => b.id === blockId);
+      if (block?.kind !== 'loose') return;
+      const activeId = activeSeatIdRef.current;
+      if (additive && activeId && activeId !== seatId && block.seats.some(s => s.id === activeId)) {
+        const linked = block.seats.find(s => s.id === activeId)?.neighbors?.includes(seatId) ?? false;
+        execute(
+          `ブロック${blockLabel(docRef.current, blockId)}の隣接を${linked ? '解除' : '設定'}`,
+          mapBlock(blockId, b => ({
+            ...b,
+            seats: b.seats.map(s => {
+              if (s.id !== activeId && s.id !== seatId) return s;
+              const otherId = s.id === activeId ? seatId : activeId;
+              const neighbors = (s.neighbors ?? []).filter(id => id !== otherId);
+              return { ...s, neighbors: linked ? neighbors : [...neighbors, otherId] };
+            }),
+          })),
+        );
+        return;
+      }
+      setBlockSelection([blockId]);
+      setActiveSeatId(seatId);
+      return;
+    }
+
+    const categoryId = paintCategoryId(currentMode, docRef.current, activeCategoryIdRef.current);
+    if (currentMode !== 'disable' && !categoryId) {
+      console.log('Mode is not disable or a category mode, ignoring click');
       return;
     }
 
-    pushHistory();
-    setBlocks(prev => prev.map(block => {
-      if (block.id !== blockId) return block;
+    const seat = docRef.current.blocks.find(b => b.id === blockId)?.seats.find(s => s.id === seatId);
+    if (!seat) return;
 
-      return {
+    const label = currentMode === 'disable'
+      ? (seat.isDisabled ? '座席の無効化を解除' : '座席を無効化')
+      : seat.categoryId === categoryId
+        ? `座席の${categoryLabel(docRef.current, categoryId!)}を解除`
+        : `座席を${categoryLabel(docRef.current, categoryId!)}に設定`;
+
+    execute(label, mapBlock(blockId, block => ({
+      ...block,
+      seats: block.seats.map(s => {
+        if (s.id !== seatId) return s;
+        if (currentMode === 'disable') {
+          console.log('Toggling disabled for seat:', seatId, 'current:', s.isDisabled);
+          return { ...s, isDisabled: !s.isDisabled };
+        }
+        console.log('Toggling category for seat:', seatId, 'current:', s.categoryId);
+        return { ...s, categoryId: s.categoryId === categoryId ? undefined : categoryId! };
+      }),
+    })));
+  }, [execute, setBlockSelection, setActiveSeatId]);
+
+  // Add a loose seat at a canvas point (to the selected loose block, or a new loose block)
+  const addLooseSeat = useCallback((x: number, y: number) => {
+    const d = docRef.current;
+    const targetId = selectedBlockIdsRef.current[selectedBlockIdsRef.current.length - 1];
+    const target = d.blocks.find(b => b.id === targetId && b.kind === 'loose');
+
+    if (target) {
+      const local = canvasToLocalCoords(x, y, target);
+      const seat = createLooseSeat(target, local.x - target.seatSize / 2, local.y - target.seatSize / 2);
+      execute(
+        `ブロック${blockLabel(d, target.id)}に座席を追加`,
+        mapBlock(target.id, block => ({ ...block, seats: [...block.seats, seat] })),
+      );
+      setActiveSeatId(seat.id);
+      return;
+    }
+
+    const names = d.blocks.map(b => b.name);
+    const name = names.includes('ばら席1') ? getNextBlockName('ばら席1', names) : 'ばら席1';
+    const empty = { ...createLooseBlock(name, x, y), levelId: currentLevelId() };
+    const seat = createLooseSeat(empty, -empty.seatSize / 2, -empty.seatSize / 2);
+    const block = { ...empty, seats: [seat] };
+    execute(`ばら席ブロック「${block.name}」を追加`, doc => ({ ...doc, blocks: [...doc.blocks, block] }));
+    setBlockSelection([block.id]);
+    setActiveSeatId(seat.id);
+  }, [execute, setBlockSelection, setActiveSeatId, currentLevelId]);
+
+  // Move a loose seat (local block coordinates of its top-left)
+  const moveLooseSeat = useCallback((blockId: string, seatId: string, localX: number, localY: number) => {
+    execute(
+      `ブロック${blockLabel(docRef.current, blockId)}の座席を移動`,
+      mapBlock(blockId, block => ({
+        ...block,
+        seats: block.seats.map(s => (s.id === seatId ? { ...s, localX, localY } : s)),
+      })),
+    );
+  }, [execute]);
+
+  // Delete a loose seat and drop it from the other seats' neighbor lists
+  const deleteLooseSeat = useCallback((blockId: string, seatId: string) => {
+    execute(
+      `ブロック${blockLabel(docRef.current, blockId)}の座席を削除`,
+      mapBlock(blockId, block => ({
         ...block,
-        seats: block.seats.map(seat => {
-          if (seat.id !== seatId) return seat;
-
-          if (currentMode === 'disable') {
-            console.log('Toggling disabled for seat:', seatId, 'current:', seat.isDisabled);
-            return { ...seat, isDisabled: !seat.isDisabled };
-          } else if (currentMode === 'premium') {
-            console.log('Toggling premium for seat:', seatId, 'current:', seat.isPremium);
-            return { ...seat, isPremium: !seat.isPremium };
-          }
-          return seat;
+        seats: block.seats
+          .filter(s => s.id !== seatId)
+          .map(s => (s.neighbors?.includes(seatId) ? { ...s, neighbors: s.neighbors.filter(id => id !== seatId) } : s)),
+      })),
+    );
+    if (activeSeatIdRef.current === seatId) setActiveSeatId(null);
+    setSelectedSeatIds(prev => {
+      if (!prev.has(seatId)) return prev;
+      const next = new Set(prev);
+      next.delete(seatId);
+      return next;
+    });
+  }, [execute, setActiveSeatId]);
+
+  // Rebuild the neighbor lists of a loose block from seat distances
+  const autoLinkLooseSeats = useCallback((blockId: string) => {
+    execute(
+      `ブロック${blockLabel(docRef.current, blockId)}の隣接を自動設定`,
+      mapBlock(blockId, block => {
+        const neighbors = buildLooseNeighbors(block);
+        return { ...block, seats: block.seats.map(s => ({ ...s, neighbors: neighbors.get(s.id) ?? [] })) };
+      }),
+    );
+  }, [execute]);
+
+  // Set the individual seat number of a loose seat (empty = automatic)
+  const updateLooseSeatNumber = useCallback((blockId: string, seatId: string, number: string) => {
+    execute(
+      `ブロック${blockLabel(docRef.current, blockId)}の席番号を変更`,
+      mapBlock(blockId, block => ({
+        ...block,
+        seats: block.seats.map(s => {
+          if (s.id !== seatId) return s;
+          const { number: _previous, ...rest } = s;
+          return number ? { ...rest, number } : rest;
         }),
-      };
+      })),
+      `seatNumber:${seatId}`,
+    );
+  }, [execute]);
+
+  // Annotations
+  const addAnnotation = useCallback((annotation: Annotation) => {
+    const placed = { ...annotation, levelId: currentLevelId() };
+    execute(`注釈${getAnnotationLabel(annotation)}を追加`, d => ({ ...d, annotations: [...d.annotations, placed] }));
+    selectAnnotation(annotation.id);
+  }, [execute, selectAnnotation]);
+
+  const updateAnnotation = useCallback((annotationId: string, changes: Partial<Annotation>) => {
+    const annotation = docRef.current.annotations.find(a => a.id === annotationId);
+    if (!annotation) return;
+    execute(
+      `注釈${getAnnotationLabel(annotation)}を変更`,
+      d => ({
+        ...d,
+        annotations: d.annotations.map(a => (a.id === annotationId ? { ...a, ...changes } as Annotation : a)),
+      }),
+      `annotation:${annotationId}`,
+    );
+  }, [execute]);
+
+  const deleteAnnotation = useCallback((annotationId: string) => {
+    const annotation = docRef.current.annotations.find(a => a.id === annotationId);
+    if (!annotation) return;
+    execute(`注釈${getAnnotationLabel(annotation)}を削除`, d => ({
+      ...d,
+      annotations: d.annotations.filter(a => a.id !== annotationId),
+    }));
+    if (selectedAnnotationIdRef.current === annotationId) selectAnnotation(null);
+  }, [execute, selectAnnotation]);
+
+  // Select seats inside a drag rectangle (canvas coordinates)
+  const selectSeatsInRect = useCallback((rect: SelectionRect, op: SeatSelectionOp) => {
+    const { blocks, levels } = docRef.current;
+    const levelId = currentLevelId();
+    const hitIds = getSeatIdsInSelection(blocks.filter(b => isOnLevel(b, levelId, levels)), rect);
+    setSelectedSeatIds(prev => {
+      if (op === 'replace') return new Set(hitIds);
+      const next = new Set(prev);
+      for (const id of hitIds) {
+        if (op === 'add') next.add(id);
+        else next.delete(id);
+      }
+      return next;
+    });
+  }, [currentLevelId]);
+
+  const clearSeatSelection = useCallback(() => {
+    setSelectedSeatIds(new Set());
+    // ばら席ペンでは選択を外すと次のクリックで新しいブロックを作る
+    if (modeRef.current === 'seatPen') {
+      setActiveSeatId(null);
+      setBlockSelection([]);
+    }
+  }, [setActiveSeatId, setBlockSelection]);
+
+  // Apply set/clear/toggle of the current mode's flag / category to all selected seats (one undo step)
+  const paintSelectedSeats = useCallback((action: SeatPaintAction) => {
+    const currentMode = modeRef.current;
+    const categoryId = paintCategoryId(currentMode, docRef.current, activeCategoryIdRef.current);
+    if (currentMode !== 'disable' && !categoryId) return;
+    if (selectedSeatIds.size === 0) return;
+
+    // 無効化モードは isDisabled、カテゴリ系モードは categoryId が対象
+    const isOn = (seat: Seat) => (categoryId ? seat.categoryId === categoryId : seat.isDisabled);
+    const withValue = (seat: Seat, value: boolean): Seat => {
+      if (!categoryId) return { ...seat, isDisabled: value };
+      return { ...seat, categoryId: value ? categoryId : undefined };
+    };
+
+    let setCount = 0;
+    let clearCount = 0;
+    const recipe = (d: VenueDocument): VenueDocument => ({
+      ...d,
+      blocks: d.blocks.map(block => {
+        if (!block.seats.some(seat => selectedSeatIds.has(seat.id))) return block;
+        return {
+          ...block,
+          seats: block.seats.map(seat => {
+            if (!selectedSeatIds.has(seat.id)) return seat;
+            const current = isOn(seat);
+            const value = action === 'set' ? true : action === 'clear' ? false : !current;
+            if (current === value) return seat;
+            if (value) setCount++;
+            else clearCount++;
+            return withValue(seat, value);
+          }),
+        };
+      }),
+    });
+    const next = recipe(docRef.current);
+    if (setCount === 0 && clearCount === 0) return;
+
+    const flagLabel = categoryId ? `${categoryLabel(docRef.current, categoryId)}設定` : '無効化';
+    const label = clearCount === 0
+      ? `${setCount}席を${flagLabel}`
+      : setCount === 0
+        ? `${clearCount}席の${flagLabel}を解除`
+        : `${setCount + clearCount}席の${flagLabel}を反転`;
+    execute(label, () => next);
+  }, [selectedSeatIds, execute]);
+
+  // Apply disabled / premium flags read from a seat inventory CSV (one undo step)
+  const applySeatFlags = useCallback((updates: SeatFlagUpdate[]): number => {
+    const updateMap = new Map(updates.map(update => [update.seatId, update]));
+    let changedCount = 0;
+    const withFlags = (seat: Seat): Seat => {
+      const update = updateMap.get(seat.id);
+      if (!update) return seat;
+      let next = seat;
+      if (update.isDisabled !== undefined && update.isDisabled !== seat.isDisabled) {
+        next = { ...next, isDisabled: update.isDisabled };
+      }
+      const isPremium = seat.categoryId === PREMIUM_CATEGORY_ID;
+      if (update.isPremium !== undefined && update.isPremium !== isPremium) {
+        next = { ...next, categoryId: update.isPremium ? PREMIUM_CATEGORY_ID : undefined };
+      }
+      if (next !== seat) changedCount++;
+      return next;
+    };
+    const doc = docRef.current;
+    const next: VenueDocument = {
+      ...doc,
+      blocks: doc.blocks.map(block => {
+        if (!block.seats.some(seat => updateMap.has(seat.id))) return block;
+        return { ...block, seats: block.seats.map(withFlags) };
+      }),
+    };
+    if (changedCount === 0) return 0;
+    execute(`CSVから${changedCount}席のフラグを更新`, () => next);
+    return changedCount;
+  }, [execute]);
+
+  // Seat categories
+  const setActiveCategoryId = useCallback((categoryId: string) => {
+    activeCategoryIdRef.current = categoryId;
+    setActiveCategoryIdState(categoryId);
+  }, []);
+
+  const addCategory = useCallback(() => {
+    const category = createSeatCategory(docRef.current.categories);
+    execute(`カテゴリ「${category.name}」を追加`, d => ({ ...d, categories: [...d.categories, category] }));
+    setActiveCategoryId(category.id);
+  }, [execute, setActiveCategoryId]);
+
+  const updateCategory = useCallback((categoryId: string, changes: Partial<Omit<SeatCategory, 'id'>>) => {
+    execute(
+      `カテゴリ${categoryLabel(docRef.current, categoryId)}を変更`,
+      d => ({ ...d, categories: d.categories.map(c => (c.id === categoryId ? { ...c, ...changes } : c)) }),
+      `category:${categoryId}`,
+    );
+  }, [execute]);
+
+  // カテゴリ削除: 割り当て済みの座席はカテゴリなしに戻す（プレミアムは削除不可）
+  const deleteCategory = useCallback((categoryId: string) => {
+    if (categoryId === PREMIUM_CATEGORY_ID) return;
+    execute(`カテゴリ${categoryLabel(docRef.current, categoryId)}を削除`, d => ({
+      ...d,
+      categories: d.categories.filter(c => c.id !== categoryId),
+      blocks: d.blocks.map(block => {
+        if (!block.seats.some(seat => seat.categoryId === categoryId)) return block;
+        return {
+          ...block,
+          seats: block.seats.map(seat => (seat.categoryId === categoryId ? { ...seat, categoryId: undefined } : seat)),
+        };
+      }),
     }));
-    updateCanUndo();
-  }, [pushHistory, updateCanUndo]);
+    if (activeCategoryIdRef.current === categoryId) setActiveCategoryId(PREMIUM_CATEGORY_ID);
+  }, [execute, setActiveCategoryId]);
+
+  // Snap settings
+  const updateSnapSettings = useCallback((changes: Partial<SnapSettings>) => {
+    setSnapSettings(prev => normalizeSnapSettings({ ...prev, ...changes }));
+  }, []);
+
+  // 表示中の階の背景を書き換えるレシピ
+  const mapActiveBackground = useCallback(
+    (fn: (image: BackgroundImage | null) => BackgroundImage | null) => {
+      const levelId = currentLevelId();
+      return (d: VenueDocument): VenueDocument => ({
+        ...d,
+        levels: d.levels.map(l => (l.id === levelId ? { ...l, backgroundImage: fn(l.backgroundImage) } : l)),
+      });
+    },
+    [currentLevelId],
+  );
+
+  // Background image
+  const setBackgroundImage = useCallback((image: BackgroundImage | null) => {
+    execute(image ? '背景画像を設定' : '背景画像を削除', mapActiveBackground(() => image));
+  }, [execute, mapActiveBackground]);
 
   // Background image opacity
   const updateBackgroundOpacity = useCallback((opacity: number) => {
-    setBackgroundImage(prev => prev ? { ...prev, opacity } : null);
+    execute(
+      '背景の不透明度を変更',
+      mapActiveBackground(image => (image ? { ...image, opacity } : image)),
+      `background-opacity:${currentLevelId()}`,
+    );
+  }, [execute, mapActiveBackground, currentLevelId]);
+
+  // Background placement (ハンドル操作・数値入力の連続変更は1つの履歴にまとめる)
+  const updateBackgroundTransform = useCallback((changes: Partial<BackgroundTransform>) => {
+    execute(
+      '背景の配置を変更',
+      mapActiveBackground(image => (image ? { ...image, ...changes } : image)),
+      `background-transform:${currentLevelId()}`,
+    );
+  }, [execute, mapActiveBackground, currentLevelId]);
+
+  const setBackgroundLocked = useCallback((locked: boolean) => {
+    execute(
+      locked ? '背景をロック' : '背景のロックを解除',
+      mapActiveBackground(image => (image ? { ...image, locked } : image)),
+    );
+  }, [execute, mapActiveBackground]);
+
+  // Seat detection suggestions
+  const setSeatSuggestions = useCallback((suggestions: SeatBlock[]) => {
+    seatSuggestionsRef.current = suggestions;
+    setSeatSuggestionsState(suggestions);
   }, []);
 
-  // Export data
-  const exportData = useCallback((name?: string) => {
-    const data = exportVenueData(blocks, 1920, 1080, name);
-    downloadJson(data, `${name || 'venue'}-${Date.now()}.json`);
-  }, [blocks]);
+  const moveSeatSuggestion = useCallback((suggestionId: string, x: number, y: number) => {
+    setSeatSuggestions(seatSuggestionsRef.current.map(s => (s.id === suggestionId ? { ...s, x, y } : s)));
+  }, [setSeatSuggestions]);
+
+  const discardSeatSuggestions = useCallback((suggestionIds?: string[]) => {
+    setSeatSuggestions(suggestionIds ? seatSuggestionsRef.current.filter(s => !suggestionIds.includes(s.id)) : []);
+  }, [setSeatSuggestions]);
+
+  // 候補を通常のブロックとして表示中の階に追加（まとめて1ステップ）
+  const acceptSeatSuggestions = useCallback((suggestionIds?: string[]) => {
+    const picked = seatSuggestionsRef.current.filter(s => !suggestionIds || suggestionIds.includes(s.id));
+    if (picked.length === 0) return;
+    const names = docRef.current.blocks.map(b => b.name);
+    const added = picked.map(suggestion => {
+      const base = suggestion.kind === 'loose' ? '検出ばら席1' : '検出1';
+      const name = names.includes(base) ? getNextBlockName(base, names) : base;
+      names.push(name);
+      return { ...suggestion, name, levelId: currentLevelId() };
+    });
+    execute(
+      added.length === 1 ? `検出したブロック「${added[0].name}」を追加` : `検出したブロック${added.length}件を追加`,
+      d => ({ ...d, blocks: [...d.blocks, ...added] }),
+    );
+    const remaining = seatSuggestionsRef.current.filter(s => !picked.includes(s));
+    setSeatSuggestions(remaining);
+    // 候補が残っている間は候補の操作バーを出したままにする
+    if (remaining.length === 0) setBlockSelection(added.map(b => b.id));
+  }, [execute, setBlockSelection, setSeatSuggestions, currentLevelId]);
+
+  // Levels (floors) - 表示中の階は UI 状態なので履歴には含めない
+  const setActiveLevelId = useCallback((levelId: string) => {
+    if (levelId === activeLevelIdRef.current) return;
+    activeLevelIdRef.current = levelId;
+    setActiveLevelIdState(levelId);
+    setBlockSelection([]);
+    setSelectedSeatIds(new Set());
+    setActiveSeatId(null);
+    selectAnnotation(null);
+    setSeatSuggestions([]);
+  }, [setBlockSelection, setActiveSeatId, selectAnnotation, setSeatSuggestions]);
+
+  const addLevel = useCallback(() => {
+    const level = createLevel(docRef.current.levels);
+    execute(`階「${level.name}」を追加`, d => ({ ...d, levels: [...d.levels, level] }));
+    setActiveLevelId(level.id);
+  }, [execute, setActiveLevelId]);
+
+  const updateLevel = useCallback((levelId: string, changes: Partial<Omit<VenueLevel, 'id' | 'backgroundImage'>>) => {
+    const level = docRef.current.levels.find(l => l.id === levelId);
+    if (!level) return;
+    execute(
+      `階「${level.name}」を変更`,
+      d => ({ ...d, levels: d.levels.map(l => (l.id === levelId ? { ...l, ...changes } : l)) }),
+      `level:${levelId}`,
+    );
+  }, [execute]);
+
+  const deleteLevel = useCallback((levelId: string) => {
+    const { levels } = docRef.current;
+    const level = levels.find(l => l.id === levelId);
+    if (!level || levels.length <= 1) return;
+    execute(`階「${level.name}」を削除`, d => ({
+      ...d,
+      levels: d.levels.filter(l => l.id !== levelId),
+      blocks: d.blocks.filter(b => !isOnLevel(b, levelId, d.levels)),
+      annotations: d.annotations.filter(a => !isOnLevel(a, levelId, d.levels)),
+    }));
+    if (levelId === currentLevelId()) {
+      setActiveLevelId(levels.find(l => l.id !== levelId)!.id);
+    }
+  }, [execute, currentLevelId, setActiveLevelId]);
+
+  // 既存ブロックを別の階へ移す（座標はそのまま）
+  const moveBlockToLevel = useCallback((blockId: string, levelId: string) => {
+    const { blocks, levels } = docRef.current;
+    const level = levels.find(l => l.id === levelId);
+    const block = blocks.find(b => b.id === blockId);
+    if (!level || !block || isOnLevel(block, levelId, levels)) return;
+    execute(
+      `ブロック${blockLabel(docRef.current, blockId)}を「${level.name}」へ移動`,
+      mapBlock(blockId, block => ({ ...block, levelId })),
+    );
+    setBlockSelection(selectedBlockIdsRef.current.filter(id => id !== blockId));
+  }, [execute, setBlockSelection]);
+
+  // Scale calibration
+  const setCalibration = useCallback((calibration: ScaleCalibration | null) => {
+    execute(calibration ? '縮尺を設定' : '縮尺を解除', d => ({ ...d, calibration }));
+  }, [execute]);
+
+  // Stage shapes
+  const addStage = useCallback((stage: StageShape) => {
+    execute(`ステージ「${stage.name}」を追加`, d => ({ ...d, stages: [...d.stages, stage] }));
+  }, [execute]);
+
+  const updateStagePoints = useCallback((stageId: string, points: number[]) => {
+    const stage = docRef.current.stages.find(s => s.id === stageId);
+    if (!stage) return;
+    execute(`ステージ「${stage.name}」を変更`, d => ({
+      ...d,
+      stages: d.stages.map(s => (s.id === stageId ? { ...s, points } : s)),
+    }));
+  }, [execute]);
+
+  const deleteStage = useCallback((stageId: string) => {
+    const stage = docRef.current.stages.find(s => s.id === stageId);
+    if (!stage || docRef.current.stages.length <= 1) return;
+    execute(`ステージ「${stage.name}」を削除`, d => ({ ...d, stages: d.stages.filter(s => s.id !== stageId) }));
+  }, [execute]);
 
-  // Import data
-  const importData = useCallback((importedBlocks: SeatBlock[]) => {
-    pushHistory();
-    setBlocks(importedBlocks);
-    setSelectedBlockId(null);
-    updateCanUndo();
-  }, [pushHistory, updateCanUndo]);
+  // Venue data for saving (背景は各階に含める)
+  const getVenueData = useCallback((name?: string, lottery?: LotterySettings): VenueData => {
+    const { width, height } = getContentCanvasSize(doc.blocks, doc.levels, doc.stages);
+    return exportVenueData(
+      doc.blocks, width, height, name, doc.categories, snapSettings, doc.annotations, doc.stages, doc.levels, doc.calibration, lottery,
+    );
+  }, [doc.blocks, doc.categories, doc.annotations, doc.stages, doc.levels, doc.calibration, snapSettings]);
+
+  // Export data (zip では背景を別ファイルにする)
+  const exportData = useCallback((name?: string, format: ProjectFileFormat = 'json', lottery?: LotterySettings) => {
+    const data = getVenueData(name, lottery);
+    const filename = `${name || 'venue'}-${Date.now()}`;
+    if (format === 'zip') {
+      downloadProjectZip(data, `${filename}.zip`);
+    } else {
+      downloadJson(data, `${filename}.json`);
+    }
+  }, [getVenueData]);
+
+  /**
+   * 会場の切り替え: ドキュメントを置き換え、元に戻す履歴を消す。
+   * 別の会場の編集を元に戻せると、開いている会場（自動保存先）と内容が食い違うため履歴には残さない
+   */
+  const loadDocument = useCallback((data?: VenueData) => {
+    const next = data ? documentFromVenueData(data) : createEmptyDocument();
+    historyRef.current = [];
+    historyIndexRef.current = 0;
+    coalesceRef.current = null;
+    commitDoc(next);
+    syncHistoryState();
+    setSnapSettings(data ? normalizeSnapSettings(data.snap) : DEFAULT_SNAP_SETTINGS);
+    setActiveLevelId(next.levels[0].id);
+    setBlockSelection([]);
+    setActiveSeatId(null);
+    selectAnnotation(null);
+    setSelectedSeatIds(new Set());
+    setActiveCategoryId(PREMIUM_CATEGORY_ID);
+    setSeatSuggestions([]);
+  }, [commitDoc, syncHistoryState, setActiveLevelId, setActiveCategoryId, setBlockSelection, setActiveSeatId, selectAnnotation, setSeatSuggestions]);
 
   // Clear all
   const clearAll = useCallback(() => {
-    pushHistory();
-    setBlocks([]);
-    setSelectedBlockId(null);
-    setBackgroundImage(null);
-    updateCanUndo();
-  }, [pushHistory, updateCanUndo]);
-
-  // Ctrl+Z keyboard shortcut for undo
+    execute('すべてクリア', d => ({
+      ...d,
+      blocks: [],
+      annotations: [],
+      levels: d.levels.map(level => ({ ...level, backgroundImage: null })),
+      calibration: null,
+    }));
+    setBlockSelection([]);
+    setSelectedSeatIds(new Set());
+    selectAnnotation(null);
+    setSeatSuggestions([]);
+  }, [execute, setBlockSelection, selectAnnotation, setSeatSuggestions]);
+
+  // Keyboard shortcuts: Ctrl+Z (undo), Ctrl+Shift+Z / Ctrl+Y (redo), Ctrl+D (duplicate blocks)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
         e.preventDefault();
         undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      } else if (key === 'd' && modeRef.current === 'normal') {
+        e.preventDefault(); // ブラウザのブックマーク追加を抑止
+        duplicateBlocks();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, duplicateBlocks]);
+
+  // Ctrl+C / Ctrl+V: 選択ブロックをシステムのクリップボード経由でコピー＆ペースト（別タブにも貼り付け可）
+  useEffect(() => {
+    const isEditingText = () => {
+      const active = document.activeElement as HTMLElement | null;
+      return !!active && (active.tagName === 'INPUT' || active.tagName === 'TEXTAREA' || active.isContentEditable);
+    };
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isEditingText() || modeRef.current !== 'normal' || window.getSelection()?.toString()) return;
+      const text = copyBlocks();
+      if (!text || !e.clipboardData) return;
+      e.clipboardData.setData('text/plain', text);
+      e.preventDefault();
+    };
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isEditingText() || modeRef.current !== 'normal') return;
+      const text = e.clipboardData?.getData('text/plain');
+      if (text && pasteBlocks(text) > 0) e.preventDefault();
+    };
+    window.addEventListener('copy', handleCopy);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('copy', handleCopy);
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, [copyBlocks, pasteBlocks]);
+
+  // Delete / Backspace: ばら席ペンでは選択中の座席、注釈モードでは選択中の注釈を削除
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Delete' && e.key !== 'Backspace') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+
+      if (modeRef.current === 'annotate') {
+        const annotationId = selectedAnnotationIdRef.current;
+        if (!annotationId) return;
+        e.preventDefault();
+        deleteAnnotation(annotationId);
+        return;
       }
+      if (modeRef.current !== 'seatPen') return;
+      const seatId = activeSeatIdRef.current;
+      const block = seatId ? docRef.current.blocks.find(b => b.seats.some(s => s.id === seatId)) : undefined;
+      if (!seatId || !block) return;
+      e.preventDefault();
+      deleteLooseSeat(block.id, seatId);
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [undo]);
+  }, [deleteLooseSeat, deleteAnnotation]);
 
   // Calculate stats
-  const stats = getSeatStats(blocks);
+  const stats = getSeatStats(doc.blocks);
+
+  const liveLevelId = resolveLevelId(activeLevelId, doc.levels);
+  const activeLevel = doc.levels.find(l => l.id === liveLevelId)!;
+  const levelBlocks = useMemo(
+    () => doc.blocks.filter(b => isOnLevel(b, liveLevelId, doc.levels)),
+    [doc.blocks, doc.levels, liveLevelId],
+  );
+  const levelAnnotations = useMemo(
+    () => doc.annotations.filter(a => isOnLevel(a, liveLevelId, doc.levels)),
+    [doc.annotations, doc.levels, liveLevelId],
+  );
+
+  // 元に戻す等で消えたブロック・座席は選択から除外して公開する
+  const liveBlockIds = useMemo(
+    () => selectedBlockIds.filter(id => levelBlocks.some(b => b.id === id)),
+    [selectedBlockIds, levelBlocks],
+  );
+  const liveActiveSeatId = useMemo(
+    () => (activeSeatId && doc.blocks.some(b => b.seats.some(s => s.id === activeSeatId)) ? activeSeatId : null),
+    [activeSeatId, doc.blocks],
+  );
+  const liveAnnotationId = useMemo(
+    () => (selectedAnnotationId && levelAnnotations.some(a => a.id === selectedAnnotationId) ? selectedAnnotationId : null),
+    [selectedAnnotationId, levelAnnotations],
+  );
 
   return {
-    blocks,
-    selectedBlockId,
+    blocks: doc.blocks,
+    levelBlocks,
+    selectedBlockId: liveBlockIds.length > 0 ? liveBlockIds[liveBlockIds.length - 1] : null,
+    selectedBlockIds: liveBlockIds,
     mode,
-    backgroundImage,
+    backgroundImage: activeLevel.backgroundImage,
+    stages: doc.stages,
+    levels: doc.levels,
+    activeLevelId: liveLevelId,
+    calibration: doc.calibration,
+    pixelsPerMeter: getPixelsPerMeter(doc.calibration),
     scale,
+    categories: doc.categories,
+    activeCategoryId: resolveCategoryId(doc, activeCategoryId),
+    snapSettings,
+    annotations: levelAnnotations,
+    venueAnnotations: doc.annotations,
+    selectedAnnotationId: liveAnnotationId,
     setMode,
     addBlock,
     deleteBlock,
     updateBlockPosition,
     updateBlockRotation,
     updateBlockScale,
+    updateBlockTransforms,
     updateBlockName,
+    updateBlockGrid,
     updateBlockSkewX,
     updateBlockStaggerX,
     updateBlockCurveRadius,
+    updateBlockRowLayout,
+    updateBlockAisles,
+    updateBlockNumbering,
     selectBlock,
+    selectBlocksInRect,
+    alignBlocks,
+    distributeBlocks,
+    duplicateBlocks,
+    copyBlocks,
+    pasteBlocks,
+    mirrorBlocks,
+    moveBlockToLevel,
     handleSeatClick,
+    activeSeatId: liveActiveSeatId,
+    addLooseSeat,
+    moveLooseSeat,
+    deleteLooseSeat,
+    autoLinkLooseSeats,
+    updateLooseSeatNumber,
+    selectAnnotation,
+    addAnnotation,
+    updateAnnotation,
+    deleteAnnotation,
+    selectedSeatIds,
+    selectSeatsInRect,
+    clearSeatSelection,
+    paintSelectedSeats,
+    applySeatFlags,
+    setActiveCategoryId,
+    addCategory,
+    updateCategory,
+    deleteCategory,
+    setActiveLevelId,
+    addLevel,
+    updateLevel,
+    deleteLevel,
+    updateSnapSettings,
+    setCalibration,
     setBackgroundImage,
     updateBackgroundOpacity,
+    updateBackgroundTransform,
+    setBackgroundLocked,
+    seatSuggestions,
+    setSeatSuggestions,
+    moveSeatSuggestion,
+    acceptSeatSuggestions,
+    discardSeatSuggestions,
+    addStage,
+    updateStagePoints,
+    deleteStage,
     setScale,
+    getVenueData,
     exportData,
-    importData,
+    loadDocument,
     clearAll,
     undo,
-    canUndo,
+    redo,
+    jumpToHistory,
+    canUndo: historyState.index > 0,
+    canRedo: historyState.index < historyState.entries.length,
+    historyEntries: historyState.entries,
+    historyIndex: historyState.index,
     saveSnapshot,
     stats,
   };
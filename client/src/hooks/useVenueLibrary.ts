@@ -0,0 +1,308 @@
+/**
+ * useVenueLibrary Hook
+ * IndexedDBを使用した会場ライブラリと自動保存
+ *
+ * 開いている会場は変更のたびに（AUTOSAVE_DELAY_MS まとめて）ライブラリに上書き保存し、
+ * ページを離れるときは待たずに保存する。最後に保存した会場は localStorage に記録し、
+ * 次に開いたときに復元を提案する（リロード・クラッシュ対策）。
+ * 一覧の項目と会場データ本体（背景の data URL を含む）は別のストアに置き、一覧の表示では本体を読まない
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { nanoid } from 'nanoid';
+import { VENUE_DATA_STORE, VENUE_STORE, openDB } from '@/lib/database';
+import { parseVenueData } from '@/lib/venueSchema';
+import { createVenueThumbnail } from '@/lib/venueThumbnail';
+import type { SavedVenue, SavedVenueSummary, VenueData } from '@/types/venue';
+
+const AUTOSAVE_DELAY_MS = 1500;
+const LAST_VENUE_KEY = 'venueMapEditor.lastVenueId';
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+interface UseVenueLibraryOptions {
+  getVenueData: () => VenueData; // 開いている会場の保存データ（変更のたびに作り直される関数）
+  isEmpty: boolean; // 何もない新規の会場はライブラリに追加しない
+}
+
+// venueData ストアのレコード（キーは一覧の項目と同じ id）
+interface SavedVenueRecord {
+  id: string;
+  data: VenueData;
+}
+
+async function runRequest<T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = fn(transaction.objectStore(storeName));
+
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+
+    request.onerror = () => {
+      reject(new Error('Failed to access venue library'));
+    };
+  });
+}
+
+// 一覧の項目と会場データ本体を1つのトランザクションで書き換える（片方だけが残らないように）
+async function runWrite(fn: (summaries: IDBObjectStore, records: IDBObjectStore) => void): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([VENUE_STORE, VENUE_DATA_STORE], 'readwrite');
+    fn(transaction.objectStore(VENUE_STORE), transaction.objectStore(VENUE_DATA_STORE));
+
+    transaction.oncomplete = () => {
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      reject(new Error('Failed to access venue library'));
+    };
+  });
+}
+
+async function readVenue(id: string): Promise<SavedVenue | null> {
+  const [summary, record] = await Promise.all([
+    runRequest<SavedVenueSummary | undefined>(VENUE_STORE, 'readonly', store => store.get(id)),
+    runRequest<SavedVenueRecord | undefined>(VENUE_DATA_STORE, 'readonly', store => store.get(id)),
+  ]);
+  return summary && record ? { ...summary, data: record.data } : null;
+}
+
+function writeVenue(venue: SavedVenue): Promise<void> {
+  return runWrite((summaries, records) => {
+    summaries.put(toSummary(venue));
+    records.put({ id: venue.id, data: venue.data });
+  });
+}
+
+function toSummary(venue: SavedVenue): SavedVenueSummary {
+  const { id, name, thumbnail, blockCount, seatCount, createdAt, updatedAt } = venue;
+  return { id, name, thumbnail, blockCount, seatCount, createdAt, updatedAt };
+}
+
+function sortByUpdated(venues: SavedVenueSummary[]): SavedVenueSummary[] {
+  return [...venues].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+function upsertSummary(venues: SavedVenueSummary[], summary: SavedVenueSummary): SavedVenueSummary[] {
+  return sortByUpdated([...venues.filter(v => v.id !== summary.id), summary]);
+}
+
+export function useVenueLibrary({ getVenueData, isEmpty }: UseVenueLibraryOptions) {
+  const [venues, setVenues] = useState<SavedVenueSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentVenueId, setCurrentVenueIdState] = useState<string | null>(null);
+  const [autosaveStatus, setAutosaveStatus] = useState<AutosaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const [recovery, setRecovery] = useState<SavedVenueSummary | null>(null); // 起動時に復元を提案する会場
+
+  const currentVenueIdRef = useRef<string | null>(null);
+  const createdAtRef = useRef<string | null>(null);
+  const getVenueDataRef = useRef(getVenueData);
+  const isEmptyRef = useRef(isEmpty);
+  const timerRef = useRef<number | null>(null);
+  // 会場を開いた直後のデータの変化は読み込んだ内容そのものなので、自動保存しない
+  const skipAutosaveRef = useRef(false);
+
+  const setCurrentVenue = useCallback((id: string | null, createdAt: string | null) => {
+    currentVenueIdRef.current = id;
+    createdAtRef.current = createdAt;
+    setCurrentVenueIdState(id);
+  }, []);
+
+  // 開いている会場を保存（未保存の新規会場はここでライブラリに追加）
+  const saveNow = useCallback(async () => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    if (!currentVenueIdRef.current && isEmptyRef.current) return;
+
+    const data = getVenueDataRef.current();
+    const now = new Date().toISOString();
+    const id = currentVenueIdRef.current ?? nanoid(10);
+    const createdAt = createdAtRef.current ?? now;
+    const venue: SavedVenue = {
+      id,
+      name: data.name,
+      data: { ...data, createdAt, updatedAt: now },
+      thumbnail: createVenueThumbnail(data),
+      blockCount: data.blocks.length,
+      seatCount: data.blocks.reduce((sum, block) => sum + block.seats.length, 0),
+      createdAt,
+      updatedAt: now,
+    };
+    setCurrentVenue(id, createdAt);
+    setAutosaveStatus('saving');
+
+    try {
+      await writeVenue(venue);
+      localStorage.setItem(LAST_VENUE_KEY, id);
+      setVenues(prev => upsertSummary(prev, toSummary(venue)));
+      setLastSavedAt(now);
+      setAutosaveStatus('saved');
+    } catch (err) {
+      console.error('会場の自動保存に失敗しました:', err);
+      setAutosaveStatus('error');
+    }
+  }, [setCurrentVenue]);
+
+  // 保存待ちの変更があればすぐに保存する（別の会場を開く前・ページを離れるとき）
+  const flush = useCallback(async () => {
+    if (timerRef.current !== null) await saveNow();
+  }, [saveNow]);
+
+  // 自動保存: 会場データが変わってから一定時間後に保存
+  useEffect(() => {
+    getVenueDataRef.current = getVenueData;
+    isEmptyRef.current = isEmpty;
+    if (skipAutosaveRef.current) {
+      skipAutosaveRef.current = false;
+      return;
+    }
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(() => {
+      void saveNow();
+    }, AUTOSAVE_DELAY_MS);
+  }, [getVenueData, isEmpty, saveNow]);
+
+  useEffect(() => {
+    const handlePageHide = () => {
+      void flush();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') void flush();
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    };
+  }, [flush]);
+
+  // 初期読み込み（前回編集していた会場があれば復元を提案）
+  useEffect(() => {
+    setLoading(true);
+    runRequest<SavedVenueSummary[]>(VENUE_STORE, 'readonly', store => store.getAll())
+      .then(records => {
+        const summaries = sortByUpdated(records);
+        setVenues(summaries);
+        const lastVenueId = localStorage.getItem(LAST_VENUE_KEY);
+        setRecovery(summaries.find(v => v.id === lastVenueId) ?? null);
+      })
+      .catch(err => {
+        console.error('会場ライブラリの読み込みに失敗しました:', err);
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  // 開く（古いバージョンで保存した会場も移行・検証してから返す）
+  const openVenue = useCallback(async (id: string): Promise<VenueData | null> => {
+    await flush();
+    const record = await readVenue(id);
+    if (!record) return null;
+    const { data } = parseVenueData(record.data);
+    skipAutosaveRef.current = true;
+    setCurrentVenue(record.id, record.createdAt);
+    localStorage.setItem(LAST_VENUE_KEY, record.id);
+    setRecovery(null);
+    setLastSavedAt(record.updatedAt);
+    setAutosaveStatus('saved');
+    return { ...data, name: record.name };
+  }, [flush, setCurrentVenue]);
+
+  // 新しい会場として編集を始める（ファイルの読込・新規作成の前に呼ぶ）
+  const startNewVenue = useCallback(async () => {
+    await flush();
+    setCurrentVenue(null, null);
+    setLastSavedAt(null);
+    setAutosaveStatus('idle');
+  }, [flush, setCurrentVenue]);
+
+  const renameVenue = useCallback(async (id: string, name: string): Promise<boolean> => {
+    try {
+      const record = await readVenue(id);
+      if (!record) return false;
+      const renamed: SavedVenue = { ...record, name, data: { ...record.data, name } };
+      await writeVenue(renamed);
+      setVenues(prev => prev.map(v => (v.id === id ? { ...v, name } : v)));
+      return true;
+    } catch (err) {
+      console.error('会場名の変更に失敗しました:', err);
+      return false;
+    }
+  }, []);
+
+  const duplicateVenue = useCallback(async (id: string): Promise<SavedVenueSummary | null> => {
+    try {
+      const record = await readVenue(id);
+      if (!record) return null;
+      const now = new Date().toISOString();
+      const name = `${record.name} のコピー`;
+      const copy: SavedVenue = {
+        ...record,
+        id: nanoid(10),
+        name,
+        data: { ...record.data, name, createdAt: now, updatedAt: now },
+        createdAt: now,
+        updatedAt: now,
+      };
+      await writeVenue(copy);
+      const summary = toSummary(copy);
+      setVenues(prev => upsertSummary(prev, summary));
+      return summary;
+    } catch (err) {
+      console.error('会場の複製に失敗しました:', err);
+      return null;
+    }
+  }, []);
+
+  // 削除（開いている会場を削除した場合、編集内容は次の変更で新しい会場として保存される）
+  const deleteVenue = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      await runWrite((summaries, records) => {
+        summaries.delete(id);
+        records.delete(id);
+      });
+      setVenues(prev => prev.filter(v => v.id !== id));
+      if (currentVenueIdRef.current === id) {
+        setCurrentVenue(null, null);
+        setLastSavedAt(null);
+        setAutosaveStatus('idle');
+      }
+      if (localStorage.getItem(LAST_VENUE_KEY) === id) localStorage.removeItem(LAST_VENUE_KEY);
+      setRecovery(prev => (prev?.id === id ? null : prev));
+      return true;
+    } catch (err) {
+      console.error('会場の削除に失敗しました:', err);
+      return false;
+    }
+  }, [setCurrentVenue]);
+
+  // 復元しない（ライブラリには残す）
+  const dismissRecovery = useCallback(() => {
+    setRecovery(null);
+    localStorage.removeItem(LAST_VENUE_KEY);
+  }, []);
+
+  return {
+    venues,
+    loading,
+    currentVenueId,
+    autosaveStatus,
+    lastSavedAt,
+    recovery,
+    openVenue,
+    startNewVenue,
+    renameVenue,
+    duplicateVenue,
+    deleteVenue,
+    dismissRecovery,
+  };
+}
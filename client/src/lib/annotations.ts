@@ -0,0 +1,100 @@
+/**
+ * Venue Map Editor - Annotations
+ * Blueprint Technical Design System
+ *
+ * 会場の注釈（壁・通路・非常口・柱・キャプション）の生成と表示用の定義
+ */
+
+import { nanoid } from 'nanoid';
+import type { Annotation, AnnotationIcon, AnnotationKind } from '@/types/venue';
+
+/** 注釈の色の候補（先頭が既定） */
+export const ANNOTATION_COLORS = ['#94a3b8', '#f8fafc', '#facc15', '#f97316', '#ef4444', '#22c55e', '#38bdf8'];
+
+export const DEFAULT_ANNOTATION_STROKE_WIDTH = 4;
+export const DEFAULT_ANNOTATION_FONT_SIZE = 24;
+export const DEFAULT_ANNOTATION_ICON_SIZE = 36;
+
+/** アイコン注釈の表示名・略号・色 */
+export const ANNOTATION_ICONS: Record<AnnotationIcon, { label: string; short: string; color: string }> = {
+  exit: { label: '非常口', short: 'EXIT', color: '#16a34a' },
+  toilet: { label: 'トイレ', short: 'WC', color: '#2563eb' },
+  camera: { label: 'カメラ台', short: 'CAM', color: '#475569' },
+};
+
+/** 塗りつぶしは線の色を薄くして使う */
+export function getAnnotationFill(color: string): string {
+  return `${color}40`;
+}
+
+const KIND_LABELS: Record<AnnotationKind, string> = {
+  polyline: 'ライン',
+  polygon: '多角形',
+  rect: '矩形',
+  text: 'テキスト',
+  icon: 'アイコン',
+};
+
+/**
+ * 履歴・一覧用の注釈の表示名
+ */
+export function getAnnotationLabel(annotation: Annotation): string {
+  if (annotation.kind === 'text') {
+    const text = annotation.text.trim();
+    return text ? `「${text.length > 12 ? `${text.slice(0, 12)}…` : text}」` : KIND_LABELS.text;
+  }
+  if (annotation.kind === 'icon') return ANNOTATION_ICONS[annotation.icon].label;
+  return KIND_LABELS[annotation.kind];
+}
+
+/**
+ * キャンバス座標の点列からライン・多角形を作る（points は始点からの相対座標に変換）
+ */
+export function createPathAnnotation(kind: 'polyline' | 'polygon', points: number[], color: string): Annotation {
+  const [x, y] = points;
+  return {
+    id: nanoid(8),
+    kind,
+    x,
+    y,
+    points: points.map((value, i) => value - (i % 2 === 0 ? x : y)),
+    strokeWidth: DEFAULT_ANNOTATION_STROKE_WIDTH,
+    color,
+    ...(kind === 'polygon' ? { filled: true } : {}),
+  };
+}
+
+export function createRectAnnotation(x: number, y: number, width: number, height: number, color: string): Annotation {
+  return {
+    id: nanoid(8),
+    kind: 'rect',
+    x: Math.min(x, x + width),
+    y: Math.min(y, y + height),
+    width: Math.abs(width),
+    height: Math.abs(height),
+    strokeWidth: DEFAULT_ANNOTATION_STROKE_WIDTH,
+    color,
+  };
+}
+
+export function createTextAnnotation(x: number, y: number, color: string): Annotation {
+  return { id: nanoid(8), kind: 'text', x, y, text: 'テキスト', fontSize: DEFAULT_ANNOTATION_FONT_SIZE, color };
+}
+
+export function createIconAnnotation(x: number, y: number, icon: AnnotationIcon): Annotation {
+  return { id: nanoid(8), kind: 'icon', x, y, icon, size: DEFAULT_ANNOTATION_ICON_SIZE, color: ANNOTATION_ICONS[icon].color };
+}
+
+/**
+ * 連続クリック（ダブルクリックの2回目など）で重なった点を除く
+ */
+export function dedupePoints(points: number[], tolerance: number): number[] {
+  const result: number[] = [];
+  for (let i = 0; i < points.length; i += 2) {
+    const lastX = result[result.length - 2];
+    const lastY = result[result.length - 1];
+    if (result.length > 0 && Math.hypot(points[i] - lastX, points[i + 1] - lastY) <= tolerance) continue;
+    result.push(points[i], points[i + 1]);
+  }
+  return result;
+}
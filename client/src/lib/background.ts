@@ -0,0 +1,87 @@
+/**
+ * Venue Map Editor - Background Image
+ * Blueprint Technical Design System
+ *
+ * 背景図面の配置（位置・拡大率・回転）。旧データは原点・原寸のまま
+ */
+
+import type { BackgroundImage, BackgroundTransform } from '@/types/venue';
+
+export const MIN_BACKGROUND_SCALE = 0.05;
+export const MAX_BACKGROUND_SCALE = 20;
+
+export const DEFAULT_BACKGROUND_TRANSFORM: BackgroundTransform = { x: 0, y: 0, scale: 1, rotation: 0 };
+
+export function getBackgroundTransform(image: BackgroundImage): BackgroundTransform {
+  return {
+    x: image.x ?? 0,
+    y: image.y ?? 0,
+    scale: image.scale ?? 1,
+    rotation: image.rotation ?? 0,
+  };
+}
+
+export function clampBackgroundScale(scale: number): number {
+  return Math.min(MAX_BACKGROUND_SCALE, Math.max(MIN_BACKGROUND_SCALE, scale));
+}
+
+/** ベクター背景を描画するビットマップの一辺の上限（px） */
+const MAX_BITMAP_SIZE = 8192;
+
+export function readFileAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function loadImageElement(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new window.Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('画像を読み込めませんでした'));
+    img.src = src;
+  });
+}
+
+/**
+ * SVG の原寸（width/height 属性、なければ viewBox。単位付きの値は数値部分のみ使う）
+ */
+export function getSvgSize(svgText: string): { width: number; height: number } | null {
+  const svg = new DOMParser().parseFromString(svgText, 'image/svg+xml').documentElement;
+  if (svg.nodeName !== 'svg') return null;
+  const viewBox = (svg.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number);
+  const hasViewBox = viewBox.length === 4 && viewBox.every(Number.isFinite);
+  const width = parseFloat(svg.getAttribute('width') ?? '') || (hasViewBox ? viewBox[2] : 0);
+  const height = parseFloat(svg.getAttribute('height') ?? '') || (hasViewBox ? viewBox[3] : 0);
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+/**
+ * 表示倍率（ズーム × 背景の拡大率 × devicePixelRatio）に合わせたベクター背景の描画解像度
+ * 2 の累乗に丸めて、ズームのたびに描き直さないようにする
+ */
+export function getBackgroundResolution(image: BackgroundImage, pixelScale: number): number {
+  const quantized = Math.pow(2, Math.ceil(Math.log2(Math.max(pixelScale, 0.25))));
+  const limit = MAX_BITMAP_SIZE / Math.max(image.width, image.height, 1);
+  return Math.min(quantized, limit);
+}
+
+/**
+ * 背景をキャンバスに描ける形にする（ラスターはそのまま、SVG・PDF は resolution 倍で描画）
+ */
+export async function renderBackgroundBitmap(image: BackgroundImage, resolution: number): Promise<CanvasImageSource> {
+  if (image.kind === 'pdf') {
+    const { renderPdfPage } = await import('@/lib/pdf');
+    return renderPdfPage(image.src, image.pdfPage ?? 1, resolution);
+  }
+  const img = await loadImageElement(image.src);
+  if (image.kind !== 'svg') return img;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(image.width * resolution);
+  canvas.height = Math.ceil(image.height * resolution);
+  canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
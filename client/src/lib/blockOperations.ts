@@ -0,0 +1,186 @@
+/**
+ * Venue Map Editor - Block Operations
+ * Blueprint Technical Design System
+ *
+ * ブロックの複製・コピー＆ペースト（クリップボード経由でタブ間も可）・反転
+ */
+
+import { nanoid } from 'nanoid';
+import { getBlockCanvasBounds, regenerateSeats, getRowLayoutCols } from '@/lib/venueUtils';
+import { getBlockNumbering } from '@/lib/seatNumbering';
+import { parseSeatBlocks } from '@/lib/venueSchema';
+import type { SeatBlock, SeatCategory, MirrorAxis } from '@/types/venue';
+
+/** クリップボードに書き込む JSON の識別子 */
+const CLIPBOARD_TYPE = 'venue-map-editor/blocks';
+
+/** 複製・貼り付け時のずらし量（px） */
+export const PASTE_OFFSET = 20;
+
+interface BlockClipboardPayload {
+  type: typeof CLIPBOARD_TYPE;
+  blocks: SeatBlock[];
+  categories: SeatCategory[]; // 座席が参照しているカテゴリ（貼り付け先に無ければ追加する）
+}
+
+/**
+ * 重複しないブロック名を作る
+ * 末尾が数字なら番号を、1文字の英字なら次の文字を進め、それ以外は「 2」「 3」… を付ける
+ */
+export function getNextBlockName(name: string, existingNames: Iterable<string>): string {
+  const taken = new Set(existingNames);
+  const numbered = name.match(/^(.*?)(\d+)$/);
+  const letter = name.match(/^(.*?)([A-Ya-y])$/);
+
+  let candidate = name;
+  for (let i = 1; taken.has(candidate) || candidate === name; i++) {
+    if (numbered) {
+      candidate = `${numbered[1]}${parseInt(numbered[2], 10) + i}`;
+    } else if (letter && i < 26) {
+      const code = letter[2].charCodeAt(0) + i;
+      const limit = letter[2] === letter[2].toUpperCase() ? 90 : 122; // Z / z を超えたら番号付けへ
+      candidate = code <= limit ? `${letter[1]}${String.fromCharCode(code)}` : `${name} ${i + 1}`;
+    } else {
+      candidate = `${name} ${i + 1}`;
+    }
+  }
+  return candidate;
+}
+
+/**
+ * ブロックを新しい ID で複製する（座席 ID もすべて振り直し、フラグ・カテゴリは引き継ぐ）
+ * 名前は既存と重ならないよう進め、明示的な番号接頭辞も同じ規則で進める
+ */
+export function cloneBlock(block: SeatBlock, existingNames: Iterable<string>, dx: number, dy: number): SeatBlock {
+  const names = Array.from(existingNames);
+  const name = getNextBlockName(block.name, names);
+  const prefix = block.numbering?.prefix;
+  // ばら席の隣接リストも新しい座席IDに付け替える
+  const seatIds = new Map(block.seats.map(seat => [seat.id, nanoid(8)]));
+  return {
+    ...block,
+    id: nanoid(8),
+    name,
+    x: block.x + dx,
+    y: block.y + dy,
+    ...(block.numbering ? {
+      numbering: { ...block.numbering, ...(prefix ? { prefix: getNextBlockName(prefix, [prefix]) } : {}) },
+    } : {}),
+    seats: block.seats.map(seat => ({
+      ...seat,
+      id: seatIds.get(seat.id)!,
+      ...(seat.neighbors ? {
+        neighbors: seat.neighbors.map(id => seatIds.get(id)).filter((id): id is string => id !== undefined),
+      } : {}),
+    })),
+  };
+}
+
+/**
+ * ブロック群を既存ブロックと位置が重ならない最小のずらし量で複製する
+ */
+export function cloneBlocks(blocks: SeatBlock[], existing: SeatBlock[]): SeatBlock[] {
+  if (blocks.length === 0) return [];
+  const occupied = new Set(existing.map(b => `${Math.round(b.x)}_${Math.round(b.y)}`));
+  const anchor = blocks[0];
+  let step = 1;
+  while (occupied.has(`${Math.round(anchor.x + step * PASTE_OFFSET)}_${Math.round(anchor.y + step * PASTE_OFFSET)}`)) {
+    step++;
+  }
+
+  const names = existing.map(b => b.name);
+  return blocks.map(block => {
+    const clone = cloneBlock(block, names, step * PASTE_OFFSET, step * PASTE_OFFSET);
+    names.push(clone.name);
+    return clone;
+  });
+}
+
+/**
+ * ブロックを反転する（axis: horizontal=左右、vertical=上下）
+ *
+ * 座席配置はローカル座標で左右反転（列順・行レイアウト・通路・skew/stagger を鏡像化）し、
+ * キャンバス上の鏡像になるよう回転角を補正する（上下反転 = 左右反転 + 180°回転）。
+ * 座席 ID・フラグは鏡像位置の座席に引き継ぎ、列番号の向きも反転するので番号も鏡像になる。
+ *
+ * axisPosition: 反転軸のキャンバス座標（horizontal なら x、vertical なら y）。未指定=ブロック中心
+ */
+export function mirrorBlock(block: SeatBlock, axis: MirrorAxis, axisPosition?: number): SeatBlock {
+  const cols = block.rowLayout ? getRowLayoutCols(block.rowLayout) : block.cols;
+  const rowSeats = (row: number) => block.rowLayout?.[row]?.seats ?? block.cols;
+  const numbering = getBlockNumbering(block);
+  // 通路は「列位置 c より後ろ」で判定するため、半席ずれの行があるときは境界も半席ずらす
+  const halfOffsets = block.rowLayout?.some(r => !Number.isInteger(r.offset)) ?? false;
+  const mirrorAisle = (c: number) => cols - (halfOffsets ? 1.5 : 2) - c;
+
+  const flipped: SeatBlock = block.kind === 'loose' ? {
+    // ばら席は座席座標をそのまま左右反転（番号は席ごとなので変えない）
+    ...block,
+    rotation: normalizeRotation(axis === 'horizontal' ? -block.rotation : 180 - block.rotation),
+    seats: block.seats.map(seat => ({ ...seat, localX: -seat.localX - block.seatSize })),
+  } : {
+    ...block,
+    rotation: normalizeRotation(axis === 'horizontal' ? -block.rotation : 180 - block.rotation),
+    skewX: -(block.skewX ?? 0),
+    staggerX: -(block.staggerX ?? 0),
+    ...(block.rowLayout ? {
+      rowLayout: block.rowLayout.map(r => ({ seats: r.seats, offset: cols - r.offset - r.seats })),
+    } : {}),
+    ...(block.aisles ? {
+      aisles: { ...block.aisles, afterCols: block.aisles.afterCols.map(mirrorAisle).sort((a, b) => a - b) },
+    } : {}),
+    numbering: { ...numbering, colDirection: numbering.colDirection === 'ltr' ? 'rtl' : 'ltr' },
+    seats: block.seats.map(seat => ({ ...seat, col: rowSeats(seat.row) - 1 - seat.col })),
+  };
+  const mirrored = { ...flipped, seats: regenerateSeats(flipped) };
+
+  // 外接矩形の中心が反転軸に対して鏡像の位置に来るよう平行移動
+  const before = getBlockCanvasBounds(block);
+  const after = getBlockCanvasBounds(mirrored);
+  const beforeCenterX = (before.minX + before.maxX) / 2;
+  const beforeCenterY = (before.minY + before.maxY) / 2;
+  const targetX = axis === 'horizontal' ? 2 * (axisPosition ?? beforeCenterX) - beforeCenterX : beforeCenterX;
+  const targetY = axis === 'vertical' ? 2 * (axisPosition ?? beforeCenterY) - beforeCenterY : beforeCenterY;
+  return {
+    ...mirrored,
+    x: mirrored.x + targetX - (after.minX + after.maxX) / 2,
+    y: mirrored.y + targetY - (after.minY + after.maxY) / 2,
+  };
+}
+
+/** 回転角を (-180, 180] に正規化 */
+function normalizeRotation(rotation: number): number {
+  const r = ((rotation % 360) + 360) % 360;
+  return r > 180 ? r - 360 : r;
+}
+
+/**
+ * コピーするブロックをクリップボード用の JSON 文字列にする
+ */
+export function serializeBlocks(blocks: SeatBlock[], categories: SeatCategory[]): string {
+  const used = new Set(blocks.flatMap(b => b.seats.map(s => s.categoryId)).filter(Boolean));
+  const payload: BlockClipboardPayload = {
+    type: CLIPBOARD_TYPE,
+    blocks,
+    categories: categories.filter(c => used.has(c.id)),
+  };
+  return JSON.stringify(payload);
+}
+
+/**
+ * クリップボードの文字列からブロックを読み取る（このエディタのデータでなければ null）。
+ * 別のタブ・バージョンから来た内容なので、会場データの読み込みと同じスキーマで検証し、不正なものは除外する
+ */
+export function parseBlocks(text: string): { blocks: SeatBlock[]; categories: SeatCategory[] } | null {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload !== 'object') return null;
+  const { type, blocks, categories } = payload as Partial<Record<keyof BlockClipboardPayload, unknown>>;
+  if (type !== CLIPBOARD_TYPE || !Array.isArray(blocks)) return null;
+  const parsed = parseSeatBlocks(blocks, categories ?? []);
+  return parsed.blocks.length > 0 ? parsed : null;
+}
@@ -0,0 +1,83 @@
+/**
+ * Venue Map Editor - Scale Calibration
+ * Blueprint Technical Design System
+ *
+ * 背景図面の既知の寸法に基準線を引いて、キャンバス座標（px）と実寸（m）を対応付ける
+ */
+
+import type { ScaleCalibration } from '@/types/venue';
+
+/** 基準線として扱う最小の長さ（px） */
+export const MIN_CALIBRATION_LENGTH = 5;
+
+/** BlockGenerator の実寸入力の既定値（cm） */
+export const DEFAULT_SEAT_PITCH_CM = 50;
+export const DEFAULT_ROW_DEPTH_CM = 90;
+
+/** 座席の幅・奥行きのうち座席本体が占める割合（残りが間隔） */
+const SEAT_FILL_RATIO = 20 / 24;
+
+export function getLineLength(points: number[]): number {
+  return Math.hypot(points[2] - points[0], points[3] - points[1]);
+}
+
+/** 1m あたりのキャンバス px（縮尺未設定なら null） */
+export function getPixelsPerMeter(calibration: ScaleCalibration | null | undefined): number | null {
+  if (!calibration || calibration.meters <= 0) return null;
+  const length = getLineLength(calibration.points);
+  return length >= MIN_CALIBRATION_LENGTH ? length / calibration.meters : null;
+}
+
+/**
+ * 距離の表示（縮尺があれば m、なければ px）
+ */
+export function formatDistance(px: number, pixelsPerMeter: number | null): string {
+  if (!pixelsPerMeter) return `${Math.round(px)} px`;
+  const meters = px / pixelsPerMeter;
+  return meters < 10 ? `${meters.toFixed(2)} m` : `${meters.toFixed(1)} m`;
+}
+
+export function cmToPx(cm: number, pixelsPerMeter: number): number {
+  return (cm / 100) * pixelsPerMeter;
+}
+
+export function pxToCm(px: number, pixelsPerMeter: number): number {
+  return (px / pixelsPerMeter) * 100;
+}
+
+/**
+ * 実寸の座席ピッチ（横の席間隔）と列の前後間隔から、座席サイズ・間隔（px）を求める
+ * 座席は短い方の寸法に収まる大きさにし、残りを横・前後の間隔に割り当てる
+ */
+export function getMetricSeatLayout(
+  pitchCm: number,
+  rowDepthCm: number,
+  pixelsPerMeter: number,
+): { seatSize: number; seatGap: number; rowGap: number } {
+  const pitch = cmToPx(pitchCm, pixelsPerMeter);
+  const depth = cmToPx(rowDepthCm, pixelsPerMeter);
+  const round = (value: number) => Math.round(value * 10) / 10;
+  const seatSize = round(Math.min(pitch, depth) * SEAT_FILL_RATIO);
+  return {
+    seatSize,
+    seatGap: round(Math.max(0, pitch - seatSize)),
+    rowGap: round(Math.max(0, depth - seatSize)),
+  };
+}
+
+/**
+ * 保存データの縮尺を検証する（不正なら null）
+ */
+export function normalizeCalibration(calibration: unknown): ScaleCalibration | null {
+  if (!calibration || typeof calibration !== 'object') return null;
+  const { points, meters } = calibration as Partial<ScaleCalibration>;
+  if (
+    !Array.isArray(points)
+    || points.length !== 4
+    || !points.every(value => typeof value === 'number' && Number.isFinite(value))
+    || typeof meters !== 'number'
+    || !(meters > 0)
+  ) return null;
+  const result = { points: [...points], meters };
+  return getPixelsPerMeter(result) ? result : null;
+}
@@ -0,0 +1,44 @@
+/**
+ * Venue Map Editor - IndexedDB
+ * Blueprint Technical Design System
+ *
+ * 顧客（useCustomerDB）と会場ライブラリ（useVenueLibrary）が共有するデータベース。
+ * ストアを追加するときは DB_VERSION を上げ、onupgradeneeded で無いストアだけを作る
+ */
+
+export const DB_NAME = 'VenueMapEditorDB';
+export const DB_VERSION = 2;
+export const CUSTOMER_STORE = 'customers';
+export const VENUE_STORE = 'venues'; // v2: 会場ライブラリの一覧（SavedVenueSummary）
+export const VENUE_DATA_STORE = 'venueData'; // v2: 会場データ本体（{ id, data }）
+
+export function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      reject(new Error('Failed to open database'));
+    };
+
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(CUSTOMER_STORE)) {
+        const store = db.createObjectStore(CUSTOMER_STORE, { keyPath: 'id' });
+        store.createIndex('memberId', 'memberId', { unique: true });
+        store.createIndex('name', 'name', { unique: false });
+        store.createIndex('totalScore', 'totalScore', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(VENUE_STORE)) {
+        const store = db.createObjectStore(VENUE_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(VENUE_DATA_STORE)) {
+        db.createObjectStore(VENUE_DATA_STORE, { keyPath: 'id' });
+      }
+    };
+  });
+}
@@ -0,0 +1,199 @@
+/**
+ * Venue Map Editor - History (Undo/Redo) Engine
+ * Blueprint Technical Design System
+ *
+ * 各操作の前後のドキュメントを比較し、差分（パッチ）だけを履歴に保存する。
+ * ブロック・座席はイミュータブルに更新されるため、参照比較で変更箇所を特定できる。
+ * 3万席規模でも、変更された座席・プロパティ分のメモリしか消費しない。
+ */
+
+import type { Seat, SeatBlock, VenueDocument } from '@/types/venue';
+
+type BlockProps = Partial<Omit<SeatBlock, 'seats'>>;
+
+/** 1ブロック分の差分 */
+interface BlockPatch {
+  blockId: string;
+  /** 追加（before=null）・削除（after=null）時はブロック全体を保持 */
+  before?: SeatBlock | null;
+  after?: SeatBlock | null;
+  /** 更新時: 変更されたプロパティのみ */
+  props?: { before: BlockProps; after: BlockProps };
+  /** 更新時: 座席ID構成が同じなら変更座席のみ */
+  seatChanges?: { index: number; before: Seat; after: Seat }[];
+  /** 更新時: 座席構成が変わった場合（再生成など）は配列ごと */
+  seats?: { before: Seat[]; after: Seat[] };
+}
+
+/** 履歴の1エントリ（1回の元に戻す単位） */
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+  blocks: BlockPatch[];
+  /** ブロックの並び順・構成が変わった場合のID列 */
+  order?: { before: string[]; after: string[] };
+  /** ブロック以外のドキュメント項目（背景・ステージなど）は値ごと保持 */
+  fields?: { [K in Exclude<keyof VenueDocument, 'blocks'>]?: { before: VenueDocument[K]; after: VenueDocument[K] } };
+}
+
+function diffBlock(before: SeatBlock, after: SeatBlock): BlockPatch | null {
+  const patch: BlockPatch = { blockId: after.id };
+  let changed = false;
+
+  // プロパティ差分（seats以外）
+  const propsBefore: Record<string, unknown> = {};
+  const propsAfter: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of Array.from(keys)) {
+    if (key === 'seats') continue;
+    const b = (before as unknown as Record<string, unknown>)[key];
+    const a = (after as unknown as Record<string, unknown>)[key];
+    if (b !== a) {
+      propsBefore[key] = b;
+      propsAfter[key] = a;
+      changed = true;
+    }
+  }
+  if (changed) {
+    patch.props = { before: propsBefore as BlockProps, after: propsAfter as BlockProps };
+  }
+
+  // 座席差分
+  if (before.seats !== after.seats) {
+    const sameLayout =
+      before.seats.length === after.seats.length &&
+      before.seats.every((seat, i) => seat.id === after.seats[i].id);
+
+    if (sameLayout) {
+      const seatChanges: { index: number; before: Seat; after: Seat }[] = [];
+      for (let i = 0; i < after.seats.length; i++) {
+        if (before.seats[i] !== after.seats[i]) {
+          seatChanges.push({ index: i, before: before.seats[i], after: after.seats[i] });
+        }
+      }
+      if (seatChanges.length > 0) {
+        patch.seatChanges = seatChanges;
+        changed = true;
+      }
+    } else {
+      patch.seats = { before: before.seats, after: after.seats };
+      changed = true;
+    }
+  }
+
+  return changed ? patch : null;
+}
+
+/**
+ * 2つのドキュメントの差分を計算（変更なしの場合は null）
+ */
+export function diffDocuments(
+  before: VenueDocument,
+  after: VenueDocument,
+  label: string,
+  id: number,
+): HistoryEntry | null {
+  const entry: HistoryEntry = { id, label, timestamp: Date.now(), blocks: [] };
+
+  if (before.blocks !== after.blocks) {
+    const beforeMap = new Map(before.blocks.map(b => [b.id, b]));
+    const afterMap = new Map(after.blocks.map(b => [b.id, b]));
+
+    for (const block of after.blocks) {
+      const prev = beforeMap.get(block.id);
+      if (!prev) {
+        entry.blocks.push({ blockId: block.id, before: null, after: block });
+      } else if (prev !== block) {
+        const patch = diffBlock(prev, block);
+        if (patch) entry.blocks.push(patch);
+      }
+    }
+    for (const block of before.blocks) {
+      if (!afterMap.has(block.id)) {
+        entry.blocks.push({ blockId: block.id, before: block, after: null });
+      }
+    }
+
+    const beforeOrder = before.blocks.map(b => b.id);
+    const afterOrder = after.blocks.map(b => b.id);
+    if (beforeOrder.length !== afterOrder.length || beforeOrder.some((id, i) => id !== afterOrder[i])) {
+      entry.order = { before: beforeOrder, after: afterOrder };
+    }
+  }
+
+  const fields: NonNullable<HistoryEntry['fields']> = {};
+  let hasFields = false;
+  for (const key of Object.keys(after) as (keyof VenueDocument)[]) {
+    if (key === 'blocks') continue;
+    if (before[key] !== after[key]) {
+      (fields as Record<string, unknown>)[key] = { before: before[key], after: after[key] };
+      hasFields = true;
+    }
+  }
+  if (hasFields) entry.fields = fields;
+
+  if (entry.blocks.length === 0 && !entry.order && !hasFields) return null;
+  return entry;
+}
+
+function applyBlockPatch(block: SeatBlock, patch: BlockPatch, direction: 'undo' | 'redo'): SeatBlock {
+  const side = direction === 'undo' ? 'before' : 'after';
+  let next: SeatBlock = block;
+
+  if (patch.props) {
+    next = { ...next, ...patch.props[side] };
+  }
+  if (patch.seats) {
+    next = { ...next, seats: patch.seats[side] };
+  } else if (patch.seatChanges) {
+    const seats = [...next.seats];
+    for (const change of patch.seatChanges) {
+      seats[change.index] = change[side];
+    }
+    next = { ...next, seats };
+  }
+  return next;
+}
+
+/**
+ * 履歴エントリをドキュメントに適用（undo: 変更前へ / redo: 変更後へ）
+ */
+export function applyHistoryEntry(
+  doc: VenueDocument,
+  entry: HistoryEntry,
+  direction: 'undo' | 'redo',
+): VenueDocument {
+  const side = direction === 'undo' ? 'before' : 'after';
+  let next: VenueDocument = { ...doc };
+
+  if (entry.blocks.length > 0 || entry.order) {
+    const blockMap = new Map(doc.blocks.map(b => [b.id, b]));
+
+    for (const patch of entry.blocks) {
+      if (patch.before !== undefined || patch.after !== undefined) {
+        // 追加・削除
+        const target = patch[side];
+        if (target) blockMap.set(patch.blockId, target);
+        else blockMap.delete(patch.blockId);
+        continue;
+      }
+      const current = blockMap.get(patch.blockId);
+      if (current) blockMap.set(patch.blockId, applyBlockPatch(current, patch, direction));
+    }
+
+    const order = entry.order ? entry.order[side] : doc.blocks.map(b => b.id);
+    next.blocks = order
+      .map(id => blockMap.get(id))
+      .filter((b): b is SeatBlock => b !== undefined);
+  }
+
+  if (entry.fields) {
+    for (const [key, change] of Object.entries(entry.fields)) {
+      if (!change) continue;
+      (next as unknown as Record<string, unknown>)[key] = change[side];
+    }
+  }
+
+  return next;
+}
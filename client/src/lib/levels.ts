@@ -0,0 +1,57 @@
+/**
+ * Venue Map Editor - Levels
+ * Blueprint Technical Design System
+ *
+ * 会場の階（1F 平土間・2F・3F バルコニーなど）。ブロック・注釈は levelId で階に属し、
+ * levelId が未指定・存在しない階を指すものは最初の階に属するとみなす
+ */
+
+import { nanoid } from 'nanoid';
+import type { SeatBlock, VenueLevel } from '@/types/venue';
+
+export const DEFAULT_LEVEL_ID = 'level-1';
+
+export function createDefaultLevels(): VenueLevel[] {
+  return [{ id: DEFAULT_LEVEL_ID, name: '1F', weight: 0, backgroundImage: null }];
+}
+
+/**
+ * 次の階を作る（名前は「{階数}F」）
+ */
+export function createLevel(existing: VenueLevel[]): VenueLevel {
+  const names = new Set(existing.map(level => level.name));
+  let floor = existing.length + 1;
+  while (names.has(`${floor}F`)) floor++;
+  return { id: nanoid(8), name: `${floor}F`, weight: 0, backgroundImage: null };
+}
+
+/** ブロック・注釈が属する階のID */
+export function resolveLevelId(levelId: string | undefined, levels: VenueLevel[]): string {
+  return levelId && levels.some(level => level.id === levelId) ? levelId : levels[0]?.id ?? DEFAULT_LEVEL_ID;
+}
+
+export function isOnLevel(item: { levelId?: string }, levelId: string, levels: VenueLevel[]): boolean {
+  return resolveLevelId(item.levelId, levels) === levelId;
+}
+
+/** ブロックの属する階 */
+export function getBlockLevel(block: SeatBlock, levels: VenueLevel[]): VenueLevel | undefined {
+  const levelId = resolveLevelId(block.levelId, levels);
+  return levels.find(level => level.id === levelId);
+}
+
+/**
+ * 保存データの階を検証する（1つも無ければ null）
+ */
+export function normalizeLevels(levels: unknown): VenueLevel[] | null {
+  if (!Array.isArray(levels)) return null;
+  const valid = levels
+    .filter((level): level is VenueLevel => !!level && typeof level.id === 'string')
+    .map(level => ({
+      id: level.id,
+      name: typeof level.name === 'string' ? level.name : '',
+      weight: typeof level.weight === 'number' && Number.isFinite(level.weight) ? level.weight : 0,
+      backgroundImage: level.backgroundImage ?? null,
+    }));
+  return valid.length > 0 ? valid : null;
+}
@@ -0,0 +1,72 @@
+/**
+ * Venue Map Editor - PDF Floor Plans
+ * Blueprint Technical Design System
+ *
+ * pdf.js で PDF 図面のページを描画する（pdf.js は初めて PDF を開くときに読み込む）
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+type PdfJs = typeof import('pdfjs-dist');
+
+let pdfjsPromise: Promise<PdfJs> | null = null;
+
+function loadPdfJs(): Promise<PdfJs> {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist').then((pdfjs) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+      return pdfjs;
+    });
+  }
+  return pdfjsPromise;
+}
+
+// 同じ data URL の PDF は一度だけ解析する（ページ切り替え・ズームごとの再描画で使い回す）
+const documents = new Map<string, Promise<PDFDocumentProxy>>();
+
+function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function openPdf(src: string): Promise<PDFDocumentProxy> {
+  let doc = documents.get(src);
+  if (!doc) {
+    doc = loadPdfJs().then(pdfjs => pdfjs.getDocument({ data: dataUrlToBytes(src) }).promise);
+    doc.catch(() => documents.delete(src));
+    documents.set(src, doc);
+  }
+  return doc;
+}
+
+/**
+ * 各ページの原寸（1pt = 1px）
+ */
+export async function getPdfPageSizes(src: string): Promise<{ width: number; height: number }[]> {
+  const doc = await openPdf(src);
+  const sizes: { width: number; height: number }[] = [];
+  for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+    const page = await doc.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: 1 });
+    sizes.push({ width: viewport.width, height: viewport.height });
+  }
+  return sizes;
+}
+
+/**
+ * ページを resolution 倍の解像度でキャンバスに描画する（原寸 × resolution px）
+ */
+export async function renderPdfPage(src: string, pageNumber: number, resolution: number): Promise<HTMLCanvasElement> {
+  const doc = await openPdf(src);
+  const page = await doc.getPage(Math.min(Math.max(1, pageNumber), doc.numPages));
+  const viewport = page.getViewport({ scale: resolution });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvas, viewport }).promise;
+  return canvas;
+}
@@ -0,0 +1,285 @@
+/**
+ * Venue Map Editor - Print Export
+ * Blueprint Technical Design System
+ *
+ * 座席図の SVG（lib/svgExport.ts）を指定の DPI で描画し、PNG 1枚、または A4 / A3 の PDF にする。
+ * キャンバス座標の 1 は CSS の 1px（1/96 インチ）として扱う。大きな会場は横の枚数を指定してページに分割し、
+ * 隣のページと重ねる帯（のりしろ）の境目に破線、印刷範囲の四隅にトンボを入れる。
+ * PDF の背景図面は SVG に埋め込めないので、出力の解像度に合わせて画像にしてから渡す。
+ * jsPDF は初めて PDF を書き出すときに読み込む
+ */
+
+import {
+  createVenueSvg,
+  getBackgroundLevels,
+  getVenueSvgFrame,
+  type SvgExportInput,
+  type SvgExportOptions,
+  type SvgRegion,
+} from '@/lib/svgExport';
+import { getBackgroundResolution, loadImageElement, renderBackgroundBitmap } from '@/lib/background';
+
+export type PaperSize = 'a4' | 'a3';
+export type PaperOrientation = 'portrait' | 'landscape';
+
+// 用紙の大きさ（mm、縦向き）
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  a4: { width: 210, height: 297 },
+  a3: { width: 297, height: 420 },
+};
+
+export interface PdfLayoutOptions {
+  paper: PaperSize;
+  orientation: PaperOrientation;
+  pagesWide: number; // 横の枚数（縦の枚数は縦横比から決まる。1 なら1ページに収める）
+  marginMm: number;
+  overlapMm: number; // 隣のページと重ねて印刷する幅
+}
+
+export const DEFAULT_PDF_LAYOUT_OPTIONS: PdfLayoutOptions = {
+  paper: 'a4',
+  orientation: 'landscape',
+  pagesWide: 1,
+  marginMm: 10,
+  overlapMm: 10,
+};
+
+export interface PdfTile {
+  row: number;
+  col: number;
+  region: SvgRegion; // このページに印刷する範囲（キャンバス座標）
+}
+
+export interface PdfLayout {
+  pageWidth: number; // mm
+  pageHeight: number;
+  contentWidth: number; // 余白を除いた印刷範囲（mm）
+  contentHeight: number;
+  overlap: number; // のりしろ（mm。印刷範囲の半分まで）
+  columns: number;
+  rows: number;
+  mmPerUnit: number; // キャンバス座標 1 あたりの用紙上の mm
+  tiles: PdfTile[];
+}
+
+const CSS_DPI = 96;
+const MM_PER_INCH = 25.4;
+// ブラウザの canvas で安全に描ける大きさ
+const MAX_CANVAS_SIZE = 16384;
+const MAX_CANVAS_AREA = 64_000_000;
+
+const CROP_MARK_LENGTH = 5; // mm
+const CROP_MARK_OFFSET = 1.5;
+
+/**
+ * 用紙・横の枚数から縮尺とページ分割を決める
+ */
+export function getPdfLayout(frame: SvgRegion, options: PdfLayoutOptions): PdfLayout {
+  const paper = PAPER_SIZES[options.paper];
+  const [pageWidth, pageHeight] = options.orientation === 'portrait'
+    ? [paper.width, paper.height]
+    : [paper.height, paper.width];
+  const contentWidth = pageWidth - options.marginMm * 2;
+  const contentHeight = pageHeight - options.marginMm * 2;
+  const columns = Math.max(1, Math.round(options.pagesWide));
+  const overlap = Math.min(options.overlapMm, contentWidth / 2, contentHeight / 2);
+  const stepX = contentWidth - overlap;
+  const stepY = contentHeight - overlap;
+
+  // 横の枚数にちょうど収まる縮尺（1枚のときは縦もページに収める）
+  let mmPerUnit = (columns * stepX + overlap) / frame.width;
+  if (columns === 1) mmPerUnit = Math.min(mmPerUnit, contentHeight / frame.height);
+  const rows = Math.max(1, Math.ceil((frame.height * mmPerUnit - overlap) / stepY - 1e-6));
+
+  const tiles: PdfTile[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      tiles.push({
+        row,
+        col,
+        region: {
+          x: frame.x + (col * stepX) / mmPerUnit,
+          y: frame.y + (row * stepY) / mmPerUnit,
+          width: contentWidth / mmPerUnit,
+          height: contentHeight / mmPerUnit,
+        },
+      });
+    }
+  }
+  return { pageWidth, pageHeight, contentWidth, contentHeight, overlap, columns, rows, mmPerUnit, tiles };
+}
+
+/**
+ * PNG の出力サイズ（px）
+ */
+export function getPngSize(frame: SvgRegion, dpi: number): { width: number; height: number } {
+  const scale = dpi / CSS_DPI;
+  return { width: Math.ceil(frame.width * scale), height: Math.ceil(frame.height * scale) };
+}
+
+function assertCanvasSize(width: number, height: number) {
+  if (width > MAX_CANVAS_SIZE || height > MAX_CANVAS_SIZE || width * height > MAX_CANVAS_AREA) {
+    throw new Error(`画像が大きすぎます（${width}×${height}px）。DPI を下げるか、範囲を狭めてください`);
+  }
+}
+
+async function renderSvgToCanvas(svg: string, width: number, height: number): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const img = await loadImageElement(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+    ctx.drawImage(img, 0, 0, width, height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * 書き出す階の PDF 背景を画像（data URL）にして input に添える。pixelsPerUnit はキャンバス座標 1 あたりの出力 px
+ */
+export async function withRenderedBackgrounds(input: SvgExportInput, options: SvgExportOptions, pixelsPerUnit: number): Promise<SvgExportInput> {
+  const backgroundHrefs = new Map(input.backgroundHrefs);
+  for (const level of getBackgroundLevels(input, options)) {
+    const image = level.backgroundImage;
+    if (!image || image.kind !== 'pdf' || backgroundHrefs.has(level.id)) continue;
+    const resolution = getBackgroundResolution(image, pixelsPerUnit * (image.scale ?? 1));
+    const bitmap = await renderBackgroundBitmap(image, resolution);
+    if (bitmap instanceof HTMLCanvasElement) backgroundHrefs.set(level.id, bitmap.toDataURL('image/png'));
+  }
+  return backgroundHrefs.size > 0 ? { ...input, backgroundHrefs } : input;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('画像を作成できませんでした'))), type);
+  });
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * PNG に解像度（pHYs チャンク）を書き込む。印刷時に指定の DPI の実寸で出るようにする
+ */
+async function withPngDpi(blob: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const IHDR_END = 8 + 25; // シグネチャ + IHDR チャンク
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // 単位: メートル
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  return new Blob([bytes.subarray(0, IHDR_END), chunk, bytes.subarray(IHDR_END)], { type: 'image/png' });
+}
+
+/**
+ * 座席図全体（範囲指定時はその範囲）を指定の DPI の PNG にする
+ */
+export async function createSeatMapPng(input: SvgExportInput, options: SvgExportOptions, dpi: number): Promise<Blob> {
+  const frame = getVenueSvgFrame(input, options);
+  const { width, height } = getPngSize(frame, dpi);
+  assertCanvasSize(width, height);
+  const pixelsPerUnit = dpi / CSS_DPI;
+  const svg = createVenueSvg(await withRenderedBackgrounds(input, options, pixelsPerUnit), options, { pixelsPerUnit });
+  const canvas = await renderSvgToCanvas(svg, width, height);
+  return withPngDpi(await canvasToBlob(canvas, 'image/png'), dpi);
+}
+
+type JsPdfDocument = InstanceType<typeof import('jspdf').jsPDF>;
+
+// トンボ（印刷範囲の四隅）と、のりしろの境目の破線・ページ番号
+function drawPageMarks(pdf: JsPdfDocument, layout: PdfLayout, tile: PdfTile, options: PdfLayoutOptions) {
+  const { overlap } = layout;
+  const left = options.marginMm;
+  const top = options.marginMm;
+  const right = left + layout.contentWidth;
+  const bottom = top + layout.contentHeight;
+
+  pdf.setDrawColor(80);
+  pdf.setLineWidth(0.2);
+  pdf.setLineDashPattern([], 0);
+  for (const x of [left, right]) {
+    for (const y of [top, bottom]) {
+      const dx = x === left ? -1 : 1;
+      const dy = y === top ? -1 : 1;
+      pdf.line(x + dx * CROP_MARK_OFFSET, y, x + dx * (CROP_MARK_OFFSET + CROP_MARK_LENGTH), y);
+      pdf.line(x, y + dy * CROP_MARK_OFFSET, x, y + dy * (CROP_MARK_OFFSET + CROP_MARK_LENGTH));
+    }
+  }
+
+  if (layout.tiles.length === 1) return;
+
+  // 隣のページと重なる帯の内側の端（ここで貼り合わせる）
+  pdf.setDrawColor(160);
+  pdf.setLineDashPattern([2, 1.5], 0);
+  if (tile.col > 0) pdf.line(left + overlap, top, left + overlap, bottom);
+  if (tile.col < layout.columns - 1) pdf.line(right - overlap, top, right - overlap, bottom);
+  if (tile.row > 0) pdf.line(left, top + overlap, right, top + overlap);
+  if (tile.row < layout.rows - 1) pdf.line(left, bottom - overlap, right, bottom - overlap);
+  pdf.setLineDashPattern([], 0);
+
+  const page = tile.row * layout.columns + tile.col + 1;
+  pdf.setFontSize(8);
+  pdf.setTextColor(100);
+  pdf.text(
+    `Row ${tile.row + 1} / Col ${tile.col + 1}   (${page}/${layout.tiles.length})`,
+    right,
+    bottom + CROP_MARK_OFFSET + 4,
+    { align: 'right' },
+  );
+}
+
+/**
+ * 座席図を PDF にする（ページごとに指定の DPI で描画）
+ */
+export async function createSeatMapPdf(
+  input: SvgExportInput,
+  options: SvgExportOptions,
+  layoutOptions: PdfLayoutOptions,
+  dpi: number,
+  onProgress?: (done: number, total: number) => void,
+): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const layout = getPdfLayout(getVenueSvgFrame(input, options), layoutOptions);
+  const pixelsPerMm = dpi / MM_PER_INCH;
+  const width = Math.round(layout.contentWidth * pixelsPerMm);
+  const height = Math.round(layout.contentHeight * pixelsPerMm);
+  assertCanvasSize(width, height);
+
+  const pixelsPerUnit = pixelsPerMm * layout.mmPerUnit;
+  const pageInput = await withRenderedBackgrounds(input, options, pixelsPerUnit);
+
+  const pdf = new jsPDF({ orientation: layoutOptions.orientation, unit: 'mm', format: layoutOptions.paper });
+  for (let index = 0; index < layout.tiles.length; index++) {
+    const tile = layout.tiles[index];
+    if (index > 0) pdf.addPage(layoutOptions.paper, layoutOptions.orientation);
+    const svg = createVenueSvg(pageInput, options, { crop: tile.region, pixelsPerUnit });
+    const canvas = await renderSvgToCanvas(svg, width, height);
+    pdf.addImage(canvas, 'PNG', layoutOptions.marginMm, layoutOptions.marginMm, layout.contentWidth, layout.contentHeight, undefined, 'FAST');
+    drawPageMarks(pdf, layout, tile, layoutOptions);
+    onProgress?.(index + 1, layout.tiles.length);
+  }
+  return pdf.output('blob');
+}
@@ -0,0 +1,131 @@
+/**
+ * Venue Map Editor - Project File
+ * Blueprint Technical Design System
+ *
+ * 会場データ（VenueData）の zip 形式での保存・読込と、保存された抽選設定の検証。
+ * zip は venue.json と backgrounds/ 以下の背景ファイル（元の PNG / SVG / PDF のまま）で構成し、
+ * venue.json の背景の src にはファイルのパスを書く
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { downloadBlob, loadVenueData } from '@/lib/venueUtils';
+import { parseVenueData } from '@/lib/venueSchema';
+import type { BackgroundImage, LockedSeat, LotterySettings, SeatBlock, VenueData, VenueImportResult } from '@/types/venue';
+
+const PROJECT_JSON = 'venue.json';
+const BACKGROUND_DIR = 'backgrounds/';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'application/pdf': 'pdf',
+};
+
+const MIME_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(EXTENSIONS).map(([mime, ext]) => [ext, mime]),
+);
+
+function dataUrlToBytes(src: string): { mime: string; bytes: Uint8Array } | null {
+  const match = src.match(/^data:([^;,]+)(;base64)?,/);
+  if (!match) return null;
+  const body = src.slice(match[0].length);
+  if (!match[2]) return { mime: match[1], bytes: strToU8(decodeURIComponent(body)) };
+  const binary = atob(body);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { mime: match[1], bytes };
+}
+
+function bytesToDataUrl(bytes: Uint8Array, mime: string): string {
+  let binary = '';
+  // 大きな配列を一度に展開すると引数の上限を超えるので分割する
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return `data:${mime};base64,${btoa(binary)}`;
+}
+
+/**
+ * 会場データを zip にする（背景は data URL から元のファイルに戻して格納）
+ */
+export function createProjectZip(data: VenueData): Uint8Array {
+  const files: Record<string, Uint8Array> = {};
+  const extract = (image: BackgroundImage, name: string): BackgroundImage => {
+    const file = dataUrlToBytes(image.src);
+    if (!file) return image;
+    const path = `${BACKGROUND_DIR}${name}.${EXTENSIONS[file.mime] ?? 'bin'}`;
+    files[path] = file.bytes;
+    return { ...image, src: path };
+  };
+
+  const project: VenueData = {
+    ...data,
+    ...(data.levels ? { levels: data.levels.map(level => ({ ...level, backgroundImage: level.backgroundImage && extract(level.backgroundImage, level.id) })) } : {}),
+    ...(data.backgroundImage ? { backgroundImage: extract(data.backgroundImage, 'background') } : {}),
+  };
+  files[PROJECT_JSON] = strToU8(JSON.stringify(project, null, 2));
+  return zipSync(files);
+}
+
+/**
+ * zip の会場データを読み込む（背景ファイルは data URL に戻す。見つからない背景は外す）
+ */
+export function readProjectZip(bytes: Uint8Array): VenueImportResult {
+  const files = unzipSync(bytes);
+  const json = files[PROJECT_JSON];
+  if (!json) throw new Error(`${PROJECT_JSON} がありません`);
+  // 検証の前なので、背景は src が文字列のものだけ戻す（形式の検証は parseVenueData で行う）
+  const data = JSON.parse(strFromU8(json)) as Partial<VenueData>;
+
+  const restore = (image: BackgroundImage | null | undefined): BackgroundImage | null => {
+    if (!image || typeof image.src !== 'string') return null;
+    if (image.src.startsWith('data:')) return image;
+    const file = files[image.src];
+    if (!file) return null;
+    const ext = image.src.slice(image.src.lastIndexOf('.') + 1).toLowerCase();
+    return { ...image, src: bytesToDataUrl(file, MIME_TYPES[ext] ?? 'application/octet-stream') };
+  };
+
+  const backgroundImage = restore(data.backgroundImage);
+  return parseVenueData({
+    ...data,
+    ...(Array.isArray(data.levels) ? { levels: data.levels.map(level => ({ ...level, backgroundImage: restore(level?.backgroundImage) })) } : {}),
+    backgroundImage: backgroundImage ?? undefined,
+  });
+}
+
+export function downloadProjectZip(data: VenueData, filename: string): void {
+  downloadBlob(new Blob([createProjectZip(data)], { type: 'application/zip' }), filename);
+}
+
+/**
+ * 会場データのファイル（.json / .zip）を読み込み、移行・検証した結果を返す
+ */
+export async function loadProjectFile(file: File): Promise<VenueImportResult> {
+  if (file.name.toLowerCase().endsWith('.zip')) {
+    return readProjectZip(new Uint8Array(await file.arrayBuffer()));
+  }
+  return loadVenueData(file);
+}
+
+/**
+ * 保存データの抽選設定を検証する（関係者の固定席は、読み込んだブロックに座席が残っているものだけ）
+ */
+export function normalizeLotterySettings(lottery: unknown, blocks: SeatBlock[]): LotterySettings | null {
+  if (!lottery || typeof lottery !== 'object') return null;
+  const { skillWeight, lockedSeats } = lottery as Partial<LotterySettings>;
+  if (typeof skillWeight !== 'number' || !Number.isFinite(skillWeight)) return null;
+
+  const seatIds = new Set(blocks.flatMap(block => block.seats.map(seat => seat.id)));
+  const validLocks = (Array.isArray(lockedSeats) ? lockedSeats : []).filter((locked): locked is LockedSeat =>
+    !!locked
+    && typeof locked.customerId === 'string'
+    && typeof locked.seatId === 'string'
+    && Array.isArray(locked.seatIds)
+    && locked.seatIds.length > 0
+    && locked.seatIds.every(id => seatIds.has(id)),
+  );
+  return { skillWeight: Math.min(1, Math.max(0, skillWeight)), lockedSeats: validLocks };
+}
@@ -0,0 +1,64 @@
+/**
+ * Venue Map Editor - Seat Categories
+ * Blueprint Technical Design System
+ *
+ * 座席カテゴリ（S席・A席・BOX席など）の既定値と、旧形式（isPremium）からの移行
+ */
+
+import { nanoid } from 'nanoid';
+import type { SeatBlock, SeatCategory, LegacySeat } from '@/types/venue';
+
+/** プレミアム設定モードで塗るカテゴリ（削除不可） */
+export const PREMIUM_CATEGORY_ID = 'premium';
+
+export const PREMIUM_CATEGORY: SeatCategory = {
+  id: PREMIUM_CATEGORY_ID,
+  name: 'プレミアム',
+  color: '#d69e2e',
+  price: 0,
+  weight: 1000,
+};
+
+export const DEFAULT_SEAT_CATEGORIES: SeatCategory[] = [PREMIUM_CATEGORY];
+
+// 新規カテゴリに順番に割り当てる色
+const CATEGORY_COLORS = ['#e53e3e', '#3182ce', '#38a169', '#805ad5', '#dd6b20', '#d53f8c', '#319795'];
+
+/**
+ * 新しいカテゴリを作成（名前・色は既存カテゴリ数から自動で決める）
+ */
+export function createSeatCategory(existing: SeatCategory[]): SeatCategory {
+  return {
+    id: nanoid(8),
+    name: `カテゴリ${existing.length + 1}`,
+    color: CATEGORY_COLORS[existing.length % CATEGORY_COLORS.length],
+    price: 0,
+    weight: 0,
+  };
+}
+
+/**
+ * 旧形式の会場データを移行: isPremium=true の席はプレミアムカテゴリに置き換える
+ * （プレミアム設定モード用にプレミアムカテゴリは常に存在させる）
+ */
+export function migrateSeatCategories(
+  blocks: SeatBlock[],
+  categories: SeatCategory[] | undefined,
+): { blocks: SeatBlock[]; categories: SeatCategory[] } {
+  const source = categories && categories.length > 0 ? categories : DEFAULT_SEAT_CATEGORIES;
+  const nextCategories = source.some(c => c.id === PREMIUM_CATEGORY_ID) ? source : [PREMIUM_CATEGORY, ...source];
+
+  const nextBlocks = blocks.map(block => ({
+    ...block,
+    seats: block.seats.map(seat => {
+      const { isPremium, ...rest } = seat as LegacySeat;
+      if (isPremium === undefined) return seat;
+      if (isPremium && !rest.categoryId) {
+        return { ...rest, categoryId: PREMIUM_CATEGORY_ID };
+      }
+      return rest;
+    }),
+  }));
+
+  return { blocks: nextBlocks, categories: nextCategories };
+}
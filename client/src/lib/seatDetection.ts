@@ -0,0 +1,365 @@
+/**
+ * Venue Map Editor - Seat Detection
+ * Blueprint Technical Design System
+ *
+ * 背景の座席表から座席らしい印（丸・四角などの小さな塊）を見つけ、行にまとめて座席ブロックの候補を作る。
+ * 解析はブラウザ内のキャンバスで行い、外部サービスには送らない。
+ * 行は図面の横方向に並んだ直線として扱い、1行に満たない小さな集まりはばら席の候補にする
+ */
+
+import { nanoid } from 'nanoid';
+import { generateSeats, getRowLayoutCols, createLooseBlock, createLooseSeat, buildLooseNeighbors } from '@/lib/venueUtils';
+import { getBackgroundTransform, renderBackgroundBitmap } from '@/lib/background';
+import type { BackgroundImage, BackgroundTransform, RowLayout, SeatBlock, SeatDetectionOptions } from '@/types/venue';
+
+export const DEFAULT_SEAT_DETECTION_OPTIONS: SeatDetectionOptions = {
+  threshold: null,
+  invert: false,
+  minSize: 4,
+  maxSize: 40,
+};
+
+/** 解析に使うビットマップの一辺の上限（px） */
+const ANALYSIS_MAX_SIZE = 2048;
+
+/** 印とみなす塊の条件: 縦横比の上限・外接矩形に対する塗りの割合の下限（枠だけの丸・四角も拾う） */
+const MAX_MARK_ASPECT = 2;
+const MIN_MARK_FILL = 0.2;
+
+/** 大きさが中央値からこの倍率の範囲の印だけを残す（文字や記号を除く） */
+const MARK_SIZE_TOLERANCE = [0.6, 1.6] as const;
+
+/** ピッチのこの倍率を超える隙間で行を分ける（通路・ブロックの切れ目） */
+const SEGMENT_GAP_RATIO = 1.6;
+
+/** グリッドの候補にする最小の席数（これ未満の行だけの集まりはばら席にまとめる） */
+const MIN_GRID_SEATS = 3;
+
+/** 見つかった印（背景の原寸座標での中心と大きさ） */
+export interface SeatMark {
+  x: number;
+  y: number;
+  size: number;
+}
+
+/** 1行のうち隙間なく並んだ印の並び */
+interface RowSegment {
+  row: number;
+  y: number;
+  start: number; // 先頭・末尾の印の中心 x
+  end: number;
+  marks: SeatMark[];
+}
+
+export interface SeatDetectionResult {
+  suggestions: SeatBlock[]; // キャンバス座標に配置済みの候補（名前・階は追加時に決める）
+  markCount: number;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * 大津の方法で二値化のしきい値を求める
+ */
+function getOtsuThreshold(histogram: Uint32Array, total: number): number {
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+  let sumBelow = 0;
+  let weightBelow = 0;
+  let best = -1;
+  let threshold = 128;
+  for (let i = 0; i < 256; i++) {
+    weightBelow += histogram[i];
+    if (weightBelow === 0) continue;
+    const weightAbove = total - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += i * histogram[i];
+    const diff = sumBelow / weightBelow - (sum - sumBelow) / weightAbove;
+    const between = weightBelow * weightAbove * diff * diff;
+    if (between > best) {
+      best = between;
+      threshold = i;
+    }
+  }
+  return threshold;
+}
+
+/**
+ * 背景から座席らしい印を見つける（座標・大きさは背景の原寸 px）
+ */
+export async function detectSeatMarks(image: BackgroundImage, options: SeatDetectionOptions): Promise<SeatMark[]> {
+  const resolution = Math.min(2, ANALYSIS_MAX_SIZE / Math.max(image.width, image.height, 1));
+  const source = await renderBackgroundBitmap(image, resolution);
+  const width = Math.max(1, Math.round(image.width * resolution));
+  const height = Math.max(1, Math.round(image.height * resolution));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('キャンバスを利用できません');
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  // 輝度（透明な部分は地の色として扱う）
+  const total = width * height;
+  const luminance = new Uint8Array(total);
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < total; i++) {
+    const o = i * 4;
+    const value = data[o + 3] < 128
+      ? (options.invert ? 0 : 255)
+      : Math.round(0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2]);
+    luminance[i] = value;
+    histogram[value]++;
+  }
+  const threshold = options.threshold ?? getOtsuThreshold(histogram, total);
+  const mask = new Uint8Array(total);
+  for (let i = 0; i < total; i++) {
+    mask[i] = (options.invert ? luminance[i] > threshold : luminance[i] <= threshold) ? 1 : 0;
+  }
+
+  // 4近傍の連結成分（塗りつぶしで訪問済みの画素は mask から消す）
+  const minPx = options.minSize * resolution;
+  const maxPx = options.maxSize * resolution;
+  const stack = new Int32Array(total);
+  const marks: SeatMark[] = [];
+  for (let start = 0; start < total; start++) {
+    if (!mask[start]) continue;
+    mask[start] = 0;
+    let top = 0;
+    stack[top++] = start;
+    let count = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let minX = width;
+    let minY = height;
+    let maxX = 0;
+    let maxY = 0;
+    while (top > 0) {
+      const p = stack[--top];
+      const x = p % width;
+      const y = (p - x) / width;
+      count++;
+      sumX += x;
+      sumY += y;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      if (x > 0 && mask[p - 1]) { mask[p - 1] = 0; stack[top++] = p - 1; }
+      if (x < width - 1 && mask[p + 1]) { mask[p + 1] = 0; stack[top++] = p + 1; }
+      if (y > 0 && mask[p - width]) { mask[p - width] = 0; stack[top++] = p - width; }
+      if (y < height - 1 && mask[p + width]) { mask[p + width] = 0; stack[top++] = p + width; }
+    }
+    const w = maxX - minX + 1;
+    const h = maxY - minY + 1;
+    if (w < minPx || h < minPx || w > maxPx || h > maxPx) continue;
+    if (Math.max(w, h) / Math.min(w, h) > MAX_MARK_ASPECT) continue;
+    if (count / (w * h) < MIN_MARK_FILL) continue;
+    marks.push({
+      x: (sumX / count + 0.5) / resolution,
+      y: (sumY / count + 0.5) / resolution,
+      size: Math.max(w, h) / resolution,
+    });
+  }
+
+  const typical = median(marks.map(m => m.size));
+  return marks.filter(m => m.size >= typical * MARK_SIZE_TOLERANCE[0] && m.size <= typical * MARK_SIZE_TOLERANCE[1]);
+}
+
+/**
+ * 印を行（y がほぼ同じ並び）に分け、行内の大きな隙間で区切る。pitch は行内で隣り合う印の間隔の中央値
+ */
+function groupIntoSegments(marks: SeatMark[], size: number): { segments: RowSegment[]; pitch: number } {
+  const tolerance = size * 0.5;
+  const rows: SeatMark[][] = [];
+  let current: SeatMark[] = [];
+  let sumY = 0;
+  for (const mark of [...marks].sort((a, b) => a.y - b.y)) {
+    if (current.length > 0 && mark.y - sumY / current.length > tolerance) {
+      rows.push(current);
+      current = [];
+      sumY = 0;
+    }
+    current.push(mark);
+    sumY += mark.y;
+  }
+  if (current.length > 0) rows.push(current);
+  rows.forEach(row => row.sort((a, b) => a.x - b.x));
+
+  const gaps = rows.flatMap(row => row.slice(1).map((mark, i) => mark.x - row[i].x)).filter(gap => gap < size * 4);
+  const pitch = median(gaps) || size * 1.2;
+
+  const segments: RowSegment[] = [];
+  rows.forEach((row, rowIndex) => {
+    const y = row.reduce((sum, mark) => sum + mark.y, 0) / row.length;
+    let segment: SeatMark[] = [];
+    const flush = () => {
+      if (segment.length === 0) return;
+      segments.push({ row: rowIndex, y, start: segment[0].x, end: segment[segment.length - 1].x, marks: segment });
+      segment = [];
+    };
+    for (const mark of row) {
+      const last = segment[segment.length - 1];
+      if (last && mark.x - last.x > pitch * SEGMENT_GAP_RATIO) flush();
+      segment.push(mark);
+    }
+    flush();
+  });
+  return { segments, pitch };
+}
+
+function getSegmentPitch(segment: RowSegment): number | null {
+  if (segment.marks.length < 2) return null;
+  return (segment.end - segment.start) / (segment.marks.length - 1);
+}
+
+/**
+ * 前の行の並びと横方向に重なり、行間隔がそろっている並びを同じブロックにまとめる
+ */
+function clusterSegments(segments: RowSegment[], pitch: number): RowSegment[][] {
+  const clusters: RowSegment[][] = [];
+  let open: RowSegment[][] = [];
+  const rowCount = segments.reduce((max, segment) => Math.max(max, segment.row + 1), 0);
+
+  for (let row = 0; row < rowCount; row++) {
+    const next: RowSegment[][] = [];
+    for (const segment of segments.filter(s => s.row === row)) {
+      let best: RowSegment[] | null = null;
+      let bestOverlap = 0.5;
+      for (const cluster of open) {
+        if (next.includes(cluster)) continue;
+        const last = cluster[cluster.length - 1];
+        const dy = segment.y - last.y;
+        const rowPitch = cluster.length > 1 ? last.y - cluster[cluster.length - 2].y : null;
+        if (dy > (rowPitch ? rowPitch * 1.5 : pitch * 2.5)) continue;
+        const a = getSegmentPitch(segment);
+        const b = getSegmentPitch(last);
+        if (a && b && Math.max(a, b) / Math.min(a, b) > 1.25) continue;
+        const overlap = Math.min(segment.end, last.end) - Math.max(segment.start, last.start) + pitch;
+        const shorter = Math.min(segment.end - segment.start, last.end - last.start) + pitch;
+        if (overlap / shorter >= bestOverlap) {
+          best = cluster;
+          bestOverlap = overlap / shorter;
+        }
+      }
+      if (best) {
+        best.push(segment);
+        next.push(best);
+      } else {
+        const cluster = [segment];
+        clusters.push(cluster);
+        next.push(cluster);
+      }
+    }
+    open = next;
+  }
+  return clusters;
+}
+
+/**
+ * 背景の原寸座標の点をキャンバス座標にする（背景と同じく 拡大 → 回転 → 移動）
+ */
+function toCanvas(x: number, y: number, transform: BackgroundTransform): { x: number; y: number } {
+  const rad = (transform.rotation * Math.PI) / 180;
+  const sx = x * transform.scale;
+  const sy = y * transform.scale;
+  return {
+    x: transform.x + sx * Math.cos(rad) - sy * Math.sin(rad),
+    y: transform.y + sx * Math.sin(rad) + sy * Math.cos(rad),
+  };
+}
+
+function buildGridSuggestion(cluster: RowSegment[], fallbackPitch: number, markSize: number, transform: BackgroundTransform): SeatBlock {
+  const s = transform.scale;
+  const pitch = median(cluster.flatMap(segment => segment.marks.slice(1).map((mark, i) => mark.x - segment.marks[i].x))) || fallbackPitch;
+  const rowPitch = median(cluster.slice(1).map((segment, i) => segment.y - cluster[i].y)) || pitch;
+  const seatSize = Math.min(markSize, pitch * 0.9, rowPitch * 0.9);
+  const left = Math.min(...cluster.map(segment => segment.start));
+
+  const rowLayout: RowLayout[] = cluster.map(segment => ({
+    seats: Math.round((segment.end - segment.start) / pitch) + 1,
+    offset: Math.round(((segment.start - left) / pitch) * 2) / 2,
+  }));
+  const rectangular = rowLayout.every(r => r.offset === 0 && r.seats === rowLayout[0].seats);
+  const cols = rectangular ? rowLayout[0].seats : getRowLayoutCols(rowLayout);
+
+  const size = round1(seatSize * s);
+  const seatGap = round1((pitch - seatSize) * s);
+  const rowGap = round1((rowPitch - seatSize) * s);
+  const origin = toCanvas(left - seatSize / 2, cluster[0].y - seatSize / 2, transform);
+  const layout = rectangular ? undefined : rowLayout;
+  return {
+    id: nanoid(8),
+    name: '',
+    x: origin.x,
+    y: origin.y,
+    rotation: transform.rotation,
+    scaleX: 1,
+    scaleY: 1,
+    rows: cluster.length,
+    cols,
+    seatSize: size,
+    seatGap,
+    ...(rowGap !== seatGap ? { rowGap } : {}),
+    skewX: 0,
+    staggerX: 0,
+    curveRadius: 0,
+    ...(layout ? { rowLayout: layout } : {}),
+    seats: generateSeats(cluster.length, cols, size, seatGap, 0, 0, 0, layout, undefined, rowGap),
+  };
+}
+
+function buildLooseSuggestion(marks: SeatMark[], pitch: number, markSize: number, transform: BackgroundTransform): SeatBlock {
+  const s = transform.scale;
+  const half = markSize / 2;
+  const left = Math.min(...marks.map(m => m.x)) - half;
+  const top = Math.min(...marks.map(m => m.y)) - half;
+  const origin = toCanvas(left, top, transform);
+  let block: SeatBlock = {
+    ...createLooseBlock('', origin.x, origin.y),
+    rotation: transform.rotation,
+    seatSize: round1(markSize * s),
+    seatGap: round1(Math.max(0, pitch - markSize) * s),
+  };
+  for (const mark of [...marks].sort((a, b) => a.y - b.y || a.x - b.x)) {
+    const seat = createLooseSeat(block, (mark.x - half - left) * s, (mark.y - half - top) * s);
+    block = { ...block, seats: [...block.seats, seat] };
+  }
+  const neighbors = buildLooseNeighbors(block);
+  return { ...block, seats: block.seats.map(seat => ({ ...seat, neighbors: neighbors.get(seat.id) ?? [] })) };
+}
+
+/**
+ * 背景の座席表から座席ブロックの候補を作る（キャンバス上の背景の配置に合わせて置く）
+ */
+export async function detectSeatSuggestions(image: BackgroundImage, options: SeatDetectionOptions): Promise<SeatDetectionResult> {
+  const marks = await detectSeatMarks(image, options);
+  if (marks.length === 0) return { suggestions: [], markCount: 0 };
+
+  const transform = getBackgroundTransform(image);
+  const markSize = median(marks.map(m => m.size));
+  const { segments, pitch } = groupIntoSegments(marks, markSize);
+
+  const suggestions: SeatBlock[] = [];
+  const looseMarks: SeatMark[] = [];
+  for (const cluster of clusterSegments(segments, pitch)) {
+    const seatCount = cluster.reduce((sum, segment) => sum + segment.marks.length, 0);
+    const widest = Math.max(...cluster.map(segment => segment.marks.length));
+    if (seatCount < MIN_GRID_SEATS || widest < 2) {
+      looseMarks.push(...cluster.flatMap(segment => segment.marks));
+    } else {
+      suggestions.push(buildGridSuggestion(cluster, pitch, markSize, transform));
+    }
+  }
+  if (looseMarks.length > 0) suggestions.push(buildLooseSuggestion(looseMarks, pitch, markSize, transform));
+
+  return { suggestions, markCount: marks.length };
+}
@@ -0,0 +1,202 @@
+/**
+ * Venue Map Editor - Seat Inventory CSV
+ * Blueprint Technical Design System
+ *
+ * チケット販売システム向けに、1行1席のフラットな座席一覧を CSV で書き出す。
+ * 座標は抽選（useLottery の runLottery）と同じくブロックの回転・拡大縮小を反映したキャンバス座標。
+ * 読み込みは座席ラベル（なければ座席ID）で照合し、使用不可・プレミアムのフラグだけをまとめて更新する。
+ * 空欄のセルや列のないフラグは変更しないので、販売済み・使用不可の席だけを並べた表もそのまま戻せる
+ */
+
+import type { SeatBlock, SeatCategory, SeatFlagUpdate, SeatInventoryImport, VenueLevel } from '@/types/venue';
+import { downloadBlob, localToCanvasCoords } from '@/lib/venueUtils';
+import { getRowLabel, getSeatLabel, getSeatNumberText } from '@/lib/seatNumbering';
+import { PREMIUM_CATEGORY_ID } from '@/lib/seatCategories';
+
+export const SEAT_INVENTORY_HEADERS = ['座席ID', 'ラベル', 'ブロック', '行', '席番号', 'X', 'Y', 'カテゴリ', '使用不可', 'プレミアム'];
+
+// 読み込み時に受け付ける列名（正規化後: 小文字・空白と _ を除去）
+const COLUMN_ALIASES = {
+  label: ['ラベル', '座席ラベル', 'label', 'seatlabel'],
+  seatId: ['座席id', 'id', 'seatid'],
+  disabled: ['使用不可', '無効', 'disabled', 'isdisabled', 'killed'],
+  premium: ['プレミアム', 'premium', 'ispremium'],
+};
+
+const TRUE_VALUES = ['1', 'true', 'yes', 'y', 'on', '○', '◯', '✓', 'はい'];
+const FALSE_VALUES = ['0', 'false', 'no', 'n', 'off', '-', 'いいえ'];
+
+// 表計算ソフトで編集された値の全角・半角と前後の空白をそろえる
+function normalize(value: string): string {
+  return value.normalize('NFKC').trim();
+}
+
+function normalizeHeader(value: string): string {
+  return normalize(value).toLowerCase().replace(/[\s_]/g, '');
+}
+
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// RFC 4180 形式の CSV をセルの配列にする（クォート内の改行・カンマ・"" に対応）
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value.trim()));
+}
+
+function parseFlag(value: string | undefined): boolean | undefined | null {
+  const normalized = normalize(value ?? '').toLowerCase();
+  if (!normalized) return undefined;
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return null;
+}
+
+/**
+ * 座席一覧の CSV（1行1席、BOM なし）
+ */
+export function createSeatInventoryCsv(blocks: SeatBlock[], categories: SeatCategory[], levels: VenueLevel[] = []): string {
+  const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+  const lines = [SEAT_INVENTORY_HEADERS.join(',')];
+  for (const block of blocks) {
+    for (const seat of block.seats) {
+      const { x, y } = localToCanvasCoords(seat.localX, seat.localY, block);
+      const cells = [
+        seat.id,
+        getSeatLabel(block, seat, levels),
+        block.name,
+        block.kind === 'loose' ? '' : getRowLabel(block, seat.row),
+        getSeatNumberText(block, seat),
+        x.toFixed(2),
+        y.toFixed(2),
+        seat.categoryId ? categoryNames.get(seat.categoryId) ?? '' : '',
+        seat.isDisabled ? '1' : '0',
+        seat.categoryId === PREMIUM_CATEGORY_ID ? '1' : '0',
+      ];
+      lines.push(cells.map(escapeCsvCell).join(','));
+    }
+  }
+  return lines.join('\r\n');
+}
+
+/**
+ * 座席一覧の CSV をダウンロード（Excel で文字化けしないよう BOM 付き）
+ */
+export function downloadSeatInventoryCsv(csv: string, filename: string = 'seat-inventory.csv'): void {
+  downloadBlob(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }), filename);
+}
+
+/**
+ * 座席一覧の CSV を現在のブロックと照合し、更新するフラグを求める（ブロックは変更しない）
+ */
+export function parseSeatInventoryCsv(text: string, blocks: SeatBlock[], levels: VenueLevel[] = []): SeatInventoryImport {
+  const [headerRow, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!headerRow) throw new Error('CSVファイルが空です');
+
+  const headers = headerRow.map(normalizeHeader);
+  const findColumn = (aliases: string[]) => headers.findIndex(header => aliases.includes(header));
+  const labelIndex = findColumn(COLUMN_ALIASES.label);
+  const seatIdIndex = findColumn(COLUMN_ALIASES.seatId);
+  const disabledIndex = findColumn(COLUMN_ALIASES.disabled);
+  const premiumIndex = findColumn(COLUMN_ALIASES.premium);
+  if (labelIndex === -1 && seatIdIndex === -1) {
+    throw new Error('CSVに「ラベル」または「座席ID」列がありません');
+  }
+  if (disabledIndex === -1 && premiumIndex === -1) {
+    throw new Error('CSVに「使用不可」または「プレミアム」列がありません');
+  }
+
+  const seatIds = new Set<string>();
+  const seatsByLabel = new Map<string, string[]>();
+  for (const block of blocks) {
+    for (const seat of block.seats) {
+      seatIds.add(seat.id);
+      const label = normalize(getSeatLabel(block, seat, levels));
+      seatsByLabel.set(label, [...(seatsByLabel.get(label) ?? []), seat.id]);
+    }
+  }
+
+  // 同じ座席が複数行にあれば後の行を優先する
+  const updates = new Map<string, SeatFlagUpdate>();
+  const unmatched: string[] = [];
+  const ambiguous: string[] = [];
+  const invalidRows: string[] = [];
+
+  rows.forEach((row, index) => {
+    const rowName = `${index + 1}件目`;
+    const label = labelIndex >= 0 ? normalize(row[labelIndex] ?? '') : '';
+    const seatId = seatIdIndex >= 0 ? normalize(row[seatIdIndex] ?? '') : '';
+
+    let matchedId: string | undefined;
+    if (label) {
+      const matches = seatsByLabel.get(label) ?? [];
+      // 同じラベルの席が複数あれば座席IDで区別する
+      matchedId = matches.length > 1 ? matches.find(id => id === seatId) : matches[0];
+      if (!matchedId && matches.length > 1) {
+        ambiguous.push(label);
+        return;
+      }
+    }
+    if (!matchedId && seatId && seatIds.has(seatId)) matchedId = seatId;
+    if (!matchedId) {
+      unmatched.push(label || seatId || rowName);
+      return;
+    }
+
+    const isDisabled = disabledIndex >= 0 ? parseFlag(row[disabledIndex]) : undefined;
+    const isPremium = premiumIndex >= 0 ? parseFlag(row[premiumIndex]) : undefined;
+    if (isDisabled === null || isPremium === null) {
+      invalidRows.push(`${rowName}（${label || seatId}）`);
+      return;
+    }
+    if (isDisabled === undefined && isPremium === undefined) return;
+
+    const update = updates.get(matchedId) ?? { seatId: matchedId };
+    if (isDisabled !== undefined) update.isDisabled = isDisabled;
+    if (isPremium !== undefined) update.isPremium = isPremium;
+    updates.set(matchedId, update);
+  });
+
+  return {
+    updates: Array.from(updates.values()),
+    rowCount: rows.length,
+    unmatched,
+    ambiguous: Array.from(new Set(ambiguous)),
+    invalidRows,
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Venue Map Editor - Seat Numbering
+ * Blueprint Technical Design System
+ *
+ * 座席ラベル（"A-C-12" など）はすべてここで生成する。
+ * キャンバス表示・ツールチップ・当選者CSV・会場データのエクスポートはこのモジュールを経由すること。
+ */
+
+import type { Seat, SeatBlock, SeatNumbering, VenueLevel } from '@/types/venue';
+import { getBlockLevel } from '@/lib/levels';
+
+export const DEFAULT_SEAT_NUMBERING: SeatNumbering = {
+  rowLabel: 'number',
+  colDirection: 'ltr',
+  rowStart: 1,
+  colStart: 1,
+  oddEven: 'all',
+};
+
+// 数字と紛らわしい I・O を除いた行記号
+const ROW_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+export function getBlockNumbering(block: SeatBlock): SeatNumbering {
+  return block.numbering ?? DEFAULT_SEAT_NUMBERING;
+}
+
+/**
+ * 行番号（1始まり）を記号化: 1→A … 24→Z, 25→AA, 26→BB …
+ */
+export function formatRowLetter(index: number): string {
+  const i = Math.max(1, Math.floor(index)) - 1;
+  const letter = ROW_LETTERS[i % ROW_LETTERS.length];
+  return letter.repeat(Math.floor(i / ROW_LETTERS.length) + 1);
+}
+
+/**
+ * 行の表示ラベル
+ */
+export function getRowLabel(block: SeatBlock, row: number): string {
+  const numbering = getBlockNumbering(block);
+  const index = numbering.rowStart + row;
+  return numbering.rowLabel === 'letter' ? formatRowLetter(index) : String(index);
+}
+
+/**
+ * 席番号（行内の並び順・方向・開始番号・奇数偶数を反映）
+ */
+export function getSeatNumber(block: SeatBlock, seat: Seat): number {
+  const numbering = getBlockNumbering(block);
+  const rowSeats = block.rowLayout ? block.rowLayout[seat.row]?.seats ?? block.cols : block.cols;
+  const position = numbering.colDirection === 'rtl' ? rowSeats - 1 - seat.col : seat.col;
+
+  if (numbering.oddEven === 'all') return numbering.colStart + position;
+
+  // 奇数・偶数番号: 開始番号を偶奇に合わせて切り上げ、2飛びで振る
+  const wantOdd = numbering.oddEven === 'odd';
+  const isOdd = Math.abs(numbering.colStart) % 2 === 1;
+  const start = isOdd === wantOdd ? numbering.colStart : numbering.colStart + 1;
+  return start + position * 2;
+}
+
+/**
+ * 席番号の表示文字列（ばら席は個別の席番号。未指定なら追加順に開始番号から連番）
+ */
+export function getSeatNumberText(block: SeatBlock, seat: Seat): string {
+  if (block.kind === 'loose') {
+    if (seat.number) return seat.number;
+    const rank = block.seats.filter((s) => s.col < seat.col).length;
+    return String(getBlockNumbering(block).colStart + rank);
+  }
+  return String(getSeatNumber(block, seat));
+}
+
+/**
+ * ラベルの接頭辞（未指定ならブロック名）
+ */
+export function getBlockLabelPrefix(block: SeatBlock): string {
+  return getBlockNumbering(block).prefix ?? block.name;
+}
+
+/**
+ * 座席ラベル: "{接頭辞}-{行}-{席番号}"（接頭辞が空なら "{行}-{席番号}"、ばら席は行なしの "{接頭辞}-{席番号}"）
+ * 複数階の会場では先頭に階名を付ける（"2F A-1-5"）
+ */
+export function getSeatLabel(block: SeatBlock, seat: Seat, levels: VenueLevel[] = []): string {
+  const prefix = getBlockLabelPrefix(block);
+  const body = block.kind === 'loose'
+    ? getSeatNumberText(block, seat)
+    : `${getRowLabel(block, seat.row)}-${getSeatNumber(block, seat)}`;
+  const label = prefix ? `${prefix}-${body}` : body;
+  const levelName = levels.length > 1 ? getBlockLevel(block, levels)?.name : undefined;
+  return levelName ? `${levelName} ${label}` : label;
+}
+
+/**
+ * 座席IDからラベルを検索（見つからなければIDをそのまま返す）
+ */
+export function findSeatLabel(blocks: SeatBlock[], seatId: string, levels: VenueLevel[] = []): string {
+  for (const block of blocks) {
+    const seat = block.seats.find((s) => s.id === seatId);
+    if (seat) return getSeatLabel(block, seat, levels);
+  }
+  return seatId;
+}
+
+/**
+ * エクスポート用: 各座席に現在のラベルを付与したブロック配列
+ */
+export function withSeatLabels(blocks: SeatBlock[], levels: VenueLevel[] = []): SeatBlock[] {
+  return blocks.map((block) => ({
+    ...block,
+    seats: block.seats.map((seat) => ({ ...seat, label: getSeatLabel(block, seat, levels) })),
+  }));
+}
+
+/**
+ * インポート用: エクスポート時に付与したラベルを取り除く（ラベルは常に numbering から算出する）
+ */
+export function stripSeatLabels(blocks: SeatBlock[]): SeatBlock[] {
+  return blocks.map((block) => ({
+    ...block,
+    seats: block.seats.map(({ label: _label, ...seat }) => seat),
+  }));
+}
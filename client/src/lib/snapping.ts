@@ -0,0 +1,147 @@
+/**
+ * Venue Map Editor - Snapping
+ * Blueprint Technical Design System
+ *
+ * ブロックのドラッグ・回転時の吸着（グリッド / 他ブロックの端・中心 / 回転角の刻み）
+ */
+
+import type { SnapSettings } from '@/types/venue';
+
+/** キャンバスに描画するグリッド線の間隔（px） */
+export const GRID_SIZE = 50;
+
+/** 吸着する距離（スクリーンpx。ズーム倍率で割ってキャンバス座標にする） */
+export const SNAP_THRESHOLD = 8;
+
+/** 回転の吸着範囲（度） */
+export const ROTATION_SNAP_TOLERANCE = 5;
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  grid: false,
+  gridSize: GRID_SIZE,
+  objects: true,
+  rotation: true,
+  rotationStep: 15,
+};
+
+/** キャンバス座標の外接矩形 */
+export interface SnapBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/** ドラッグ中に表示するガイド線（vertical: x=position の縦線、horizontal: y=position の横線） */
+export interface SnapGuide {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * 保存データのスナップ設定を既定値で補完する
+ */
+export function normalizeSnapSettings(settings?: Partial<SnapSettings>): SnapSettings {
+  const merged = { ...DEFAULT_SNAP_SETTINGS, ...settings };
+  return {
+    ...merged,
+    gridSize: merged.gridSize > 0 ? merged.gridSize : DEFAULT_SNAP_SETTINGS.gridSize,
+    rotationStep: merged.rotationStep > 0 ? merged.rotationStep : DEFAULT_SNAP_SETTINGS.rotationStep,
+  };
+}
+
+/** 1軸ぶんの吸着: 最も近い候補への移動量と、揃った相手の範囲 */
+function snapAxis(
+  edges: number[],
+  targets: SnapBounds[],
+  axis: 'x' | 'y',
+  threshold: number,
+): { delta: number; position: number; matches: SnapBounds[] } | null {
+  let best: { delta: number; position: number } | null = null;
+  for (const target of targets) {
+    const candidates = axis === 'x'
+      ? [target.minX, (target.minX + target.maxX) / 2, target.maxX]
+      : [target.minY, (target.minY + target.maxY) / 2, target.maxY];
+    for (const candidate of candidates) {
+      for (const edge of edges) {
+        const delta = candidate - edge;
+        if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+          best = { delta, position: candidate };
+        }
+      }
+    }
+  }
+  if (!best) return null;
+
+  // 同じ位置に揃っている相手すべてをガイド線の範囲に含める
+  const position = best.position;
+  const matches = targets.filter(target => {
+    const candidates = axis === 'x'
+      ? [target.minX, (target.minX + target.maxX) / 2, target.maxX]
+      : [target.minY, (target.minY + target.maxY) / 2, target.maxY];
+    return candidates.some(c => Math.abs(c - position) < 0.5);
+  });
+  return { ...best, matches };
+}
+
+/**
+ * ドラッグ中のブロック（群）の外接矩形を吸着させる移動量を求める
+ * 他ブロックの端・中心への吸着を優先し、揃わない軸はグリッドに吸着する
+ */
+export function snapBounds(
+  bounds: SnapBounds,
+  targets: SnapBounds[],
+  settings: SnapSettings,
+  threshold: number,
+): { dx: number; dy: number; guides: SnapGuide[] } {
+  const guides: SnapGuide[] = [];
+  let dx = 0;
+  let dy = 0;
+
+  const xSnap = settings.objects
+    ? snapAxis([bounds.minX, (bounds.minX + bounds.maxX) / 2, bounds.maxX], targets, 'x', threshold)
+    : null;
+  const ySnap = settings.objects
+    ? snapAxis([bounds.minY, (bounds.minY + bounds.maxY) / 2, bounds.maxY], targets, 'y', threshold)
+    : null;
+
+  if (xSnap) {
+    dx = xSnap.delta;
+  } else if (settings.grid) {
+    dx = Math.round(bounds.minX / settings.gridSize) * settings.gridSize - bounds.minX;
+  }
+  if (ySnap) {
+    dy = ySnap.delta;
+  } else if (settings.grid) {
+    dy = Math.round(bounds.minY / settings.gridSize) * settings.gridSize - bounds.minY;
+  }
+
+  // ガイド線は吸着後の位置で、揃った相手までの範囲に引く
+  if (xSnap) {
+    const spans = [bounds.minY + dy, bounds.maxY + dy, ...xSnap.matches.flatMap(t => [t.minY, t.maxY])];
+    guides.push({ orientation: 'vertical', position: xSnap.position, start: Math.min(...spans), end: Math.max(...spans) });
+  }
+  if (ySnap) {
+    const spans = [bounds.minX + dx, bounds.maxX + dx, ...ySnap.matches.flatMap(t => [t.minX, t.maxX])];
+    guides.push({ orientation: 'horizontal', position: ySnap.position, start: Math.min(...spans), end: Math.max(...spans) });
+  }
+
+  return { dx, dy, guides };
+}
+
+/**
+ * Transformer の回転吸着角度（rotationStep 刻み + 他ブロックの角度）
+ */
+export function getRotationSnaps(settings: SnapSettings, otherRotations: number[]): number[] {
+  if (!settings.rotation) return [];
+  const snaps = new Set<number>();
+  for (let angle = 0; angle < 360; angle += settings.rotationStep) {
+    snaps.add(angle);
+  }
+  for (const rotation of otherRotations) {
+    snaps.add(((rotation % 360) + 360) % 360);
+  }
+  return Array.from(snaps).sort((a, b) => a - b);
+}
@@ -0,0 +1,97 @@
+/**
+ * Venue Map Editor - Stage Shapes
+ * Blueprint Technical Design System
+ *
+ * ステージの外形（多角形）の生成と幾何計算。抽選の距離計算は core/lottery.ts の distanceToStages
+ */
+
+import { nanoid } from 'nanoid';
+import type { StagePreset, StageShape } from '@/types/venue';
+
+/** 既定のステージ中心（旧ステージマーカーの初期位置） */
+export const DEFAULT_STAGE_CENTER = { x: 500, y: 50 };
+
+const STAGE_WIDTH = 240;
+const STAGE_HEIGHT = 60;
+const THRUST_WIDTH = 60; // 張り出し部分の幅
+const THRUST_LENGTH = 120; // 張り出し部分の長さ（客席側 = 下方向）
+const ROUND_RADIUS = 80;
+const ROUND_SIDES = 24;
+
+export const STAGE_PRESET_LABELS: Record<StagePreset, string> = {
+  rect: '長方形',
+  thrust: '張り出し',
+  round: 'センター',
+};
+
+/**
+ * プリセットの形でステージを作る（cx, cy: 主舞台の中心）
+ */
+export function createStageShape(preset: StagePreset, name: string, cx: number, cy: number): StageShape {
+  const w = STAGE_WIDTH / 2;
+  const h = STAGE_HEIGHT / 2;
+  let offsets: number[];
+  if (preset === 'thrust') {
+    const t = THRUST_WIDTH / 2;
+    offsets = [-w, -h, w, -h, w, h, t, h, t, h + THRUST_LENGTH, -t, h + THRUST_LENGTH, -t, h, -w, h];
+  } else if (preset === 'round') {
+    offsets = [];
+    for (let i = 0; i < ROUND_SIDES; i++) {
+      const angle = (i / ROUND_SIDES) * Math.PI * 2;
+      offsets.push(Math.round(Math.cos(angle) * ROUND_RADIUS), Math.round(Math.sin(angle) * ROUND_RADIUS));
+    }
+  } else {
+    offsets = [-w, -h, w, -h, w, h, -w, h];
+  }
+  return {
+    id: nanoid(8),
+    name,
+    points: offsets.map((value, i) => value + (i % 2 === 0 ? cx : cy)),
+  };
+}
+
+export function createDefaultStages(): StageShape[] {
+  return [createStageShape('rect', 'ステージ', DEFAULT_STAGE_CENTER.x, DEFAULT_STAGE_CENTER.y)];
+}
+
+/** 頂点列の外接矩形の中心（ラベル位置など） */
+export function getOutlineCenter(points: number[]): { x: number; y: number } {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let i = 0; i < points.length; i += 2) {
+    minX = Math.min(minX, points[i]);
+    maxX = Math.max(maxX, points[i]);
+    minY = Math.min(minY, points[i + 1]);
+    maxY = Math.max(maxY, points[i + 1]);
+  }
+  return { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+}
+
+/**
+ * すべてのステージを合わせた外接矩形の中心（ステージ軸での反転などに使用）
+ */
+export function getStagesCenter(stages: StageShape[]): { x: number; y: number } {
+  const points = stages.flatMap(stage => stage.points);
+  return points.length > 0 ? getOutlineCenter(points) : DEFAULT_STAGE_CENTER;
+}
+
+export function translatePoints(points: number[], dx: number, dy: number): number[] {
+  return points.map((value, i) => value + (i % 2 === 0 ? dx : dy));
+}
+
+/**
+ * 保存データのステージを検証する（3頂点未満・数値以外の外形は除外、1つも残らなければ null）
+ */
+export function normalizeStages(stages: unknown): StageShape[] | null {
+  if (!Array.isArray(stages)) return null;
+  const valid = stages.filter((stage): stage is StageShape =>
+    !!stage
+    && typeof stage.id === 'string'
+    && Array.isArray(stage.points)
+    && stage.points.length >= 6
+    && stage.points.length % 2 === 0
+    && stage.points.every((value: unknown) => typeof value === 'number' && Number.isFinite(value)),
+  );
+  return valid.length > 0
+    ? valid.map(stage => ({ ...stage, name: typeof stage.name === 'string' ? stage.name : 'ステージ' }))
+    : null;
+}
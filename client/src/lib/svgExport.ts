@@ -0,0 +1,450 @@
+/**
+ * Venue Map Editor - SVG Export
+ * Blueprint Technical Design System
+ *
+ * 座席図をベクター（SVG 文字列）で書き出す。Konva のステージを使わず SeatBlock[] と注釈の形状だけから描くので、
+ * キャンバスを表示していなくても（ライブラリの会場・サーバー側でも）使える。
+ * 傾き・千鳥・扇形は座席の localX / localY に反映済みで、ブロックの移動・回転・拡大縮小は
+ * キャンバスと同じ順序（translate → rotate → scale）の transform で表す。文字は反転させずに回転だけ合わせる。
+ * 編集画面の色分け（category）では、キャンバスと同じく階の背景図面を一番下に描く。
+ * 印刷用の PNG / PDF（lib/printExport.ts）もこの SVG を指定の解像度で描画して作る
+ */
+
+import type { Annotation, BackgroundImage, SeatBlock, SeatCategory, StageShape, VenueLevel } from '@/types/venue';
+import { getBlockBounds, localToCanvasCoords, downloadBlob } from '@/lib/venueUtils';
+import { getRowLabel, getSeatNumberText } from '@/lib/seatNumbering';
+import { getOutlineCenter } from '@/lib/stage';
+import { isOnLevel } from '@/lib/levels';
+import { ANNOTATION_ICONS, getAnnotationFill } from '@/lib/annotations';
+import { getBackgroundTransform } from '@/lib/background';
+
+// seat colors: category = カテゴリ色（未設定は一般席の色）、state = 販売可 / 販売停止の2色、
+// assignment = 抽選の当選グループの色（seatColors）、blank = 書き込み用の白い座席
+export type SvgColorMode = 'category' | 'state' | 'assignment' | 'blank';
+
+// Canvas-coordinate rectangle (書き出す範囲・ページの切り出し)
+export interface SvgRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SvgExportOptions {
+  levelId: string | null; // 書き出す階（null=すべての階を重ねて書き出す）
+  colorBy: SvgColorMode;
+  rowLabels: boolean;
+  seatNumbers: boolean;
+  blockNames: boolean;
+  stage: boolean;
+  legend: boolean;
+  background: string | null; // 背景色（null=透明）
+  region: SvgRegion | null; // 書き出す範囲（null=座席・ステージ・注釈の全体）。凡例は範囲の下に置く
+}
+
+export interface SvgExportInput {
+  blocks: SeatBlock[];
+  categories: SeatCategory[];
+  stages: StageShape[];
+  levels: VenueLevel[];
+  annotations: Annotation[]; // 全階の注釈（書き出す階で絞り込む）
+  seatColors?: Map<string, string>; // assignment: 座席ID → 当選グループの色
+  backgroundHrefs?: Map<string, string>; // 階ID → 描画済みの背景（PDF の背景は画像にしてから渡す）
+}
+
+// Part of the frame to write and its output size (印刷のページ分割・解像度指定)
+export interface SvgView {
+  crop?: SvgRegion; // 未指定=全体（getVenueSvgFrame）
+  pixelsPerUnit?: number; // キャンバス座標 1 あたりの出力 px（width / height 属性。未指定=1）
+}
+
+export const DEFAULT_SVG_EXPORT_OPTIONS: SvgExportOptions = {
+  levelId: null,
+  colorBy: 'category',
+  rowLabels: true,
+  seatNumbers: true,
+  blockNames: true,
+  stage: true,
+  legend: true,
+  background: '#ffffff',
+  region: null,
+};
+
+// 印刷向けの明るい配色（キャンバスのダークテーマとは別）
+const COLORS = {
+  seat: '#cbd5e1',
+  seatStroke: '#64748b',
+  available: '#22c55e',
+  blank: '#ffffff',
+  blankStroke: '#334155',
+  vacant: '#ffffff',
+  disabled: '#e2e8f0',
+  disabledStroke: '#94a3b8',
+  xMark: '#ef4444',
+  stage: '#0f766e',
+  stageFill: '#ccfbf1',
+  text: '#1e293b',
+  subText: '#64748b',
+};
+
+const FONT_FAMILY = "'Helvetica Neue', Arial, 'Hiragino Sans', 'Noto Sans JP', sans-serif";
+const MARGIN = 40;
+const LEGEND_ROW_HEIGHT = 22;
+
+interface LegendItem {
+  label: string;
+  fill: string;
+  stroke: string;
+  count: number;
+  disabled?: boolean;
+}
+
+/** 座標を小数2桁に丸めた文字列 */
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function getSeatColors(seat: SeatBlock['seats'][number], colorBy: SvgColorMode, categoryMap: Map<string, SeatCategory>, seatColors?: Map<string, string>): { fill: string; stroke: string } {
+  if (seat.isDisabled) return { fill: COLORS.disabled, stroke: COLORS.disabledStroke };
+  if (colorBy === 'state') return { fill: COLORS.available, stroke: COLORS.seatStroke };
+  if (colorBy === 'blank') return { fill: COLORS.blank, stroke: COLORS.blankStroke };
+  if (colorBy === 'assignment') return { fill: seatColors?.get(seat.id) ?? COLORS.vacant, stroke: COLORS.seatStroke };
+  const category = seat.categoryId ? categoryMap.get(seat.categoryId) : undefined;
+  return category ? { fill: category.color, stroke: COLORS.seatStroke } : { fill: COLORS.seat, stroke: COLORS.seatStroke };
+}
+
+/** 回転だけを合わせたテキスト（ブロックの反転では文字を裏返さない） */
+function rotatedText(text: string, x: number, y: number, rotation: number, fontSize: number, anchor: 'start' | 'middle' | 'end', fill: string, weight?: 'bold'): string {
+  const transform = rotation ? ` transform="rotate(${num(rotation)} ${num(x)} ${num(y)})"` : '';
+  const fontWeight = weight ? ` font-weight="${weight}"` : '';
+  return `<text x="${num(x)}" y="${num(y)}" font-size="${num(fontSize)}" text-anchor="${anchor}" dominant-baseline="central" fill="${escapeXml(fill)}"${fontWeight}${transform}>${escapeXml(text)}</text>`;
+}
+
+function renderBlock(block: SeatBlock, options: SvgExportOptions, categoryMap: Map<string, SeatCategory>, seatColors?: Map<string, string>): { shapes: string; labels: string[] } {
+  const radius = block.seatSize / 2;
+  const transform = `translate(${num(block.x)} ${num(block.y)}) rotate(${num(block.rotation)}) scale(${num(block.scaleX)} ${num(block.scaleY)})`;
+  const seats = block.seats.map((seat) => {
+    const { fill, stroke } = getSeatColors(seat, options.colorBy, categoryMap, seatColors);
+    const cx = seat.localX + radius;
+    const cy = seat.localY + radius;
+    const circle = `<circle cx="${num(cx)}" cy="${num(cy)}" r="${num(radius)}" fill="${escapeXml(fill)}" stroke="${escapeXml(stroke)}" stroke-width="1"/>`;
+    if (!seat.isDisabled) return circle;
+    const d = radius * 0.5;
+    return `${circle}<path d="M${num(cx - d)} ${num(cy - d)}L${num(cx + d)} ${num(cy + d)}M${num(cx + d)} ${num(cy - d)}L${num(cx - d)} ${num(cy + d)}" stroke="${COLORS.xMark}" stroke-width="1.5"/>`;
+  });
+  const shapes = `<g id="block-${escapeXml(block.id)}" transform="${transform}">${seats.join('')}</g>`;
+
+  // 文字は大きさを拡大率に合わせ、位置はキャンバス座標に変換して描く
+  const textScale = Math.max(Math.abs(block.scaleX), Math.abs(block.scaleY));
+  const labels: string[] = [];
+
+  if (options.seatNumbers) {
+    for (const seat of block.seats) {
+      const center = localToCanvasCoords(seat.localX + radius, seat.localY + radius, block);
+      labels.push(rotatedText(getSeatNumberText(block, seat), center.x, center.y, block.rotation, block.seatSize * 0.45 * textScale, 'middle', COLORS.text));
+    }
+  }
+
+  // 行ラベル: 各行の左端の席の左隣（ばら席は行なし）
+  if (options.rowLabels && block.kind !== 'loose') {
+    const firstSeats = new Map<number, SeatBlock['seats'][number]>();
+    for (const seat of block.seats) {
+      const current = firstSeats.get(seat.row);
+      if (!current || seat.localX < current.localX) firstSeats.set(seat.row, seat);
+    }
+    const anchor = block.scaleX < 0 ? 'start' : 'end';
+    for (const seat of Array.from(firstSeats.values())) {
+      const point = localToCanvasCoords(seat.localX - block.seatSize * 0.3, seat.localY + radius, block);
+      labels.push(rotatedText(getRowLabel(block, seat.row), point.x, point.y, block.rotation, block.seatSize * 0.6 * textScale, anchor, COLORS.subText));
+    }
+  }
+
+  if (options.blockNames && block.name) {
+    const bounds = getBlockBounds(block);
+    const top = block.scaleY < 0 ? bounds.minY + bounds.height + block.seatSize : bounds.minY - block.seatSize;
+    const point = localToCanvasCoords(bounds.minX + bounds.width / 2, top, block);
+    labels.push(rotatedText(block.name, point.x, point.y, block.rotation, Math.max(12, block.seatSize * 0.9 * textScale), 'middle', COLORS.text, 'bold'));
+  }
+
+  return { shapes, labels };
+}
+
+/** 注釈の回転・位置（キャンバスの Group と同じ translate → rotate） */
+function annotationTransform(annotation: Annotation): string {
+  const rotation = annotation.rotation ? ` rotate(${num(annotation.rotation)})` : '';
+  return `translate(${num(annotation.x)} ${num(annotation.y)})${rotation}`;
+}
+
+function renderAnnotation(annotation: Annotation): string {
+  const color = escapeXml(annotation.color);
+  const open = `<g transform="${annotationTransform(annotation)}">`;
+  switch (annotation.kind) {
+    case 'polyline':
+    case 'polygon':
+    case 'rect': {
+      const dash = annotation.dashed ? ` stroke-dasharray="${num(annotation.strokeWidth * 3)} ${num(annotation.strokeWidth * 2)}"` : '';
+      const filled = annotation.filled && annotation.kind !== 'polyline';
+      const fill = filled ? `fill="${escapeXml(getAnnotationFill(annotation.color))}"` : 'fill="none"';
+      const stroke = `stroke="${color}" stroke-width="${num(annotation.strokeWidth)}"${dash}`;
+      if (annotation.kind === 'rect') {
+        return `${open}<rect width="${num(annotation.width)}" height="${num(annotation.height)}" ${fill} ${stroke}/></g>`;
+      }
+      const points = [];
+      for (let i = 0; i < annotation.points.length; i += 2) points.push(`${num(annotation.points[i])},${num(annotation.points[i + 1])}`);
+      const tag = annotation.kind === 'polygon' ? 'polygon' : 'polyline';
+      return `${open}<${tag} points="${points.join(' ')}" ${fill} ${stroke} stroke-linecap="round" stroke-linejoin="round"/></g>`;
+    }
+    case 'text': {
+      // キャンバスと同じく左上を基準に、改行ごとに1行ずつ並べる
+      const lines = annotation.text.split('\n').map((line, i) =>
+        `<tspan x="0" y="${num((i + 0.5) * annotation.fontSize)}">${escapeXml(line)}</tspan>`);
+      return `${open}<text font-size="${num(annotation.fontSize)}" font-weight="bold" dominant-baseline="central" fill="${color}">${lines.join('')}</text></g>`;
+    }
+    case 'icon': {
+      const icon = ANNOTATION_ICONS[annotation.icon];
+      const half = annotation.size / 2;
+      return `${open}<rect x="${num(-half)}" y="${num(-half)}" width="${num(annotation.size)}" height="${num(annotation.size)}" rx="${num(annotation.size * 0.15)}" fill="${color}" stroke="#ffffff" stroke-width="1.5"/>`
+        + `<text font-size="${num(annotation.size * 0.3)}" font-weight="bold" text-anchor="middle" dominant-baseline="central" fill="#ffffff">${escapeXml(icon.short)}</text></g>`;
+    }
+  }
+}
+
+/** 注釈の外形の点（注釈のローカル座標。文字は1文字を全角幅として概算） */
+function getAnnotationOutline(annotation: Annotation): number[] {
+  switch (annotation.kind) {
+    case 'polyline':
+    case 'polygon':
+      return annotation.points;
+    case 'rect':
+      return [0, 0, annotation.width, 0, annotation.width, annotation.height, 0, annotation.height];
+    case 'text': {
+      const lines = annotation.text.split('\n');
+      const width = Math.max(...lines.map(line => line.length)) * annotation.fontSize;
+      const height = lines.length * annotation.fontSize;
+      return [0, 0, width, 0, width, height, 0, height];
+    }
+    case 'icon': {
+      const half = annotation.size / 2;
+      return [-half, -half, half, -half, half, half, -half, half];
+    }
+  }
+}
+
+/**
+ * 書き出しで背景図面を描く階（編集画面の色分けのときだけ。階を絞らなければすべての階）
+ */
+export function getBackgroundLevels(input: SvgExportInput, options: SvgExportOptions): VenueLevel[] {
+  if (options.colorBy !== 'category') return [];
+  return input.levels.filter(level => level.backgroundImage && (!options.levelId || level.id === options.levelId));
+}
+
+// キャンバスの BackgroundLayer と同じく左上を基準に translate → rotate → scale
+function renderBackgroundImage(image: BackgroundImage, href: string): string {
+  const { x, y, scale, rotation } = getBackgroundTransform(image);
+  return `<image href="${escapeXml(href)}" width="${num(image.width)}" height="${num(image.height)}" opacity="${num(image.opacity)}" preserveAspectRatio="none" transform="translate(${num(x)} ${num(y)}) rotate(${num(rotation)}) scale(${num(scale)})"/>`;
+}
+
+/** 座席・ステージ・注釈が収まる範囲（キャンバス座標。文字の分の余白を含む） */
+function getContentBounds(blocks: SeatBlock[], stages: StageShape[], annotations: Annotation[]): { minX: number; minY: number; maxX: number; maxY: number } {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const include = (x: number, y: number, pad: number) => {
+    minX = Math.min(minX, x - pad);
+    minY = Math.min(minY, y - pad);
+    maxX = Math.max(maxX, x + pad);
+    maxY = Math.max(maxY, y + pad);
+  };
+  for (const block of blocks) {
+    const radius = block.seatSize / 2;
+    const pad = block.seatSize * 2 * Math.max(Math.abs(block.scaleX), Math.abs(block.scaleY));
+    for (const seat of block.seats) {
+      const center = localToCanvasCoords(seat.localX + radius, seat.localY + radius, block);
+      include(center.x, center.y, pad);
+    }
+  }
+  for (const stage of stages) {
+    for (let i = 0; i < stage.points.length; i += 2) include(stage.points[i], stage.points[i + 1], 0);
+  }
+  for (const annotation of annotations) {
+    const rad = ((annotation.rotation ?? 0) * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const pad = 'strokeWidth' in annotation ? annotation.strokeWidth / 2 : 0;
+    const outline = getAnnotationOutline(annotation);
+    for (let i = 0; i < outline.length; i += 2) {
+      const [px, py] = [outline[i], outline[i + 1]];
+      include(annotation.x + px * cos - py * sin, annotation.y + px * sin + py * cos, pad);
+    }
+  }
+  if (minX === Infinity) return { minX: 0, minY: 0, maxX: 400, maxY: 300 };
+  return { minX, minY, maxX, maxY };
+}
+
+function buildLegend(blocks: SeatBlock[], categories: SeatCategory[], colorBy: SvgColorMode, seatColors?: Map<string, string>): LegendItem[] {
+  const seats = blocks.flatMap(block => block.seats);
+  const disabled = seats.filter(seat => seat.isDisabled).length;
+  const disabledItem: LegendItem = { label: '販売停止', fill: COLORS.disabled, stroke: COLORS.disabledStroke, count: disabled, disabled: true };
+  const withDisabled = (items: LegendItem[]) => (disabled > 0 ? [...items, disabledItem] : items);
+
+  if (colorBy === 'state') {
+    return [
+      { label: '販売可', fill: COLORS.available, stroke: COLORS.seatStroke, count: seats.length - disabled },
+      disabledItem,
+    ];
+  }
+  if (colorBy === 'blank') {
+    return withDisabled([{ label: '座席', fill: COLORS.blank, stroke: COLORS.blankStroke, count: seats.length - disabled }]);
+  }
+  if (colorBy === 'assignment') {
+    const assigned = seats.filter(seat => !seat.isDisabled && seatColors?.has(seat.id));
+    const sampleColor = assigned.length > 0 ? seatColors?.get(assigned[0].id) : undefined;
+    return withDisabled([
+      { label: '当選（グループごとの色）', fill: sampleColor ?? COLORS.available, stroke: COLORS.seatStroke, count: assigned.length },
+      { label: '空席', fill: COLORS.vacant, stroke: COLORS.seatStroke, count: seats.length - disabled - assigned.length },
+    ]);
+  }
+
+  const counts = new Map<string, number>();
+  for (const seat of seats) {
+    if (seat.isDisabled) continue;
+    const key = seat.categoryId && categories.some(c => c.id === seat.categoryId) ? seat.categoryId : '';
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const items: LegendItem[] = categories
+    .filter(category => counts.has(category.id))
+    .map(category => ({
+      label: category.price > 0 ? `${category.name}（¥${category.price.toLocaleString()}）` : category.name,
+      fill: category.color,
+      stroke: COLORS.seatStroke,
+      count: counts.get(category.id) ?? 0,
+    }));
+  if (counts.has('')) items.push({ label: '一般', fill: COLORS.seat, stroke: COLORS.seatStroke, count: counts.get('') ?? 0 });
+  return withDisabled(items);
+}
+
+interface SvgLayout {
+  blocks: SeatBlock[];
+  stages: StageShape[];
+  annotations: Annotation[];
+  legend: LegendItem[];
+  bounds: { minX: number; minY: number; maxX: number; maxY: number }; // 座席・ステージの範囲（region 指定時はその範囲）
+  frame: SvgRegion; // 余白・凡例を含む全体
+}
+
+function getSvgLayout(input: SvgExportInput, options: SvgExportOptions): SvgLayout {
+  const { levelId, region } = options;
+  const blocks = levelId ? input.blocks.filter(block => isOnLevel(block, levelId, input.levels)) : input.blocks;
+  const stages = options.stage ? input.stages : [];
+  const annotations = levelId ? input.annotations.filter(a => isOnLevel(a, levelId, input.levels)) : input.annotations;
+  const bounds = region
+    ? { minX: region.x, minY: region.y, maxX: region.x + region.width, maxY: region.y + region.height }
+    : getContentBounds(blocks, stages, annotations);
+  const legend = options.legend ? buildLegend(blocks, input.categories, options.colorBy, input.seatColors) : [];
+  const legendHeight = legend.length > 0 ? MARGIN / 2 + legend.length * LEGEND_ROW_HEIGHT : 0;
+  return {
+    blocks,
+    stages,
+    annotations,
+    legend,
+    bounds,
+    frame: {
+      x: bounds.minX - MARGIN,
+      y: bounds.minY - MARGIN,
+      width: bounds.maxX - bounds.minX + MARGIN * 2,
+      height: bounds.maxY - bounds.minY + MARGIN * 2 + legendHeight,
+    },
+  };
+}
+
+/**
+ * 書き出す全体の範囲（キャンバス座標。余白・凡例を含む）
+ */
+export function getVenueSvgFrame(input: SvgExportInput, options: SvgExportOptions = DEFAULT_SVG_EXPORT_OPTIONS): SvgRegion {
+  return getSvgLayout(input, options).frame;
+}
+
+/**
+ * 座席図の SVG を作る
+ */
+export function createVenueSvg(input: SvgExportInput, options: SvgExportOptions = DEFAULT_SVG_EXPORT_OPTIONS, view: SvgView = {}): string {
+  const { blocks, stages, annotations, legend, bounds, frame } = getSvgLayout(input, options);
+  const categoryMap = new Map(input.categories.map(category => [category.id, category]));
+  const { x, y, width, height } = view.crop ?? frame;
+  const pixelsPerUnit = view.pixelsPerUnit ?? 1;
+
+  const parts: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width * pixelsPerUnit)}" height="${num(height * pixelsPerUnit)}" viewBox="${num(x)} ${num(y)} ${num(width)} ${num(height)}" font-family="${escapeXml(FONT_FAMILY)}">`,
+  ];
+  if (options.background) {
+    parts.push(`<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" fill="${escapeXml(options.background)}"/>`);
+  }
+
+  // 範囲指定時は範囲外の座席が余白・凡例に重ならないよう切り抜く
+  const { region } = options;
+  if (region) {
+    parts.push(`<defs><clipPath id="region"><rect x="${num(region.x)}" y="${num(region.y)}" width="${num(region.width)}" height="${num(region.height)}"/></clipPath></defs>`);
+    parts.push('<g clip-path="url(#region)">');
+  }
+
+  // 重なり順はキャンバスと同じ（背景図面 → 注釈 → ステージ → 座席）。PDF の背景は描画済みの画像がなければ省く
+  const backgrounds: string[] = [];
+  for (const level of getBackgroundLevels(input, options)) {
+    const image = level.backgroundImage;
+    const href = input.backgroundHrefs?.get(level.id) ?? (image?.kind === 'pdf' ? undefined : image?.src);
+    if (image && href) backgrounds.push(renderBackgroundImage(image, href));
+  }
+  if (backgrounds.length > 0) parts.push(`<g id="background-images">${backgrounds.join('')}</g>`);
+
+  if (annotations.length > 0) {
+    parts.push(`<g id="annotations">${annotations.map(renderAnnotation).join('')}</g>`);
+  }
+
+  if (stages.length > 0) {
+    parts.push('<g id="stages">');
+    for (const stage of stages) {
+      const points = [];
+      for (let i = 0; i < stage.points.length; i += 2) points.push(`${num(stage.points[i])},${num(stage.points[i + 1])}`);
+      parts.push(`<polygon points="${points.join(' ')}" fill="${COLORS.stageFill}" stroke="${COLORS.stage}" stroke-width="2"/>`);
+      const center = getOutlineCenter(stage.points);
+      parts.push(rotatedText(stage.name, center.x, center.y, 0, 18, 'middle', COLORS.stage, 'bold'));
+    }
+    parts.push('</g>');
+  }
+
+  const rendered = blocks.map(block => renderBlock(block, options, categoryMap, input.seatColors));
+  parts.push(`<g id="seats">${rendered.map(r => r.shapes).join('')}</g>`);
+  const labels = rendered.flatMap(r => r.labels);
+  if (labels.length > 0) parts.push(`<g id="labels">${labels.join('')}</g>`);
+  if (region) parts.push('</g>');
+
+  if (legend.length > 0) {
+    parts.push('<g id="legend">');
+    const left = bounds.minX;
+    let top = bounds.maxY + MARGIN / 2;
+    for (const item of legend) {
+      const cy = top + LEGEND_ROW_HEIGHT / 2;
+      parts.push(`<circle cx="${num(left + 7)}" cy="${num(cy)}" r="7" fill="${escapeXml(item.fill)}" stroke="${escapeXml(item.stroke)}" stroke-width="1"/>`);
+      if (item.disabled) {
+        parts.push(`<path d="M${num(left + 3.5)} ${num(cy - 3.5)}L${num(left + 10.5)} ${num(cy + 3.5)}M${num(left + 10.5)} ${num(cy - 3.5)}L${num(left + 3.5)} ${num(cy + 3.5)}" stroke="${COLORS.xMark}" stroke-width="1.5"/>`);
+      }
+      parts.push(rotatedText(`${item.label}  ${item.count}席`, left + 22, cy, 0, 13, 'start', COLORS.text));
+      top += LEGEND_ROW_HEIGHT;
+    }
+    parts.push('</g>');
+  }
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+export function downloadSvg(svg: string, filename: string = 'seat-map.svg'): void {
+  downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), filename);
+}
@@ -0,0 +1,633 @@
+/**
+ * Venue Map Editor - VenueData Schema & Migrations
+ * Blueprint Technical Design System
+ *
+ * 読み込んだ会場データを 1) 古いバージョンから順に移行し、2) 欠けた項目を既定値で補完・不正な座席や注釈を除外し、
+ * 3) 厳密なスキーマで検証する。スキーマにない項目（綴りの誤りなど）は外し、補完・除外した内容とあわせて
+ * ImportReport にまとめ、適用前にユーザーへ見せる
+ */
+
+import { z } from 'zod';
+import { nanoid } from 'nanoid';
+import { DEFAULT_SEAT_CATEGORIES, PREMIUM_CATEGORY_ID } from '@/lib/seatCategories';
+import { DEFAULT_SNAP_SETTINGS } from '@/lib/snapping';
+import { createDefaultLevels } from '@/lib/levels';
+import type {
+  Annotation,
+  BackgroundImage,
+  ImportReport,
+  LockedSeat,
+  LotterySettings,
+  ScaleCalibration,
+  Seat,
+  SeatBlock,
+  SeatCategory,
+  SnapSettings,
+  StageShape,
+  VenueData,
+  VenueImportResult,
+  VenueLevel,
+} from '@/types/venue';
+
+/** 書き出す会場データのバージョン（exportVenueData と合わせる） */
+export const CURRENT_VENUE_VERSION = '1.2';
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+const seatSchema: z.ZodType<Seat> = z.object({
+  id: z.string().min(1),
+  row: z.number().int().min(0),
+  col: z.number().int().min(0),
+  localX: z.number(),
+  localY: z.number(),
+  categoryId: z.string().optional(),
+  isDisabled: z.boolean(),
+  label: z.string().optional(),
+  number: z.string().optional(),
+  neighbors: z.array(z.string()).optional(),
+});
+
+const rowLayoutSchema = z.object({
+  seats: z.number().int().min(0),
+  offset: z.number(),
+});
+
+const aislesSchema = z.object({
+  afterCols: z.array(z.number().int()),
+  afterRows: z.array(z.number().int()),
+  width: z.number().min(0),
+});
+
+const numberingSchema = z.object({
+  rowLabel: z.enum(['number', 'letter']),
+  colDirection: z.enum(['ltr', 'rtl']),
+  rowStart: z.number().int(),
+  colStart: z.number().int(),
+  oddEven: z.enum(['all', 'odd', 'even']),
+  prefix: z.string().optional(),
+});
+
+// ブロックの省略可能な項目（不正な値は項目ごと外す）
+const blockOptionalSchemas = {
+  kind: z.enum(['grid', 'loose']),
+  levelId: z.string(),
+  rowGap: z.number().min(0),
+  rowLayout: z.array(rowLayoutSchema).min(1),
+  aisles: aislesSchema,
+  numbering: numberingSchema,
+};
+
+const blockSchema: z.ZodType<SeatBlock> = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  kind: blockOptionalSchemas.kind.optional(),
+  levelId: blockOptionalSchemas.levelId.optional(),
+  x: z.number(),
+  y: z.number(),
+  rotation: z.number(),
+  scaleX: z.number().refine(value => value !== 0),
+  scaleY: z.number().refine(value => value !== 0),
+  rows: z.number().int().min(1),
+  cols: z.number().int().min(1),
+  seatSize: z.number().positive(),
+  seatGap: z.number().min(0),
+  rowGap: blockOptionalSchemas.rowGap.optional(),
+  skewX: z.number(),
+  staggerX: z.number(),
+  curveRadius: z.number(),
+  rowLayout: blockOptionalSchemas.rowLayout.optional(),
+  aisles: blockOptionalSchemas.aisles.optional(),
+  numbering: blockOptionalSchemas.numbering.optional(),
+  seats: z.array(seatSchema),
+});
+
+const categorySchema: z.ZodType<SeatCategory> = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  color: z.string(),
+  price: z.number(),
+  weight: z.number(),
+});
+
+const backgroundSchema: z.ZodType<BackgroundImage> = z.object({
+  src: z.string().min(1),
+  kind: z.enum(['raster', 'svg', 'pdf']).optional(),
+  pdfPage: z.number().int().min(1).optional(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  opacity: z.number().min(0).max(1),
+  x: z.number().optional(),
+  y: z.number().optional(),
+  scale: z.number().positive().optional(),
+  rotation: z.number().optional(),
+  locked: z.boolean().optional(),
+});
+
+const levelSchema: z.ZodType<VenueLevel> = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  weight: z.number(),
+  backgroundImage: backgroundSchema.nullable(),
+});
+
+const annotationBase = {
+  id: z.string().min(1),
+  levelId: z.string().optional(),
+  x: z.number(),
+  y: z.number(),
+  rotation: z.number().optional(),
+  color: z.string(),
+};
+
+const annotationSchema: z.ZodType<Annotation> = z.discriminatedUnion('kind', [
+  z.object({
+    ...annotationBase,
+    kind: z.enum(['polyline', 'polygon']),
+    points: z.array(z.number()).min(4),
+    strokeWidth: z.number().positive(),
+    dashed: z.boolean().optional(),
+    filled: z.boolean().optional(),
+  }),
+  z.object({
+    ...annotationBase,
+    kind: z.literal('rect'),
+    width: z.number(),
+    height: z.number(),
+    strokeWidth: z.number().positive(),
+    dashed: z.boolean().optional(),
+    filled: z.boolean().optional(),
+  }),
+  z.object({
+    ...annotationBase,
+    kind: z.literal('text'),
+    text: z.string(),
+    fontSize: z.number().positive(),
+  }),
+  z.object({
+    ...annotationBase,
+    kind: z.literal('icon'),
+    icon: z.enum(['exit', 'toilet', 'camera']),
+    size: z.number().positive(),
+  }),
+]);
+
+const stageSchema: z.ZodType<StageShape> = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  points: z.array(z.number()).min(6).refine(points => points.length % 2 === 0),
+});
+
+const calibrationSchema: z.ZodType<ScaleCalibration> = z.object({
+  points: z.array(z.number()).length(4),
+  meters: z.number().positive(),
+});
+
+const snapSchema: z.ZodType<SnapSettings> = z.object({
+  grid: z.boolean(),
+  gridSize: z.number().positive(),
+  objects: z.boolean(),
+  rotation: z.boolean(),
+  rotationStep: z.number().positive(),
+});
+
+const lockedSeatSchema = z.object({
+  seatId: z.string(),
+  customerId: z.string(),
+  customerName: z.string(),
+  groupSize: z.number().int().min(1),
+  seatIds: z.array(z.string()).min(1),
+});
+
+const lotterySchema: z.ZodType<LotterySettings> = z.object({
+  skillWeight: z.number().min(0).max(1),
+  lockedSeats: z.array(lockedSeatSchema),
+});
+
+export const venueDataSchema: z.ZodType<VenueData> = z.object({
+  version: z.literal(CURRENT_VENUE_VERSION),
+  name: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  canvasWidth: z.number().positive(),
+  canvasHeight: z.number().positive(),
+  blocks: z.array(blockSchema),
+  categories: z.array(categorySchema).optional(),
+  snap: snapSchema.optional(),
+  annotations: z.array(annotationSchema).optional(),
+  stages: z.array(stageSchema).optional(),
+  levels: z.array(levelSchema).min(1).optional(),
+  calibration: calibrationSchema.optional(),
+  pixelsPerMeter: z.number().positive().optional(),
+  backgroundImage: backgroundSchema.optional(),
+  lottery: lotterySchema.optional(),
+});
+
+// ---------------------------------------------------------------------------
+// Migrations（各バージョンから次のバージョンへ。未指定のファイルは 1.0 とみなす）
+// ---------------------------------------------------------------------------
+
+type RawData = Record<string, unknown>;
+
+interface Migration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (data: RawData) => RawData;
+}
+
+const isRecord = (value: unknown): value is RawData => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const MIGRATIONS: Migration[] = [
+  {
+    // 1.0: プレミアム席は isPremium フラグ、カテゴリなし
+    from: '1.0',
+    to: '1.1',
+    description: '1.0 → 1.1: プレミアム席をカテゴリに移行',
+    migrate: data => ({
+      ...data,
+      categories: Array.isArray(data.categories) && data.categories.length > 0 ? data.categories : DEFAULT_SEAT_CATEGORIES,
+      blocks: Array.isArray(data.blocks)
+        ? data.blocks.map(block => (isRecord(block) && Array.isArray(block.seats)
+          ? {
+            ...block,
+            seats: block.seats.map(seat => {
+              if (!isRecord(seat) || !('isPremium' in seat)) return seat;
+              const { isPremium, ...rest } = seat;
+              return isPremium === true && !rest.categoryId ? { ...rest, categoryId: PREMIUM_CATEGORY_ID } : rest;
+            }),
+          }
+          : block))
+        : data.blocks,
+    }),
+  },
+  {
+    // 1.1: 背景は書き出さず、旧形式の背景はトップレベルの backgroundImage
+    from: '1.1',
+    to: '1.2',
+    description: '1.1 → 1.2: 階のない背景を最初の階に移動',
+    migrate: data => {
+      const { backgroundImage, ...rest } = data;
+      if (!isRecord(backgroundImage)) return rest;
+      const levels = Array.isArray(data.levels) && data.levels.length > 0 ? data.levels : createDefaultLevels();
+      if (levels.some(level => isRecord(level) && level.backgroundImage)) return { ...rest, levels };
+      return { ...rest, levels: levels.map((level, i) => (i === 0 && isRecord(level) ? { ...level, backgroundImage } : level)) };
+    },
+  },
+];
+
+function migrateToCurrent(data: RawData, version: string, migrations: string[]): RawData {
+  let current = data;
+  let currentVersion = version;
+  while (currentVersion !== CURRENT_VENUE_VERSION) {
+    const migration = MIGRATIONS.find(m => m.from === currentVersion);
+    if (!migration) throw new Error(`対応していないバージョンです（${version}）`);
+    current = migration.migrate(current);
+    currentVersion = migration.to;
+    migrations.push(migration.description);
+  }
+  return { ...current, version: CURRENT_VENUE_VERSION };
+}
+
+// ---------------------------------------------------------------------------
+// Repair（欠けた項目の補完と、読み込めない要素の除外）
+// ---------------------------------------------------------------------------
+
+/** ブロックの必須の数値項目の既定値 */
+const BLOCK_NUMBER_DEFAULTS = {
+  x: 0,
+  y: 0,
+  rotation: 0,
+  scaleX: 1,
+  scaleY: 1,
+  seatSize: 20,
+  seatGap: 4,
+  skewX: 0,
+  staggerX: 0,
+  curveRadius: 0,
+} as const;
+
+/** 補完・除外の記録（同じ項目はブロック名をまとめて1行にする） */
+class RepairLog {
+  private fields = new Map<string, string[]>();
+  private unknownPaths = new Set<string>();
+  readonly dropped: string[] = [];
+  readonly duplicateSeatIds: string[] = [];
+
+  field(message: string, owner?: string) {
+    const owners = this.fields.get(message) ?? [];
+    if (owner) owners.push(owner);
+    this.fields.set(message, owners);
+  }
+
+  /** 検証で外れたスキーマにない項目（綴りの誤りなど）を、パス（配列は []）ごとに1件ずつ記録する */
+  unknownKeys(input: unknown, output: unknown, path: string) {
+    if (Array.isArray(input) && Array.isArray(output)) {
+      input.forEach((item, i) => this.unknownKeys(item, output[i], `${path}[]`));
+      return;
+    }
+    if (!isRecord(input) || !isRecord(output)) return;
+    for (const [key, value] of Object.entries(input)) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (key in output) {
+        this.unknownKeys(value, output[key], childPath);
+      } else if (value !== undefined && !this.unknownPaths.has(childPath)) {
+        this.unknownPaths.add(childPath);
+        this.field('スキーマにない項目を外しました', childPath);
+      }
+    }
+  }
+
+  repairedFields(): string[] {
+    return Array.from(this.fields, ([message, owners]) => {
+      if (owners.length === 0) return message;
+      const names = owners.slice(0, 5).join('、') + (owners.length > 5 ? ` ほか${owners.length - 5}件` : '');
+      return `${message}（${names}）`;
+    });
+  }
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/** 配列の要素をスキーマで検証し、通らないものを除外して件数を記録する */
+function filterValid<T>(items: unknown, schema: z.ZodType<T>, label: string, path: string, log: RepairLog): T[] | undefined {
+  if (items === undefined) return undefined;
+  if (!Array.isArray(items)) {
+    log.field(`${label}が配列ではないため空にしました`);
+    return [];
+  }
+  const valid = items.flatMap(item => {
+    const result = schema.safeParse(item);
+    if (!result.success) return [];
+    log.unknownKeys(item, result.data, `${path}[]`);
+    return [result.data];
+  });
+  if (valid.length < items.length) log.dropped.push(`${label} ${items.length - valid.length}件（形式が不正）`);
+  return valid;
+}
+
+/** ブロック内で振り直した座席ID（固定席の付け替え用に、振り直し前の全座席IDも持つ） */
+interface SeatIdChanges {
+  originalIds: Set<string>;
+  renamed: Map<string, string>; // 旧ID → 新ID
+}
+
+function repairBlock(
+  raw: RawData,
+  index: number,
+  blockIds: Set<string>,
+  seatIds: Set<string>,
+  idChanges: SeatIdChanges[],
+  log: RepairLog,
+): RawData {
+  const block: RawData = { ...raw };
+  const name = typeof block.name === 'string' && block.name ? block.name : `ブロック${index + 1}`;
+  if (block.name !== name) {
+    block.name = name;
+    log.field('名前のないブロックに名前を付けました', name);
+  }
+  const owner = `「${name}」`;
+
+  if (typeof block.id !== 'string' || !block.id || blockIds.has(block.id)) {
+    block.id = nanoid(8);
+    log.field('ブロックIDを振り直しました（未指定・重複）', owner);
+  }
+  blockIds.add(block.id as string);
+
+  for (const [key, fallback] of Object.entries(BLOCK_NUMBER_DEFAULTS)) {
+    const value = block[key];
+    const invalid = !isNumber(value)
+      || ((key === 'scaleX' || key === 'scaleY') && value === 0)
+      || (key === 'seatSize' && value <= 0)
+      || (key === 'seatGap' && value < 0);
+    if (invalid) {
+      block[key] = fallback;
+      log.field(`${key} を ${fallback} に補完しました`, owner);
+    }
+  }
+
+  for (const [key, schema] of Object.entries(blockOptionalSchemas)) {
+    if (block[key] === undefined) continue;
+    if (!(schema as z.ZodType).safeParse(block[key]).success) {
+      delete block[key];
+      log.field(`不正な ${key} を外しました`, owner);
+    }
+  }
+
+  // 座席: 無効フラグは補完し、ID・位置・行列番号が不正な席は除外。全体で重複する座席IDは振り直す
+  const rawSeats = Array.isArray(block.seats) ? block.seats : [];
+  if (!Array.isArray(block.seats)) log.field('座席のないブロックを空で読み込みました', owner);
+  let droppedSeats = 0;
+  const seats: Seat[] = [];
+  const changes: SeatIdChanges = { originalIds: new Set(), renamed: new Map() };
+  for (const rawSeat of rawSeats) {
+    if (!isRecord(rawSeat)) {
+      droppedSeats++;
+      continue;
+    }
+    const candidate = typeof rawSeat.isDisabled === 'boolean' ? rawSeat : { ...rawSeat, isDisabled: false };
+    const result = seatSchema.safeParse(candidate);
+    if (!result.success) {
+      droppedSeats++;
+      continue;
+    }
+    if (candidate !== rawSeat) log.field('座席の isDisabled を false に補完しました', owner);
+    const seat = result.data;
+    log.unknownKeys(candidate, seat, 'blocks[].seats[]');
+    changes.originalIds.add(seat.id);
+    if (seatIds.has(seat.id)) {
+      log.duplicateSeatIds.push(`${owner} ${seat.id}`);
+      const id = nanoid(8);
+      changes.renamed.set(seat.id, id);
+      seat.id = id;
+    }
+    seatIds.add(seat.id);
+    seats.push(seat);
+  }
+  if (droppedSeats > 0) log.dropped.push(`${owner}の座席 ${droppedSeats}件（ID・位置・行列番号が不正）`);
+  block.seats = seats;
+
+  // 同じブロック内で重複したIDはどちらの席を指すか決められないので、元のIDのまま（最初の席）にする
+  for (const seat of seats) {
+    if (changes.renamed.has(seat.id)) changes.renamed.delete(seat.id);
+  }
+  // ばら席の隣接はブロック内の席を指すので、振り直した席の新しいIDに付け替える
+  let relinked = false;
+  for (const seat of seats) {
+    if (!seat.neighbors?.some(id => changes.renamed.has(id))) continue;
+    seat.neighbors = seat.neighbors.map(id => changes.renamed.get(id) ?? id);
+    relinked = true;
+  }
+  if (relinked) log.field('重複IDを振り直した座席の隣接席を付け替えました', owner);
+  idChanges.push(changes);
+
+  if (!isNumber(block.rows) || !Number.isInteger(block.rows) || block.rows < 1) {
+    block.rows = Array.isArray(block.rowLayout) ? block.rowLayout.length : Math.max(1, ...seats.map(s => s.row + 1));
+    log.field('rows を座席から補完しました', owner);
+  }
+  if (!isNumber(block.cols) || !Number.isInteger(block.cols) || block.cols < 1) {
+    block.cols = Math.max(1, ...seats.map(s => s.col + 1));
+    log.field('cols を座席から補完しました', owner);
+  }
+  return block;
+}
+
+/**
+ * 固定席の座席IDを、振り直した座席の新しいIDに付け替える。
+ * 重複したIDはグループの座席が最も多く含まれるブロックの席を指すものとする
+ */
+function relinkLockedSeat(lock: LockedSeat, idChanges: SeatIdChanges[], log: RepairLog): LockedSeat {
+  const ids = [lock.seatId, ...lock.seatIds];
+  let best: SeatIdChanges | null = null;
+  let bestCount = 0;
+  for (const changes of idChanges) {
+    const count = ids.filter(id => changes.originalIds.has(id)).length;
+    if (count > bestCount) {
+      best = changes;
+      bestCount = count;
+    }
+  }
+  const renamed = best?.renamed;
+  if (!renamed || !ids.some(id => renamed.has(id))) return lock;
+  log.field('重複IDを振り直した座席に関係者の固定席を付け替えました', lock.customerName);
+  return {
+    ...lock,
+    seatId: renamed.get(lock.seatId) ?? lock.seatId,
+    seatIds: lock.seatIds.map(id => renamed.get(id) ?? id),
+  };
+}
+
+function repairVenueData(data: RawData, log: RepairLog): RawData {
+  const repaired: RawData = { ...data };
+
+  if (typeof repaired.name !== 'string') repaired.name = '';
+  const now = new Date().toISOString();
+  if (typeof repaired.createdAt !== 'string') repaired.createdAt = now;
+  if (typeof repaired.updatedAt !== 'string') repaired.updatedAt = now;
+  if (!isNumber(repaired.canvasWidth) || repaired.canvasWidth <= 0) {
+    repaired.canvasWidth = 1920;
+    log.field('canvasWidth を 1920 に補完しました');
+  }
+  if (!isNumber(repaired.canvasHeight) || repaired.canvasHeight <= 0) {
+    repaired.canvasHeight = 1080;
+    log.field('canvasHeight を 1080 に補完しました');
+  }
+
+  if (!Array.isArray(repaired.blocks)) throw new Error('ブロック（blocks）がありません');
+  const blockIds = new Set<string>();
+  const seatIds = new Set<string>();
+  const idChanges: SeatIdChanges[] = [];
+  let droppedBlocks = 0;
+  repaired.blocks = repaired.blocks.flatMap((block, i) => {
+    if (!isRecord(block)) {
+      droppedBlocks++;
+      return [];
+    }
+    return [repairBlock(block, i, blockIds, seatIds, idChanges, log)];
+  });
+  if (droppedBlocks > 0) log.dropped.push(`ブロック ${droppedBlocks}件（形式が不正）`);
+
+  repaired.categories = filterValid(repaired.categories, categorySchema, 'カテゴリ', 'categories', log);
+  repaired.annotations = filterValid(repaired.annotations, annotationSchema, '注釈', 'annotations', log);
+  repaired.stages = filterValid(repaired.stages, stageSchema, 'ステージ', 'stages', log);
+  if (Array.isArray(repaired.stages) && repaired.stages.length === 0) repaired.stages = undefined; // 既定のステージを使う
+
+  if (repaired.levels !== undefined) {
+    const levels = (Array.isArray(repaired.levels) ? repaired.levels : []).flatMap(level => {
+      if (!isRecord(level)) return [];
+      const background = level.backgroundImage ?? null;
+      if (background !== null && !backgroundSchema.safeParse(background).success) {
+        log.dropped.push(`階「${String(level.name ?? level.id)}」の背景（形式が不正）`);
+        return [{ ...level, backgroundImage: null }];
+      }
+      return [{ ...level, backgroundImage: background }];
+    });
+    const valid = filterValid(levels, levelSchema, '階', 'levels', log) ?? [];
+    repaired.levels = valid.length > 0 ? valid : undefined;
+  }
+
+  if (repaired.snap !== undefined && !snapSchema.safeParse(repaired.snap).success) {
+    const snap = isRecord(repaired.snap) ? repaired.snap : {};
+    repaired.snap = Object.fromEntries(Object.entries(DEFAULT_SNAP_SETTINGS).map(([key, fallback]) => {
+      const value = snap[key];
+      return [key, typeof value === typeof fallback && (typeof value !== 'number' || value > 0) ? value : fallback];
+    }));
+    log.field('スナップ設定を既定値で補完しました');
+  }
+
+  for (const [key, schema, label] of [
+    ['calibration', calibrationSchema, '縮尺'],
+    ['pixelsPerMeter', z.number().positive(), '縮尺（px/m）'],
+  ] as const) {
+    if (repaired[key] !== undefined && !(schema as z.ZodType).safeParse(repaired[key]).success) {
+      delete repaired[key];
+      log.dropped.push(`${label}（形式が不正）`);
+    }
+  }
+
+  if (repaired.lottery !== undefined) {
+    const lottery = isRecord(repaired.lottery) ? repaired.lottery : {};
+    if (isNumber(lottery.skillWeight) && lottery.skillWeight >= 0 && lottery.skillWeight <= 1) {
+      const lockedSeats = filterValid(lottery.lockedSeats ?? [], lockedSeatSchema, '関係者の固定席', 'lottery.lockedSeats', log) ?? [];
+      repaired.lottery = {
+        skillWeight: lottery.skillWeight,
+        lockedSeats: lockedSeats.map(lock => relinkLockedSeat(lock, idChanges, log)),
+      };
+    } else {
+      delete repaired.lottery;
+      log.dropped.push('抽選設定（形式が不正）');
+    }
+  }
+
+  return repaired;
+}
+
+/**
+ * 読み込んだ JSON を現在の VenueData に移行・補完・検証する（読み込めない場合は Error）
+ */
+export function parseVenueData(raw: unknown): VenueImportResult {
+  if (!isRecord(raw)) throw new Error('会場データの形式ではありません');
+  const sourceVersion = typeof raw.version === 'string' ? raw.version : '1.0';
+  const migrations: string[] = [];
+  const log = new RepairLog();
+
+  const migrated = migrateToCurrent(raw, sourceVersion, migrations);
+  const repaired = repairVenueData(migrated, log);
+
+  const result = venueDataSchema.safeParse(repaired);
+  if (!result.success) {
+    const issues = result.error.issues.slice(0, 3).map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`会場データの検証に失敗しました\n${issues.join('\n')}`);
+  }
+
+  const data = result.data;
+  log.unknownKeys(repaired, data, '');
+  const report: ImportReport = {
+    sourceVersion,
+    migrations,
+    repairedFields: log.repairedFields(),
+    droppedItems: log.dropped,
+    duplicateSeatIds: log.duplicateSeatIds,
+    blockCount: data.blocks.length,
+    seatCount: data.blocks.reduce((sum, block) => sum + block.seats.length, 0),
+  };
+  return { data, report };
+}
+
+/**
+ * 貼り付けたブロックを会場データの読み込みと同じ規則で補完・検証する
+ * （不正なブロック・座席・カテゴリと、有効な座席が残らないブロックは除外）
+ */
+export function parseSeatBlocks(rawBlocks: unknown[], rawCategories: unknown = []): { blocks: SeatBlock[]; categories: SeatCategory[] } {
+  const log = new RepairLog();
+  const blockIds = new Set<string>();
+  const seatIds = new Set<string>();
+  const blocks = rawBlocks.flatMap((raw, i) => {
+    if (!isRecord(raw) || !Array.isArray(raw.seats)) return [];
+    const result = blockSchema.safeParse(repairBlock(raw, i, blockIds, seatIds, [], log));
+    return result.success && result.data.seats.length > 0 ? [result.data] : [];
+  });
+  const categories = filterValid(rawCategories, categorySchema, 'カテゴリ', 'categories', log) ?? [];
+  return { blocks, categories };
+}
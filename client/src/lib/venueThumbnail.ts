@@ -0,0 +1,87 @@
+/**
+ * Venue Map Editor - Venue Thumbnail
+ * Blueprint Technical Design System
+ *
+ * 会場ライブラリの一覧に出す縮小画像。最初の階のステージと座席（カテゴリ色）だけを描き、背景画像は描かない
+ */
+
+import type { VenueData } from '@/types/venue';
+import { seatCenterToCanvasCoords } from '@/lib/venueUtils';
+import { isOnLevel } from '@/lib/levels';
+
+const THUMBNAIL_WIDTH = 240;
+const THUMBNAIL_HEIGHT = 150;
+const PADDING = 10;
+
+const COLORS = {
+  background: '#0f172a',
+  seat: '#4a5568',
+  stage: '#00d4aa',
+  stageFill: '#1a1a2e',
+};
+
+export function createVenueThumbnail(data: VenueData): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  ctx.fillStyle = COLORS.background;
+  ctx.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+
+  const levels = data.levels ?? [];
+  const levelId = levels[0]?.id;
+  const blocks = levelId ? data.blocks.filter(block => isOnLevel(block, levelId, levels)) : data.blocks;
+  const colors = new Map((data.categories ?? []).map(category => [category.id, category.color]));
+  const seats = blocks.flatMap(block => block.seats.map(seat => ({
+    ...seatCenterToCanvasCoords(seat, block),
+    radius: (block.seatSize / 2) * Math.max(Math.abs(block.scaleX), Math.abs(block.scaleY)),
+    color: seat.categoryId ? colors.get(seat.categoryId) ?? COLORS.seat : COLORS.seat,
+    disabled: seat.isDisabled,
+  })));
+  const stagePoints = (data.stages ?? []).map(stage => stage.points);
+
+  // 座席とステージが収まる範囲に合わせて縮小（座席数が多いので展開せずに走査する）
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const include = (x: number, y: number) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  };
+  seats.forEach(seat => include(seat.x, seat.y));
+  stagePoints.forEach(points => {
+    for (let i = 0; i < points.length; i += 2) include(points[i], points[i + 1]);
+  });
+  if (minX === Infinity) return canvas.toDataURL('image/png');
+  const width = Math.max(1, maxX - minX);
+  const height = Math.max(1, maxY - minY);
+  const scale = Math.min((THUMBNAIL_WIDTH - PADDING * 2) / width, (THUMBNAIL_HEIGHT - PADDING * 2) / height);
+  const offsetX = (THUMBNAIL_WIDTH - width * scale) / 2 - minX * scale;
+  const offsetY = (THUMBNAIL_HEIGHT - height * scale) / 2 - minY * scale;
+
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = COLORS.stage;
+  ctx.fillStyle = COLORS.stageFill;
+  for (const points of stagePoints) {
+    ctx.beginPath();
+    for (let i = 0; i < points.length; i += 2) {
+      ctx.lineTo(points[i] * scale + offsetX, points[i + 1] * scale + offsetY);
+    }
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  for (const seat of seats) {
+    ctx.globalAlpha = seat.disabled ? 0.3 : 1;
+    ctx.fillStyle = seat.color;
+    ctx.beginPath();
+    ctx.arc(seat.x * scale + offsetX, seat.y * scale + offsetY, Math.max(0.75, seat.radius * scale), 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.globalAlpha = 1;
+
+  return canvas.toDataURL('image/png');
+}
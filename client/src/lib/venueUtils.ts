@@ -4,17 +4,27 @@
  */
 
 import { nanoid } from 'nanoid';
-import type { Seat, SeatBlock, VenueData, BlockGeneratorForm } from '@/types/venue';
+import { withSeatLabels } from '@/lib/seatNumbering';
+import { getPixelsPerMeter } from '@/lib/calibration';
+import { getBackgroundTransform } from '@/lib/background';
+import { CURRENT_VENUE_VERSION, parseVenueData } from '@/lib/venueSchema';
+import type { Seat, SeatBlock, SeatCategory, SnapSettings, Annotation, StageShape, VenueLevel, ScaleCalibration, LotterySettings, VenueData, VenueImportResult, BlockGeneratorForm, SelectionRect, RowLayout, BlockAisles } from '@/types/venue';
 
 /**
- * 座席の localX, localY を計算（skewX, staggerX 対応）
+ * 座席の localX, localY を計算（skewX, staggerX, curveRadius, 通路 対応）
  *
  * staggerX: 偶数行（0, 2, 4...）のオフセット
  *   正の値 → 偶数行が右にずれる
  *   負の値 → 偶数行が左にずれる
  *   奇数行（1, 3, 5...）は基準位置のまま
  *
- * curveRadius: 扇形配置（未実装・将来用。現在は無視される）
+ * curveRadius: 扇形配置（0=直線）
+ *   ブロック上方（ステージ側）に円弧の中心を置き、行ごとに半径を spacing ずつ拡大。
+ *   弧に沿った座席間隔は spacing のまま保持する（skewX / staggerX も弧長として加算）。
+ *
+ * aisles: ブロック内通路。通路より後ろの列・行を通路幅だけずらす（扇形では弧長・半径に加算）
+ *
+ * rowSpacing: 行の前後の間隔（未指定=spacing）。扇形では半径の増分
  */
 export function calcSeatPosition(
   row: number,
@@ -23,19 +33,94 @@ export function calcSeatPosition(
   spacing: number,
   skewX: number,
   staggerX: number,
-  _curveRadius: number,
+  curveRadius: number,
+  aisles?: BlockAisles,
+  rowSpacing: number = spacing,
 ): { localX: number; localY: number } {
-  // 直線配置: skewX + staggerX
   // staggerX: 偶数行（0, 2, 4...）をオフセット。正=右、負=左
   const staggerOffset = (row % 2 === 0) ? staggerX : 0;
+  const aisleX = getAisleOffsetX(aisles, col);
+  const aisleY = getAisleOffsetY(aisles, row);
+
+  if (curveRadius > 0) {
+    // 扇形配置: 中央列を基準にした弧長 → 角度
+    const centerX = ((cols - 1) * spacing + getAisleOffsetX(aisles, cols - 1)) / 2;
+    const radius = curveRadius + row * rowSpacing + aisleY;
+    const arcLength = col * spacing + aisleX - centerX + row * skewX + staggerOffset;
+    const angle = arcLength / radius;
+    return {
+      localX: centerX + radius * Math.sin(angle),
+      localY: radius * Math.cos(angle) - curveRadius,
+    };
+  }
+
+  // 直線配置: skewX + staggerX
   return {
-    localX: col * spacing + row * skewX + staggerOffset,
-    localY: row * spacing,
+    localX: col * spacing + aisleX + row * skewX + staggerOffset,
+    localY: row * rowSpacing + aisleY,
   };
 }
 
 /**
- * Generate seats for a block based on rows and columns
+ * 列位置 col より手前にある縦通路の合計幅（px）
+ */
+export function getAisleOffsetX(aisles: BlockAisles | undefined, col: number): number {
+  if (!aisles || aisles.width <= 0) return 0;
+  return aisles.afterCols.filter(c => c < col).length * aisles.width;
+}
+
+/**
+ * 行 row より手前にある横通路の合計幅（px）
+ */
+export function getAisleOffsetY(aisles: BlockAisles | undefined, row: number): number {
+  if (!aisles || aisles.width <= 0) return 0;
+  return aisles.afterRows.filter(r => r < row).length * aisles.width;
+}
+
+/**
+ * 座席が属する通路区画の番号（縦・横の通路で区切られた区画ごとに一意。区画が違えば隣接しない）
+ */
+export function getSeatAisleSegment(block: SeatBlock, seat: Seat): number {
+  if (!block.aisles) return 0;
+  const { afterCols, afterRows } = block.aisles;
+  const position = seat.col + getRowOffset(block.rowLayout, seat.row);
+  const colSegment = afterCols.filter(c => c < position).length;
+  const rowSegment = afterRows.filter(r => r < seat.row).length;
+  return rowSegment * (afterCols.length + 1) + colSegment;
+}
+
+/**
+ * 台形ブロックの行レイアウトを生成（先頭行 cols 席から行ごとに taper 席ずつ増減、中央揃え）
+ */
+export function buildTaperedRowLayout(rows: number, cols: number, taper: number): RowLayout[] {
+  const counts = Array.from({ length: rows }, (_, row) => Math.max(1, Math.round(cols + row * taper)));
+  return centerRowLayout(counts.map(seats => ({ seats, offset: 0 })));
+}
+
+/**
+ * 行レイアウトの各行を最長行に対して中央揃えにする
+ */
+export function centerRowLayout(rowLayout: RowLayout[]): RowLayout[] {
+  const maxSeats = Math.max(0, ...rowLayout.map(r => r.seats));
+  return rowLayout.map(r => ({ seats: r.seats, offset: (maxSeats - r.seats) / 2 }));
+}
+
+/**
+ * 行レイアウト全体の列幅（座席間隔単位）: 扇形配置の中心や外形の基準になる
+ */
+export function getRowLayoutCols(rowLayout: RowLayout[]): number {
+  return Math.max(1, Math.ceil(Math.max(0, ...rowLayout.map(r => r.offset + r.seats))));
+}
+
+/**
+ * 行の左端オフセット（座席間隔単位）。矩形ブロックは常に0
+ */
+export function getRowOffset(rowLayout: RowLayout[] | undefined, row: number): number {
+  return rowLayout?.[row]?.offset ?? 0;
+}
+
+/**
+ * Generate seats for a block based on rows and columns (or per-row layout)
  */
 export function generateSeats(
   rows: number,
@@ -45,20 +130,26 @@ export function generateSeats(
   skewX: number = 0,
   staggerX: number = 0,
   curveRadius: number = 0,
+  rowLayout?: RowLayout[],
+  aisles?: BlockAisles,
+  rowGap: number = seatGap,
 ): Seat[] {
   const seats: Seat[] = [];
   const spacing = seatSize + seatGap;
+  const rowSpacing = seatSize + rowGap;
+  const rowCount = rowLayout ? rowLayout.length : rows;
 
-  for (let row = 0; row < rows; row++) {
-    for (let col = 0; col < cols; col++) {
-      const { localX, localY } = calcSeatPosition(row, col, cols, spacing, skewX, staggerX, curveRadius);
+  for (let row = 0; row < rowCount; row++) {
+    const rowSeats = rowLayout ? rowLayout[row].seats : cols;
+    const offset = getRowOffset(rowLayout, row);
+    for (let col = 0; col < rowSeats; col++) {
+      const { localX, localY } = calcSeatPosition(row, col + offset, cols, spacing, skewX, staggerX, curveRadius, aisles, rowSpacing);
       seats.push({
         id: nanoid(8),
         row,
         col,
         localX,
         localY,
-        isPremium: false,
         isDisabled: false,
       });
     }
@@ -67,6 +158,32 @@ export function generateSeats(
   return seats;
 }
 
+/**
+ * ブロックの現在の設定で座席を再生成する
+ * 既存の (row, col) に対応する座席は ID とフラグ（無効化・プレミアムなど）を引き継ぐ
+ */
+export function regenerateSeats(block: SeatBlock): Seat[] {
+  // ばら席ブロックは座席を個別に配置するので再生成しない
+  if (block.kind === 'loose') return block.seats;
+  const fresh = generateSeats(
+    block.rows,
+    block.cols,
+    block.seatSize,
+    block.seatGap,
+    block.skewX ?? 0,
+    block.staggerX ?? 0,
+    block.curveRadius ?? 0,
+    block.rowLayout,
+    block.aisles,
+    block.rowGap ?? block.seatGap,
+  );
+  const existing = new Map(block.seats.map(seat => [`${seat.row}_${seat.col}`, seat]));
+  return fresh.map(seat => {
+    const prev = existing.get(`${seat.row}_${seat.col}`);
+    return prev ? { ...prev, localX: seat.localX, localY: seat.localY } : seat;
+  });
+}
+
 /**
  * Create a new seat block
  */
@@ -75,6 +192,8 @@ export function createSeatBlock(
   x: number = 100,
   y: number = 100
 ): SeatBlock {
+  const rowLayout = form.taper ? buildTaperedRowLayout(form.rows, form.cols, form.taper) : undefined;
+  const cols = rowLayout ? getRowLayoutCols(rowLayout) : form.cols;
   return {
     id: nanoid(8),
     name: form.name || `Block ${Date.now()}`,
@@ -84,20 +203,85 @@ export function createSeatBlock(
     scaleX: 1,
     scaleY: 1,
     rows: form.rows,
-    cols: form.cols,
+    cols,
     seatSize: form.seatSize,
     seatGap: form.seatGap,
+    ...(form.rowGap !== undefined && form.rowGap !== form.seatGap ? { rowGap: form.rowGap } : {}),
     skewX: form.skewX || 0,
     staggerX: form.staggerX || 0,
     curveRadius: form.curveRadius || 0,
-    seats: generateSeats(form.rows, form.cols, form.seatSize, form.seatGap, form.skewX || 0, form.staggerX || 0, form.curveRadius || 0),
+    ...(rowLayout ? { rowLayout } : {}),
+    seats: generateSeats(form.rows, cols, form.seatSize, form.seatGap, form.skewX || 0, form.staggerX || 0, form.curveRadius || 0, rowLayout, undefined, form.rowGap ?? form.seatGap),
   };
 }
 
+/** ばら席ブロックの既定の座席サイズ・間隔（px） */
+export const LOOSE_SEAT_SIZE = 20;
+export const LOOSE_SEAT_GAP = 4;
+
 /**
- * Calculate block dimensions
+ * 座席のない「ばら席」ブロックを作成（座席はペンツールで1席ずつ追加する）
  */
-export function getBlockDimensions(block: SeatBlock): { width: number; height: number } {
+export function createLooseBlock(name: string, x: number, y: number): SeatBlock {
+  return {
+    id: nanoid(8),
+    name,
+    kind: 'loose',
+    x,
+    y,
+    rotation: 0,
+    scaleX: 1,
+    scaleY: 1,
+    rows: 1,
+    cols: 1,
+    seatSize: LOOSE_SEAT_SIZE,
+    seatGap: LOOSE_SEAT_GAP,
+    skewX: 0,
+    staggerX: 0,
+    curveRadius: 0,
+    seats: [],
+  };
+}
+
+/**
+ * ばら席を1席作成（col は追加順の通し番号。row は常に0）
+ */
+export function createLooseSeat(block: SeatBlock, localX: number, localY: number): Seat {
+  const nextCol = block.seats.reduce((max, seat) => Math.max(max, seat.col + 1), 0);
+  return {
+    id: nanoid(8),
+    row: 0,
+    col: nextCol,
+    localX,
+    localY,
+    isDisabled: false,
+    neighbors: [],
+  };
+}
+
+/**
+ * 座席の中心間距離が (座席サイズ + 間隔) × 1.5 以内の席どうしを隣接とみなした隣接リスト
+ */
+export function buildLooseNeighbors(block: SeatBlock): Map<string, string[]> {
+  const limit = (block.seatSize + block.seatGap) * 1.5;
+  const neighbors = new Map<string, string[]>(block.seats.map(seat => [seat.id, []]));
+  for (let i = 0; i < block.seats.length; i++) {
+    for (let j = i + 1; j < block.seats.length; j++) {
+      const a = block.seats[i];
+      const b = block.seats[j];
+      if (Math.hypot(a.localX - b.localX, a.localY - b.localY) <= limit) {
+        neighbors.get(a.id)!.push(b.id);
+        neighbors.get(b.id)!.push(a.id);
+      }
+    }
+  }
+  return neighbors;
+}
+
+/**
+ * Calculate block bounds in local coordinates (top-left may be negative for curved/staggered blocks)
+ */
+export function getBlockBounds(block: SeatBlock): { minX: number; minY: number; width: number; height: number } {
   // 座席が存在する場合、実際の座標から算出
   if (block.seats.length > 0) {
     let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
@@ -108,38 +292,128 @@ export function getBlockDimensions(block: SeatBlock): { width: number; height: n
       maxY = Math.max(maxY, seat.localY + block.seatSize);
     }
     return {
+      minX,
+      minY,
       width: maxX - minX,
       height: maxY - minY,
     };
   }
   const spacing = block.seatSize + block.seatGap;
+  const rowGap = block.rowGap ?? block.seatGap;
   return {
-    width: block.cols * spacing - block.seatGap,
-    height: block.rows * spacing - block.seatGap,
+    minX: 0,
+    minY: 0,
+    width: block.cols * spacing - block.seatGap + getAisleOffsetX(block.aisles, block.cols - 1),
+    height: block.rows * (block.seatSize + rowGap) - rowGap + getAisleOffsetY(block.aisles, block.rows - 1),
   };
 }
 
 /**
- * Transform local seat coordinates to canvas coordinates
+ * Calculate block dimensions
  */
-export function seatToCanvasCoords(
-  seat: Seat,
+export function getBlockDimensions(block: SeatBlock): { width: number; height: number } {
+  const { width, height } = getBlockBounds(block);
+  return { width, height };
+}
+
+/**
+ * 扇形ブロックの外形（環状扇形）をポリゴン頂点列で返す（Konva Line の points 形式）
+ * 内側の弧は先頭行、外側の弧は最終行に沿い、pad だけ外側に広げる。
+ */
+export function getCurvedBlockOutline(block: SeatBlock, pad: number): number[] {
+  const spacing = block.seatSize + block.seatGap;
+  const half = block.seatSize / 2;
+  const centerX = ((block.cols - 1) * spacing + getAisleOffsetX(block.aisles, block.cols - 1)) / 2 + half;
+  const centerY = -block.curveRadius + half;
+  const innerRadius = Math.max(0, block.curveRadius - half - pad);
+  const rowSpacing = block.seatSize + (block.rowGap ?? block.seatGap);
+  const outerRadius = block.curveRadius + (block.rows - 1) * rowSpacing + getAisleOffsetY(block.aisles, block.rows - 1) + half + pad;
+
+  // 座席の角度範囲（seat中心の中心角）から、外形の角度範囲を求める
+  let minAngle = Infinity, maxAngle = -Infinity;
+  for (const seat of block.seats) {
+    const angle = Math.atan2(seat.localX + half - centerX, seat.localY + half - centerY);
+    const radius = Math.hypot(seat.localX + half - centerX, seat.localY + half - centerY) || 1;
+    const margin = (half + pad) / radius;
+    minAngle = Math.min(minAngle, angle - margin);
+    maxAngle = Math.max(maxAngle, angle + margin);
+  }
+  if (!isFinite(minAngle)) return [];
+
+  const steps = Math.max(8, Math.ceil(((maxAngle - minAngle) * 180) / Math.PI / 3));
+  const points: number[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const a = minAngle + ((maxAngle - minAngle) * i) / steps;
+    points.push(centerX + innerRadius * Math.sin(a), centerY + innerRadius * Math.cos(a));
+  }
+  for (let i = steps; i >= 0; i--) {
+    const a = minAngle + ((maxAngle - minAngle) * i) / steps;
+    points.push(centerX + outerRadius * Math.sin(a), centerY + outerRadius * Math.cos(a));
+  }
+  return points;
+}
+
+/**
+ * Transform local block coordinates to canvas coordinates (Konva order: scale → rotate → translate)
+ */
+export function localToCanvasCoords(
+  localX: number,
+  localY: number,
   block: SeatBlock
 ): { x: number; y: number } {
   const rad = (block.rotation * Math.PI) / 180;
   const cos = Math.cos(rad);
   const sin = Math.sin(rad);
+  const scaledX = localX * (block.scaleX ?? 1);
+  const scaledY = localY * (block.scaleY ?? 1);
 
-  // Rotate around block origin
-  const rotatedX = seat.localX * cos - seat.localY * sin;
-  const rotatedY = seat.localX * sin + seat.localY * cos;
+  return {
+    x: block.x + scaledX * cos - scaledY * sin,
+    y: block.y + scaledX * sin + scaledY * cos,
+  };
+}
+
+/**
+ * Transform canvas coordinates to local block coordinates (inverse of localToCanvasCoords)
+ */
+export function canvasToLocalCoords(
+  x: number,
+  y: number,
+  block: SeatBlock
+): { x: number; y: number } {
+  const rad = (block.rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = x - block.x;
+  const dy = y - block.y;
 
   return {
-    x: block.x + rotatedX,
-    y: block.y + rotatedY,
+    x: (dx * cos + dy * sin) / (block.scaleX || 1),
+    y: (-dx * sin + dy * cos) / (block.scaleY || 1),
   };
 }
 
+/**
+ * Transform local seat coordinates to canvas coordinates
+ */
+export function seatToCanvasCoords(
+  seat: Seat,
+  block: SeatBlock
+): { x: number; y: number } {
+  return localToCanvasCoords(seat.localX, seat.localY, block);
+}
+
+/**
+ * Canvas coordinates of a seat's center
+ */
+export function seatCenterToCanvasCoords(
+  seat: Seat,
+  block: SeatBlock
+): { x: number; y: number } {
+  const half = block.seatSize / 2;
+  return localToCanvasCoords(seat.localX + half, seat.localY + half, block);
+}
+
 /**
  * Check if a point is inside a seat (circle)
  */
@@ -151,10 +425,8 @@ export function isPointInSeat(
 ): boolean {
   if (seat.isDisabled) return false;
 
-  const { x, y } = seatToCanvasCoords(seat, block);
-  const radius = block.seatSize / 2;
-  const centerX = x + radius;
-  const centerY = y + radius;
+  const { x: centerX, y: centerY } = seatCenterToCanvasCoords(seat, block);
+  const radius = (block.seatSize / 2) * Math.min(block.scaleX ?? 1, block.scaleY ?? 1);
 
   const dx = px - centerX;
   const dy = py - centerY;
@@ -163,24 +435,28 @@ export function isPointInSeat(
 }
 
 /**
- * Check if a seat is within a selection rectangle
+ * Normalize a selection rectangle (handle negative width/height from drag direction)
+ */
+export function normalizeSelectionRect(rect: SelectionRect): SelectionRect {
+  return {
+    x: rect.width < 0 ? rect.x + rect.width : rect.x,
+    y: rect.height < 0 ? rect.y + rect.height : rect.y,
+    width: Math.abs(rect.width),
+    height: Math.abs(rect.height),
+  };
+}
+
+/**
+ * Check if a seat's center is within a selection rectangle (canvas coordinates)
+ * 無効化席も対象にする（無効化モードで解除できるように）
  */
 export function isSeatInSelection(
   seat: Seat,
   block: SeatBlock,
-  selectionRect: { x: number; y: number; width: number; height: number }
+  selectionRect: SelectionRect
 ): boolean {
-  if (seat.isDisabled) return false;
-
-  const { x, y } = seatToCanvasCoords(seat, block);
-  const seatCenterX = x + block.seatSize / 2;
-  const seatCenterY = y + block.seatSize / 2;
-
-  // Normalize selection rect (handle negative width/height from drag direction)
-  const rectX = selectionRect.width < 0 ? selectionRect.x + selectionRect.width : selectionRect.x;
-  const rectY = selectionRect.height < 0 ? selectionRect.y + selectionRect.height : selectionRect.y;
-  const rectW = Math.abs(selectionRect.width);
-  const rectH = Math.abs(selectionRect.height);
+  const { x: seatCenterX, y: seatCenterY } = seatCenterToCanvasCoords(seat, block);
+  const { x: rectX, y: rectY, width: rectW, height: rectH } = normalizeSelectionRect(selectionRect);
 
   return (
     seatCenterX >= rectX &&
@@ -190,6 +466,92 @@ export function isSeatInSelection(
   );
 }
 
+/**
+ * Collect the ids of all seats (across blocks) inside a selection rectangle
+ */
+export function getSeatIdsInSelection(blocks: SeatBlock[], selectionRect: SelectionRect): string[] {
+  const ids: string[] = [];
+  for (const block of blocks) {
+    for (const seat of block.seats) {
+      if (isSeatInSelection(seat, block, selectionRect)) {
+        ids.push(seat.id);
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Axis-aligned bounding box of a block in canvas coordinates (rotation / scale applied)
+ */
+export function getBlockCanvasBounds(block: SeatBlock): { minX: number; minY: number; maxX: number; maxY: number } {
+  const { minX, minY, width, height } = getBlockBounds(block);
+  const corners = [
+    localToCanvasCoords(minX, minY, block),
+    localToCanvasCoords(minX + width, minY, block),
+    localToCanvasCoords(minX, minY + height, block),
+    localToCanvasCoords(minX + width, minY + height, block),
+  ];
+  return {
+    minX: Math.min(...corners.map(c => c.x)),
+    minY: Math.min(...corners.map(c => c.y)),
+    maxX: Math.max(...corners.map(c => c.x)),
+    maxY: Math.max(...corners.map(c => c.y)),
+  };
+}
+
+/** 書き出す会場の大きさの下限（内容が無いときの既定値） */
+const DEFAULT_CANVAS_SIZE = { width: 1920, height: 1080 };
+
+/**
+ * 会場全体（全階のブロック・背景、ステージ）が収まるキャンバスの大きさ（原点から右端・下端まで）
+ */
+export function getContentCanvasSize(
+  blocks: SeatBlock[],
+  levels: VenueLevel[] = [],
+  stages: StageShape[] = [],
+): { width: number; height: number } {
+  let maxX = DEFAULT_CANVAS_SIZE.width;
+  let maxY = DEFAULT_CANVAS_SIZE.height;
+  for (const block of blocks) {
+    const bounds = getBlockCanvasBounds(block);
+    maxX = Math.max(maxX, bounds.maxX);
+    maxY = Math.max(maxY, bounds.maxY);
+  }
+  for (const level of levels) {
+    const image = level.backgroundImage;
+    if (!image) continue;
+    const { x, y, scale, rotation } = getBackgroundTransform(image);
+    const rad = (rotation * Math.PI) / 180;
+    for (const [cx, cy] of [[image.width, 0], [0, image.height], [image.width, image.height]]) {
+      maxX = Math.max(maxX, x + (cx * Math.cos(rad) - cy * Math.sin(rad)) * scale);
+      maxY = Math.max(maxY, y + (cx * Math.sin(rad) + cy * Math.cos(rad)) * scale);
+    }
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  for (const stage of stages) {
+    for (let i = 0; i < stage.points.length; i += 2) {
+      maxX = Math.max(maxX, stage.points[i]);
+      maxY = Math.max(maxY, stage.points[i + 1]);
+    }
+  }
+  return { width: Math.ceil(maxX), height: Math.ceil(maxY) };
+}
+
+/**
+ * Get IDs of blocks whose canvas bounds intersect a selection rectangle
+ */
+export function getBlockIdsInSelection(blocks: SeatBlock[], selectionRect: SelectionRect): string[] {
+  const { x, y, width, height } = normalizeSelectionRect(selectionRect);
+  return blocks
+    .filter(block => {
+      const bounds = getBlockCanvasBounds(block);
+      return bounds.maxX >= x && bounds.minX <= x + width && bounds.maxY >= y && bounds.minY <= y + height;
+    })
+    .map(block => block.id);
+}
+
 /**
  * Export venue data to JSON
  */
@@ -197,16 +559,31 @@ export function exportVenueData(
   blocks: SeatBlock[],
   canvasWidth: number,
   canvasHeight: number,
-  name: string = 'Untitled Venue'
+  name: string = 'Untitled Venue',
+  categories: SeatCategory[] = [],
+  snap?: SnapSettings,
+  annotations: Annotation[] = [],
+  stages?: StageShape[],
+  levels?: VenueLevel[],
+  calibration?: ScaleCalibration | null,
+  lottery?: LotterySettings,
 ): VenueData {
+  const pixelsPerMeter = getPixelsPerMeter(calibration);
   return {
-    version: '1.0',
+    version: CURRENT_VENUE_VERSION,
     name,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
     canvasWidth,
     canvasHeight,
-    blocks,
+    blocks: withSeatLabels(blocks, levels),
+    categories,
+    ...(snap ? { snap } : {}),
+    annotations,
+    ...(stages ? { stages } : {}),
+    ...(levels ? { levels } : {}),
+    ...(calibration && pixelsPerMeter ? { calibration, pixelsPerMeter } : {}),
+    ...(lottery ? { lottery } : {}),
   };
 }
 
@@ -215,7 +592,13 @@ export function exportVenueData(
  */
 export function downloadJson(data: VenueData, filename: string = 'venue-data.json'): void {
   const json = JSON.stringify(data, null, 2);
-  const blob = new Blob([json], { type: 'application/json' });
+  downloadBlob(new Blob([json], { type: 'application/json' }), filename);
+}
+
+/**
+ * Download a blob as a file
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
   
   const a = document.createElement('a');
@@ -228,17 +611,23 @@ export function downloadJson(data: VenueData, filename: string = 'venue-data.jso
 }
 
 /**
- * Load venue data from JSON file
+ * Load venue data from JSON file (migrated to the current version and validated)
  */
-export function loadVenueData(file: File): Promise<VenueData> {
+export function loadVenueData(file: File): Promise<VenueImportResult> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
+      let raw: unknown;
       try {
-        const data = JSON.parse(e.target?.result as string) as VenueData;
-        resolve(data);
+        raw = JSON.parse(e.target?.result as string);
       } catch (error) {
         reject(new Error('Invalid JSON file'));
+        return;
+      }
+      try {
+        resolve(parseVenueData(raw));
+      } catch (error) {
+        reject(error);
       }
     };
     reader.onerror = () => reject(new Error('Failed to read file'));
@@ -253,26 +642,28 @@ export function getSeatStats(blocks: SeatBlock[]): {
   total: number;
   active: number;
   disabled: number;
-  premium: number;
   normal: number;
+  byCategory: Record<string, number>; // カテゴリID → 有効席数
 } {
   let total = 0;
   let disabled = 0;
-  let premium = 0;
+  let categorized = 0;
+  const byCategory: Record<string, number> = {};
 
   for (const block of blocks) {
     for (const seat of block.seats) {
       total++;
       if (seat.isDisabled) {
         disabled++
-      } else if (seat.isPremium) {
-        premium++;
+      } else if (seat.categoryId) {
+        categorized++;
+        byCategory[seat.categoryId] = (byCategory[seat.categoryId] ?? 0) + 1;
       }
     }
   }
 
   const active = total - disabled;
-  const normal = active - premium;
+  const normal = active - categorized;
 
-  return { total, active, disabled, premium, normal };
+  return { total, active, disabled, normal, byCategory };
 }
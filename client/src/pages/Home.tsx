@@ -3,21 +3,33 @@
  * 3層構造抽選対応
  */
 
-import { useState } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { VenueCanvas } from '@/components/VenueCanvas';
 import { BlockGenerator } from '@/components/BlockGenerator';
 import { BlockList } from '@/components/BlockList';
 import { BackgroundUploader } from '@/components/BackgroundUploader';
+import { SeatDetectionPanel } from '@/components/SeatDetectionPanel';
 import { DataPanel } from '@/components/DataPanel';
+import { VenueLibraryDialog } from '@/components/VenueLibraryDialog';
+import { VenueRecoveryDialog } from '@/components/VenueRecoveryDialog';
+import { SeatMapExportDialog } from '@/components/SeatMapExportDialog';
 import { ModeToolbar } from '@/components/ModeToolbar';
 import LotteryPanel from '@/components/LotteryPanel';
 import { WinnersList } from '@/components/WinnersList';
 import { CustomerManager } from '@/components/CustomerManager';
+import { HistoryPanel } from '@/components/HistoryPanel';
+import { CategoryPanel } from '@/components/CategoryPanel';
+import { LevelPanel } from '@/components/LevelPanel';
 import { useVenueEditor } from '@/hooks/useVenueEditor';
 import { useLottery } from '@/hooks/useLottery';
 import { useCustomerDB } from '@/hooks/useCustomerDB';
+import { useVenueLibrary } from '@/hooks/useVenueLibrary';
+import { isOnLevel } from '@/lib/levels';
+import { normalizeLotterySettings } from '@/lib/projectFile';
+import { createSeatInventoryCsv, downloadSeatInventoryCsv, parseSeatInventoryCsv } from '@/lib/seatInventory';
 import { useAuth } from '@/contexts/AuthContext';
 import type { Customer } from '@/types/customer';
+import type { ProjectFileFormat, VenueData } from '@/types/venue';
 import { MapPin, LayoutGrid, Users, LogOut } from 'lucide-react';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { toast } from 'sonner';
@@ -31,28 +43,94 @@ export default function Home() {
   const {
     blocks,
     selectedBlockId,
+    selectedBlockIds,
     mode,
     backgroundImage,
+    stages,
     scale,
+    categories,
+    activeCategoryId,
     setMode,
     addBlock,
     deleteBlock,
     updateBlockPosition,
     updateBlockRotation,
-    updateBlockScale,
+    updateBlockTransforms,
     updateBlockName,
+    updateBlockGrid,
     updateBlockSkewX,
     updateBlockStaggerX,
+    updateBlockCurveRadius,
+    updateBlockRowLayout,
+    updateBlockAisles,
+    updateBlockNumbering,
     selectBlock,
+    selectBlocksInRect,
+    alignBlocks,
+    distributeBlocks,
+    duplicateBlocks,
+    copyBlocks,
+    mirrorBlocks,
+    moveBlockToLevel,
+    levelBlocks,
+    levels,
+    activeLevelId,
+    setActiveLevelId,
+    addLevel,
+    updateLevel,
+    deleteLevel,
+    calibration,
+    pixelsPerMeter,
+    setCalibration,
+    snapSettings,
+    updateSnapSettings,
     handleSeatClick,
+    activeSeatId,
+    addLooseSeat,
+    moveLooseSeat,
+    deleteLooseSeat,
+    autoLinkLooseSeats,
+    updateLooseSeatNumber,
+    annotations,
+    venueAnnotations,
+    selectedAnnotationId,
+    selectAnnotation,
+    addAnnotation,
+    updateAnnotation,
+    deleteAnnotation,
+    selectedSeatIds,
+    selectSeatsInRect,
+    clearSeatSelection,
+    paintSelectedSeats,
+    applySeatFlags,
+    setActiveCategoryId,
+    addCategory,
+    updateCategory,
+    deleteCategory,
     setBackgroundImage,
     updateBackgroundOpacity,
+    updateBackgroundTransform,
+    setBackgroundLocked,
+    seatSuggestions,
+    setSeatSuggestions,
+    moveSeatSuggestion,
+    acceptSeatSuggestions,
+    discardSeatSuggestions,
+    addStage,
+    updateStagePoints,
+    deleteStage,
     setScale,
+    getVenueData,
     exportData,
-    importData,
+    loadDocument,
     clearAll,
     undo,
+    redo,
+    jumpToHistory,
     canUndo,
+    canRedo,
+    historyEntries,
+    historyIndex,
     saveSnapshot,
     stats,
   } = useVenueEditor();
@@ -60,14 +138,13 @@ export default function Home() {
   const {
     applications,
     assignments,
-    stagePosition,
     skillWeight,
     seatAssignmentMap,
     lockedSeats,
     lockingState,
     lastResult,
-    setStagePosition,
     setSkillWeight,
+    restoreSettings: restoreLotterySettings,
     loadFromCustomers,
     runLottery,
     reset: resetLottery,
@@ -83,12 +160,44 @@ export default function Home() {
 
   const { customers, reload: reloadCustomers } = useCustomerDB();
 
+  // 会場ライブラリ: 編集中の会場（名前・抽選設定を含む）を IndexedDB に自動保存
+  const [venueName, setVenueName] = useState('');
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isSeatMapExportOpen, setIsSeatMapExportOpen] = useState(false);
+  // 座席図の「当選結果」で塗る色（座席ID → 割り当ての色）
+  const assignmentSeatColors = useMemo(() => {
+    const colors = new Map<string, string>();
+    assignments.forEach(a => a.seatIds.forEach(seatId => colors.set(seatId, a.color)));
+    return colors;
+  }, [assignments]);
+  const buildVenueData = useCallback(
+    () => getVenueData(venueName || '無題の会場', { skillWeight, lockedSeats }),
+    [getVenueData, venueName, skillWeight, lockedSeats],
+  );
+  const {
+    venues: savedVenues,
+    loading: isLibraryLoading,
+    currentVenueId,
+    autosaveStatus,
+    lastSavedAt,
+    recovery,
+    openVenue,
+    startNewVenue,
+    renameVenue,
+    duplicateVenue,
+    deleteVenue,
+    dismissRecovery,
+  } = useVenueLibrary({
+    getVenueData: buildVenueData,
+    isEmpty: blocks.length === 0 && !levels.some(level => level.backgroundImage),
+  });
+
   // 抽選モードでのロック配置中は座席クリックをロック処理に流す
-  const handleSeatClickForCanvas = (blockId: string, seatId: string) => {
+  const handleSeatClickForCanvas = (blockId: string, seatId: string, additive?: boolean) => {
     if (mode === 'lottery' && lockingState) {
       handleLockSeatClick(seatId);
     } else {
-      handleSeatClick(blockId, seatId);
+      handleSeatClick(blockId, seatId, additive);
     }
   };
 
@@ -111,7 +220,7 @@ export default function Home() {
       toast.error('座席ブロックがありません');
       return;
     }
-    const result = runLottery(blocks);
+    const result = runLottery(blocks, stages, categories, levels, pixelsPerMeter);
     if (result) {
       const total = result.stats.tier1Count + result.stats.tier2Count + result.stats.tier3Count;
       toast.success(
@@ -127,8 +236,117 @@ export default function Home() {
     toast.info('抽選結果をリセットしました');
   };
 
+  // プロジェクトファイル: 会場と一緒に抽選の重み・関係者の固定席を保存・復元する
+  const handleExportProject = (name: string, format: ProjectFileFormat) => {
+    exportData(name, format, { skillWeight, lockedSeats });
+  };
+
+  const handleExportSeatInventory = () => {
+    downloadSeatInventoryCsv(createSeatInventoryCsv(blocks, categories, levels), `${venueName || 'venue'}-seats.csv`);
+  };
+
+  // 座席CSVの使用不可・プレミアムを反映（元に戻すで取り消せる）
+  const handleImportSeatInventory = (text: string) => {
+    try {
+      const result = parseSeatInventoryCsv(text, blocks, levels);
+      const changedCount = applySeatFlags(result.updates);
+      const summarize = (label: string, items: string[]) =>
+        items.length > 0 ? `${label} ${items.length}件（${items.slice(0, 5).join('、')}${items.length > 5 ? ' ほか' : ''}）` : '';
+      const skipped = [
+        summarize('一致する座席なし', result.unmatched),
+        summarize('同じラベルの席が複数', result.ambiguous),
+        summarize('値を解釈できない行', result.invalidRows),
+      ].filter(Boolean).join(' / ');
+      const message = `座席CSV ${result.rowCount}行のうち${changedCount}席を更新しました`;
+      if (skipped) {
+        toast.warning(message, { description: skipped, duration: 10000 });
+      } else {
+        toast.success(message);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '座席CSVを読み込めませんでした');
+    }
+  };
+
+  const applyVenueData = (data: VenueData) => {
+    loadDocument(data);
+    setVenueName(data.name);
+    // 抽選設定のない旧形式は重みをそのままにし、別の会場の固定席は外す
+    restoreLotterySettings(normalizeLotterySettings(data.lottery, data.blocks) ?? { skillWeight, lockedSeats: [] });
+  };
+
+  // 読み込んだファイルはライブラリの新しい会場として自動保存する
+  const handleImportProject = async (data: VenueData) => {
+    await startNewVenue();
+    applyVenueData(data);
+  };
+
+  const handleOpenVenue = async (id: string) => {
+    try {
+      const data = await openVenue(id);
+      if (!data) {
+        toast.error('会場が見つかりませんでした');
+        return;
+      }
+      applyVenueData(data);
+      setIsLibraryOpen(false);
+      toast.success(`「${data.name}」を開きました`);
+    } catch (error) {
+      console.error('会場を開けませんでした:', error);
+      toast.error('会場を開けませんでした');
+    }
+  };
+
+  const handleNewVenue = async () => {
+    await startNewVenue();
+    loadDocument();
+    setVenueName('');
+    restoreLotterySettings({ skillWeight, lockedSeats: [] });
+    setIsLibraryOpen(false);
+  };
+
+  const handleRenameVenue = async (id: string, name: string) => {
+    if (!(await renameVenue(id, name))) {
+      toast.error('会場名を変更できませんでした');
+      return;
+    }
+    if (id === currentVenueId) setVenueName(name);
+  };
+
+  const handleDuplicateVenue = async (id: string) => {
+    const copy = await duplicateVenue(id);
+    if (copy) {
+      toast.success(`「${copy.name}」を作成しました`);
+    } else {
+      toast.error('会場を複製できませんでした');
+    }
+  };
+
+  const handleDeleteVenue = async (id: string) => {
+    if (!(await deleteVenue(id))) toast.error('会場を削除できませんでした');
+  };
+
+  // 開けなかった場合に確認が出続けないよう、先に提案を閉じる
+  const handleRecoverVenue = () => {
+    if (!recovery) return;
+    const id = recovery.id;
+    dismissRecovery();
+    void handleOpenVenue(id);
+  };
+
+  const handleCopyBlocks = async () => {
+    const text = copyBlocks();
+    if (!text) return;
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success('ブロックをコピーしました（Ctrl+V で貼り付け）');
+    } catch {
+      toast.error('クリップボードへのコピーに失敗しました');
+    }
+  };
+
   const handleExportWinnersCSV = () => {
-    exportWinnersCSV(blocks);
+    exportWinnersCSV(blocks, levels);
     toast.success('当選者CSVをダウンロードしました');
   };
 
@@ -151,7 +369,10 @@ export default function Home() {
     }
   };
 
-  const winners = getWinnersList(blocks);
+  const winners = getWinnersList(blocks, levels);
+  const levelBlockCounts = Object.fromEntries(
+    levels.map((level) => [level.id, blocks.filter((b) => isOnLevel(b, level.id, levels)).length]),
+  );
   const isLotteryMode = mode === 'lottery';
 
   return (
@@ -221,29 +442,82 @@ export default function Home() {
           {/* 左サイドバー */}
           <aside className="w-72 bg-sidebar border-r border-sidebar-border p-3 overflow-y-auto shrink-0 z-40">
             <div className="space-y-3">
+              <LevelPanel
+                levels={levels}
+                activeLevelId={activeLevelId}
+                blockCounts={levelBlockCounts}
+                onSelect={setActiveLevelId}
+                onAdd={addLevel}
+                onUpdate={updateLevel}
+                onDelete={deleteLevel}
+              />
               {!isLotteryMode && (
                 <>
-                  <BlockGenerator onAddBlock={addBlock} />
+                  <BlockGenerator onAddBlock={addBlock} pixelsPerMeter={pixelsPerMeter} />
                   <BlockList
-                    blocks={blocks}
+                    blocks={levelBlocks}
                     selectedBlockId={selectedBlockId}
+                    selectedBlockIds={selectedBlockIds}
                     onSelectBlock={selectBlock}
                     onDeleteBlock={deleteBlock}
                     onRotateBlock={updateBlockRotation}
                     onRenameBlock={updateBlockName}
+                    onGridBlock={updateBlockGrid}
                     onSkewBlock={updateBlockSkewX}
                     onStaggerBlock={updateBlockStaggerX}
+                    onCurveBlock={updateBlockCurveRadius}
+                    onRowLayoutBlock={updateBlockRowLayout}
+                    onAislesBlock={updateBlockAisles}
+                    onNumberingBlock={updateBlockNumbering}
+                    levels={levels}
+                    onMoveBlockToLevel={moveBlockToLevel}
+                    pixelsPerMeter={pixelsPerMeter}
                     onSaveSnapshot={saveSnapshot}
                   />
+                  <CategoryPanel
+                    categories={categories}
+                    activeCategoryId={activeCategoryId}
+                    counts={stats.byCategory}
+                    onSelect={setActiveCategoryId}
+                    onAdd={addCategory}
+                    onUpdate={updateCategory}
+                    onDelete={deleteCategory}
+                  />
                   <BackgroundUploader
                     backgroundImage={backgroundImage}
                     onSetBackground={setBackgroundImage}
                     onUpdateOpacity={updateBackgroundOpacity}
+                    onUpdateTransform={updateBackgroundTransform}
+                    onSetLocked={setBackgroundLocked}
+                  />
+                  {backgroundImage && (
+                    <SeatDetectionPanel
+                      backgroundImage={backgroundImage}
+                      suggestionCount={seatSuggestions.length}
+                      onDetected={setSeatSuggestions}
+                    />
+                  )}
+                  <HistoryPanel
+                    entries={historyEntries}
+                    index={historyIndex}
+                    canUndo={canUndo}
+                    canRedo={canRedo}
+                    onUndo={undo}
+                    onRedo={redo}
+                    onJump={jumpToHistory}
                   />
                   <DataPanel
-                    onExport={exportData}
-                    onImport={importData}
+                    venueName={venueName}
+                    onVenueNameChange={setVenueName}
+                    onExport={handleExportProject}
+                    onImport={handleImportProject}
                     onClear={clearAll}
+                    onOpenLibrary={() => setIsLibraryOpen(true)}
+                    onOpenSeatMapExport={() => setIsSeatMapExportOpen(true)}
+                    onExportSeatInventory={handleExportSeatInventory}
+                    onImportSeatInventory={handleImportSeatInventory}
+                    autosaveStatus={autosaveStatus}
+                    lastSavedAt={lastSavedAt}
                     hasData={blocks.length > 0}
                   />
                 </>
@@ -273,26 +547,62 @@ export default function Home() {
           {/* 中央キャンバス */}
           <main className="flex-1 relative bg-background overflow-hidden">
             <VenueCanvas
-              blocks={blocks}
+              blocks={levelBlocks}
+              levels={levels}
               backgroundImage={backgroundImage}
-              selectedBlockId={selectedBlockId}
+              onUpdateBackgroundTransform={updateBackgroundTransform}
+              seatSuggestions={seatSuggestions}
+              onMoveSeatSuggestion={moveSeatSuggestion}
+              onAcceptSeatSuggestions={acceptSeatSuggestions}
+              onDiscardSeatSuggestions={discardSeatSuggestions}
+              selectedBlockIds={selectedBlockIds}
               mode={mode}
               scale={scale}
               onSelectBlock={selectBlock}
+              onSelectBlocksInRect={selectBlocksInRect}
               onUpdateBlockPosition={updateBlockPosition}
-              onUpdateBlockRotation={updateBlockRotation}
-              onUpdateBlockScale={updateBlockScale}
+              onUpdateBlockTransforms={updateBlockTransforms}
+              onAlignBlocks={alignBlocks}
+              onDistributeBlocks={distributeBlocks}
+              onDuplicateBlocks={duplicateBlocks}
+              onCopyBlocks={handleCopyBlocks}
+              onMirrorBlocks={mirrorBlocks}
+              snapSettings={snapSettings}
+              onSnapSettingsChange={updateSnapSettings}
               onSeatClick={handleSeatClickForCanvas}
               onScaleChange={setScale}
               onSaveSnapshot={saveSnapshot}
-              stagePosition={stagePosition}
-              onStagePositionChange={setStagePosition}
+              categories={categories}
+              paintCategory={categories.find((c) => c.id === activeCategoryId)}
+              selectedSeatIds={selectedSeatIds}
+              onSelectSeatsInRect={selectSeatsInRect}
+              onClearSeatSelection={clearSeatSelection}
+              onPaintSelectedSeats={paintSelectedSeats}
+              activeSeatId={activeSeatId}
+              onAddLooseSeat={addLooseSeat}
+              onMoveLooseSeat={moveLooseSeat}
+              onDeleteLooseSeat={deleteLooseSeat}
+              onAutoLinkLooseSeats={autoLinkLooseSeats}
+              onUpdateLooseSeatNumber={updateLooseSeatNumber}
+              annotations={annotations}
+              selectedAnnotationId={selectedAnnotationId}
+              onSelectAnnotation={selectAnnotation}
+              onAddAnnotation={addAnnotation}
+              onUpdateAnnotation={updateAnnotation}
+              onDeleteAnnotation={deleteAnnotation}
+              calibration={calibration}
+              pixelsPerMeter={pixelsPerMeter}
+              onSetCalibration={setCalibration}
+              stages={stages}
+              onAddStage={addStage}
+              onUpdateStagePoints={updateStagePoints}
+              onDeleteStage={deleteStage}
               seatAssignmentMap={seatAssignmentMap}
               isLocking={!!lockingState}
               lockedSeatIds={lockedSeatIdsSet}
             />
 
-            {blocks.length === 0 && (
+            {levelBlocks.length === 0 && (
               <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                 <div className="text-center max-w-md px-8">
                   <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mx-auto mb-5 shadow-sm">
@@ -306,7 +616,7 @@ export default function Home() {
               </div>
             )}
 
-            <ModeToolbar mode={mode} onModeChange={setMode} stats={stats} onUndo={undo} canUndo={canUndo} />
+            <ModeToolbar mode={mode} onModeChange={setMode} stats={stats} categories={categories} onUndo={undo} canUndo={canUndo} onRedo={redo} canRedo={canRedo} />
           </main>
 
           {/* 右サイドバー（抽選モード時のみ） */}
@@ -326,6 +636,33 @@ export default function Home() {
       ) : (
         <CustomerManager />
       )}
+
+      <VenueLibraryDialog
+        open={isLibraryOpen}
+        onOpenChange={setIsLibraryOpen}
+        venues={savedVenues}
+        loading={isLibraryLoading}
+        currentVenueId={currentVenueId}
+        onOpenVenue={handleOpenVenue}
+        onNewVenue={handleNewVenue}
+        onRename={handleRenameVenue}
+        onDuplicate={handleDuplicateVenue}
+        onDelete={handleDeleteVenue}
+      />
+      <SeatMapExportDialog
+        open={isSeatMapExportOpen}
+        onOpenChange={setIsSeatMapExportOpen}
+        venueName={venueName}
+        blocks={blocks}
+        categories={categories}
+        stages={stages}
+        levels={levels}
+        annotations={venueAnnotations}
+        selectedBlockIds={selectedBlockIds}
+        seatColors={assignmentSeatColors}
+        pixelsPerMeter={pixelsPerMeter}
+      />
+      <VenueRecoveryDialog venue={recovery} onRecover={handleRecoverVenue} onDismiss={dismissRecovery} />
     </div>
   );
 }
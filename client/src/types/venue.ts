@@ -10,14 +10,63 @@ export interface Seat {
   col: number;
   localX: number; // Position relative to block origin
   localY: number;
-  isPremium: boolean;
+  categoryId?: string; // Seat category / price tier (unset = general admission)
   isDisabled: boolean; // Disabled seats are shown as semi-transparent with X mark
+  label?: string; // Export only: seat label resolved from the block numbering
+  number?: string; // ばら席のみ: 個別の席番号（未指定=追加順の連番）
+  neighbors?: string[]; // ばら席のみ: 隣接席のID（抽選の連席判定は row/col ではなくこれを使う）
 }
 
-// A block of seats (rectangular grid)
+// Per-row layout for non-rectangular blocks (balconies, side wings)
+export interface RowLayout {
+  seats: number; // 行の座席数
+  offset: number; // 行の左端オフセット（座席間隔単位。0.5 で半席ずれ）
+}
+
+// Aisle gaps inside a block (seat numbering stays continuous across them)
+export interface BlockAisles {
+  afterCols: number[]; // この列（0始まり、行レイアウト時はオフセット込みの列位置）の後に縦通路
+  afterRows: number[]; // この行（0始まり）の後に横通路
+  width: number; // 通路幅（px）
+}
+
+// Seat category / price tier (S席, A席, BOX席 …)
+export interface SeatCategory {
+  id: string;
+  name: string;
+  color: string; // キャンバス上の塗り色
+  price: number; // 価格（円）
+  weight: number; // 抽選時の座席スコアへの加点（旧プレミアム席=1000）
+}
+
+// Legacy seat shape (before categories): isPremium is migrated to a category on import
+export interface LegacySeat extends Seat {
+  isPremium?: boolean;
+}
+
+// Seat numbering scheme (drives every seat label: canvas, tooltip, CSV, exports)
+export type RowLabelStyle = 'number' | 'letter'; // letter: A, B, …（I と O は飛ばす）→ AA, BB, …
+export type ColumnDirection = 'ltr' | 'rtl'; // 列番号を左から / 右から振る
+export type OddEvenMode = 'all' | 'odd' | 'even'; // all: 連番、odd/even: 奇数のみ・偶数のみ（2飛び）
+
+export interface SeatNumbering {
+  rowLabel: RowLabelStyle;
+  colDirection: ColumnDirection;
+  rowStart: number; // 先頭行の番号（1始まり。letter では 1=A）
+  colStart: number; // 先頭席の番号（odd/even では偶奇に合わせて切り上げ）
+  oddEven: OddEvenMode;
+  prefix?: string; // ラベルの接頭辞（未指定=ブロック名、空文字=接頭辞なし）
+}
+
+// Block kind: grid = rows × cols generated from the layout parameters, loose = free-placement seats
+export type SeatBlockKind = 'grid' | 'loose';
+
+// A block of seats (rectangular grid, or per-row layout when rowLayout is set; loose blocks place seats one by one)
 export interface SeatBlock {
   id: string;
   name: string;
+  kind?: SeatBlockKind; // 未指定=grid
+  levelId?: string; // 所属する階（未指定・存在しない階=最初の階）
   x: number; // Block position on canvas
   y: number;
   rotation: number; // Rotation angle in degrees
@@ -27,22 +76,142 @@ export interface SeatBlock {
   cols: number;
   seatSize: number; // Diameter of each seat
   seatGap: number; // Gap between seats
+  rowGap?: number; // 行の前後の間隔（未指定=seatGap）。実寸の列ピッチと前後間隔を別々に合わせるため
   skewX: number; // 行ごとの横方向オフセット量（px）: 各行のlocalXに row*skewX を加算
   staggerX: number; // 千鳥配置: 奇数行の横オフセット量（px）。典型的には spacing/2
   curveRadius: number; // 扇形配置: 0=直線、正の値=円弧の半径（px）。大きいほど緩やかなカーブ
+  rowLayout?: RowLayout[]; // 非矩形ブロック: 行ごとの席数・左オフセット（未指定=rows×colsの矩形）
+  aisles?: BlockAisles; // ブロック内通路（未指定=通路なし）
+  numbering?: SeatNumbering; // 座席番号の振り方（未指定=数字・左から1始まり）
   seats: Seat[];
 }
 
+// Grid size edited on an existing block (seats regenerate, ids and flags kept per (row, col))
+export type BlockGridChanges = Partial<Pick<SeatBlock, 'rows' | 'cols' | 'seatSize' | 'seatGap' | 'rowGap'>>;
+
+// Block transform committed by the canvas Transformer
+export interface BlockTransform {
+  x: number;
+  y: number;
+  rotation: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+// Multi-block alignment / distribution (canvas bounding boxes)
+export type BlockAlignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type BlockDistribution = 'horizontal' | 'vertical';
+
+// Block mirroring: horizontal = 左右反転, vertical = 上下反転 (around each block's center or the stage axis)
+export type MirrorAxis = 'horizontal' | 'vertical';
+export type MirrorPivot = 'block' | 'stage';
+
+// Snap settings for block drag / rotate (saved with the venue)
+export interface SnapSettings {
+  grid: boolean; // ブロックの外接矩形の左上をグリッドに吸着
+  gridSize: number; // グリッド間隔（px）
+  objects: boolean; // 他ブロックの端・中心に吸着（マゼンタのガイド線を表示）
+  rotation: boolean; // 回転を rotationStep 刻み・他ブロックの角度に吸着
+  rotationStep: number; // 回転の刻み（度）
+}
+
 // Background image configuration
+// Background source format: raster = JPG/PNG/WebP, svg / pdf = vector floor plans rendered at the current zoom
+export type BackgroundKind = 'raster' | 'svg' | 'pdf';
+
 export interface BackgroundImage {
-  src: string;
-  width: number;
+  src: string; // data URL（SVG・PDF は元データのまま保持し、書き出してもベクターのまま）
+  kind?: BackgroundKind; // 未指定=raster
+  pdfPage?: number; // PDF の表示ページ（1始まり）
+  width: number; // 原寸（px。PDF は 1pt = 1px）
   height: number;
   opacity: number;
+  // 配置（未指定=原点・原寸・回転なし）。回転・拡大縮小は左上を基準にする
+  x?: number;
+  y?: number;
+  scale?: number; // 縦横同率（図面の縦横比は変えない）
+  rotation?: number; // 度
+  locked?: boolean; // キャンバス上で選択・移動できないようにする
+}
+
+// Background placement edited on the canvas or in the background panel
+export type BackgroundTransform = Required<Pick<BackgroundImage, 'x' | 'y' | 'scale' | 'rotation'>>;
+
+// Venue level / floor (1F stalls, 2F circle, 3F balcony). Blocks and annotations belong to one level
+export interface VenueLevel {
+  id: string;
+  name: string; // 複数階のとき座席ラベルの先頭に付く
+  weight: number; // 抽選時の座席スコア加点（カテゴリの加点に加算）
+  backgroundImage: BackgroundImage | null;
+}
+
+// Venue annotations (walls, aisles, exits, pillars, captions) drawn on the canvas and in exports
+export type AnnotationKind = 'polyline' | 'polygon' | 'rect' | 'text' | 'icon';
+export type AnnotationIcon = 'exit' | 'toilet' | 'camera';
+
+interface AnnotationBase {
+  id: string;
+  levelId?: string; // 所属する階（未指定=最初の階）
+  x: number; // キャンバス座標（ライン・多角形は始点、矩形は左上、アイコンは中心）
+  y: number;
+  rotation?: number;
+  color: string;
+}
+
+// polyline: 壁・通路など開いた線、polygon: 柱・エリアなど閉じた図形
+export interface PathAnnotation extends AnnotationBase {
+  kind: 'polyline' | 'polygon';
+  points: number[]; // x, y からの相対座標 [x0, y0, x1, y1, …]
+  strokeWidth: number;
+  dashed?: boolean;
+  filled?: boolean; // polygon のみ
+}
+
+export interface RectAnnotation extends AnnotationBase {
+  kind: 'rect';
+  width: number;
+  height: number;
+  strokeWidth: number;
+  dashed?: boolean;
+  filled?: boolean;
 }
 
+export interface TextAnnotation extends AnnotationBase {
+  kind: 'text';
+  text: string;
+  fontSize: number;
+}
+
+export interface IconAnnotation extends AnnotationBase {
+  kind: 'icon';
+  icon: AnnotationIcon;
+  size: number;
+}
+
+export type Annotation = PathAnnotation | RectAnnotation | TextAnnotation | IconAnnotation;
+
+// Annotation mode tool: select / move / edit, or the kind of annotation to draw
+export type AnnotationTool = 'select' | AnnotationKind;
+
 // Editor mode types
-export type EditorMode = 'normal' | 'premium' | 'disable' | 'lottery';
+export type EditorMode = 'normal' | 'premium' | 'category' | 'disable' | 'seatPen' | 'annotate' | 'measure' | 'lottery';
+
+// Real-world scale: a reference line drawn over a known dimension of the floor plan
+export interface ScaleCalibration {
+  points: number[]; // 基準線の両端 [x1, y1, x2, y2]（キャンバス座標）
+  meters: number; // 基準線の実寸（m）
+}
+
+// Measure mode tools: measure = 距離を測る, calibrate = 基準線で縮尺を合わせる
+export type MeasureTool = 'measure' | 'calibrate';
+
+// Seat mark detection on the background image (analysed offline on a canvas)
+export interface SeatDetectionOptions {
+  threshold: number | null; // 二値化のしきい値（0-255。null=自動）
+  invert: boolean; // 暗い地に明るい印の図面
+  minSize: number; // 座席とみなす印の大きさ（背景の原寸 px）
+  maxSize: number;
+}
 
 /** 座席品質の相対評価 */
 export type SeatQuality = 'top' | 'good' | 'normal' | 'back' | 'far';
@@ -67,6 +236,7 @@ export interface LotteryAssignment {
   applicationId: string;
   seatIds: string[];
   totalScore: number;
+  distanceFromStage?: number; // 座席の平均のステージ距離（縮尺設定時は m、それ以外は px。関係者ロックは未設定）
   color: string; // Display color for visualization
   isInvitation: boolean; // 優待券ステータス
   isRelation: boolean;
@@ -89,10 +259,31 @@ export interface LockedSeat {
   seatIds: string[];    // グループ全員の座席ID配列
 }
 
-// Stage position for lottery
-export interface StagePosition {
-  x: number;
-  y: number;
+// 抽選の設定（プロジェクトファイルに保存）
+export interface LotterySettings {
+  skillWeight: number;
+  lockedSeats: LockedSeat[];
+}
+
+// Stage outline (closed polygon, canvas coordinates). Several allowed: thrust stage, runway, 360° center stage
+// 抽選の座席スコアは最も近いステージの縁までの距離で決まる
+export interface StageShape {
+  id: string;
+  name: string;
+  points: number[]; // 頂点 [x0, y0, x1, y1, …]
+}
+
+// Stage shape presets: rect = 通常, thrust = 張り出し（客席側に突き出す）, round = センター（円形）
+export type StagePreset = 'rect' | 'thrust' | 'round';
+
+// Editable venue document: everything covered by undo/redo history
+export interface VenueDocument {
+  blocks: SeatBlock[];
+  categories: SeatCategory[];
+  annotations: Annotation[];
+  levels: VenueLevel[]; // 最低1つ。背景画像は階ごと
+  stages: StageShape[];
+  calibration: ScaleCalibration | null; // 未設定=実寸なし（px のみ）
 }
 
 // Selection rectangle for drag selection
@@ -103,6 +294,12 @@ export interface SelectionRect {
   height: number;
 }
 
+// Drag selection modifier: replace (plain drag), add (Shift), subtract (Alt)
+export type SeatSelectionOp = 'replace' | 'add' | 'subtract';
+
+// Bulk paint action applied to the selected seats' flag or category
+export type SeatPaintAction = 'set' | 'clear' | 'toggle';
+
 // Canvas state
 export interface CanvasState {
   scale: number;
@@ -110,18 +307,76 @@ export interface CanvasState {
   offsetY: number;
 }
 
+// Project file format: json = 1ファイル（背景は data URL のまま）、zip = venue.json と背景ファイルを分けて格納
+export type ProjectFileFormat = 'json' | 'zip';
+
 // Complete venue data for export/import
 export interface VenueData {
   version: string;
   name: string;
   createdAt: string;
   updatedAt: string;
-  canvasWidth: number;
+  canvasWidth: number; // 内容（ブロック・背景・ステージ）が収まる大きさ（原点から右端・下端まで）
   canvasHeight: number;
   blocks: SeatBlock[];
-  backgroundImage?: BackgroundImage;
+  categories?: SeatCategory[]; // 未指定=旧形式（isPremium のみ）
+  snap?: SnapSettings; // 未指定=既定のスナップ設定
+  annotations?: Annotation[]; // 未指定=注釈なし
+  stages?: StageShape[]; // 未指定=既定のステージ
+  levels?: VenueLevel[]; // 未指定=1階のみ
+  calibration?: ScaleCalibration; // 未指定=縮尺なし
+  pixelsPerMeter?: number; // 書き出し時の縮尺（calibration から算出。読込時は使わない）
+  backgroundImage?: BackgroundImage; // 旧形式: 階のない背景（読込時は最初の階の背景にする。書き出しは levels に含める）
+  lottery?: LotterySettings; // 未指定=抽選設定なし
+}
+
+// Result of validating an imported VenueData file (shown to the user before it is applied)
+export interface ImportReport {
+  sourceVersion: string; // ファイルのバージョン（未指定=1.0）
+  migrations: string[]; // 適用したバージョン移行
+  repairedFields: string[]; // 既定値で補完・修正した項目
+  droppedItems: string[]; // 読み込めず除外した座席・注釈など
+  duplicateSeatIds: string[]; // 重複していた座席ID（2件目以降は新しいIDに振り直し）
+  blockCount: number;
+  seatCount: number;
+}
+
+export interface VenueImportResult {
+  data: VenueData;
+  report: ImportReport;
+}
+
+// Seat flags read from a seat inventory CSV (unset = the CSV leaves the flag unchanged)
+export interface SeatFlagUpdate {
+  seatId: string;
+  isDisabled?: boolean;
+  isPremium?: boolean; // true=プレミアムカテゴリにする、false=プレミアムなら解除（他のカテゴリは変えない）
 }
 
+// Result of matching a seat inventory CSV against the current blocks
+export interface SeatInventoryImport {
+  updates: SeatFlagUpdate[];
+  rowCount: number; // 空行を除いたデータ行数
+  unmatched: string[]; // 一致する座席がなかったラベル / ID
+  ambiguous: string[]; // 複数の座席に一致したラベル（反映しない）
+  invalidRows: string[]; // フラグの値を解釈できなかった行
+}
+
+// Venue kept in the local library (IndexedDB). Auto-saved while it is open in the editor
+export interface SavedVenue {
+  id: string;
+  name: string;
+  data: VenueData; // 保存ファイルと同じ内容（背景は data URL のまま）
+  thumbnail: string; // 一覧用の縮小画像（PNG の data URL）
+  blockCount: number;
+  seatCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Library list entry (一覧用の項目だけを venues ストアに置き、会場データ本体は venueData ストアから開くときだけ読む)
+export type SavedVenueSummary = Omit<SavedVenue, 'data'>;
+
 // Block generator form data
 export interface BlockGeneratorForm {
   name: string;
@@ -129,9 +384,11 @@ export interface BlockGeneratorForm {
   cols: number;
   seatSize: number;
   seatGap: number;
+  rowGap?: number; // 行の前後の間隔（未指定=seatGap）
   skewX: number; // 行ごとの横方向オフセット量（px）
   staggerX: number; // 千鳥配置オフセット量（px）
   curveRadius: number; // 扇形配置の半径（px）: 0=直線
+  taper: number; // 台形: 行ごとの席数の増減（0=長方形、負の値=後方ほど狭い）
 }
 
 // Winner information for CSV export
@@ -139,9 +396,10 @@ export interface WinnerInfo {
   memberId: string;
   name: string;
   address: string;
-  seatLabel: string; // e.g., "A-1-5" (Block-Row-Col)
+  seatLabel: string; // e.g., "A-1-5" (Prefix-Row-Seat, see SeatNumbering)
   attribute: string; // VIP / 関係者 / 救済 / 一般
   score: number;
+  distanceFromStage?: number; // LotteryAssignment.distanceFromStage と同じ
   tier: 0 | 1 | 2 | 3;
   seatQuality?: SeatQuality;
   pastScore: number;